@@ -12,6 +12,22 @@ export default [
     },
     settings: {
       'boundaries/elements': [
+        { type: 'refresh-token-store-file', pattern: 'src/backend/refresh-token-store/providers/file' },
+        { type: 'user-store-file', pattern: 'src/backend/user-store/providers/file' },
+        { type: 'frontend-testing', pattern: 'src/frontend/providers/testing' },
+        { type: 'backend-action-tokens', pattern: 'src/backend/action-tokens' },
+        { type: 'backend-core', pattern: 'src/backend/core' },
+        { type: 'backend-email-links', pattern: 'src/backend/email-links' },
+        { type: 'backend-http', pattern: 'src/backend/http' },
+        { type: 'backend-mfa', pattern: 'src/backend/mfa' },
+        { type: 'backend-phone-codes', pattern: 'src/backend/phone-codes' },
+        { type: 'backend-providers', pattern: 'src/backend/providers' },
+        { type: 'backend-refresh-tokens', pattern: 'src/backend/refresh-tokens' },
+        { type: 'password-hasher-providers', pattern: 'src/password-hasher/providers' },
+        { type: 'emulator', pattern: 'src/emulator' },
+        { type: 'file-lock', pattern: 'src/file-lock' },
+        { type: 'mfa', pattern: 'src/mfa' },
+        { type: 'oidc', pattern: 'src/oidc' },
         { type: 'root', pattern: 'src' }
       ] 
     },
@@ -22,6 +38,22 @@ export default [
         {
           default: 'disallow',
           rules: [
+            { from: 'refresh-token-store-file', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'user-store-file', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'frontend-testing', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-action-tokens', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-core', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-email-links', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-http', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-mfa', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-phone-codes', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-providers', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'backend-refresh-tokens', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'password-hasher-providers', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'emulator', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'file-lock', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'mfa', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
+            { from: 'oidc', allow: ['rxjs', '@j2blasco/ts-result', 'crypto', 'fs', 'fs/promises', 'http', 'os', 'path'] },
             { from: 'root', allow: ['rxjs', '@j2blasco/ts-result'] }
           ]
         }
@@ -31,7 +63,23 @@ export default [
         {
           default: 'disallow',
           rules: [
-
+            { from: 'refresh-token-store-file', allow: ['root', 'file-lock'] },
+            { from: 'user-store-file', allow: ['root', 'file-lock'] },
+            { from: 'frontend-testing', allow: ['root', 'backend-http', 'backend-providers', 'oidc', 'password-hasher-providers'] },
+            { from: 'backend-action-tokens', allow: ['root'] },
+            { from: 'backend-core', allow: ['root', 'backend-action-tokens', 'backend-email-links', 'backend-mfa', 'backend-phone-codes', 'backend-refresh-tokens', 'mfa', 'oidc', 'password-hasher-providers'] },
+            { from: 'backend-email-links', allow: ['root', 'backend-action-tokens'] },
+            { from: 'backend-http', allow: ['root', 'backend-core'] },
+            { from: 'backend-mfa', allow: ['root', 'backend-action-tokens'] },
+            { from: 'backend-phone-codes', allow: ['root', 'backend-action-tokens'] },
+            { from: 'backend-providers', allow: ['root', 'backend-core', 'oidc', 'refresh-token-store-file', 'user-store-file'] },
+            { from: 'backend-refresh-tokens', allow: ['root', 'backend-action-tokens', 'backend-core'] },
+            { from: 'password-hasher-providers', allow: ['root'] },
+            { from: 'emulator', allow: ['root', 'backend-core', 'backend-http', 'backend-providers', 'mfa', 'user-store-file'] },
+            { from: 'file-lock', allow: ['root'] },
+            { from: 'mfa', allow: ['root'] },
+            { from: 'oidc', allow: ['root', 'backend-action-tokens', 'backend-providers'] },
+            { from: 'root', allow: ['backend-core', 'backend-email-links', 'backend-http', 'backend-phone-codes', 'backend-providers', 'emulator', 'frontend-testing', 'mfa', 'oidc', 'password-hasher-providers', 'refresh-token-store-file', 'user-store-file'] }
           ]
         }
       ]
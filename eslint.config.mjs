@@ -45,6 +45,35 @@ export default [
       "prettier/prettier": "error",
     },
   },
+  {
+    // Tests run on Node wherever they sit. The generic suites ship with the
+    // package, so they keep to the rules of their folder.
+    files: ["src/**/*.test.ts"],
+    ignores: ["src/**/*.generic.test.ts"],
+    rules: {
+      "boundaries/external": [
+        2,
+        {
+          default: "disallow",
+          rules: [
+            {
+              from: "*",
+              allow: [
+                "rxjs",
+                "@j2blasco/ts-result",
+                "crypto",
+                "fs",
+                "fs/promises",
+                "http",
+                "os",
+                "path",
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  },
   {
     ignores: [
       "node_modules/**",
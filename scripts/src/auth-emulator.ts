@@ -0,0 +1,69 @@
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import {
+  AuthEmulator,
+  authEmulatorAdminKeyHeader,
+  authEmulatorDefaultPort,
+} from '../../src/emulator/auth-emulator';
+
+const usage = `Usage: npm run emulator -- [options]
+
+Options:
+  --port <port>        Port to listen on (default ${authEmulatorDefaultPort})
+  --host <host>        Interface to bind (default 127.0.0.1)
+  --data <file>        Persist users to this JSON file
+  --admin-key <key>    Key for the admin routes (default: random, or
+                       AUTH_EMULATOR_ADMIN_KEY)
+  --help               Show this message
+`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      data: { type: 'string' },
+      'admin-key': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const port = values.port ? Number(values.port) : authEmulatorDefaultPort;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${values.port}`);
+    process.exit(1);
+  }
+
+  const emulator = new AuthEmulator({
+    dataFilePath: values.data,
+    adminKey: values['admin-key'] ?? process.env.AUTH_EMULATOR_ADMIN_KEY,
+  });
+  const { url } = await emulator.start({ port, host: values.host });
+
+  console.log(`Auth emulator listening on ${url}`);
+  console.log(
+    `Admin routes need the header ${authEmulatorAdminKeyHeader}: ${emulator.adminKey}`
+  );
+  if (values.data) {
+    console.log(`Persisting users to ${values.data}`);
+  }
+
+  const shutdown = async () => {
+    await emulator.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (fileURLToPath(import.meta.url) === process.argv[1]) {
+  main().catch((error) => {
+    console.error('Error starting the auth emulator:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,86 @@
+import { IAttemptTracker } from './attempt-tracker.interface';
+
+/**
+ * Comprehensive test suite for IAttemptTracker implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testAttemptTracker(tracker: IAttemptTracker): void {
+  describe('IAttemptTracker implementation tests', () => {
+    const forgetAfterMs = 60 * 1000;
+    let keyCounter = 0;
+
+    // The tracker is shared by all tests, so each uses keys of its own.
+    function uniqueKey(): string {
+      keyCounter++;
+      return `test-key-${Date.now()}-${keyCounter}`;
+    }
+
+    it('should have no record for a key without failures', async () => {
+      const result = await tracker.get(uniqueKey());
+
+      expect(result.unwrapOrThrow()).toBeUndefined();
+    });
+
+    it('should count failures per key', async () => {
+      const key = uniqueKey();
+      const otherKey = uniqueKey();
+      await tracker.recordFailure({ key, forgetAfterMs });
+      await tracker.recordFailure({ key: otherKey, forgetAfterMs });
+
+      const recorded = (
+        await tracker.recordFailure({ key, forgetAfterMs })
+      ).unwrapOrThrow();
+
+      expect(recorded.failures).toBe(2);
+      expect((await tracker.get(key)).unwrapOrThrow()).toEqual(recorded);
+      expect((await tracker.get(otherKey)).unwrapOrThrow()?.failures).toBe(1);
+    });
+
+    it('should count concurrent failures', async () => {
+      const key = uniqueKey();
+
+      await Promise.all(
+        Array.from({ length: 5 }, () =>
+          tracker.recordFailure({ key, forgetAfterMs }),
+        ),
+      );
+
+      expect((await tracker.get(key)).unwrapOrThrow()?.failures).toBe(5);
+    });
+
+    it('should record when the last failure happened', async () => {
+      const before = Date.now();
+
+      const recorded = (
+        await tracker.recordFailure({ key: uniqueKey(), forgetAfterMs })
+      ).unwrapOrThrow();
+
+      expect(recorded.lastFailedAt).toBeGreaterThanOrEqual(before);
+      expect(recorded.lastFailedAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should forget failures on reset', async () => {
+      const key = uniqueKey();
+      await tracker.recordFailure({ key, forgetAfterMs });
+
+      await tracker.reset(key);
+
+      expect((await tracker.get(key)).unwrapOrThrow()).toBeUndefined();
+    });
+
+    it('should reset a key without failures', async () => {
+      const result = await tracker.reset(uniqueKey());
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should forget failures after forgetAfterMs without another', async () => {
+      const key = uniqueKey();
+      await tracker.recordFailure({ key, forgetAfterMs: 50 });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect((await tracker.get(key)).unwrapOrThrow()).toBeUndefined();
+    });
+  });
+}
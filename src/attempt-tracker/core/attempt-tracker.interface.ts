@@ -0,0 +1,23 @@
+import { ErrorUnknown, Result } from '@j2blasco/ts-result';
+
+// Failed attempts counted under one key since it was last reset.
+export type AttemptRecord = {
+  failures: number;
+  // ms since epoch.
+  lastFailedAt: number;
+};
+
+// Counts failed attempts per key, such as an account or a client address.
+// Servers sharing one tracker, e.g. one backed by Redis, count together.
+export interface IAttemptTracker {
+  // Undefined when the key has no failures, or they were forgotten.
+  get(key: string): Promise<Result<AttemptRecord | undefined, ErrorUnknown>>;
+  // Counts one more failure and returns the new record. Concurrent failures
+  // must all count. The record may be forgotten once forgetAfterMs passes
+  // without another failure.
+  recordFailure(args: {
+    key: string;
+    forgetAfterMs: number;
+  }): Promise<Result<AttemptRecord, ErrorUnknown>>;
+  reset(key: string): Promise<Result<void, ErrorUnknown>>;
+}
@@ -0,0 +1,21 @@
+import { testAttemptTracker } from '../../core/attempt-tracker.generic.test';
+import { InMemoryAttemptTracker } from './attempt-tracker.memory';
+
+describe('InMemoryAttemptTracker', () => {
+  testAttemptTracker(new InMemoryAttemptTracker());
+
+  describe('InMemoryAttemptTracker specific features', () => {
+    it('should start counting over once the failures were forgotten', async () => {
+      const tracker = new InMemoryAttemptTracker();
+      await tracker.recordFailure({ key: 'key', forgetAfterMs: 50 });
+      await tracker.recordFailure({ key: 'key', forgetAfterMs: 50 });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const recorded = (
+        await tracker.recordFailure({ key: 'key', forgetAfterMs: 50 })
+      ).unwrapOrThrow();
+
+      expect(recorded.failures).toBe(1);
+    });
+  });
+});
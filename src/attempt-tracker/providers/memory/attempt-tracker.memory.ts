@@ -0,0 +1,73 @@
+import {
+  ErrorUnknown,
+  Result,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import {
+  AttemptRecord,
+  IAttemptTracker,
+} from '../../core/attempt-tracker.interface';
+import { IClock, systemClock } from '../../../clock/clock';
+
+export type InMemoryAttemptTrackerOptions = {
+  // Dates failures and decides when they are forgotten.
+  clock?: IClock;
+};
+
+type StoredAttempts = AttemptRecord & { forgetAt: number };
+
+/**
+ * Keeps the counts in this process, so each server counts on its own and a
+ * restart forgets them. Fine for tests and single-instance deployments.
+ */
+export class InMemoryAttemptTracker implements IAttemptTracker {
+  private readonly records = new Map<string, StoredAttempts>();
+  private readonly clock: IClock;
+
+  constructor(options: InMemoryAttemptTrackerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public async get(
+    key: string,
+  ): Promise<Result<AttemptRecord | undefined, ErrorUnknown>> {
+    return resultSuccess(this.find(key, this.clock.now()));
+  }
+
+  public async recordFailure(args: {
+    key: string;
+    forgetAfterMs: number;
+  }): Promise<Result<AttemptRecord, ErrorUnknown>> {
+    const now = this.clock.now();
+    const failures = (this.find(args.key, now)?.failures ?? 0) + 1;
+    this.forgetExpired(now);
+    this.records.set(args.key, {
+      failures,
+      lastFailedAt: now,
+      forgetAt: now + args.forgetAfterMs,
+    });
+    return resultSuccess({ failures, lastFailedAt: now });
+  }
+
+  public async reset(key: string): Promise<Result<void, ErrorUnknown>> {
+    this.records.delete(key);
+    return resultSuccessVoid();
+  }
+
+  private find(key: string, now: number): AttemptRecord | undefined {
+    const stored = this.records.get(key);
+    if (!stored || now >= stored.forgetAt) {
+      return undefined;
+    }
+    return { failures: stored.failures, lastFailedAt: stored.lastFailedAt };
+  }
+
+  private forgetExpired(now: number): void {
+    for (const [key, stored] of this.records) {
+      if (now >= stored.forgetAt) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { firstValueFrom } from 'rxjs';
+import { AuthChannelMessage, IAuthChannel } from './auth-channel.interface';
+
+let channelCounter = 0;
+
+/**
+ * Channel names are unique per test so connections left by one do not lead
+ * in the next
+ */
+function uniqueChannelName(): string {
+  channelCounter += 1;
+  return `test-channel-${Date.now()}-${channelCounter}`;
+}
+
+// Long enough for a message or a change of lead to get through.
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+function isLeader(channel: IAuthChannel): Promise<boolean> {
+  return firstValueFrom(channel.isLeader$);
+}
+
+/**
+ * Comprehensive test suite for IAuthChannel implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ * connect opens a new connection to the channel of that name.
+ */
+export function testAuthChannel(connect: (name: string) => IAuthChannel): void {
+  describe('IAuthChannel implementation tests', () => {
+    let name: string;
+    let connections: IAuthChannel[];
+
+    beforeEach(() => {
+      name = uniqueChannelName();
+      connections = [];
+    });
+
+    function open(channelName = name): IAuthChannel {
+      const connection = connect(channelName);
+      connections.push(connection);
+      return connection;
+    }
+
+    async function closeAll(): Promise<void> {
+      await Promise.all(connections.map((connection) => connection.close()));
+    }
+
+    it('should deliver a message to the other connections but not the sender', async () => {
+      const sender = open();
+      const receiver = open();
+      const sent: AuthChannelMessage[] = [];
+      sender.messages$.subscribe((message) => sent.push(message));
+      const received = firstValueFrom(receiver.messages$);
+
+      const result = await sender.post({ type: 'signed-in', session: '{}' });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+      expect(await received).toEqual({ type: 'signed-in', session: '{}' });
+      await settle();
+      expect(sent).toEqual([]);
+      await closeAll();
+    });
+
+    it('should deliver messages in the order they were posted', async () => {
+      const sender = open();
+      const receiver = open();
+      const received: AuthChannelMessage[] = [];
+      receiver.messages$.subscribe((message) => received.push(message));
+
+      await sender.post({ type: 'signed-in', session: '{}' });
+      await sender.post({ type: 'signed-out' });
+      await settle();
+
+      expect(received.map((message) => message.type)).toEqual([
+        'signed-in',
+        'signed-out',
+      ]);
+      await closeAll();
+    });
+
+    it('should keep channels of other names apart', async () => {
+      const sender = open();
+      const stranger = open(uniqueChannelName());
+      const received: AuthChannelMessage[] = [];
+      stranger.messages$.subscribe((message) => received.push(message));
+
+      await sender.post({ type: 'signed-out' });
+      await settle();
+
+      expect(received).toEqual([]);
+      await closeAll();
+    });
+
+    it('should stop delivering to a closed connection', async () => {
+      const sender = open();
+      const receiver = open();
+      const received: AuthChannelMessage[] = [];
+      receiver.messages$.subscribe((message) => received.push(message));
+
+      await receiver.close();
+      await sender.post({ type: 'signed-out' });
+      await settle();
+
+      expect(received).toEqual([]);
+      await closeAll();
+    });
+
+    it('should let exactly one open connection lead', async () => {
+      const channels = [open(), open(), open()];
+      await settle();
+
+      const leading = await Promise.all(channels.map(isLeader));
+
+      expect(leading.filter(Boolean)).toHaveLength(1);
+      await closeAll();
+    });
+
+    it('should hand the lead over when the leader closes', async () => {
+      const channels = [open(), open()];
+      await settle();
+      const leaders = await Promise.all(channels.map(isLeader));
+      const leader = channels[leaders.indexOf(true)];
+      const follower = channels[leaders.indexOf(false)];
+
+      await leader.close();
+      await settle();
+
+      expect(await isLeader(leader)).toBe(false);
+      expect(await isLeader(follower)).toBe(true);
+      await closeAll();
+    });
+
+    it('should close a connection twice', async () => {
+      const connection = open();
+      await connection.close();
+
+      const result = await connection.close();
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+  });
+}
@@ -0,0 +1,26 @@
+import { ErrorUnknown, Result } from '@j2blasco/ts-result';
+import { Observable } from 'rxjs';
+
+// What a frontend tells the other instances of the app, e.g. its other tabs.
+// session is the sender's own serialised session, so only instances of the
+// same frontend provider understand each other.
+export type AuthChannelMessage =
+  | {
+      type: 'signed-in' | 'token-refreshed' | 'user-updated';
+      session: string;
+    }
+  | { type: 'signed-out' }
+  | { type: 'account-deleted' };
+
+// Connects the frontend instances of one browser. Each instance opens its own
+// connection to the channel.
+export interface IAuthChannel {
+  // Messages posted through the other connections, never this one's own.
+  messages$: Observable<AuthChannelMessage>;
+  // True while this connection leads. At most one open connection leads at a
+  // time, and when it closes another one takes over.
+  isLeader$: Observable<boolean>;
+  post(message: AuthChannelMessage): Promise<Result<void, ErrorUnknown>>;
+  // Stops receiving, and hands over the lead if this connection had it.
+  close(): Promise<Result<void, ErrorUnknown>>;
+}
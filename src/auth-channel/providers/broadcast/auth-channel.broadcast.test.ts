@@ -0,0 +1,59 @@
+import { firstValueFrom } from 'rxjs';
+import { testAuthChannel } from '../../core/auth-channel.generic.test';
+import { BroadcastAuthChannel, WebLocks } from './auth-channel.broadcast';
+
+// Grants each lock to one holder at a time, in the order asked, like the
+// Web Locks API, which Node does not have.
+class QueueWebLocks implements WebLocks {
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  public request(
+    name: string,
+    callback: () => Promise<void>,
+  ): Promise<unknown> {
+    const held = (this.queues.get(name) ?? Promise.resolve()).then(callback);
+    this.queues.set(name, held);
+    return held;
+  }
+}
+
+describe('BroadcastAuthChannel', () => {
+  const locks = new QueueWebLocks();
+
+  testAuthChannel(
+    (name) =>
+      new BroadcastAuthChannel({
+        channel: new BroadcastChannel(name),
+        locks,
+        lockName: `${name}:leader`,
+      }),
+  );
+
+  describe('BroadcastAuthChannel specific features', () => {
+    it('should ignore messages that are not auth channel messages', async () => {
+      const other = new BroadcastChannel('foreign-messages');
+      const channel = new BroadcastAuthChannel({
+        channel: new BroadcastChannel('foreign-messages'),
+      });
+      const received: unknown[] = [];
+      channel.messages$.subscribe((message) => received.push(message));
+
+      other.postMessage({ type: 'something-else' });
+      other.postMessage({ type: 'signed-in' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(received).toEqual([]);
+      other.close();
+      await channel.close();
+    });
+
+    it('should not lead without Web Locks', async () => {
+      const channel = new BroadcastAuthChannel({
+        channel: new BroadcastChannel('without-locks'),
+      });
+
+      expect(await firstValueFrom(channel.isLeader$)).toBe(false);
+      await channel.close();
+    });
+  });
+});
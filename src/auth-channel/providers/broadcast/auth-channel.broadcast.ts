@@ -0,0 +1,146 @@
+import {
+  ErrorUnknown,
+  Result,
+  resultError,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import {
+  AuthChannelMessage,
+  IAuthChannel,
+} from '../../core/auth-channel.interface';
+import { InMemoryAuthChannel } from '../memory/auth-channel.memory';
+
+// The parts of the BroadcastChannel and Web Locks APIs this adapter uses.
+export type WebBroadcastChannel = {
+  addEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  removeEventListener(
+    type: 'message',
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  postMessage(message: unknown): void;
+  close(): void;
+};
+
+export type WebLocks = {
+  request(name: string, callback: () => Promise<void>): Promise<unknown>;
+};
+
+// Other code may post on a channel of the same name.
+function isAuthChannelMessage(value: unknown): value is AuthChannelMessage {
+  const { type, session } = (value ?? {}) as {
+    type?: unknown;
+    session?: unknown;
+  };
+  switch (type) {
+    case 'signed-in':
+    case 'token-refreshed':
+    case 'user-updated':
+      return typeof session === 'string';
+    case 'signed-out':
+    case 'account-deleted':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Connects the tabs of one browser through a BroadcastChannel. The lead goes
+ * to whichever tab holds a Web Lock, which the browser hands to the next tab
+ * when the holder closes. Without Web Locks no tab leads.
+ */
+export class BroadcastAuthChannel implements IAuthChannel {
+  private readonly channel: WebBroadcastChannel;
+  private readonly messages = new Subject<AuthChannelMessage>();
+  private readonly isLeader = new BehaviorSubject(false);
+  private readonly receive = (event: { data: unknown }) => {
+    if (isAuthChannelMessage(event.data)) {
+      this.messages.next(event.data);
+    }
+  };
+  private releaseLock: (() => void) | undefined;
+  private closed = false;
+
+  constructor(args: {
+    channel: WebBroadcastChannel;
+    locks?: WebLocks;
+    // Defaults to one lock for all channels.
+    lockName?: string;
+  }) {
+    this.channel = args.channel;
+    this.channel.addEventListener('message', this.receive);
+    args.locks
+      ?.request(
+        args.lockName ?? 'auth-channel-leader',
+        () =>
+          new Promise<void>((resolve) => {
+            if (this.closed) {
+              resolve();
+              return;
+            }
+            this.releaseLock = resolve;
+            this.isLeader.next(true);
+          }),
+      )
+      .catch(() => undefined);
+  }
+
+  public get messages$(): Observable<AuthChannelMessage> {
+    return this.messages.asObservable();
+  }
+
+  public get isLeader$(): Observable<boolean> {
+    return this.isLeader.asObservable();
+  }
+
+  public async post(
+    message: AuthChannelMessage,
+  ): Promise<Result<void, ErrorUnknown>> {
+    if (this.closed) {
+      return resultSuccessVoid();
+    }
+    try {
+      this.channel.postMessage(message);
+      return resultSuccessVoid();
+    } catch {
+      return resultError.unknown('Failed to post to the broadcast channel');
+    }
+  }
+
+  public async close(): Promise<Result<void, ErrorUnknown>> {
+    if (this.closed) {
+      return resultSuccessVoid();
+    }
+    this.closed = true;
+    this.channel.removeEventListener('message', this.receive);
+    this.releaseLock?.();
+    this.isLeader.next(false);
+    try {
+      this.channel.close();
+      return resultSuccessVoid();
+    } catch {
+      return resultError.unknown('Failed to close the broadcast channel');
+    }
+  }
+}
+
+// Opens a BroadcastChannel of this name, led through the browser's Web Locks.
+// Falls back to an InMemoryAuthChannel where BroadcastChannel is missing.
+export function createBroadcastAuthChannel(name = 'auth'): IAuthChannel {
+  const globals = globalThis as {
+    BroadcastChannel?: new (name: string) => WebBroadcastChannel;
+    navigator?: { locks?: WebLocks };
+  };
+  if (!globals.BroadcastChannel) {
+    return new InMemoryAuthChannel(name);
+  }
+  return new BroadcastAuthChannel({
+    channel: new globals.BroadcastChannel(name),
+    locks: globals.navigator?.locks,
+    lockName: `${name}:leader`,
+  });
+}
@@ -0,0 +1,22 @@
+import { firstValueFrom } from 'rxjs';
+import { testAuthChannel } from '../../core/auth-channel.generic.test';
+import { InMemoryAuthChannel } from './auth-channel.memory';
+
+describe('InMemoryAuthChannel', () => {
+  testAuthChannel((name) => new InMemoryAuthChannel(name));
+
+  describe('InMemoryAuthChannel specific features', () => {
+    it('should let the oldest open connection lead', async () => {
+      const first = new InMemoryAuthChannel('oldest-leads');
+      const second = new InMemoryAuthChannel('oldest-leads');
+      const third = new InMemoryAuthChannel('oldest-leads');
+
+      await first.close();
+
+      expect(await firstValueFrom(second.isLeader$)).toBe(true);
+      expect(await firstValueFrom(third.isLeader$)).toBe(false);
+      await second.close();
+      await third.close();
+    });
+  });
+});
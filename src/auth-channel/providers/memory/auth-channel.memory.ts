@@ -0,0 +1,77 @@
+import { ErrorUnknown, Result, resultSuccessVoid } from '@j2blasco/ts-result';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import {
+  AuthChannelMessage,
+  IAuthChannel,
+} from '../../core/auth-channel.interface';
+
+// Open connections by channel name, oldest first.
+const openChannels = new Map<string, InMemoryAuthChannel[]>();
+
+/**
+ * Connects instances in this process that open a channel of the same name,
+ * like BroadcastChannel does across tabs. Messages arrive asynchronously, as
+ * they would there. The oldest open connection leads.
+ */
+export class InMemoryAuthChannel implements IAuthChannel {
+  private readonly messages = new Subject<AuthChannelMessage>();
+  private readonly isLeader = new BehaviorSubject(false);
+  private closed = false;
+
+  constructor(private readonly name: string = 'auth') {
+    const members = openChannels.get(name) ?? [];
+    members.push(this);
+    openChannels.set(name, members);
+    this.isLeader.next(members[0] === this);
+  }
+
+  public get messages$(): Observable<AuthChannelMessage> {
+    return this.messages.asObservable();
+  }
+
+  public get isLeader$(): Observable<boolean> {
+    return this.isLeader.asObservable();
+  }
+
+  public async post(
+    message: AuthChannelMessage,
+  ): Promise<Result<void, ErrorUnknown>> {
+    if (this.closed) {
+      return resultSuccessVoid();
+    }
+    // A copy, so receivers cannot change what the sender holds.
+    const copy = JSON.parse(JSON.stringify(message)) as AuthChannelMessage;
+    for (const member of openChannels.get(this.name) ?? []) {
+      if (member !== this) {
+        queueMicrotask(() => member.receive(copy));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async close(): Promise<Result<void, ErrorUnknown>> {
+    if (this.closed) {
+      return resultSuccessVoid();
+    }
+    this.closed = true;
+    const members = (openChannels.get(this.name) ?? []).filter(
+      (member) => member !== this,
+    );
+    if (members.length) {
+      openChannels.set(this.name, members);
+    } else {
+      openChannels.delete(this.name);
+    }
+    if (this.isLeader.value) {
+      this.isLeader.next(false);
+      members[0]?.isLeader.next(true);
+    }
+    return resultSuccessVoid();
+  }
+
+  private receive(message: AuthChannelMessage): void {
+    if (!this.closed) {
+      this.messages.next(message);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { IAuthStorage } from './auth-storage.interface';
+
+/**
+ * Comprehensive test suite for IAuthStorage implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testAuthStorage(storageFactory: () => IAuthStorage): void {
+  describe('IAuthStorage implementation tests', () => {
+    let storage: IAuthStorage;
+
+    beforeEach(() => {
+      storage = storageFactory();
+    });
+
+    it('should have no value for a key never set', async () => {
+      const result = await storage.get('missing');
+
+      expect(result.unwrapOrThrow()).toBeUndefined();
+    });
+
+    it('should return the value last set under a key', async () => {
+      await storage.set('key', 'first');
+      await storage.set('key', 'second');
+
+      const result = await storage.get('key');
+
+      expect(result.unwrapOrThrow()).toBe('second');
+    });
+
+    it('should keep keys apart', async () => {
+      await storage.set('key', 'value');
+      await storage.set('other-key', 'other value');
+
+      expect((await storage.get('key')).unwrapOrThrow()).toBe('value');
+      expect((await storage.get('other-key')).unwrapOrThrow()).toBe(
+        'other value',
+      );
+    });
+
+    it('should keep an empty string', async () => {
+      await storage.set('key', '');
+
+      expect((await storage.get('key')).unwrapOrThrow()).toBe('');
+    });
+
+    it('should forget a removed key only', async () => {
+      await storage.set('key', 'value');
+      await storage.set('other-key', 'other value');
+
+      await storage.remove('key');
+
+      expect((await storage.get('key')).unwrapOrThrow()).toBeUndefined();
+      expect((await storage.get('other-key')).unwrapOrThrow()).toBe(
+        'other value',
+      );
+    });
+
+    it('should remove a key never set', async () => {
+      const result = await storage.remove('missing');
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+  });
+}
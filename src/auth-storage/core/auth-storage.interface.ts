@@ -0,0 +1,10 @@
+import { ErrorUnknown, Result } from '@j2blasco/ts-result';
+
+// Where a frontend keeps its session between page loads. Values are strings,
+// so a browser's localStorage or sessionStorage can back it directly.
+export interface IAuthStorage {
+  // Undefined when nothing is stored under the key.
+  get(key: string): Promise<Result<string | undefined, ErrorUnknown>>;
+  set(key: string, value: string): Promise<Result<void, ErrorUnknown>>;
+  remove(key: string): Promise<Result<void, ErrorUnknown>>;
+}
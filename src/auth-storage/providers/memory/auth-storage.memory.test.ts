@@ -0,0 +1,6 @@
+import { testAuthStorage } from '../../core/auth-storage.generic.test';
+import { InMemoryAuthStorage } from './auth-storage.memory';
+
+describe('InMemoryAuthStorage', () => {
+  testAuthStorage(() => new InMemoryAuthStorage());
+});
@@ -0,0 +1,35 @@
+import {
+  ErrorUnknown,
+  Result,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { IAuthStorage } from '../../core/auth-storage.interface';
+
+/**
+ * Keeps values in this instance only, so nothing outlives it. Used where no
+ * browser storage exists, e.g. on a server or in tests. Hand the same instance
+ * to several frontends to have them share what they store.
+ */
+export class InMemoryAuthStorage implements IAuthStorage {
+  private readonly values = new Map<string, string>();
+
+  public async get(
+    key: string,
+  ): Promise<Result<string | undefined, ErrorUnknown>> {
+    return resultSuccess(this.values.get(key));
+  }
+
+  public async set(
+    key: string,
+    value: string,
+  ): Promise<Result<void, ErrorUnknown>> {
+    this.values.set(key, value);
+    return resultSuccessVoid();
+  }
+
+  public async remove(key: string): Promise<Result<void, ErrorUnknown>> {
+    this.values.delete(key);
+    return resultSuccessVoid();
+  }
+}
@@ -0,0 +1,53 @@
+import { testAuthStorage } from '../../core/auth-storage.generic.test';
+import { InMemoryAuthStorage } from '../memory/auth-storage.memory';
+import {
+  createLocalAuthStorage,
+  WebAuthStorage,
+  WebStorage,
+} from './auth-storage.web';
+
+// Behaves like localStorage, which Node does not have.
+class MapWebStorage implements WebStorage {
+  private readonly items = new Map<string, string>();
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe('WebAuthStorage', () => {
+  testAuthStorage(() => new WebAuthStorage(new MapWebStorage()));
+
+  describe('WebAuthStorage specific features', () => {
+    it('should write through to the web storage', async () => {
+      const webStorage = new MapWebStorage();
+
+      await new WebAuthStorage(webStorage).set('key', 'value');
+
+      expect(webStorage.getItem('key')).toBe('value');
+    });
+
+    it('should report a web storage that refuses writes', async () => {
+      const webStorage = new MapWebStorage();
+      webStorage.setItem = () => {
+        throw new Error('QuotaExceededError');
+      };
+
+      const result = await new WebAuthStorage(webStorage).set('key', 'value');
+
+      expect(() => result.unwrapOrThrow()).toThrow();
+    });
+
+    it('should fall back to memory without a browser', () => {
+      expect(createLocalAuthStorage()).toBeInstanceOf(InMemoryAuthStorage);
+    });
+  });
+});
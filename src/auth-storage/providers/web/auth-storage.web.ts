@@ -0,0 +1,84 @@
+import {
+  ErrorUnknown,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { IAuthStorage } from '../../core/auth-storage.interface';
+import { InMemoryAuthStorage } from '../memory/auth-storage.memory';
+
+// The part of the Web Storage API this adapter uses, which both
+// localStorage and sessionStorage provide.
+export type WebStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+/**
+ * Adapts localStorage or sessionStorage. Browsers may refuse access, e.g. when
+ * storage is disabled or full, which is reported as an unknown error rather
+ * than thrown.
+ */
+export class WebAuthStorage implements IAuthStorage {
+  constructor(private readonly storage: WebStorage) {}
+
+  public async get(
+    key: string,
+  ): Promise<Result<string | undefined, ErrorUnknown>> {
+    try {
+      return resultSuccess(this.storage.getItem(key) ?? undefined);
+    } catch {
+      return resultError.unknown('Failed to read from web storage');
+    }
+  }
+
+  public async set(
+    key: string,
+    value: string,
+  ): Promise<Result<void, ErrorUnknown>> {
+    try {
+      this.storage.setItem(key, value);
+      return resultSuccessVoid();
+    } catch {
+      return resultError.unknown('Failed to write to web storage');
+    }
+  }
+
+  public async remove(key: string): Promise<Result<void, ErrorUnknown>> {
+    try {
+      this.storage.removeItem(key);
+      return resultSuccessVoid();
+    } catch {
+      return resultError.unknown('Failed to remove from web storage');
+    }
+  }
+}
+
+// Reading the global itself throws in some browsers when storage is blocked.
+function globalWebStorage(
+  name: 'localStorage' | 'sessionStorage',
+): WebStorage | undefined {
+  try {
+    return (globalThis as Record<string, unknown>)[name] as
+      | WebStorage
+      | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Survives reloads and browser restarts. Falls back to memory outside a
+// browser.
+export function createLocalAuthStorage(): IAuthStorage {
+  const storage = globalWebStorage('localStorage');
+  return storage ? new WebAuthStorage(storage) : new InMemoryAuthStorage();
+}
+
+// Survives reloads but ends with the tab. Falls back to memory outside a
+// browser.
+export function createSessionAuthStorage(): IAuthStorage {
+  const storage = globalWebStorage('sessionStorage');
+  return storage ? new WebAuthStorage(storage) : new InMemoryAuthStorage();
+}
@@ -0,0 +1,22 @@
+import { ErrorWithCode } from '@j2blasco/ts-result';
+
+// Types the frontend and the backend both speak in. They live apart from
+// either so a frontend bundle never pulls in backend modules.
+
+// Application-defined claims such as roles. Every idToken carries the claims
+// the user had when it was issued, so a change shows up after the next refresh.
+export type AuthCustomClaims = { [claim: string]: unknown };
+
+// A recovery code stands in for the authenticator when it is lost.
+export type AuthMfaFactorType = 'totp' | 'recovery-code';
+
+// Describes the device a session was started from, as reported by the client.
+export type AuthClientMetadata = {
+  userAgent?: string;
+  ipAddress?: string;
+  deviceName?: string;
+};
+
+export type TooManyAttemptsError = ErrorWithCode<'too-many-attempts'> & {
+  retryAfterMs: number;
+};
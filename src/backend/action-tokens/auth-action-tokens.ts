@@ -0,0 +1,109 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import { IClock, systemClock } from '../../clock/clock';
+
+type StoredActionToken<TKind extends string> = {
+  kind: TKind;
+  uid: string;
+  expiresAt: number;
+};
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Single-use tokens for out-of-band account actions such as password resets.
+ * Only a SHA-256 of each token is kept, so a leaked snapshot of the state
+ * cannot be replayed.
+ */
+export class AuthActionTokens<TKind extends string> {
+  private tokens = new Map<string, StoredActionToken<TKind>>();
+  private lastIssuedAt = new Map<string, number>();
+
+  constructor(private readonly clock: IClock = systemClock) {}
+
+  public issue(args: {
+    kind: TKind;
+    uid: string;
+    lifetimeMs: number;
+    // Refuse a new token if one of the same kind was issued to this user more recently.
+    minIntervalMs?: number;
+  }): Result<
+    { token: string; expiresAt: number },
+    ErrorWithCode<'rate-limit-exceeded'>
+  > {
+    const now = this.clock.now();
+    const rateLimitKey = `${args.kind}:${args.uid}`;
+    const lastIssuedAt = this.lastIssuedAt.get(rateLimitKey);
+    if (
+      args.minIntervalMs !== undefined &&
+      lastIssuedAt !== undefined &&
+      now - lastIssuedAt < args.minIntervalMs
+    ) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = now + args.lifetimeMs;
+    this.tokens.set(hashToken(token), {
+      kind: args.kind,
+      uid: args.uid,
+      expiresAt,
+    });
+    this.lastIssuedAt.set(rateLimitKey, now);
+    return resultSuccess({ token, expiresAt });
+  }
+
+  // Like consume, but leaves the token usable, e.g. to check a new password
+  // before a reset spends the token.
+  public peek(args: {
+    kind: TKind;
+    token: string;
+  }): Result<
+    { uid: string },
+    ErrorWithCode<'token-not-found'> | ErrorWithCode<'token-expired'>
+  > {
+    const stored = this.tokens.get(hashToken(args.token));
+    if (!stored || stored.kind !== args.kind) {
+      return resultError.withCode('token-not-found');
+    }
+    if (this.clock.now() > stored.expiresAt) {
+      return resultError.withCode('token-expired');
+    }
+    return resultSuccess({ uid: stored.uid });
+  }
+
+  public consume(args: {
+    kind: TKind;
+    token: string;
+  }): Result<
+    { uid: string },
+    ErrorWithCode<'token-not-found'> | ErrorWithCode<'token-expired'>
+  > {
+    const key = hashToken(args.token);
+    const stored = this.tokens.get(key);
+    if (!stored || stored.kind !== args.kind) {
+      return resultError.withCode('token-not-found');
+    }
+
+    this.tokens.delete(key);
+    if (this.clock.now() > stored.expiresAt) {
+      return resultError.withCode('token-expired');
+    }
+    return resultSuccess({ uid: stored.uid });
+  }
+
+  public revokeAll(uid: string): void {
+    for (const [key, stored] of this.tokens) {
+      if (stored.uid === uid) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+}
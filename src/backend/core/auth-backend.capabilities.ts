@@ -0,0 +1,55 @@
+import type {
+  IAuthBackend,
+  IAuthBackendAnonymous,
+  IAuthBackendClaims,
+  IAuthBackendEmailLinks,
+  IAuthBackendMfa,
+  IAuthBackendOidc,
+  IAuthBackendPhone,
+  IAuthBackendSessions,
+} from './auth-backend.interface';
+
+// Each guard checks for one method of the capability: a backend implements a
+// capability whole or not at all.
+
+export function hasAuthBackendAnonymous<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendAnonymous {
+  return 'signInAnonymously' in backend;
+}
+
+export function hasAuthBackendEmailLinks<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendEmailLinks {
+  return 'signInWithEmailLink' in backend;
+}
+
+export function hasAuthBackendPhone<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendPhone {
+  return 'signInWithPhoneCode' in backend;
+}
+
+export function hasAuthBackendOidc<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendOidc {
+  return 'completeProviderSignIn' in backend;
+}
+
+export function hasAuthBackendMfa<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendMfa {
+  return 'enrollTotp' in backend;
+}
+
+export function hasAuthBackendSessions<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendSessions {
+  return 'listSessions' in backend;
+}
+
+export function hasAuthBackendClaims<TBackend extends IAuthBackend>(
+  backend: TBackend,
+): backend is TBackend & IAuthBackendClaims {
+  return 'setCustomClaims' in backend;
+}
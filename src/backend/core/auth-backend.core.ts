@@ -0,0 +1,2030 @@
+import {
+  Result,
+  ErrorUnknown,
+  ErrorWithCode,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { randomUUID } from 'crypto';
+import { Subject } from 'rxjs';
+import {
+  AuthClientMetadata,
+  AuthCustomClaims,
+  TooManyAttemptsError,
+} from '../../auth-types/auth-types';
+import {
+  AuthEmailLinkSignIn,
+  AuthMfaChallenge,
+  AuthMfaResetEvent,
+  AuthSession,
+  AuthSignInSession,
+  IAuthBackend,
+  IAuthBackendAnonymous,
+  IAuthBackendClaims,
+  IAuthBackendEmailLinks,
+  IAuthBackendMfa,
+  IAuthBackendOidc,
+  IAuthBackendPhone,
+  IAuthBackendSessions,
+  IdTokenError,
+  RefreshTokenError,
+  VerifiedIdToken,
+} from './auth-backend.interface';
+import { IAuthIdTokenIssuer } from './auth-id-token-issuer.interface';
+import { IPasswordHasher } from '../../password-hasher/core/password-hasher.interface';
+import { PasswordHasherScrypt } from '../../password-hasher/providers/scrypt/password-hasher.scrypt';
+import {
+  AuthUserRecord,
+  AuthUserRecordChanges,
+  IAuthUserStore,
+} from '../user-store/core/auth-user-store.interface';
+import { AuthUserStoreMemory } from '../user-store/providers/memory/auth-user-store.memory';
+import { unwrapResult } from '../../utils/result.utils';
+import { AuthActionTokens } from '../action-tokens/auth-action-tokens';
+import {
+  AuthEmailLinkTokens,
+  EmailLinkTokenError,
+  emailLinkTokenError,
+} from '../email-links/auth-email-link-tokens';
+import {
+  AuthMail,
+  AuthMailTemplateId,
+  IAuthMailer,
+} from '../../mailer/core/auth-mailer.interface';
+import {
+  AuthMailLinks,
+  defaultAuthMailLinks,
+} from '../../mailer/core/auth-mail-templates';
+import { validateCustomClaims } from '../custom-claims/custom-claims';
+import { AuthMfaChallenges } from '../mfa/auth-mfa-challenges';
+import {
+  AuthPhoneCodes,
+  PhoneCodeError,
+  phoneCodeError,
+} from '../phone-codes/auth-phone-codes';
+import {
+  AuthSms,
+  ISmsSender,
+} from '../../sms-sender/core/sms-sender.interface';
+import { isE164PhoneNumber } from '../../sms-sender/core/phone-number';
+import { generateTotpSecret, matchTotpCode, totpUri } from '../../mfa/totp';
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '../../mfa/recovery-codes';
+import {
+  AuthOidcClient,
+  AuthOidcProviderConfig,
+  OidcAuthorization,
+  OidcCompletionError,
+  OidcFetch,
+  oidcCompletionError,
+} from '../../oidc/oidc-client';
+import { AuthRefreshTokens } from '../refresh-tokens/auth-refresh-tokens';
+import { IAuthRefreshTokenStore } from '../refresh-token-store/core/auth-refresh-token-store.interface';
+import {
+  findFailedPasswordRules,
+  PasswordPolicy,
+  WeakPasswordError,
+  weakPasswordError,
+} from '../../password-policy/password-policy';
+import {
+  AuthSecondFactorThrottle,
+  AuthSignInThrottle,
+  BruteForceProtection,
+  tooManyAttemptsError,
+} from '../sign-in-throttle/auth-sign-in-throttle';
+import { IClock, systemClock } from '../../clock/clock';
+import {
+  idTokenIssuedAt,
+  isIdTokenRevoked,
+  tokensValidAfterNow,
+} from '../refresh-tokens/token-revocation';
+
+export type AuthBackendCoreOptions = {
+  // Signs the idTokens and checks them again. This is the only part that
+  // differs between backends.
+  idTokenIssuer: IAuthIdTokenIssuer;
+  // Defaults to one hour.
+  idTokenLifetimeMs?: number;
+  // See AuthRefreshTokensOptions for the defaults.
+  refreshTokenAbsoluteLifetimeMs?: number;
+  refreshTokenIdleLifetimeMs?: number;
+  passwordHasher?: IPasswordHasher;
+  // New passwords are checked against it. Defaults to refusing only empty
+  // passwords.
+  passwordPolicy?: PasswordPolicy;
+  // Limits password guesses per account and per client IP address. Off when
+  // omitted. Guesses of second factors are always limited per user, with the
+  // secondFactor limits given here or their defaults.
+  bruteForceProtection?: BruteForceProtection;
+  userStore?: IAuthUserStore;
+  // Where sessions live. Backends that share the user store should share it
+  // too, so sign-ins and revocations reach all of them. Defaults to an
+  // AuthRefreshTokenStoreMemory.
+  refreshTokenStore?: IAuthRefreshTokenStore;
+  // Refuse to sign in users whose email is not verified. Defaults to false.
+  requireEmailVerification?: boolean;
+  // Without a mailer, reset and verification tokens only reach the user
+  // through whoever called the backend.
+  mailer?: IAuthMailer;
+  // Defaults to links under http://localhost.
+  mailLinks?: AuthMailLinks;
+  // Shown next to the account in authenticator apps. Defaults to 'ts-auth'.
+  totpIssuer?: string;
+  // How many 30 second steps a TOTP code may be off by. Defaults to 1.
+  totpWindow?: number;
+  // How long an email sign-in link works. Defaults to 15 minutes.
+  signInLinkLifetimeMs?: number;
+  // Without an SMS sender, phone codes only reach the user through whoever
+  // called the backend.
+  smsSender?: ISmsSender;
+  // How long a phone code works. Defaults to 5 minutes.
+  phoneCodeLifetimeMs?: number;
+  // OpenID Connect providers users can sign in with. Defaults to none.
+  oidcProviders?: ReadonlyArray<AuthOidcProviderConfig>;
+  // Reaches the providers' token endpoints and JWKS. Defaults to the global
+  // fetch.
+  oidcFetch?: OidcFetch;
+  // Every lifetime, rate limit and lockout is measured on it. Defaults to the
+  // system clock; tests pass a ManualClock to expire things without waiting.
+  clock?: IClock;
+};
+
+export const defaultIdTokenLifetimeMs = 60 * 60 * 1000;
+const passwordResetTokenLifetimeMs = 60 * 60 * 1000;
+const passwordResetMinIntervalMs = 60 * 1000;
+const emailVerificationTokenLifetimeMs = 24 * 60 * 60 * 1000;
+const emailVerificationMinIntervalMs = 60 * 1000;
+const defaultSignInLinkLifetimeMs = 15 * 60 * 1000;
+const signInLinkMinIntervalMs = 60 * 1000;
+const defaultPhoneCodeLifetimeMs = 5 * 60 * 1000;
+const phoneCodeResendCooldownMs = 60 * 1000;
+
+// A token or code the backend issued for a user. The owner is the uid for
+// password reset and email verification tokens, the email for sign-in links
+// and the phone number for phone codes.
+export type AuthIssuedSecret = {
+  kind: 'password-reset' | 'email-verification' | 'sign-in-link' | 'phone-code';
+  secret: string;
+  owner: string;
+};
+
+/**
+ * Everything a backend does on top of its user store: sign-in methods,
+ * sessions, action tokens, MFA and revocation. Providers extend it with an
+ * idToken issuer, which is all that differs between them.
+ */
+export class AuthBackendCore
+  implements
+    IAuthBackend,
+    IAuthBackendAnonymous,
+    IAuthBackendEmailLinks,
+    IAuthBackendPhone,
+    IAuthBackendOidc,
+    IAuthBackendMfa,
+    IAuthBackendSessions,
+    IAuthBackendClaims
+{
+  private readonly idTokenIssuer: IAuthIdTokenIssuer;
+  private readonly idTokenLifetimeMs: number;
+  private readonly passwordHasher: IPasswordHasher;
+  private readonly passwordPolicy: PasswordPolicy;
+  private readonly signInThrottle: AuthSignInThrottle | undefined;
+  private readonly secondFactorThrottle: AuthSecondFactorThrottle;
+  private readonly mailLinks: AuthMailLinks;
+  private readonly totpIssuer: string;
+  private readonly totpWindow: number;
+  private readonly signInLinkLifetimeMs: number;
+  private readonly phoneCodeLifetimeMs: number;
+  private readonly clock: IClock;
+
+  private readonly userStore: IAuthUserStore;
+  private readonly refreshTokens: AuthRefreshTokens;
+  private readonly passwordResetTokens: AuthActionTokens<'password-reset'>;
+  private readonly emailVerificationTokens: AuthActionTokens<'email-verification'>;
+  private readonly signInLinkTokens: AuthEmailLinkTokens;
+  private readonly phoneCodes: AuthPhoneCodes;
+  private readonly mfaChallenges: AuthMfaChallenges;
+  private readonly oidcClient: AuthOidcClient;
+
+  public onUserCreated$ = new Subject<{ uid: string }>();
+  public onUserDeleted$ = new Subject<{ uid: string }>();
+  public onMfaReset$ = new Subject<AuthMfaResetEvent>();
+
+  constructor(private readonly options: AuthBackendCoreOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.idTokenIssuer = options.idTokenIssuer;
+    this.idTokenLifetimeMs =
+      options.idTokenLifetimeMs ?? defaultIdTokenLifetimeMs;
+    this.passwordHasher = options.passwordHasher ?? new PasswordHasherScrypt();
+    this.passwordPolicy = options.passwordPolicy ?? {};
+    this.signInThrottle =
+      options.bruteForceProtection &&
+      new AuthSignInThrottle(options.bruteForceProtection, this.clock);
+    this.secondFactorThrottle = new AuthSecondFactorThrottle(
+      options.bruteForceProtection,
+      this.clock,
+    );
+    this.userStore = options.userStore ?? new AuthUserStoreMemory();
+    this.mailLinks = options.mailLinks ?? defaultAuthMailLinks;
+    this.totpIssuer = options.totpIssuer ?? 'ts-auth';
+    this.totpWindow = options.totpWindow ?? 1;
+    this.signInLinkLifetimeMs =
+      options.signInLinkLifetimeMs ?? defaultSignInLinkLifetimeMs;
+    this.phoneCodeLifetimeMs =
+      options.phoneCodeLifetimeMs ?? defaultPhoneCodeLifetimeMs;
+    this.oidcClient = new AuthOidcClient({
+      providers: options.oidcProviders ?? [],
+      fetch: options.oidcFetch,
+      clock: this.clock,
+    });
+    this.refreshTokens = new AuthRefreshTokens({
+      absoluteLifetimeMs: options.refreshTokenAbsoluteLifetimeMs,
+      idleLifetimeMs: options.refreshTokenIdleLifetimeMs,
+      store: options.refreshTokenStore,
+      clock: this.clock,
+    });
+    this.passwordResetTokens = new AuthActionTokens(this.clock);
+    this.emailVerificationTokens = new AuthActionTokens(this.clock);
+    this.signInLinkTokens = new AuthEmailLinkTokens(this.clock);
+    this.phoneCodes = new AuthPhoneCodes(this.clock);
+    this.mfaChallenges = new AuthMfaChallenges(this.clock);
+  }
+
+  public async getUidFromIdToken(
+    idToken: string,
+  ): Promise<Result<string, IdTokenError>> {
+    const verified = unwrapResult(await this.verifyIdToken(idToken));
+    if (verified.ok) {
+      return resultSuccess(verified.value.uid);
+    }
+    switch (verified.error.code) {
+      case 'invalid-token':
+        return resultError.withCode('invalid-token');
+      case 'invalid-signature':
+        return resultError.withCode('invalid-signature');
+      case 'token-expired':
+        return resultError.withCode('token-expired');
+      case 'invalid-audience':
+        return resultError.withCode('invalid-audience');
+      case 'invalid-issuer':
+        return resultError.withCode('invalid-issuer');
+      case 'token-revoked':
+        return resultError.withCode('token-revoked');
+      default:
+        return resultError.unknown('Failed to verify the idToken');
+    }
+  }
+
+  public async verifyIdToken(
+    idToken: string,
+  ): Promise<Result<VerifiedIdToken, IdTokenError>> {
+    const read = unwrapResult(this.idTokenIssuer.read(idToken));
+    if (!read.ok) {
+      return resultError.withCode(read.error.code);
+    }
+
+    const contents = read.value;
+    if (contents.expiresAt <= this.clock.now()) {
+      return resultError.withCode('token-expired');
+    }
+
+    // The session an idToken was issued from has to be alive as well.
+    const session =
+      contents.sessionId !== undefined
+        ? unwrapResult(await this.refreshTokens.hasFamily(contents.sessionId))
+        : undefined;
+    if (session && !session.ok) {
+      return resultError.unknown('Failed to read the session');
+    }
+    const sessionEnded = session?.value === false;
+    const user = unwrapResult(await this.userStore.getByUid(contents.uid));
+    if (
+      sessionEnded ||
+      !user.ok ||
+      isIdTokenRevoked(contents.issuedAt, user.value)
+    ) {
+      return resultError.withCode('token-revoked');
+    }
+
+    return resultSuccess({
+      uid: contents.uid,
+      claims: { ...contents.claims },
+      ...(contents.isAnonymous && { isAnonymous: true }),
+    });
+  }
+
+  public async signInWithEmailAndPassword(args: {
+    email: string;
+    password: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInSession | AuthMfaChallenge,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'wrong-password'>
+      | ErrorWithCode<'email-not-verified'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const regex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!regex.test(args.email)) {
+      return resultError.withCode('invalid-email');
+    }
+    if (this.signInThrottle) {
+      const retryAfterMs = unwrapResult(
+        await this.signInThrottle.retryAfterMs(args),
+      );
+      if (!retryAfterMs.ok) {
+        return resultError.unknown('Failed to check failed sign-ins');
+      }
+      if (retryAfterMs.value > 0) {
+        return tooManyAttemptsError(retryAfterMs.value);
+      }
+    }
+
+    const found = unwrapResult(await this.userStore.getByEmail(args.email));
+    if (!found.ok) {
+      // Best effort, here and below: the caller learns of the failure either
+      // way.
+      await this.signInThrottle?.recordFailure(args);
+      return resultError.withCode('user-not-found');
+    }
+    const user = found.value;
+
+    // Users without a password, like anonymous ones, cannot sign in here.
+    const { passwordHash } = user;
+    const passwordMatches =
+      passwordHash !== undefined &&
+      (await this.passwordHasher.verify({
+        password: args.password,
+        hash: passwordHash,
+      }));
+    if (!passwordMatches) {
+      await this.signInThrottle?.recordFailure(args);
+      return resultError.withCode('wrong-password');
+    }
+    await this.signInThrottle?.recordSuccess(args);
+
+    const emailVerified = user.emailVerified ?? false;
+    if (this.options.requireEmailVerification && !emailVerified) {
+      // Best effort: the user may still hold a recent token.
+      await this.createEmailVerificationToken({ uid: user.uid });
+      return resultError.withCode('email-not-verified');
+    }
+
+    if (this.passwordHasher.needsRehash(passwordHash)) {
+      // Best effort: a concurrent write simply leaves the old hash in place.
+      await this.userStore.update({
+        uid: user.uid,
+        expectedVersion: user.version,
+        changes: {
+          passwordHash: await this.passwordHasher.hash(args.password),
+        },
+      });
+    }
+
+    return this.finishSignIn(user, args.client);
+  }
+
+  public async completeMfaSignIn(args: {
+    mfaChallenge: string;
+    code: string;
+  }): Promise<
+    Result<
+      AuthSignInSession,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const pending = unwrapResult(await this.findMfaSignIn(args.mfaChallenge));
+    if (!pending.ok) {
+      return pending.error.code === 'mfa-challenge-expired'
+        ? resultError.withCode('mfa-challenge-expired')
+        : resultError.withCode('invalid-mfa-challenge');
+    }
+
+    const { user, client } = pending.value;
+    const waitError = await this.secondFactorWaitError(user.uid);
+    if (waitError) {
+      return waitError;
+    }
+    if (!(await this.acceptTotpCode(user, args.code))) {
+      this.mfaChallenges.recordFailure(args.mfaChallenge);
+      await this.secondFactorThrottle.recordFailure(user.uid);
+      return resultError.withCode('invalid-mfa-code');
+    }
+    await this.secondFactorThrottle.reset(user.uid);
+
+    this.mfaChallenges.consume(args.mfaChallenge);
+    return this.startSession(user, client);
+  }
+
+  public async completeMfaSignInWithRecoveryCode(args: {
+    mfaChallenge: string;
+    recoveryCode: string;
+  }): Promise<
+    Result<
+      AuthSignInSession,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const pending = unwrapResult(await this.findMfaSignIn(args.mfaChallenge));
+    if (!pending.ok) {
+      return pending.error.code === 'mfa-challenge-expired'
+        ? resultError.withCode('mfa-challenge-expired')
+        : resultError.withCode('invalid-mfa-challenge');
+    }
+
+    const { user, client } = pending.value;
+    const waitError = await this.secondFactorWaitError(user.uid);
+    if (waitError) {
+      return waitError;
+    }
+    if (!(await this.acceptRecoveryCode(user, args.recoveryCode))) {
+      this.mfaChallenges.recordFailure(args.mfaChallenge);
+      await this.secondFactorThrottle.recordFailure(user.uid);
+      return resultError.withCode('invalid-recovery-code');
+    }
+    await this.secondFactorThrottle.reset(user.uid);
+
+    this.mfaChallenges.consume(args.mfaChallenge);
+    return this.startSession(user, client);
+  }
+
+  public async signInWithRefreshToken(refreshToken: string): Promise<
+    Result<
+      {
+        idToken: string;
+        idTokenExpiresAt: number;
+        uid: string;
+        refreshToken: string;
+        claims: AuthCustomClaims;
+      },
+      RefreshTokenError
+    >
+  > {
+    const rotated = unwrapResult(await this.refreshTokens.rotate(refreshToken));
+    if (!rotated.ok) {
+      switch (rotated.error.code) {
+        case 'refresh-token-reused':
+          return resultError.withCode('refresh-token-reused');
+        case 'refresh-token-conflict':
+          return resultError.withCode('refresh-token-conflict');
+        case 'refresh-token-expired':
+          return resultError.withCode('refresh-token-expired');
+        case 'invalid-refresh-token':
+          return resultError.withCode('invalid-refresh-token');
+        default:
+          return resultError.unknown('Failed to refresh the session');
+      }
+    }
+
+    const user = unwrapResult(await this.userStore.getByUid(rotated.value.uid));
+    if (!user.ok) {
+      await this.refreshTokens.revokeFamily(rotated.value.familyId);
+      return resultError.withCode('invalid-refresh-token');
+    }
+    return resultSuccess({
+      ...this.issueIdToken(user.value, rotated.value.familyId),
+      uid: rotated.value.uid,
+      refreshToken: rotated.value.refreshToken,
+      claims: { ...user.value.customClaims },
+    });
+  }
+
+  public async signUpWithEmailPassword(args: {
+    email: string;
+    password: string;
+  }): Promise<
+    Result<
+      { uid: string },
+      ErrorWithCode<'email-already-in-use'> | WeakPasswordError | ErrorUnknown
+    >
+  > {
+    const failedRules = await findFailedPasswordRules(
+      this.passwordPolicy,
+      args,
+    );
+    if (failedRules.length > 0) {
+      return weakPasswordError(failedRules);
+    }
+
+    const uid = randomUUID();
+    const created = unwrapResult(
+      await this.userStore.create({
+        uid,
+        email: args.email,
+        passwordHash: await this.passwordHasher.hash(args.password),
+      }),
+    );
+    if (!created.ok) {
+      return created.error.code === 'email-already-exists'
+        ? resultError.withCode('email-already-in-use')
+        : resultError.unknown('Failed to create user');
+    }
+
+    this.onUserCreated$.next({ uid });
+    return resultSuccess({ uid });
+  }
+
+  public async signInAnonymously(args: {
+    client?: AuthClientMetadata;
+  }): Promise<Result<AuthSignInSession, ErrorUnknown>> {
+    const created = unwrapResult(
+      await this.userStore.create({
+        uid: randomUUID(),
+        anonymousSince: this.clock.now(),
+      }),
+    );
+    if (!created.ok) {
+      return resultError.unknown('Failed to create user');
+    }
+
+    this.onUserCreated$.next({ uid: created.value.uid });
+    return this.startSession(created.value, args.client);
+  }
+
+  public async linkWithEmailAndPassword(args: {
+    uid: string;
+    email: string;
+    password: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'not-anonymous'>
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-already-in-use'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  > {
+    const regex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!regex.test(args.email)) {
+      return resultError.withCode('invalid-email');
+    }
+    const failedRules = await findFailedPasswordRules(this.passwordPolicy, {
+      password: args.password,
+      email: args.email,
+    });
+    if (failedRules.length > 0) {
+      return weakPasswordError(failedRules);
+    }
+
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (
+      user.value.anonymousSince === undefined &&
+      user.value.email !== undefined
+    ) {
+      return resultError.withCode('not-anonymous');
+    }
+
+    // The uid stays the same, so data the app keyed to it carries over.
+    const updated = unwrapResult(
+      await this.userStore.update({
+        uid: args.uid,
+        expectedVersion: user.value.version,
+        changes: {
+          email: args.email,
+          passwordHash: await this.passwordHasher.hash(args.password),
+          anonymousSince: undefined,
+        },
+      }),
+    );
+    if (!updated.ok) {
+      return updated.error.code === 'email-already-exists'
+        ? resultError.withCode('email-already-in-use')
+        : resultError.unknown('Failed to link email and password');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async createSignInLinkToken(args: {
+    email: string;
+    deviceId?: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const regex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!regex.test(args.email)) {
+      return resultError.withCode('invalid-email');
+    }
+
+    const issued = unwrapResult(
+      this.signInLinkTokens.issue({
+        email: args.email,
+        deviceId: args.deviceId,
+        lifetimeMs: this.signInLinkLifetimeMs,
+        minIntervalMs: signInLinkMinIntervalMs,
+      }),
+    );
+    if (!issued.ok) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.onSecretIssued({
+      kind: 'sign-in-link',
+      secret: issued.value.token,
+      owner: args.email,
+    });
+
+    const sent = await this.sendMail({
+      template: 'sign-in-link',
+      to: args.email,
+      locale: args.locale,
+      variables: {
+        email: args.email,
+        link: this.mailLinks['sign-in-link'](issued.value.token),
+        expiresAt: issued.value.expiresAt,
+      },
+    });
+    if (!sent) {
+      return resultError.unknown('Failed to send the sign-in link email');
+    }
+    return resultSuccess(issued.value);
+  }
+
+  public async signInWithEmailLink(args: {
+    email: string;
+    token: string;
+    deviceId?: string;
+    client?: AuthClientMetadata;
+  }): Promise<Result<AuthEmailLinkSignIn, EmailLinkTokenError | ErrorUnknown>> {
+    const consumed = unwrapResult(this.signInLinkTokens.consume(args));
+    // A link opened with the wrong email still works with the right one.
+    if (consumed.ok || consumed.error.code !== 'email-mismatch') {
+      this.onSecretsSpent({ kind: 'sign-in-link', secret: args.token });
+    }
+    if (!consumed.ok) {
+      return emailLinkTokenError(consumed.error.code);
+    }
+
+    const user = await this.findOrCreateEmailLinkUser(args.email);
+    if (!user) {
+      return resultError.unknown('Failed to sign in with the email link');
+    }
+    const signedIn = unwrapResult(await this.finishSignIn(user, args.client));
+    if (!signedIn.ok) {
+      return resultError.unknown('Failed to sign in with the email link');
+    }
+    return resultSuccess({
+      ...signedIn.value,
+      sameDevice: consumed.value.sameDevice,
+    });
+  }
+
+  public async createPhoneSignInCode(args: {
+    phoneNumber: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { verificationId: string; code: string; expiresAt: number },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    if (!isE164PhoneNumber(args.phoneNumber)) {
+      return resultError.withCode('invalid-phone-number');
+    }
+
+    const issued = unwrapResult(
+      this.phoneCodes.issue({
+        phoneNumber: args.phoneNumber,
+        lifetimeMs: this.phoneCodeLifetimeMs,
+        resendCooldownMs: phoneCodeResendCooldownMs,
+      }),
+    );
+    if (!issued.ok) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.onSecretIssued({
+      kind: 'phone-code',
+      secret: issued.value.code,
+      owner: args.phoneNumber,
+    });
+
+    const sent = await this.sendSms({
+      to: args.phoneNumber,
+      locale: args.locale,
+      code: issued.value.code,
+      expiresAt: issued.value.expiresAt,
+    });
+    if (!sent) {
+      return resultError.unknown('Failed to send the sign-in code');
+    }
+    return resultSuccess(issued.value);
+  }
+
+  public async signInWithPhoneCode(args: {
+    verificationId: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<AuthSignInSession | AuthMfaChallenge, PhoneCodeError | ErrorUnknown>
+  > {
+    const verified = unwrapResult(
+      this.phoneCodes.verify({
+        verificationId: args.verificationId,
+        code: args.code,
+      }),
+    );
+    if (!verified.ok) {
+      return phoneCodeError(verified.error.code);
+    }
+    this.onSecretsSpent({
+      kind: 'phone-code',
+      owner: verified.value.phoneNumber,
+    });
+
+    const user = await this.findOrCreatePhoneUser(verified.value.phoneNumber);
+    if (!user) {
+      return resultError.unknown('Failed to sign in with the phone code');
+    }
+    return this.finishSignIn(user, args.client);
+  }
+
+  public async createPhoneLinkCode(args: {
+    uid: string;
+    phoneNumber: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { verificationId: string; code: string; expiresAt: number },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'phone-number-already-in-use'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    if (!isE164PhoneNumber(args.phoneNumber)) {
+      return resultError.withCode('invalid-phone-number');
+    }
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    const owner = unwrapResult(
+      await this.userStore.getByPhoneNumber(args.phoneNumber),
+    );
+    if (owner.ok && owner.value.uid !== args.uid) {
+      return resultError.withCode('phone-number-already-in-use');
+    }
+
+    const issued = unwrapResult(
+      this.phoneCodes.issue({
+        phoneNumber: args.phoneNumber,
+        uid: args.uid,
+        lifetimeMs: this.phoneCodeLifetimeMs,
+        resendCooldownMs: phoneCodeResendCooldownMs,
+      }),
+    );
+    if (!issued.ok) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.onSecretIssued({
+      kind: 'phone-code',
+      secret: issued.value.code,
+      owner: args.phoneNumber,
+    });
+
+    const sent = await this.sendSms({
+      to: args.phoneNumber,
+      locale: args.locale,
+      code: issued.value.code,
+      expiresAt: issued.value.expiresAt,
+    });
+    if (!sent) {
+      return resultError.unknown('Failed to send the phone verification code');
+    }
+    return resultSuccess(issued.value);
+  }
+
+  public async linkPhoneNumber(args: {
+    uid: string;
+    verificationId: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | PhoneCodeError
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'phone-number-already-in-use'>
+      | ErrorUnknown
+    >
+  > {
+    const verified = unwrapResult(this.phoneCodes.verify(args));
+    if (!verified.ok) {
+      return phoneCodeError(verified.error.code);
+    }
+    this.onSecretsSpent({
+      kind: 'phone-code',
+      owner: verified.value.phoneNumber,
+    });
+
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    const updated = unwrapResult(
+      await this.userStore.update({
+        uid: args.uid,
+        expectedVersion: user.value.version,
+        changes: {
+          phoneNumber: verified.value.phoneNumber,
+          anonymousSince: undefined,
+        },
+      }),
+    );
+    if (!updated.ok) {
+      return updated.error.code === 'phone-number-already-exists'
+        ? resultError.withCode('phone-number-already-in-use')
+        : resultError.unknown('Failed to link the phone number');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async startProviderSignIn(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      OidcAuthorization,
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  > {
+    return this.oidcClient.start(args);
+  }
+
+  public async completeProviderSignIn(args: {
+    state: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInSession | AuthMfaChallenge,
+      OidcCompletionError | ErrorWithCode<'email-already-in-use'> | ErrorUnknown
+    >
+  > {
+    const completed = unwrapResult(await this.oidcClient.complete(args));
+    if (!completed.ok) {
+      return oidcCompletionError(completed.error.code);
+    }
+    const { identity, linkUid } = completed.value;
+    // A state from startProviderLink cannot be used to sign in.
+    if (linkUid !== undefined) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+
+    const linked = unwrapResult(await this.userStore.getByIdentity(identity));
+    if (linked.ok) {
+      return this.finishSignIn(linked.value, args.client);
+    }
+    if (linked.error.code !== 'user-not-found') {
+      return resultError.unknown('Failed to read user');
+    }
+
+    // A user who already has the email must link the provider themselves,
+    // otherwise whoever controls the provider account would get theirs.
+    const email = identity.emailVerified ? identity.email : undefined;
+    const created = unwrapResult(
+      await this.userStore.create({
+        uid: randomUUID(),
+        ...(email !== undefined && { email, emailVerified: true }),
+        identities: [
+          {
+            providerId: identity.providerId,
+            subject: identity.subject,
+            ...(identity.email !== undefined && { email: identity.email }),
+            linkedAt: this.clock.now(),
+          },
+        ],
+      }),
+    );
+    if (!created.ok) {
+      return created.error.code === 'email-already-exists'
+        ? resultError.withCode('email-already-in-use')
+        : resultError.unknown('Failed to create user');
+    }
+
+    this.onUserCreated$.next({ uid: created.value.uid });
+    return this.finishSignIn(created.value, args.client);
+  }
+
+  public async startProviderLink(args: {
+    uid: string;
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      OidcAuthorization,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'provider-not-found'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    return this.oidcClient.start({
+      providerId: args.providerId,
+      redirectUri: args.redirectUri,
+      linkUid: args.uid,
+    });
+  }
+
+  public async completeProviderLink(args: {
+    uid: string;
+    state: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | OidcCompletionError
+      | ErrorWithCode<'identity-already-linked'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorUnknown
+    >
+  > {
+    const completed = unwrapResult(await this.oidcClient.complete(args));
+    if (!completed.ok) {
+      return oidcCompletionError(completed.error.code);
+    }
+    const { identity, linkUid } = completed.value;
+    if (linkUid !== args.uid) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    const identities = user.value.identities ?? [];
+    if (
+      identities.some(
+        (linked) =>
+          linked.providerId === identity.providerId &&
+          linked.subject === identity.subject,
+      )
+    ) {
+      return resultSuccessVoid();
+    }
+
+    const updated = unwrapResult(
+      await this.userStore.update({
+        uid: args.uid,
+        expectedVersion: user.value.version,
+        changes: {
+          identities: [
+            ...identities,
+            {
+              providerId: identity.providerId,
+              subject: identity.subject,
+              ...(identity.email !== undefined && { email: identity.email }),
+              linkedAt: this.clock.now(),
+            },
+          ],
+          anonymousSince: undefined,
+        },
+      }),
+    );
+    if (!updated.ok) {
+      return updated.error.code === 'identity-already-exists'
+        ? resultError.withCode('identity-already-linked')
+        : resultError.unknown('Failed to link the provider identity');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async changeEmail(args: {
+    uid: string;
+    newEmail: string;
+    revokeOtherSessions?: boolean;
+    currentIdToken?: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'email-already-in-use'>
+      | ErrorUnknown
+    >
+  > {
+    const regex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!regex.test(args.newEmail)) {
+      return resultError.withCode('invalid-email');
+    }
+    const revokeOtherSessions = args.revokeOtherSessions ?? true;
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+
+    const updated = unwrapResult(
+      await this.userStore.update({
+        uid: args.uid,
+        expectedVersion: user.value.version,
+        changes: {
+          email: args.newEmail,
+          emailVerified: false,
+          ...(revokeOtherSessions && {
+            tokensValidAfter: tokensValidAfterNow(this.clock.now()),
+          }),
+        },
+      }),
+    );
+    if (!updated.ok) {
+      return updated.error.code === 'email-already-exists'
+        ? resultError.withCode('email-already-in-use')
+        : resultError.unknown('Failed to change email');
+    }
+    this.emailVerificationTokens.revokeAll(args.uid);
+    this.onSecretsSpent({ kind: 'email-verification', owner: args.uid });
+    // Best effort: the change itself already happened. Anonymous users had no
+    // email to notify.
+    if (user.value.email !== undefined) {
+      await this.sendMail({
+        template: 'email-change',
+        to: user.value.email,
+        variables: { previousEmail: user.value.email, newEmail: args.newEmail },
+      });
+    }
+
+    if (revokeOtherSessions) {
+      const revoked = await this.refreshTokens.revokeAll(
+        args.uid,
+        this.familyOfIdToken(args.uid, args.currentIdToken),
+      );
+      if (!unwrapResult(revoked).ok) {
+        return resultError.unknown('Failed to revoke the other sessions');
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async deleteUser(args: {
+    uid: string;
+  }): Promise<Result<void, ErrorUnknown>> {
+    if (!(await this.removeUser(args.uid))) {
+      return resultError.unknown('User not found');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async deleteAnonymousUsers(args: {
+    inactiveForMs: number;
+  }): Promise<Result<{ uids: string[] }, ErrorUnknown>> {
+    const users = unwrapResult(await this.userStore.list());
+    if (!users.ok) {
+      return resultError.unknown('Failed to list users');
+    }
+
+    const inactiveSince = this.clock.now() - args.inactiveForMs;
+    const uids: string[] = [];
+    for (const user of users.value) {
+      if (user.anonymousSince === undefined) {
+        continue;
+      }
+      const sessions = unwrapResult(
+        await this.refreshTokens.listSessions(user.uid),
+      );
+      if (!sessions.ok) {
+        return resultError.unknown('Failed to list sessions');
+      }
+      const lastActiveAt = Math.max(
+        user.anonymousSince,
+        ...sessions.value.map((session) => session.lastRefreshedAt),
+      );
+      // The version check spares users who were linked in the meantime.
+      if (
+        lastActiveAt <= inactiveSince &&
+        (await this.removeUser(user.uid, user.version))
+      ) {
+        uids.push(user.uid);
+      }
+    }
+    return resultSuccess({ uids });
+  }
+
+  public async changePassword(args: {
+    uid: string;
+    newPassword: string;
+    revokeOtherSessions?: boolean;
+    currentIdToken?: string;
+  }): Promise<Result<void, WeakPasswordError | ErrorUnknown>> {
+    const revokeOtherSessions = args.revokeOtherSessions ?? true;
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.unknown('User not found');
+    }
+    const failedRules = await findFailedPasswordRules(this.passwordPolicy, {
+      password: args.newPassword,
+      email: user.value.email,
+    });
+    if (failedRules.length > 0) {
+      return weakPasswordError(failedRules);
+    }
+
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: {
+        passwordHash: await this.passwordHasher.hash(args.newPassword),
+        ...(revokeOtherSessions && {
+          tokensValidAfter: tokensValidAfterNow(this.clock.now()),
+        }),
+      },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to change password');
+    }
+
+    if (revokeOtherSessions) {
+      const revoked = await this.refreshTokens.revokeAll(
+        args.uid,
+        this.familyOfIdToken(args.uid, args.currentIdToken),
+      );
+      if (!unwrapResult(revoked).ok) {
+        return resultError.unknown('Failed to revoke the other sessions');
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async revokeRefreshTokens(args: {
+    uid: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>> {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { tokensValidAfter: tokensValidAfterNow(this.clock.now()) },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to revoke tokens');
+    }
+
+    if (!unwrapResult(await this.refreshTokens.revokeAll(args.uid)).ok) {
+      return resultError.unknown('Failed to revoke tokens');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async setCustomClaims(args: {
+    uid: string;
+    claims: AuthCustomClaims;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'reserved-claim'>
+      | ErrorWithCode<'claims-too-large'>
+      | ErrorUnknown
+    >
+  > {
+    const valid = unwrapResult(validateCustomClaims(args.claims));
+    if (!valid.ok) {
+      return valid.error.code === 'reserved-claim'
+        ? resultError.withCode('reserved-claim')
+        : resultError.withCode('claims-too-large');
+    }
+
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+
+    // Tokens already issued keep their claims until they are refreshed.
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { customClaims: args.claims },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to set custom claims');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async enrollTotp(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      { secret: string; uri: string },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-already-enrolled'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.value.totp?.confirmedAt !== undefined) {
+      return resultError.withCode('mfa-already-enrolled');
+    }
+
+    const secret = generateTotpSecret();
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { totp: { secret } },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to enroll TOTP');
+    }
+    return resultSuccess({
+      secret,
+      uri: totpUri({
+        secret,
+        issuer: this.totpIssuer,
+        accountName: user.value.email ?? user.value.uid,
+      }),
+    });
+  }
+
+  public async confirmTotpEnrollment(args: {
+    uid: string;
+    code: string;
+  }): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (!user.value.totp || user.value.totp.confirmedAt !== undefined) {
+      return resultError.withCode('mfa-not-enrolled');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const accepted = await this.acceptTotpCode(user.value, args.code, {
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    });
+    if (!accepted) {
+      return resultError.withCode('invalid-mfa-code');
+    }
+    return resultSuccess({ recoveryCodes });
+  }
+
+  public async verifyTotpCode(args: {
+    uid: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.value.totp?.confirmedAt === undefined) {
+      return resultError.withCode('mfa-not-enrolled');
+    }
+    const waitError = await this.secondFactorWaitError(args.uid);
+    if (waitError) {
+      return waitError;
+    }
+    if (!(await this.acceptTotpCode(user.value, args.code))) {
+      await this.secondFactorThrottle.recordFailure(args.uid);
+      return resultError.withCode('invalid-mfa-code');
+    }
+    await this.secondFactorThrottle.reset(args.uid);
+    return resultSuccessVoid();
+  }
+
+  public async verifyRecoveryCode(args: {
+    uid: string;
+    recoveryCode: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.value.totp?.confirmedAt === undefined) {
+      return resultError.withCode('mfa-not-enrolled');
+    }
+    const waitError = await this.secondFactorWaitError(args.uid);
+    if (waitError) {
+      return waitError;
+    }
+    if (!(await this.acceptRecoveryCode(user.value, args.recoveryCode))) {
+      await this.secondFactorThrottle.recordFailure(args.uid);
+      return resultError.withCode('invalid-recovery-code');
+    }
+    await this.secondFactorThrottle.reset(args.uid);
+    return resultSuccessVoid();
+  }
+
+  public async regenerateRecoveryCodes(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.value.totp?.confirmedAt === undefined) {
+      return resultError.withCode('mfa-not-enrolled');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to regenerate recovery codes');
+    }
+    return resultSuccess({ recoveryCodes });
+  }
+
+  public async unenrollTotp(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (!user.value.totp) {
+      return resultError.withCode('mfa-not-enrolled');
+    }
+
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { totp: undefined, recoveryCodeHashes: undefined },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to unenroll TOTP');
+    }
+    this.mfaChallenges.revokeAll(args.uid);
+    return resultSuccessVoid();
+  }
+
+  public async resetMfa(args: {
+    uid: string;
+    resetBy: string;
+    reason?: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>> {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+
+    const updated = await this.userStore.update({
+      uid: args.uid,
+      expectedVersion: user.value.version,
+      changes: { totp: undefined, recoveryCodeHashes: undefined },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to reset MFA');
+    }
+    this.mfaChallenges.revokeAll(args.uid);
+    this.onMfaReset$.next({
+      uid: args.uid,
+      resetBy: args.resetBy,
+      ...(args.reason !== undefined && { reason: args.reason }),
+      resetAt: this.clock.now(),
+    });
+    return resultSuccessVoid();
+  }
+
+  public async unlockSignIn(args: {
+    uid: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>> {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    const reset = unwrapResult(await this.secondFactorThrottle.reset(args.uid));
+    if (!reset.ok) {
+      return resultError.unknown('Failed to unlock sign-in');
+    }
+    const { email } = user.value;
+    if (!this.signInThrottle || email === undefined) {
+      return resultSuccessVoid();
+    }
+    const unlocked = unwrapResult(await this.signInThrottle.unlock(email));
+    return unlocked.ok
+      ? resultSuccessVoid()
+      : resultError.unknown('Failed to unlock sign-in');
+  }
+
+  public async listSessions(
+    uid: string,
+  ): Promise<
+    Result<AuthSession[], ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    return this.refreshTokens.listSessions(uid);
+  }
+
+  public async revokeSession(
+    sessionId: string,
+  ): Promise<Result<void, ErrorWithCode<'session-not-found'> | ErrorUnknown>> {
+    const revoked = unwrapResult(
+      await this.refreshTokens.revokeFamily(sessionId),
+    );
+    if (!revoked.ok) {
+      return revoked.error.code === 'family-not-found'
+        ? resultError.withCode('session-not-found')
+        : resultError.unknown('Failed to revoke the session');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async getUidByEmail(
+    email: string,
+  ): Promise<
+    Result<
+      { uid: string; emailVerified: boolean },
+      ErrorWithCode<'email-not-found'> | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByEmail(email));
+    if (!user.ok) {
+      return resultError.withCode('email-not-found');
+    }
+    return resultSuccess({
+      uid: user.value.uid,
+      emailVerified: user.value.emailVerified ?? false,
+    });
+  }
+
+  public async getUidByPhoneNumber(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { uid: string },
+      ErrorWithCode<'phone-number-not-found'> | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(
+      await this.userStore.getByPhoneNumber(phoneNumber),
+    );
+    if (!user.ok) {
+      return resultError.withCode('phone-number-not-found');
+    }
+    return resultSuccess({ uid: user.value.uid });
+  }
+
+  public async createEmailVerificationToken(args: {
+    uid: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.value.email === undefined) {
+      return resultError.unknown('User has no email to verify');
+    }
+
+    const issued = unwrapResult(
+      this.emailVerificationTokens.issue({
+        kind: 'email-verification',
+        uid: args.uid,
+        lifetimeMs: emailVerificationTokenLifetimeMs,
+        minIntervalMs: emailVerificationMinIntervalMs,
+      }),
+    );
+    if (!issued.ok) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.onSecretIssued({
+      kind: 'email-verification',
+      secret: issued.value.token,
+      owner: args.uid,
+    });
+
+    const sent = await this.sendMail({
+      template: 'email-verification',
+      to: user.value.email,
+      locale: args.locale,
+      variables: {
+        email: user.value.email,
+        link: this.mailLinks['email-verification'](issued.value.token),
+        expiresAt: issued.value.expiresAt,
+      },
+    });
+    if (!sent) {
+      return resultError.unknown('Failed to send the verification email');
+    }
+    return resultSuccess(issued.value);
+  }
+
+  public async verifyEmail(args: {
+    token: string;
+  }): Promise<
+    Result<
+      { uid: string },
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | ErrorUnknown
+    >
+  > {
+    const consumed = unwrapResult(
+      this.emailVerificationTokens.consume({
+        kind: 'email-verification',
+        token: args.token,
+      }),
+    );
+    this.onSecretsSpent({ kind: 'email-verification', secret: args.token });
+    if (!consumed.ok) {
+      return consumed.error.code === 'token-expired'
+        ? resultError.withCode('token-expired')
+        : resultError.withCode('token-not-found');
+    }
+
+    const { uid } = consumed.value;
+    const user = unwrapResult(await this.userStore.getByUid(uid));
+    if (!user.ok) {
+      return resultError.withCode('token-not-found');
+    }
+    const updated = await this.userStore.update({
+      uid,
+      expectedVersion: user.value.version,
+      changes: { emailVerified: true },
+    });
+    if (!unwrapResult(updated).ok) {
+      return resultError.unknown('Failed to verify email');
+    }
+    return resultSuccess({ uid });
+  }
+
+  public async createPasswordResetToken(args: {
+    email: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'email-not-found'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const user = unwrapResult(await this.userStore.getByEmail(args.email));
+    if (!user.ok) {
+      return resultError.withCode('email-not-found');
+    }
+    // Found by email, though the store allows records without one.
+    const email = user.value.email;
+    if (email === undefined) {
+      return resultError.withCode('user-not-found');
+    }
+
+    const issued = unwrapResult(
+      this.passwordResetTokens.issue({
+        kind: 'password-reset',
+        uid: user.value.uid,
+        lifetimeMs: passwordResetTokenLifetimeMs,
+        minIntervalMs: passwordResetMinIntervalMs,
+      }),
+    );
+    if (!issued.ok) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.onSecretIssued({
+      kind: 'password-reset',
+      secret: issued.value.token,
+      owner: user.value.uid,
+    });
+
+    const sent = await this.sendMail({
+      template: 'password-reset',
+      to: email,
+      locale: args.locale,
+      variables: {
+        email,
+        link: this.mailLinks['password-reset'](issued.value.token),
+        expiresAt: issued.value.expiresAt,
+      },
+    });
+    if (!sent) {
+      return resultError.unknown('Failed to send the password reset email');
+    }
+    return resultSuccess(issued.value);
+  }
+
+  public async resetPassword(args: {
+    token: string;
+    newPassword: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  > {
+    // Checked before the token is spent, so the user can pick another
+    // password. changePassword checks it again.
+    const pending = unwrapResult(
+      this.passwordResetTokens.peek({
+        kind: 'password-reset',
+        token: args.token,
+      }),
+    );
+    if (pending.ok) {
+      const user = unwrapResult(
+        await this.userStore.getByUid(pending.value.uid),
+      );
+      const failedRules = await findFailedPasswordRules(this.passwordPolicy, {
+        password: args.newPassword,
+        email: user.ok ? user.value.email : undefined,
+      });
+      if (failedRules.length > 0) {
+        return weakPasswordError(failedRules);
+      }
+    }
+
+    const consumed = unwrapResult(
+      this.passwordResetTokens.consume({
+        kind: 'password-reset',
+        token: args.token,
+      }),
+    );
+    this.onSecretsSpent({ kind: 'password-reset', secret: args.token });
+    if (!consumed.ok) {
+      return consumed.error.code === 'token-expired'
+        ? resultError.withCode('token-expired')
+        : resultError.withCode('token-not-found');
+    }
+
+    return this.changePassword({
+      uid: consumed.value.uid,
+      newPassword: args.newPassword,
+    });
+  }
+
+  // Opening the link proved the user owns the email.
+  private async findOrCreateEmailLinkUser(
+    email: string,
+  ): Promise<AuthUserRecord | undefined> {
+    const existing = unwrapResult(await this.userStore.getByEmail(email));
+    if (existing.ok) {
+      if (existing.value.emailVerified) {
+        return existing.value;
+      }
+      // Whoever signed up with the email never proved they own it, and may
+      // not be the one opening the link. Their password, second factor and
+      // sessions go, so the account is the link user's alone.
+      const updated = unwrapResult(
+        await this.userStore.update({
+          uid: existing.value.uid,
+          expectedVersion: existing.value.version,
+          changes: {
+            emailVerified: true,
+            passwordHash: undefined,
+            totp: undefined,
+            recoveryCodeHashes: undefined,
+            tokensValidAfter: tokensValidAfterNow(this.clock.now()),
+          },
+        }),
+      );
+      if (!updated.ok) {
+        return undefined;
+      }
+      await this.refreshTokens.revokeAll(updated.value.uid);
+      return updated.value;
+    }
+    if (existing.error.code !== 'user-not-found') {
+      return undefined;
+    }
+
+    const created = unwrapResult(
+      await this.userStore.create({
+        uid: randomUUID(),
+        email,
+        emailVerified: true,
+      }),
+    );
+    if (!created.ok) {
+      return undefined;
+    }
+    this.onUserCreated$.next({ uid: created.value.uid });
+    return created.value;
+  }
+
+  // Entering the code proved the user owns the phone number.
+  private async findOrCreatePhoneUser(
+    phoneNumber: string,
+  ): Promise<AuthUserRecord | undefined> {
+    const existing = unwrapResult(
+      await this.userStore.getByPhoneNumber(phoneNumber),
+    );
+    if (existing.ok) {
+      return existing.value;
+    }
+    if (existing.error.code !== 'user-not-found') {
+      return undefined;
+    }
+
+    const created = unwrapResult(
+      await this.userStore.create({ uid: randomUUID(), phoneNumber }),
+    );
+    if (!created.ok) {
+      return undefined;
+    }
+    this.onUserCreated$.next({ uid: created.value.uid });
+    return created.value;
+  }
+
+  // Users with a confirmed second factor get a challenge instead of a session.
+  private async finishSignIn(
+    user: AuthUserRecord,
+    client?: AuthClientMetadata,
+  ): Promise<Result<AuthSignInSession | AuthMfaChallenge, ErrorUnknown>> {
+    if (user.totp?.confirmedAt === undefined) {
+      return this.startSession(user, client);
+    }
+    return resultSuccess({
+      mfaRequired: true,
+      ...this.mfaChallenges.issue(user.uid, client),
+      factors: user.recoveryCodeHashes?.length
+        ? ['totp', 'recovery-code']
+        : ['totp'],
+    });
+  }
+
+  protected async startSession(
+    user: AuthUserRecord,
+    client?: AuthClientMetadata,
+  ): Promise<Result<AuthSignInSession, ErrorUnknown>> {
+    const issued = unwrapResult(
+      await this.refreshTokens.issue(user.uid, client),
+    );
+    if (!issued.ok) {
+      return resultError.unknown('Failed to start the session');
+    }
+    const { familyId, refreshToken } = issued.value;
+    return resultSuccess({
+      mfaRequired: false,
+      uid: user.uid,
+      emailVerified: user.emailVerified ?? false,
+      sessionId: familyId,
+      refreshToken,
+      ...this.issueIdToken(user, familyId),
+      claims: { ...user.customClaims },
+      ...(user.anonymousSince !== undefined && { isAnonymous: true }),
+    });
+  }
+
+  // Refuses a code without checking it while the user has to wait after too
+  // many wrong ones. Recording the outcome afterwards is best effort, as for
+  // passwords.
+  private async secondFactorWaitError(
+    uid: string,
+  ): Promise<Result<never, TooManyAttemptsError | ErrorUnknown> | undefined> {
+    const retryAfterMs = unwrapResult(
+      await this.secondFactorThrottle.retryAfterMs(uid),
+    );
+    if (!retryAfterMs.ok) {
+      return resultError.unknown('Failed to check failed second factors');
+    }
+    return retryAfterMs.value > 0
+      ? tooManyAttemptsError(retryAfterMs.value)
+      : undefined;
+  }
+
+  // Stores the time step of an accepted code so it cannot be used again. Of
+  // two concurrent uses of one code, the one losing the version check fails.
+  private async acceptTotpCode(
+    user: AuthUserRecord,
+    code: string,
+    changes: AuthUserRecordChanges = {},
+  ): Promise<boolean> {
+    if (!user.totp) {
+      return false;
+    }
+    const counter = matchTotpCode({
+      secret: user.totp.secret,
+      code,
+      atMs: this.clock.now(),
+      window: this.totpWindow,
+      lastUsedCounter: user.totp.lastUsedCounter,
+    });
+    if (counter === undefined) {
+      return false;
+    }
+    const updated = await this.userStore.update({
+      uid: user.uid,
+      expectedVersion: user.version,
+      changes: {
+        totp: {
+          ...user.totp,
+          confirmedAt: user.totp.confirmedAt ?? this.clock.now(),
+          lastUsedCounter: counter,
+        },
+        ...changes,
+      },
+    });
+    return unwrapResult(updated).ok;
+  }
+
+  // Removes the code so it cannot be used again, with the same version check
+  // as acceptTotpCode.
+  private async acceptRecoveryCode(
+    user: AuthUserRecord,
+    recoveryCode: string,
+  ): Promise<boolean> {
+    const hash = hashRecoveryCode(recoveryCode);
+    const hashes = user.recoveryCodeHashes ?? [];
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+    const updated = await this.userStore.update({
+      uid: user.uid,
+      expectedVersion: user.version,
+      changes: {
+        recoveryCodeHashes: hashes.filter((candidate) => candidate !== hash),
+      },
+    });
+    return unwrapResult(updated).ok;
+  }
+
+  // A challenge whose user was deleted in the meantime is consumed.
+  private async findMfaSignIn(
+    mfaChallenge: string,
+  ): Promise<
+    Result<
+      { user: AuthUserRecord; client?: AuthClientMetadata },
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+    >
+  > {
+    const pending = unwrapResult(this.mfaChallenges.find(mfaChallenge));
+    if (!pending.ok) {
+      return pending.error.code === 'mfa-challenge-expired'
+        ? resultError.withCode('mfa-challenge-expired')
+        : resultError.withCode('invalid-mfa-challenge');
+    }
+
+    const user = unwrapResult(await this.userStore.getByUid(pending.value.uid));
+    if (!user.ok) {
+      this.mfaChallenges.consume(mfaChallenge);
+      return resultError.withCode('invalid-mfa-challenge');
+    }
+    return resultSuccess({ user: user.value, client: pending.value.client });
+  }
+
+  // False when the user does not exist, or changed since expectedVersion.
+  private async removeUser(
+    uid: string,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    const deleted = unwrapResult(
+      await this.userStore.delete({ uid, expectedVersion }),
+    );
+    if (!deleted.ok) {
+      return false;
+    }
+
+    // Best effort: the sessions of a deleted user can no longer refresh.
+    await this.refreshTokens.revokeAll(uid);
+    this.passwordResetTokens.revokeAll(uid);
+    this.emailVerificationTokens.revokeAll(uid);
+    this.onSecretsSpent({ kind: 'password-reset', owner: uid });
+    this.onSecretsSpent({ kind: 'email-verification', owner: uid });
+    this.mfaChallenges.revokeAll(uid);
+    this.onUserDeleted$.next({ uid });
+    return true;
+  }
+
+  // True when there is no mailer, since the caller then delivers the token.
+  private async sendMail<T extends AuthMailTemplateId>(
+    mail: AuthMail<T>,
+  ): Promise<boolean> {
+    if (!this.options.mailer) {
+      return true;
+    }
+    return unwrapResult(await this.options.mailer.send(mail)).ok;
+  }
+
+  // True when there is no SMS sender, since the caller then delivers the code.
+  private async sendSms(sms: AuthSms): Promise<boolean> {
+    if (!this.options.smsSender) {
+      return true;
+    }
+    return unwrapResult(await this.options.smsSender.send(sms)).ok;
+  }
+
+  private issueIdToken(
+    user: Pick<
+      AuthUserRecord,
+      'uid' | 'tokensValidAfter' | 'customClaims' | 'anonymousSince'
+    >,
+    familyId: string,
+  ): { idToken: string; idTokenExpiresAt: number } {
+    const issuedAt = idTokenIssuedAt(user, this.clock.now());
+    const expiresAt = issuedAt + this.idTokenLifetimeMs;
+    const idToken = this.idTokenIssuer.issue({
+      uid: user.uid,
+      sessionId: familyId,
+      issuedAt,
+      expiresAt,
+      claims: { ...user.customClaims },
+      isAnonymous: user.anonymousSince !== undefined,
+    });
+    return { idToken, idTokenExpiresAt: expiresAt };
+  }
+
+  // Only the issuer's check applies: the token may already be revoked or
+  // expired and still identify the sign-in it came from.
+  private familyOfIdToken(
+    uid: string,
+    idToken: string | undefined,
+  ): string | undefined {
+    const read = idToken
+      ? unwrapResult(this.idTokenIssuer.read(idToken))
+      : undefined;
+    return read?.ok && read.value.uid === uid
+      ? read.value.sessionId
+      : undefined;
+  }
+
+  // Called with every token and code the backend issues, before it is sent.
+  // Backends keep no plaintext copy unless they override it, as
+  // AuthBackendTesting does so tests can complete the flows.
+  protected onSecretIssued(_secret: AuthIssuedSecret): void {}
+
+  // Called once the matching secrets can no longer be used.
+  protected onSecretsSpent(
+    _spent: Pick<AuthIssuedSecret, 'kind'> &
+      Partial<Pick<AuthIssuedSecret, 'secret' | 'owner'>>,
+  ): void {}
+}
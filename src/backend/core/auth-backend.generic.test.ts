@@ -1,5 +1,30 @@
 import { Result } from '@j2blasco/ts-result';
-import { IAuthBackend } from './auth-backend.interface';
+import {
+  AuthMfaChallenge,
+  AuthMfaResetEvent,
+  AuthSignInSession,
+  IAuthBackend,
+} from './auth-backend.interface';
+import {
+  hasAuthBackendAnonymous,
+  hasAuthBackendClaims,
+  hasAuthBackendEmailLinks,
+  hasAuthBackendMfa,
+  hasAuthBackendOidc,
+  hasAuthBackendPhone,
+  hasAuthBackendSessions,
+} from './auth-backend.capabilities';
+import { ManualClock } from '../../clock/clock';
+import { generateTotpCode } from '../../mfa/totp';
+import { FakeOidcProvider, FakeOidcUser } from '../../oidc/fake-oidc-provider';
+import { parseOidcCallback } from '../../oidc/oidc-callback';
+import { InMemorySmsSender } from '../../sms-sender/providers/memory/sms-sender.memory';
+import { InMemoryAuthMailer } from '../../mailer/providers/memory/auth-mailer.memory';
+import { createAuthMailLinks } from '../../mailer/core/auth-mail-templates';
+import { IPasswordHasher } from '../../password-hasher/core/password-hasher.interface';
+import { PasswordHasherScrypt } from '../../password-hasher/providers/scrypt/password-hasher.scrypt';
+import { BruteForceProtection } from '../sign-in-throttle/auth-sign-in-throttle';
+import { AuthBackendCoreOptions } from './auth-backend.core';
 
 /**
  * Helper functions for testing Result types
@@ -22,11 +47,144 @@ function getResultError<T, E>(result: Result<T, E>): E {
   }
 }
 
+/**
+ * Unwraps a sign-in that is expected to complete without a second factor
+ */
+export function unwrapSession<
+  T extends AuthSignInSession | AuthMfaChallenge,
+  E,
+>(result: Result<T, E>): Extract<T, { mfaRequired: false }> {
+  const signedIn = result.unwrapOrThrow();
+  if (signedIn.mfaRequired) {
+    throw new Error('Unexpected MFA challenge');
+  }
+  return signedIn as Extract<T, { mfaRequired: false }>;
+}
+
+let emailCounter = 0;
+
+/**
+ * Emails are unique per test so implementations may enforce unique accounts
+ */
+function uniqueEmail(prefix: string): string {
+  emailCounter += 1;
+  return `${prefix}-${Date.now()}-${emailCounter}@example.com`;
+}
+
+let subjectCounter = 0;
+
+function uniqueSubject(prefix: string): string {
+  subjectCounter += 1;
+  return `${prefix}-${Date.now()}-${subjectCounter}`;
+}
+
+let phoneCounter = 0;
+
+/**
+ * Phone numbers are unique per test since a number only gets a code a minute
+ */
+function uniquePhoneNumber(): string {
+  phoneCounter += 1;
+  const digits = (Date.now() * 100 + phoneCounter) % 1e10;
+  return `+1${digits.toString().padStart(10, '0')}`;
+}
+
+// Delegates to scrypt with a policy that can be strengthened mid-test.
+export class UpgradablePasswordHasher implements IPasswordHasher {
+  public hashCount = 0;
+  private policy = new PasswordHasherScrypt({ logCost: 10 });
+
+  public upgradePolicy(): void {
+    this.policy = new PasswordHasherScrypt({ logCost: 12 });
+  }
+
+  public hash(password: string): Promise<string> {
+    this.hashCount++;
+    return this.policy.hash(password);
+  }
+
+  public verify(args: { password: string; hash: string }): Promise<boolean> {
+    return this.policy.verify(args);
+  }
+
+  public needsRehash(hash: string): boolean {
+    return this.policy.needsRehash(hash);
+  }
+}
+
+function getFailedRules(result: { unwrapOrThrow: () => unknown }): string[] {
+  try {
+    result.unwrapOrThrow();
+  } catch (error) {
+    return (error as { failedRules: string[] }).failedRules;
+  }
+  throw new Error('Result is not an error');
+}
+
+function getRetryAfterMs(result: { unwrapOrThrow: () => unknown }): number {
+  try {
+    result.unwrapOrThrow();
+  } catch (error) {
+    return (error as { retryAfterMs: number }).retryAfterMs;
+  }
+  throw new Error('Result is not an error');
+}
+
+// The options the configured tests pass to a backend of their own.
+export type AuthBackendTestConfiguration = Pick<
+  AuthBackendCoreOptions,
+  | 'passwordHasher'
+  | 'passwordPolicy'
+  | 'bruteForceProtection'
+  | 'requireEmailVerification'
+  | 'mailer'
+  | 'mailLinks'
+  | 'smsSender'
+  | 'refreshTokenIdleLifetimeMs'
+  | 'refreshTokenAbsoluteLifetimeMs'
+  | 'signInLinkLifetimeMs'
+  | 'phoneCodeLifetimeMs'
+  | 'clock'
+>;
+
+export type AuthBackendTestOptions = {
+  // Runs the provider sign-in tests. The backend must be configured with this
+  // provider's config and fetch.
+  oidcProvider?: FakeOidcProvider;
+  // Runs the phone sign-in tests. The backend must text its codes through
+  // this sender.
+  smsSender?: InMemorySmsSender;
+  // Runs the expiry tests, which move this clock past token lifetimes and
+  // rate limit windows instead of waiting. The backend, and the provider and
+  // sender above, must read the time from it, and use the default lifetimes.
+  clock?: ManualClock;
+  // Runs the configured tests, each on a new backend built with these
+  // options and the provider's defaults for the rest.
+  createWithOptions?: (
+    configuration: AuthBackendTestConfiguration,
+  ) => IAuthBackend;
+};
+
 /**
  * Comprehensive test suite for IAuthBackend implementations.
  * Run this against any implementation to verify it satisfies the interface contract.
  */
-export function testAuthBackend(authBackend: IAuthBackend): void {
+export function testAuthBackend(
+  authBackend: IAuthBackend,
+  options: AuthBackendTestOptions = {},
+): void {
+  const { clock, createWithOptions } = options;
+  // The time as the backend sees it.
+  const now = () => clock?.now() ?? Date.now();
+  // Lets time pass, at once on a manual clock.
+  const elapse = async (ms: number) => {
+    if (clock) {
+      clock.advance(ms);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    }
+  };
+
   describe('IAuthBackend implementation tests', () => {
     describe('Observable events', () => {
       it('should have onUserCreated$ Observable', () => {
@@ -78,14 +236,42 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         const success = result.unwrapOrThrow();
         expect(emittedUid).toBe(success.uid);
       });
+
+      it('should return error for an email that is already registered', async () => {
+        const email = uniqueEmail('duplicate-backend-test');
+        const password = 'testPassword123';
+
+        await authBackend.signUpWithEmailPassword({ email, password });
+        const result = await authBackend.signUpWithEmailPassword({
+          email,
+          password,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('email-already-in-use');
+      });
+
+      it('should refuse an empty password', async () => {
+        const result = await authBackend.signUpWithEmailPassword({
+          email: uniqueEmail('empty-password-backend-test'),
+          password: '',
+        });
+
+        expect(getResultError(result)).toMatchObject({
+          code: 'weak-password',
+          failedRules: ['min-length'],
+        });
+      });
     });
 
     describe('signInWithEmailAndPassword', () => {
-      const testEmail = `signin-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUid: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('signin-backend-test');
         const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -100,12 +286,13 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         });
 
         expect(isResultSuccess(result)).toBe(true);
-        const success = result.unwrapOrThrow();
+        const success = unwrapSession(result);
         expect(success.uid).toBe(testUid);
         expect(typeof success.refreshToken).toBe('string');
         expect(typeof success.idToken).toBe('string');
         expect(success.refreshToken.length).toBeGreaterThan(0);
         expect(success.idToken.length).toBeGreaterThan(0);
+        expect(success.idTokenExpiresAt).toBeGreaterThan(now());
       });
 
       it('should return error for invalid email format', async () => {
@@ -143,12 +330,13 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
     });
 
     describe('getUidFromIdToken', () => {
-      const testEmail = `token-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUid: string;
       let testIdToken: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('token-backend-test');
         const signUpResult = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -159,7 +347,7 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
           email: testEmail,
           password: testPassword,
         });
-        testIdToken = signInResult.unwrapOrThrow().idToken;
+        testIdToken = unwrapSession(signInResult).idToken;
       });
 
       it('should return uid for valid idToken', async () => {
@@ -173,17 +361,18 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
       it('should return error for invalid idToken', async () => {
         const result = await authBackend.getUidFromIdToken('invalid-token');
 
-        expect(isResultSuccess(result)).toBe(false);
+        expect(getResultError(result).code).toBe('invalid-token');
       });
     });
 
     describe('signInWithRefreshToken', () => {
-      const testEmail = `refresh-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUid: string;
       let testRefreshToken: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('refresh-backend-test');
         const signUpResult = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -194,7 +383,7 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
           email: testEmail,
           password: testPassword,
         });
-        testRefreshToken = signInResult.unwrapOrThrow().refreshToken;
+        testRefreshToken = unwrapSession(signInResult).refreshToken;
       });
 
       it('should sign in with valid refresh token', async () => {
@@ -206,6 +395,7 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         expect(success.uid).toBe(testUid);
         expect(typeof success.idToken).toBe('string');
         expect(success.idToken.length).toBeGreaterThan(0);
+        expect(success.idTokenExpiresAt).toBeGreaterThan(now());
       });
 
       it('should return error for invalid refresh token', async () => {
@@ -214,15 +404,181 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         );
 
         expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('invalid-refresh-token');
+      });
+
+      it('should rotate the refresh token on every refresh', async () => {
+        const first = (
+          await authBackend.signInWithRefreshToken(testRefreshToken)
+        ).unwrapOrThrow();
+        const second = (
+          await authBackend.signInWithRefreshToken(first.refreshToken)
+        ).unwrapOrThrow();
+
+        expect(first.refreshToken).not.toBe(testRefreshToken);
+        expect(second.refreshToken).not.toBe(first.refreshToken);
+        expect(second.uid).toBe(testUid);
+      });
+
+      it('should return error when a rotated-out refresh token is reused', async () => {
+        await authBackend.signInWithRefreshToken(testRefreshToken);
+
+        const result =
+          await authBackend.signInWithRefreshToken(testRefreshToken);
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('refresh-token-reused');
+      });
+
+      it('should revoke every token of the sign-in when reuse is detected', async () => {
+        const rotated = (
+          await authBackend.signInWithRefreshToken(testRefreshToken)
+        ).unwrapOrThrow();
+
+        await authBackend.signInWithRefreshToken(testRefreshToken);
+        const result = await authBackend.signInWithRefreshToken(
+          rotated.refreshToken,
+        );
+
+        expect(isResultSuccess(result)).toBe(false);
+      });
+
+      it('should keep other sign-ins working when reuse is detected', async () => {
+        const otherSignIn = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        await authBackend.signInWithRefreshToken(testRefreshToken);
+
+        await authBackend.signInWithRefreshToken(testRefreshToken);
+        const result = await authBackend.signInWithRefreshToken(
+          otherSignIn.refreshToken,
+        );
+
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      it('should keep the sign-in when two refreshes send one token at once', async () => {
+        const results = await Promise.all([
+          authBackend.signInWithRefreshToken(testRefreshToken),
+          authBackend.signInWithRefreshToken(testRefreshToken),
+        ]);
+
+        const winners = results.filter((result) => isResultSuccess(result));
+        expect(winners).toHaveLength(1);
+        const loser = results.find((result) => !isResultSuccess(result));
+        if (loser) {
+          expect(getResultError(loser).code).toBe('refresh-token-conflict');
+        }
+        const next = await authBackend.signInWithRefreshToken(
+          winners[0].unwrapOrThrow().refreshToken,
+        );
+        expect(isResultSuccess(next)).toBe(true);
       });
     });
 
+    if (hasAuthBackendSessions(authBackend)) {
+      describe('listSessions and revokeSession', () => {
+        let testEmail: string;
+        const testPassword = 'testPassword123';
+        let testUid: string;
+
+        beforeEach(async () => {
+          testEmail = uniqueEmail('sessions-backend-test');
+          const result = await authBackend.signUpWithEmailPassword({
+            email: testEmail,
+            password: testPassword,
+          });
+          testUid = result.unwrapOrThrow().uid;
+        });
+
+        const signIn = (deviceName?: string) =>
+          authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+            ...(deviceName && { client: { deviceName } }),
+          });
+
+        it('should list one session per sign-in with its client metadata', async () => {
+          const laptop = unwrapSession(await signIn('Laptop'));
+          const phone = unwrapSession(await signIn('Phone'));
+
+          const sessions = (
+            await authBackend.listSessions(testUid)
+          ).unwrapOrThrow();
+
+          expect(sessions.map((session) => session.id)).toEqual([
+            laptop.sessionId,
+            phone.sessionId,
+          ]);
+          expect(sessions[0].uid).toBe(testUid);
+          expect(sessions[0].client?.deviceName).toBe('Laptop');
+          expect(sessions[1].client?.deviceName).toBe('Phone');
+        });
+
+        it('should update the last refresh time when refreshing', async () => {
+          const { sessionId, refreshToken } = unwrapSession(await signIn());
+          await elapse(5);
+
+          await authBackend.signInWithRefreshToken(refreshToken);
+          const sessions = (
+            await authBackend.listSessions(testUid)
+          ).unwrapOrThrow();
+
+          const session = sessions.find(({ id }) => id === sessionId);
+          expect(session!.lastRefreshedAt).toBeGreaterThan(session!.createdAt);
+        });
+
+        it('should end only the revoked session', async () => {
+          const revoked = unwrapSession(await signIn());
+          const kept = unwrapSession(await signIn());
+
+          const result = await authBackend.revokeSession(revoked.sessionId);
+
+          expect(isResultSuccess(result)).toBe(true);
+          const idTokenResult = await authBackend.getUidFromIdToken(
+            revoked.idToken,
+          );
+          expect(getResultError(idTokenResult).code).toBe('token-revoked');
+          const refreshResult = await authBackend.signInWithRefreshToken(
+            revoked.refreshToken,
+          );
+          expect(isResultSuccess(refreshResult)).toBe(false);
+          const keptUid = await authBackend.getUidFromIdToken(kept.idToken);
+          expect(keptUid.unwrapOrThrow()).toBe(testUid);
+          const sessions = (
+            await authBackend.listSessions(testUid)
+          ).unwrapOrThrow();
+          expect(sessions.map((session) => session.id)).toEqual([
+            kept.sessionId,
+          ]);
+        });
+
+        it('should return error for an unknown session', async () => {
+          const result = await authBackend.revokeSession('unknown-session');
+
+          expect(getResultError(result).code).toBe('session-not-found');
+        });
+
+        it('should return error when listing sessions of a non-existent user', async () => {
+          const result = await authBackend.listSessions('non-existent-uid');
+
+          expect(getResultError(result).code).toBe('user-not-found');
+        });
+      });
+    }
+
     describe('getUidByEmail', () => {
-      const testEmail = `uidbyemail-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUid: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('uidbyemail-backend-test');
         const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -250,12 +606,13 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
     });
 
     describe('changeEmail', () => {
-      const testEmail = `changeemail-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       const newEmail = `new-${Date.now()}@example.com`;
       let testUid: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('changeemail-backend-test');
         const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -277,6 +634,23 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         expect(uidResult.unwrapOrThrow().uid).toBe(testUid);
       });
 
+      it('should return error when the new email is already registered', async () => {
+        const takenEmail = uniqueEmail('taken-backend-test');
+        await authBackend.signUpWithEmailPassword({
+          email: takenEmail,
+          password: testPassword,
+        });
+
+        const result = await authBackend.changeEmail({
+          uid: testUid,
+          newEmail: takenEmail,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('email-already-in-use');
+      });
+
       it('should return error for non-existent user', async () => {
         const result = await authBackend.changeEmail({
           uid: 'non-existent-uid',
@@ -284,16 +658,56 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         });
 
         expect(isResultSuccess(result)).toBe(false);
+        expect(getResultError(result).code).toBe('user-not-found');
+      });
+
+      it('should return error for an invalid new email', async () => {
+        const result = await authBackend.changeEmail({
+          uid: testUid,
+          newEmail: 'invalid-email',
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        expect(getResultError(result).code).toBe('invalid-email');
+        const uidResult = await authBackend.getUidByEmail(testEmail);
+        expect(uidResult.unwrapOrThrow().uid).toBe(testUid);
+      });
+
+      it('should revoke other sign-ins but keep the current one refreshable', async () => {
+        const signIn = () =>
+          authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          });
+        const current = unwrapSession(await signIn());
+        const other = unwrapSession(await signIn());
+
+        await authBackend.changeEmail({
+          uid: testUid,
+          newEmail: uniqueEmail('changed-backend-test'),
+          currentIdToken: current.idToken,
+        });
+
+        const otherRefresh = await authBackend.signInWithRefreshToken(
+          other.refreshToken,
+        );
+        expect(isResultSuccess(otherRefresh)).toBe(false);
+        const currentRefresh = (
+          await authBackend.signInWithRefreshToken(current.refreshToken)
+        ).unwrapOrThrow();
+        const uid = await authBackend.getUidFromIdToken(currentRefresh.idToken);
+        expect(uid.unwrapOrThrow()).toBe(testUid);
       });
     });
 
     describe('changePassword', () => {
-      const testEmail = `changepassword-backend-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       const newPassword = 'newPassword456';
       let testUid: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('changepassword-backend-test');
         const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -332,14 +746,82 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
 
         expect(isResultSuccess(result)).toBe(false);
       });
+
+      it('should revoke existing sign-ins by default', async () => {
+        const signIn = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+
+        await authBackend.changePassword({ uid: testUid, newPassword });
+
+        const idTokenResult = await authBackend.getUidFromIdToken(
+          signIn.idToken,
+        );
+        expect(getResultError(idTokenResult).code).toBe('token-revoked');
+        const refreshResult = await authBackend.signInWithRefreshToken(
+          signIn.refreshToken,
+        );
+        expect(isResultSuccess(refreshResult)).toBe(false);
+      });
+
+      it('should keep existing sign-ins when revokeOtherSessions is false', async () => {
+        const signIn = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+
+        await authBackend.changePassword({
+          uid: testUid,
+          newPassword,
+          revokeOtherSessions: false,
+        });
+
+        const uid = await authBackend.getUidFromIdToken(signIn.idToken);
+        expect(uid.unwrapOrThrow()).toBe(testUid);
+        const refreshResult = await authBackend.signInWithRefreshToken(
+          signIn.refreshToken,
+        );
+        expect(isResultSuccess(refreshResult)).toBe(true);
+      });
+
+      it('should keep the sign-in of currentIdToken refreshable', async () => {
+        const current = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+
+        await authBackend.changePassword({
+          uid: testUid,
+          newPassword,
+          currentIdToken: current.idToken,
+        });
+
+        const idTokenResult = await authBackend.getUidFromIdToken(
+          current.idToken,
+        );
+        expect(getResultError(idTokenResult).code).toBe('token-revoked');
+        const refreshed = (
+          await authBackend.signInWithRefreshToken(current.refreshToken)
+        ).unwrapOrThrow();
+        const uid = await authBackend.getUidFromIdToken(refreshed.idToken);
+        expect(uid.unwrapOrThrow()).toBe(testUid);
+      });
     });
 
-    describe('deleteUser', () => {
-      const testEmail = `delete-backend-test-${Date.now()}@example.com`;
+    describe('revokeRefreshTokens', () => {
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUid: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('revoke-backend-test');
         const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
@@ -347,43 +829,2151 @@ export function testAuthBackend(authBackend: IAuthBackend): void {
         testUid = result.unwrapOrThrow().uid;
       });
 
-      it('should delete existing user', async () => {
-        const result = await authBackend.deleteUser({ uid: testUid });
+      it('should reject idTokens issued before the revocation', async () => {
+        const { idToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
 
-        expect(isResultSuccess(result)).toBe(true);
+        await authBackend.revokeRefreshTokens({ uid: testUid });
+        const result = await authBackend.getUidFromIdToken(idToken);
 
-        // Verify user was actually deleted
-        const signInResult = await authBackend.signInWithEmailAndPassword({
+        expect(getResultError(result).code).toBe('token-revoked');
+      });
+
+      it('should stop every refresh token from working', async () => {
+        const { refreshToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+
+        await authBackend.revokeRefreshTokens({ uid: testUid });
+        const result = await authBackend.signInWithRefreshToken(refreshToken);
+
+        expect(isResultSuccess(result)).toBe(false);
+      });
+
+      it('should accept sign-ins made after the revocation', async () => {
+        await authBackend.revokeRefreshTokens({ uid: testUid });
+
+        const { idToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        const result = await authBackend.getUidFromIdToken(idToken);
+
+        expect(result.unwrapOrThrow()).toBe(testUid);
+      });
+
+      it('should return error for non-existent user', async () => {
+        const result = await authBackend.revokeRefreshTokens({
+          uid: 'non-existent-uid',
+        });
+
+        expect(getResultError(result).code).toBe('user-not-found');
+      });
+    });
+
+    describe('setCustomClaims and verifyIdToken', () => {
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+      let testUid: string;
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('claims-backend-test');
+        const result = await authBackend.signUpWithEmailPassword({
           email: testEmail,
           password: testPassword,
         });
-        expect(isResultSuccess(signInResult)).toBe(false);
-        const error = getResultError(signInResult);
-        expect(error.code).toBe('user-not-found');
+        testUid = result.unwrapOrThrow().uid;
       });
 
-      it('should emit onUserDeleted$ event when user is deleted', async () => {
-        let emittedUid: string | undefined;
-        const subscription = authBackend.onUserDeleted$.subscribe((event) => {
-          emittedUid = event.uid;
-        });
+      async function signIn() {
+        return unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+      }
 
-        await authBackend.deleteUser({ uid: testUid });
+      it('should verify an idToken of a user without claims', async () => {
+        const { idToken } = await signIn();
 
-        // Give some time for the observable to emit
-        await new Promise((resolve) => setTimeout(resolve, 10));
+        const result = await authBackend.verifyIdToken(idToken);
 
-        subscription.unsubscribe();
-        expect(emittedUid).toBe(testUid);
+        expect(result.unwrapOrThrow()).toEqual({ uid: testUid, claims: {} });
       });
 
-      it('should return error for non-existent user', async () => {
-        const result = await authBackend.deleteUser({
-          uid: 'non-existent-uid',
+      if (hasAuthBackendClaims(authBackend)) {
+        it('should carry the claims in idTokens issued after they are set', async () => {
+          const claims = { role: 'admin', teams: ['a', 'b'] };
+          await authBackend.setCustomClaims({ uid: testUid, claims });
+
+          const session = await signIn();
+          const verified = await authBackend.verifyIdToken(session.idToken);
+
+          expect(session.claims).toEqual(claims);
+          expect(verified.unwrapOrThrow().claims).toEqual(claims);
         });
 
-        expect(isResultSuccess(result)).toBe(false);
+        it('should refresh the claims on the next token refresh', async () => {
+          const { idToken, refreshToken } = await signIn();
+
+          await authBackend.setCustomClaims({
+            uid: testUid,
+            claims: { role: 'editor' },
+          });
+          const before = await authBackend.verifyIdToken(idToken);
+          const refreshed = (
+            await authBackend.signInWithRefreshToken(refreshToken)
+          ).unwrapOrThrow();
+          const after = await authBackend.verifyIdToken(refreshed.idToken);
+
+          expect(before.unwrapOrThrow().claims).toEqual({});
+          expect(refreshed.claims).toEqual({ role: 'editor' });
+          expect(after.unwrapOrThrow().claims).toEqual({ role: 'editor' });
+        });
+
+        it('should remove the claims when set to an empty object', async () => {
+          await authBackend.setCustomClaims({
+            uid: testUid,
+            claims: { role: 'admin' },
+          });
+          await authBackend.setCustomClaims({ uid: testUid, claims: {} });
+
+          const { claims } = await signIn();
+
+          expect(claims).toEqual({});
+        });
+
+        it('should reject reserved claim names', async () => {
+          const result = await authBackend.setCustomClaims({
+            uid: testUid,
+            claims: { exp: 0 },
+          });
+
+          expect(getResultError(result).code).toBe('reserved-claim');
+        });
+
+        it('should reject claims that are too large', async () => {
+          const result = await authBackend.setCustomClaims({
+            uid: testUid,
+            claims: { data: 'x'.repeat(1000) },
+          });
+
+          expect(getResultError(result).code).toBe('claims-too-large');
+        });
+
+        it('should return error for non-existent user', async () => {
+          const result = await authBackend.setCustomClaims({
+            uid: 'non-existent-uid',
+            claims: { role: 'admin' },
+          });
+
+          expect(getResultError(result).code).toBe('user-not-found');
+        });
+      }
+
+      it('should return error for invalid idToken', async () => {
+        const result = await authBackend.verifyIdToken('invalid-token');
+
+        expect(getResultError(result).code).toBe('invalid-token');
       });
     });
+
+    if (hasAuthBackendAnonymous(authBackend)) {
+      describe('anonymous users', () => {
+        // An arrow function, so the narrowing of authBackend carries over.
+        const signInAnonymously = async () =>
+          (await authBackend.signInAnonymously({})).unwrapOrThrow();
+
+        it('should sign in without email and flag the idToken', async () => {
+          const session = await signInAnonymously();
+
+          const verified = await authBackend.verifyIdToken(session.idToken);
+
+          expect(session.isAnonymous).toBe(true);
+          expect(verified.unwrapOrThrow()).toEqual({
+            uid: session.uid,
+            claims: {},
+            isAnonymous: true,
+          });
+        });
+
+        it('should emit onUserCreated$ for an anonymous user', async () => {
+          const emitted: string[] = [];
+          const subscription = authBackend.onUserCreated$.subscribe((event) => {
+            emitted.push(event.uid);
+          });
+
+          const { uid } = await signInAnonymously();
+          subscription.unsubscribe();
+
+          expect(emitted).toEqual([uid]);
+        });
+
+        it('should keep the uid when an email and password are linked', async () => {
+          const { uid } = await signInAnonymously();
+          const email = uniqueEmail('link-backend-test');
+
+          const linked = await authBackend.linkWithEmailAndPassword({
+            uid,
+            email,
+            password: 'testPassword123',
+          });
+          const session = unwrapSession(
+            await authBackend.signInWithEmailAndPassword({
+              email,
+              password: 'testPassword123',
+            }),
+          );
+
+          expect(isResultSuccess(linked)).toBe(true);
+          expect(session.uid).toBe(uid);
+          expect(session.isAnonymous).toBeUndefined();
+        });
+
+        it('should stop flagging idTokens after the next refresh', async () => {
+          const { uid, idToken, refreshToken } = await signInAnonymously();
+          await authBackend.linkWithEmailAndPassword({
+            uid,
+            email: uniqueEmail('link-refresh-backend-test'),
+            password: 'testPassword123',
+          });
+
+          const before = await authBackend.verifyIdToken(idToken);
+          const refreshed = (
+            await authBackend.signInWithRefreshToken(refreshToken)
+          ).unwrapOrThrow();
+          const after = await authBackend.verifyIdToken(refreshed.idToken);
+
+          expect(before.unwrapOrThrow().isAnonymous).toBe(true);
+          expect(after.unwrapOrThrow()).toEqual({ uid, claims: {} });
+        });
+
+        it('should refuse to link a user who is not anonymous', async () => {
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: uniqueEmail('not-anonymous-backend-test'),
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+
+          const result = await authBackend.linkWithEmailAndPassword({
+            uid,
+            email: uniqueEmail('not-anonymous-link-backend-test'),
+            password: 'testPassword123',
+          });
+
+          expect(getResultError(result).code).toBe('not-anonymous');
+        });
+
+        it('should refuse to link an email that is already registered', async () => {
+          const email = uniqueEmail('taken-link-backend-test');
+          await authBackend.signUpWithEmailPassword({
+            email,
+            password: 'testPassword123',
+          });
+          const { uid } = await signInAnonymously();
+
+          const result = await authBackend.linkWithEmailAndPassword({
+            uid,
+            email,
+            password: 'otherPassword123',
+          });
+
+          expect(getResultError(result).code).toBe('email-already-in-use');
+        });
+
+        it('should delete inactive anonymous users only', async () => {
+          const anonymous = await signInAnonymously();
+          const linked = await signInAnonymously();
+          await authBackend.linkWithEmailAndPassword({
+            uid: linked.uid,
+            email: uniqueEmail('kept-backend-test'),
+            password: 'testPassword123',
+          });
+          const deleted: string[] = [];
+          const subscription = authBackend.onUserDeleted$.subscribe((event) => {
+            deleted.push(event.uid);
+          });
+
+          const result = await authBackend.deleteAnonymousUsers({
+            inactiveForMs: 0,
+          });
+          subscription.unsubscribe();
+          const verified = await authBackend.verifyIdToken(anonymous.idToken);
+
+          const { uids } = result.unwrapOrThrow();
+          expect(uids).toContain(anonymous.uid);
+          expect(uids).not.toContain(linked.uid);
+          expect(deleted).toEqual(uids);
+          expect(isResultSuccess(verified)).toBe(false);
+        });
+
+        it('should keep anonymous users that were active recently', async () => {
+          const { uid } = await signInAnonymously();
+
+          const result = await authBackend.deleteAnonymousUsers({
+            inactiveForMs: 60 * 60 * 1000,
+          });
+
+          expect(result.unwrapOrThrow().uids).not.toContain(uid);
+        });
+      });
+    }
+
+    const { oidcProvider } = options;
+    if (oidcProvider && hasAuthBackendOidc(authBackend)) {
+      describe('OpenID Connect providers', () => {
+        const providerId = oidcProvider.config.id;
+        const redirectUri = 'https://app.example.com/auth/callback';
+
+        // Arrow functions, so the narrowing of oidcProvider and authBackend
+        // carries over.
+        const authorize = (
+          authorizationUrl: string,
+          user: FakeOidcUser,
+        ): { state: string; code: string } => {
+          const { state, code } = parseOidcCallback(
+            oidcProvider.authorize(authorizationUrl, user),
+          );
+          return { state: state ?? '', code: code ?? '' };
+        };
+
+        const signInWithProvider = async (user: FakeOidcUser) => {
+          const { authorizationUrl } = (
+            await authBackend.startProviderSignIn({ providerId, redirectUri })
+          ).unwrapOrThrow();
+          return authBackend.completeProviderSignIn(
+            authorize(authorizationUrl, user),
+          );
+        };
+
+        const linkProvider = async (uid: string, user: FakeOidcUser) => {
+          const { authorizationUrl } = (
+            await authBackend.startProviderLink({
+              uid,
+              providerId,
+              redirectUri,
+            })
+          ).unwrapOrThrow();
+          return authBackend.completeProviderLink({
+            uid,
+            ...authorize(authorizationUrl, user),
+          });
+        };
+
+        it('should create a user on the first sign-in and reuse it after', async () => {
+          const user = { subject: uniqueSubject('oidc-backend-test') };
+
+          const first = unwrapSession(await signInWithProvider(user));
+          const second = unwrapSession(await signInWithProvider(user));
+          const verified = await authBackend.verifyIdToken(second.idToken);
+
+          expect(second.uid).toBe(first.uid);
+          expect(verified.unwrapOrThrow().uid).toBe(first.uid);
+        });
+
+        it('should take the email only when the provider verified it', async () => {
+          const verifiedEmail = uniqueEmail('oidc-verified-backend-test');
+          const unverifiedEmail = uniqueEmail('oidc-unverified-backend-test');
+
+          const withVerified = unwrapSession(
+            await signInWithProvider({
+              subject: uniqueSubject('oidc-backend-test'),
+              email: verifiedEmail,
+            }),
+          );
+          await signInWithProvider({
+            subject: uniqueSubject('oidc-backend-test'),
+            email: unverifiedEmail,
+            emailVerified: false,
+          });
+
+          expect(
+            (await authBackend.getUidByEmail(verifiedEmail)).unwrapOrThrow(),
+          ).toEqual({ uid: withVerified.uid, emailVerified: true });
+          expect(
+            getResultError(await authBackend.getUidByEmail(unverifiedEmail))
+              .code,
+          ).toBe('email-not-found');
+        });
+
+        it('should refuse a sign-in with the email of another user', async () => {
+          const email = uniqueEmail('oidc-taken-backend-test');
+          await authBackend.signUpWithEmailPassword({
+            email,
+            password: 'testPassword123',
+          });
+
+          const result = await signInWithProvider({
+            subject: uniqueSubject('oidc-backend-test'),
+            email,
+          });
+
+          expect(getResultError(result).code).toBe('email-already-in-use');
+        });
+
+        it('should accept each state only once', async () => {
+          const { authorizationUrl } = (
+            await authBackend.startProviderSignIn({ providerId, redirectUri })
+          ).unwrapOrThrow();
+          const callback = authorize(authorizationUrl, {
+            subject: uniqueSubject('oidc-backend-test'),
+          });
+
+          await authBackend.completeProviderSignIn(callback);
+          const replayed = await authBackend.completeProviderSignIn(callback);
+
+          expect(getResultError(replayed).code).toBe('invalid-oidc-state');
+        });
+
+        it('should refuse an id_token issued for another sign-in', async () => {
+          const result = await signInWithProvider({
+            subject: uniqueSubject('oidc-backend-test'),
+            idTokenClaims: { nonce: 'another-nonce' },
+          });
+
+          expect(getResultError(result).code).toBe('invalid-id-token');
+        });
+
+        it('should refuse an unknown provider', async () => {
+          const result = await authBackend.startProviderSignIn({
+            providerId: 'unknown-provider',
+            redirectUri,
+          });
+
+          expect(getResultError(result).code).toBe('provider-not-found');
+        });
+
+        it('should sign in the user an identity was linked to', async () => {
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: uniqueEmail('oidc-link-backend-test'),
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+          const user = { subject: uniqueSubject('oidc-link-backend-test') };
+
+          const linked = await linkProvider(uid, user);
+          const relinked = await linkProvider(uid, user);
+          const session = unwrapSession(await signInWithProvider(user));
+
+          expect(isResultSuccess(linked)).toBe(true);
+          expect(isResultSuccess(relinked)).toBe(true);
+          expect(session.uid).toBe(uid);
+        });
+
+        it('should refuse to link an identity of another user', async () => {
+          const user = { subject: uniqueSubject('oidc-link-backend-test') };
+          await signInWithProvider(user);
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: uniqueEmail('oidc-link-backend-test'),
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+
+          const result = await linkProvider(uid, user);
+
+          expect(getResultError(result).code).toBe('identity-already-linked');
+        });
+
+        it('should not sign in with a state started for a link', async () => {
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: uniqueEmail('oidc-link-backend-test'),
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+          const { authorizationUrl } = (
+            await authBackend.startProviderLink({
+              uid,
+              providerId,
+              redirectUri,
+            })
+          ).unwrapOrThrow();
+
+          const result = await authBackend.completeProviderSignIn(
+            authorize(authorizationUrl, {
+              subject: uniqueSubject('oidc-link-backend-test'),
+            }),
+          );
+
+          expect(getResultError(result).code).toBe('invalid-oidc-state');
+        });
+
+        if (hasAuthBackendAnonymous(authBackend)) {
+          it('should make an anonymous user permanent when linking', async () => {
+            const { uid, refreshToken } = (
+              await authBackend.signInAnonymously({})
+            ).unwrapOrThrow();
+
+            await linkProvider(uid, {
+              subject: uniqueSubject('oidc-anonymous-backend-test'),
+            });
+            const refreshed = (
+              await authBackend.signInWithRefreshToken(refreshToken)
+            ).unwrapOrThrow();
+            const deleted = (
+              await authBackend.deleteAnonymousUsers({ inactiveForMs: 0 })
+            ).unwrapOrThrow();
+
+            expect(
+              (
+                await authBackend.verifyIdToken(refreshed.idToken)
+              ).unwrapOrThrow(),
+            ).toEqual({ uid, claims: {} });
+            expect(deleted.uids).not.toContain(uid);
+          });
+        }
+      });
+    }
+
+    if (hasAuthBackendMfa(authBackend)) {
+      describe('TOTP multi-factor authentication', () => {
+        let testEmail: string;
+        const testPassword = 'testPassword123';
+        let testUid: string;
+
+        beforeEach(async () => {
+          testEmail = uniqueEmail('mfa-backend-test');
+          const result = await authBackend.signUpWithEmailPassword({
+            email: testEmail,
+            password: testPassword,
+          });
+          testUid = result.unwrapOrThrow().uid;
+        });
+
+        // A code of the next time step, which replay protection has not seen.
+        const nextCode = (secret: string) =>
+          generateTotpCode(secret, now() + 30_000);
+
+        let recoveryCodes: string[];
+
+        // Keeps the recovery codes of the confirmation in recoveryCodes. An
+        // arrow function, so the narrowing of authBackend carries over.
+        const enroll = async (): Promise<string> => {
+          const { secret } = (
+            await authBackend.enrollTotp({ uid: testUid })
+          ).unwrapOrThrow();
+          recoveryCodes = (
+            await authBackend.confirmTotpEnrollment({
+              uid: testUid,
+              code: generateTotpCode(secret, now()),
+            })
+          ).unwrapOrThrow().recoveryCodes;
+          return secret;
+        };
+
+        function signIn() {
+          return authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          });
+        }
+
+        async function challenge(): Promise<string> {
+          const signedIn = (await signIn()).unwrapOrThrow();
+          if (!signedIn.mfaRequired) {
+            throw new Error('Expected an MFA challenge');
+          }
+          return signedIn.mfaChallenge;
+        }
+
+        it('should return an otpauth URI for the new secret', async () => {
+          const { secret, uri } = (
+            await authBackend.enrollTotp({ uid: testUid })
+          ).unwrapOrThrow();
+
+          expect(uri.startsWith('otpauth://totp/')).toBe(true);
+          expect(new URL(uri).searchParams.get('secret')).toBe(secret);
+        });
+
+        it('should not ask for a code until the enrollment is confirmed', async () => {
+          await authBackend.enrollTotp({ uid: testUid });
+
+          expect(unwrapSession(await signIn()).uid).toBe(testUid);
+        });
+
+        it('should answer sign-ins with a challenge once confirmed', async () => {
+          await enroll();
+
+          const signedIn = (await signIn()).unwrapOrThrow();
+
+          expect(signedIn).toEqual({
+            mfaRequired: true,
+            mfaChallenge: expect.any(String),
+            factors: ['totp', 'recovery-code'],
+            expiresAt: expect.any(Number),
+          });
+        });
+
+        it('should start a session when the challenge is answered', async () => {
+          const secret = await enroll();
+          const mfaChallenge = await challenge();
+
+          const session = (
+            await authBackend.completeMfaSignIn({
+              mfaChallenge,
+              code: nextCode(secret),
+            })
+          ).unwrapOrThrow();
+          const uid = await authBackend.getUidFromIdToken(session.idToken);
+
+          expect(session.mfaRequired).toBe(false);
+          expect(uid.unwrapOrThrow()).toBe(testUid);
+        });
+
+        it('should reject a wrong code but allow another attempt', async () => {
+          const secret = await enroll();
+          const mfaChallenge = await challenge();
+
+          const wrong = await authBackend.completeMfaSignIn({
+            mfaChallenge,
+            code: '000000',
+          });
+          const right = await authBackend.completeMfaSignIn({
+            mfaChallenge,
+            code: nextCode(secret),
+          });
+
+          expect(getResultError(wrong).code).toBe('invalid-mfa-code');
+          expect(isResultSuccess(right)).toBe(true);
+        });
+
+        describe('wrong codes of one user', () => {
+          // Past the three failures allowed by default, one more makes the
+          // user wait.
+          const failFourTimes = async (attempt: () => Promise<unknown>) => {
+            for (let i = 0; i < 4; i++) {
+              await attempt();
+            }
+          };
+
+          it('should refuse codes for a while once the user got too many wrong across challenges', async () => {
+            const secret = await enroll();
+            await failFourTimes(async () =>
+              authBackend.completeMfaSignIn({
+                mfaChallenge: await challenge(),
+                code: '000000',
+              }),
+            );
+            const mfaChallenge = await challenge();
+
+            const refused = await authBackend.completeMfaSignIn({
+              mfaChallenge,
+              code: nextCode(secret),
+            });
+            expect(getResultError(refused).code).toBe('too-many-attempts');
+            const retryAfterMs = getRetryAfterMs(refused);
+            expect(retryAfterMs).toBeGreaterThan(0);
+
+            await elapse(retryAfterMs);
+            const accepted = await authBackend.completeMfaSignIn({
+              mfaChallenge,
+              code: nextCode(secret),
+            });
+            expect(isResultSuccess(accepted)).toBe(true);
+          });
+
+          it('should count wrong codes of the second factor checks too', async () => {
+            const secret = await enroll();
+            await failFourTimes(() =>
+              authBackend.verifyRecoveryCode({
+                uid: testUid,
+                recoveryCode: 'wrong-recovery-code',
+              }),
+            );
+
+            const viaTotp = await authBackend.verifyTotpCode({
+              uid: testUid,
+              code: nextCode(secret),
+            });
+            const viaSignIn = await authBackend.completeMfaSignIn({
+              mfaChallenge: await challenge(),
+              code: nextCode(secret),
+            });
+
+            expect(getResultError(viaTotp).code).toBe('too-many-attempts');
+            expect(getResultError(viaSignIn).code).toBe('too-many-attempts');
+          });
+
+          it('should let an unlocked user try again at once', async () => {
+            const secret = await enroll();
+            await failFourTimes(() =>
+              authBackend.verifyTotpCode({ uid: testUid, code: '000000' }),
+            );
+
+            (await authBackend.unlockSignIn({ uid: testUid })).unwrapOrThrow();
+            const result = await authBackend.verifyTotpCode({
+              uid: testUid,
+              code: nextCode(secret),
+            });
+
+            expect(isResultSuccess(result)).toBe(true);
+          });
+        });
+
+        it('should not accept the same code twice', async () => {
+          const secret = await enroll();
+          const code = nextCode(secret);
+          await authBackend.completeMfaSignIn({
+            mfaChallenge: await challenge(),
+            code,
+          });
+
+          const replayed = await authBackend.completeMfaSignIn({
+            mfaChallenge: await challenge(),
+            code,
+          });
+
+          expect(getResultError(replayed).code).toBe('invalid-mfa-code');
+        });
+
+        it('should not accept a challenge twice', async () => {
+          const secret = await enroll();
+          const mfaChallenge = await challenge();
+          await authBackend.completeMfaSignIn({
+            mfaChallenge,
+            code: nextCode(secret),
+          });
+
+          const result = await authBackend.completeMfaSignIn({
+            mfaChallenge,
+            code: generateTotpCode(secret, now() - 30_000),
+          });
+
+          expect(getResultError(result).code).toBe('invalid-mfa-challenge');
+        });
+
+        it('should refuse to enroll again while a factor is confirmed', async () => {
+          await enroll();
+
+          const result = await authBackend.enrollTotp({ uid: testUid });
+
+          expect(getResultError(result).code).toBe('mfa-already-enrolled');
+        });
+
+        it('should verify codes of the confirmed factor only', async () => {
+          const before = await authBackend.verifyTotpCode({
+            uid: testUid,
+            code: '123456',
+          });
+          const secret = await enroll();
+          const after = await authBackend.verifyTotpCode({
+            uid: testUid,
+            code: nextCode(secret),
+          });
+
+          expect(getResultError(before).code).toBe('mfa-not-enrolled');
+          expect(isResultSuccess(after)).toBe(true);
+        });
+
+        it('should sign in without a code after unenrolling', async () => {
+          await enroll();
+
+          (await authBackend.unenrollTotp({ uid: testUid })).unwrapOrThrow();
+
+          expect(unwrapSession(await signIn()).uid).toBe(testUid);
+        });
+
+        it('should answer the confirmation with distinct recovery codes', async () => {
+          await enroll();
+
+          expect(recoveryCodes.length).toBeGreaterThan(0);
+          expect(new Set(recoveryCodes).size).toBe(recoveryCodes.length);
+        });
+
+        it('should sign in with each recovery code once', async () => {
+          await enroll();
+
+          const first = await authBackend.completeMfaSignInWithRecoveryCode({
+            mfaChallenge: await challenge(),
+            recoveryCode: recoveryCodes[0],
+          });
+          const reused = await authBackend.completeMfaSignInWithRecoveryCode({
+            mfaChallenge: await challenge(),
+            recoveryCode: recoveryCodes[0],
+          });
+
+          expect(unwrapSession(first).uid).toBe(testUid);
+          expect(getResultError(reused).code).toBe('invalid-recovery-code');
+        });
+
+        it('should accept recovery codes regardless of case and dashes', async () => {
+          await enroll();
+
+          const result = await authBackend.verifyRecoveryCode({
+            uid: testUid,
+            recoveryCode: recoveryCodes[0].toLowerCase().replace(/-/g, ''),
+          });
+
+          expect(isResultSuccess(result)).toBe(true);
+        });
+
+        it('should only accept regenerated recovery codes', async () => {
+          await enroll();
+          const previous = recoveryCodes;
+
+          const regenerated = (
+            await authBackend.regenerateRecoveryCodes({ uid: testUid })
+          ).unwrapOrThrow();
+          const old = await authBackend.verifyRecoveryCode({
+            uid: testUid,
+            recoveryCode: previous[0],
+          });
+          const fresh = await authBackend.verifyRecoveryCode({
+            uid: testUid,
+            recoveryCode: regenerated.recoveryCodes[0],
+          });
+
+          expect(getResultError(old).code).toBe('invalid-recovery-code');
+          expect(isResultSuccess(fresh)).toBe(true);
+        });
+
+        it('should not offer recovery codes once they are used up', async () => {
+          await enroll();
+          for (const recoveryCode of recoveryCodes) {
+            await authBackend.verifyRecoveryCode({
+              uid: testUid,
+              recoveryCode,
+            });
+          }
+
+          const signedIn = (await signIn()).unwrapOrThrow();
+
+          expect(signedIn.mfaRequired && signedIn.factors).toEqual(['totp']);
+        });
+
+        it('should remove every factor on an admin reset and record it', async () => {
+          await enroll();
+          const events: AuthMfaResetEvent[] = [];
+          const subscription = authBackend.onMfaReset$.subscribe((event) =>
+            events.push(event),
+          );
+
+          const result = await authBackend.resetMfa({
+            uid: testUid,
+            resetBy: 'support-agent',
+            reason: 'Lost phone',
+          });
+          subscription.unsubscribe();
+
+          expect(isResultSuccess(result)).toBe(true);
+          expect(unwrapSession(await signIn()).uid).toBe(testUid);
+          expect(events).toEqual([
+            {
+              uid: testUid,
+              resetBy: 'support-agent',
+              reason: 'Lost phone',
+              resetAt: expect.any(Number),
+            },
+          ]);
+        });
+
+        it('should return error for non-existent user', async () => {
+          const result = await authBackend.enrollTotp({
+            uid: 'non-existent-uid',
+          });
+
+          expect(getResultError(result).code).toBe('user-not-found');
+        });
+      });
+    }
+
+    if (hasAuthBackendEmailLinks(authBackend)) {
+      describe('createSignInLinkToken and signInWithEmailLink', () => {
+        let testEmail: string;
+
+        beforeEach(() => {
+          testEmail = uniqueEmail('link-backend-test');
+        });
+
+        // An arrow function, so the narrowing of authBackend carries over.
+        const createToken = async (deviceId?: string): Promise<string> => {
+          const { token, expiresAt } = (
+            await authBackend.createSignInLinkToken({
+              email: testEmail,
+              deviceId,
+            })
+          ).unwrapOrThrow();
+          expect(expiresAt).toBeGreaterThan(now());
+          return token;
+        };
+
+        it('should create a verified user on the first sign-in', async () => {
+          const token = await createToken('device-a');
+
+          const signIn = unwrapSession(
+            await authBackend.signInWithEmailLink({
+              email: testEmail,
+              token,
+              deviceId: 'device-a',
+            }),
+          );
+
+          expect(signIn.emailVerified).toBe(true);
+          expect(signIn.sameDevice).toBe(true);
+          const lookup = (
+            await authBackend.getUidByEmail(testEmail)
+          ).unwrapOrThrow();
+          expect(lookup).toEqual({ uid: signIn.uid, emailVerified: true });
+        });
+
+        it('should sign in an existing user and verify their email', async () => {
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: testEmail,
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+          const token = await createToken();
+
+          const signIn = unwrapSession(
+            await authBackend.signInWithEmailLink({ email: testEmail, token }),
+          );
+
+          expect(signIn.uid).toBe(uid);
+          expect(signIn.emailVerified).toBe(true);
+        });
+
+        it('should shut out whoever signed up with the email before it was verified', async () => {
+          const credentials = { email: testEmail, password: 'testPassword123' };
+          await authBackend.signUpWithEmailPassword(credentials);
+          const squatter = unwrapSession(
+            await authBackend.signInWithEmailAndPassword(credentials),
+          );
+          const token = await createToken();
+
+          unwrapSession(
+            await authBackend.signInWithEmailLink({ email: testEmail, token }),
+          );
+          const passwordSignIn =
+            await authBackend.signInWithEmailAndPassword(credentials);
+          const refreshed = await authBackend.signInWithRefreshToken(
+            squatter.refreshToken,
+          );
+          const verified = await authBackend.verifyIdToken(squatter.idToken);
+
+          expect(isResultSuccess(passwordSignIn)).toBe(false);
+          expect(isResultSuccess(refreshed)).toBe(false);
+          expect(getResultError(verified).code).toBe('token-revoked');
+        });
+
+        it('should keep the password of a verified user signing in with a link', async () => {
+          const credentials = { email: testEmail, password: 'testPassword123' };
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword(credentials)
+          ).unwrapOrThrow();
+          const verification = (
+            await authBackend.createEmailVerificationToken({ uid })
+          ).unwrapOrThrow();
+          (
+            await authBackend.verifyEmail({ token: verification.token })
+          ).unwrapOrThrow();
+
+          unwrapSession(
+            await authBackend.signInWithEmailLink({
+              email: testEmail,
+              token: await createToken(),
+            }),
+          );
+          const passwordSignIn =
+            await authBackend.signInWithEmailAndPassword(credentials);
+
+          expect(unwrapSession(passwordSignIn).uid).toBe(uid);
+        });
+
+        it('should report a link opened on another device', async () => {
+          const token = await createToken('device-a');
+
+          const signIn = await authBackend.signInWithEmailLink({
+            email: testEmail,
+            token,
+            deviceId: 'device-b',
+          });
+
+          expect(signIn.unwrapOrThrow().sameDevice).toBe(false);
+        });
+
+        it('should refuse a link that was already used', async () => {
+          const token = await createToken();
+          await authBackend.signInWithEmailLink({ email: testEmail, token });
+
+          const result = await authBackend.signInWithEmailLink({
+            email: testEmail,
+            token,
+          });
+
+          expect(getResultError(result).code).toBe('token-already-used');
+        });
+
+        it('should keep the link usable after a wrong email', async () => {
+          const token = await createToken();
+
+          const mismatch = await authBackend.signInWithEmailLink({
+            email: uniqueEmail('link-other-backend-test'),
+            token,
+          });
+          const result = await authBackend.signInWithEmailLink({
+            email: testEmail,
+            token,
+          });
+
+          expect(getResultError(mismatch).code).toBe('email-mismatch');
+          expect(isResultSuccess(result)).toBe(true);
+        });
+
+        it('should refuse an unknown token', async () => {
+          const result = await authBackend.signInWithEmailLink({
+            email: testEmail,
+            token: 'unknown-token',
+          });
+
+          expect(getResultError(result).code).toBe('token-not-found');
+        });
+
+        it('should rate limit repeated requests', async () => {
+          await createToken();
+
+          const result = await authBackend.createSignInLinkToken({
+            email: testEmail,
+          });
+
+          expect(getResultError(result).code).toBe('rate-limit-exceeded');
+        });
+
+        it('should return error for invalid email format', async () => {
+          const result = await authBackend.createSignInLinkToken({
+            email: 'not-an-email',
+          });
+
+          expect(getResultError(result).code).toBe('invalid-email');
+        });
+      });
+    }
+
+    const { smsSender } = options;
+    if (smsSender && hasAuthBackendPhone(authBackend)) {
+      describe('phone sign-in and linking', () => {
+        let phoneNumber: string;
+
+        beforeEach(() => {
+          phoneNumber = uniquePhoneNumber();
+        });
+
+        // An arrow function, so the narrowing of smsSender carries over.
+        const sendSignInCode = async (): Promise<{
+          verificationId: string;
+          code: string;
+        }> => {
+          const { verificationId } = (
+            await authBackend.createPhoneSignInCode({ phoneNumber })
+          ).unwrapOrThrow();
+          return { verificationId, code: smsSender.getLastCode(phoneNumber)! };
+        };
+
+        const sendLinkCode = async (
+          uid: string,
+        ): Promise<{ verificationId: string; code: string }> => {
+          const { verificationId } = (
+            await authBackend.createPhoneLinkCode({ uid, phoneNumber })
+          ).unwrapOrThrow();
+          return { verificationId, code: smsSender.getLastCode(phoneNumber)! };
+        };
+
+        async function signUp(): Promise<string> {
+          const { uid } = (
+            await authBackend.signUpWithEmailPassword({
+              email: uniqueEmail('phone-backend-test'),
+              password: 'testPassword123',
+            })
+          ).unwrapOrThrow();
+          return uid;
+        }
+
+        it('should text a code and create a user on the first sign-in', async () => {
+          const created = (
+            await authBackend.createPhoneSignInCode({ phoneNumber })
+          ).unwrapOrThrow();
+
+          const signIn = unwrapSession(
+            await authBackend.signInWithPhoneCode({
+              verificationId: created.verificationId,
+              code: smsSender.getLastCode(phoneNumber)!,
+            }),
+          );
+
+          expect(smsSender.getLastCode(phoneNumber)).toBe(created.code);
+          expect(created.expiresAt).toBeGreaterThan(now());
+          const lookup = (
+            await authBackend.getUidByPhoneNumber(phoneNumber)
+          ).unwrapOrThrow();
+          expect(lookup).toEqual({ uid: signIn.uid });
+        });
+
+        it('should sign in the user who linked the number', async () => {
+          const uid = await signUp();
+          const link = await sendLinkCode(uid);
+          (await authBackend.linkPhoneNumber({ uid, ...link })).unwrapOrThrow();
+
+          const signIn = unwrapSession(
+            await authBackend.signInWithPhoneCode(await sendSignInCode()),
+          );
+
+          expect(signIn.uid).toBe(uid);
+        });
+
+        if (hasAuthBackendAnonymous(authBackend)) {
+          it('should let a phone user link an email and password', async () => {
+            const { uid } = unwrapSession(
+              await authBackend.signInWithPhoneCode(await sendSignInCode()),
+            );
+            const email = uniqueEmail('phone-link-email-backend-test');
+
+            const linked = await authBackend.linkWithEmailAndPassword({
+              uid,
+              email,
+              password: 'testPassword123',
+            });
+            const signIn = await authBackend.signInWithEmailAndPassword({
+              email,
+              password: 'testPassword123',
+            });
+
+            expect(isResultSuccess(linked)).toBe(true);
+            expect(unwrapSession(signIn).uid).toBe(uid);
+          });
+        }
+
+        it('should keep the code usable after a wrong one', async () => {
+          const { verificationId, code } = await sendSignInCode();
+          const wrongCode = code === '000000' ? '111111' : '000000';
+
+          const wrong = await authBackend.signInWithPhoneCode({
+            verificationId,
+            code: wrongCode,
+          });
+          const right = await authBackend.signInWithPhoneCode({
+            verificationId,
+            code,
+          });
+
+          expect(getResultError(wrong).code).toBe('invalid-code');
+          expect(isResultSuccess(right)).toBe(true);
+        });
+
+        it('should refuse the code after too many wrong attempts', async () => {
+          const { verificationId, code } = await sendSignInCode();
+          const wrongCode = code === '000000' ? '111111' : '000000';
+          for (let attempt = 0; attempt < 5; attempt++) {
+            await authBackend.signInWithPhoneCode({
+              verificationId,
+              code: wrongCode,
+            });
+          }
+
+          const result = await authBackend.signInWithPhoneCode({
+            verificationId,
+            code,
+          });
+
+          expect(getResultError(result).code).toBe('too-many-attempts');
+        });
+
+        it('should refuse a code that was already used', async () => {
+          const sent = await sendSignInCode();
+          await authBackend.signInWithPhoneCode(sent);
+
+          const result = await authBackend.signInWithPhoneCode(sent);
+
+          expect(getResultError(result).code).toBe('invalid-verification-id');
+        });
+
+        it('should refuse an unknown verification id', async () => {
+          const result = await authBackend.signInWithPhoneCode({
+            verificationId: 'unknown-verification-id',
+            code: '123456',
+          });
+
+          expect(getResultError(result).code).toBe('invalid-verification-id');
+        });
+
+        it('should rate limit repeated requests', async () => {
+          await sendSignInCode();
+
+          const result = await authBackend.createPhoneSignInCode({
+            phoneNumber,
+          });
+
+          expect(getResultError(result).code).toBe('rate-limit-exceeded');
+        });
+
+        it('should return error for a number not in E.164 format', async () => {
+          const result = await authBackend.createPhoneSignInCode({
+            phoneNumber: '555 0100',
+          });
+
+          expect(getResultError(result).code).toBe('invalid-phone-number');
+        });
+
+        it('should not link a number another user holds', async () => {
+          await authBackend.signInWithPhoneCode(await sendSignInCode());
+          const uid = await signUp();
+
+          const result = await authBackend.createPhoneLinkCode({
+            uid,
+            phoneNumber,
+          });
+
+          expect(getResultError(result).code).toBe(
+            'phone-number-already-in-use',
+          );
+        });
+
+        it('should not link with a sign-in code', async () => {
+          const uid = await signUp();
+
+          const result = await authBackend.linkPhoneNumber({
+            uid,
+            ...(await sendSignInCode()),
+          });
+
+          expect(getResultError(result).code).toBe('invalid-verification-id');
+        });
+
+        it('should not find a number nobody linked', async () => {
+          const result = await authBackend.getUidByPhoneNumber(phoneNumber);
+
+          expect(getResultError(result).code).toBe('phone-number-not-found');
+        });
+      });
+    }
+
+    describe('createEmailVerificationToken and verifyEmail', () => {
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+      let testUid: string;
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('verify-backend-test');
+        const result = await authBackend.signUpWithEmailPassword({
+          email: testEmail,
+          password: testPassword,
+        });
+        testUid = result.unwrapOrThrow().uid;
+      });
+
+      it('should report a new email as not verified', async () => {
+        const lookup = (
+          await authBackend.getUidByEmail(testEmail)
+        ).unwrapOrThrow();
+        const signIn = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+
+        expect(lookup.emailVerified).toBe(false);
+        expect(signIn.emailVerified).toBe(false);
+      });
+
+      it('should verify the email with a valid token', async () => {
+        const { token, expiresAt } = (
+          await authBackend.createEmailVerificationToken({ uid: testUid })
+        ).unwrapOrThrow();
+        expect(expiresAt).toBeGreaterThan(now());
+
+        const result = await authBackend.verifyEmail({ token });
+
+        expect(result.unwrapOrThrow().uid).toBe(testUid);
+        const lookup = (
+          await authBackend.getUidByEmail(testEmail)
+        ).unwrapOrThrow();
+        expect(lookup.emailVerified).toBe(true);
+        const signIn = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        expect(signIn.emailVerified).toBe(true);
+      });
+
+      it('should not accept the same token twice', async () => {
+        const { token } = (
+          await authBackend.createEmailVerificationToken({ uid: testUid })
+        ).unwrapOrThrow();
+        await authBackend.verifyEmail({ token });
+
+        const result = await authBackend.verifyEmail({ token });
+
+        expect(getResultError(result).code).toBe('token-not-found');
+      });
+
+      it('should rate limit repeated requests', async () => {
+        await authBackend.createEmailVerificationToken({ uid: testUid });
+
+        const result = await authBackend.createEmailVerificationToken({
+          uid: testUid,
+        });
+
+        expect(getResultError(result).code).toBe('rate-limit-exceeded');
+      });
+
+      it('should return error for non-existent user', async () => {
+        const result = await authBackend.createEmailVerificationToken({
+          uid: 'non-existent-uid',
+        });
+
+        expect(getResultError(result).code).toBe('user-not-found');
+      });
+
+      it('should mark a changed email as not verified and drop pending tokens', async () => {
+        const { token: pending } = (
+          await authBackend.createEmailVerificationToken({ uid: testUid })
+        ).unwrapOrThrow();
+        const newEmail = uniqueEmail('verify-changed-backend-test');
+
+        await authBackend.changeEmail({ uid: testUid, newEmail });
+
+        const result = await authBackend.verifyEmail({ token: pending });
+        expect(getResultError(result).code).toBe('token-not-found');
+        const lookup = (
+          await authBackend.getUidByEmail(newEmail)
+        ).unwrapOrThrow();
+        expect(lookup.emailVerified).toBe(false);
+      });
+    });
+
+    describe('createPasswordResetToken and resetPassword', () => {
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+      const newPassword = 'newPassword456';
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('reset-backend-test');
+        await authBackend.signUpWithEmailPassword({
+          email: testEmail,
+          password: testPassword,
+        });
+      });
+
+      it('should issue a reset token for an existing email', async () => {
+        const result = await authBackend.createPasswordResetToken({
+          email: testEmail,
+        });
+
+        expect(isResultSuccess(result)).toBe(true);
+        const success = result.unwrapOrThrow();
+        expect(typeof success.token).toBe('string');
+        expect(success.token.length).toBeGreaterThan(0);
+        expect(success.expiresAt).toBeGreaterThan(now());
+      });
+
+      it('should return error for non-existent email', async () => {
+        const result = await authBackend.createPasswordResetToken({
+          email: uniqueEmail('nonexistent'),
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('email-not-found');
+      });
+
+      it('should rate limit repeated requests', async () => {
+        await authBackend.createPasswordResetToken({ email: testEmail });
+
+        const result = await authBackend.createPasswordResetToken({
+          email: testEmail,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('rate-limit-exceeded');
+      });
+
+      it('should change the password with a valid token', async () => {
+        const { token } = (
+          await authBackend.createPasswordResetToken({ email: testEmail })
+        ).unwrapOrThrow();
+
+        const result = await authBackend.resetPassword({ token, newPassword });
+
+        expect(isResultSuccess(result)).toBe(true);
+        const signInResult = await authBackend.signInWithEmailAndPassword({
+          email: testEmail,
+          password: newPassword,
+        });
+        expect(isResultSuccess(signInResult)).toBe(true);
+      });
+
+      it('should not accept the same token twice', async () => {
+        const { token } = (
+          await authBackend.createPasswordResetToken({ email: testEmail })
+        ).unwrapOrThrow();
+        await authBackend.resetPassword({ token, newPassword });
+
+        const result = await authBackend.resetPassword({
+          token,
+          newPassword: 'anotherPassword789',
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('token-not-found');
+      });
+
+      it('should keep the token usable after a weak password', async () => {
+        const { token } = (
+          await authBackend.createPasswordResetToken({ email: testEmail })
+        ).unwrapOrThrow();
+
+        const weak = await authBackend.resetPassword({
+          token,
+          newPassword: '',
+        });
+        const result = await authBackend.resetPassword({ token, newPassword });
+
+        expect(getResultError(weak).code).toBe('weak-password');
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      it('should return error for invalid token', async () => {
+        const result = await authBackend.resetPassword({
+          token: 'invalid-token',
+          newPassword,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('token-not-found');
+      });
+    });
+
+    describe('deleteUser', () => {
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+      let testUid: string;
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('delete-backend-test');
+        const result = await authBackend.signUpWithEmailPassword({
+          email: testEmail,
+          password: testPassword,
+        });
+        testUid = result.unwrapOrThrow().uid;
+      });
+
+      it('should delete existing user', async () => {
+        const result = await authBackend.deleteUser({ uid: testUid });
+
+        expect(isResultSuccess(result)).toBe(true);
+
+        // Verify user was actually deleted
+        const signInResult = await authBackend.signInWithEmailAndPassword({
+          email: testEmail,
+          password: testPassword,
+        });
+        expect(isResultSuccess(signInResult)).toBe(false);
+        const error = getResultError(signInResult);
+        expect(error.code).toBe('user-not-found');
+      });
+
+      it('should emit onUserDeleted$ event when user is deleted', async () => {
+        let emittedUid: string | undefined;
+        const subscription = authBackend.onUserDeleted$.subscribe((event) => {
+          emittedUid = event.uid;
+        });
+
+        await authBackend.deleteUser({ uid: testUid });
+
+        // Give some time for the observable to emit
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        subscription.unsubscribe();
+        expect(emittedUid).toBe(testUid);
+      });
+
+      it('should return error for non-existent user', async () => {
+        const result = await authBackend.deleteUser({
+          uid: 'non-existent-uid',
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+      });
+    });
+
+    // Last, since moving the clock ahead ages whatever earlier tests left.
+    describe('expiry on a manual clock', () => {
+      if (!clock) {
+        return;
+      }
+      const hourMs = 60 * 60 * 1000;
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('clock-test');
+        await authBackend.signUpWithEmailPassword({
+          email: testEmail,
+          password: testPassword,
+        });
+      });
+
+      it('should refuse an idToken after an hour and refresh it', async () => {
+        const { idToken, idTokenExpiresAt, refreshToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        clock.set(idTokenExpiresAt);
+
+        const expired = await authBackend.verifyIdToken(idToken);
+        const refreshed = (
+          await authBackend.signInWithRefreshToken(refreshToken)
+        ).unwrapOrThrow();
+
+        expect(getResultError(expired).code).toBe('token-expired');
+        expect(refreshed.idTokenExpiresAt).toBe(now() + hourMs);
+        expect(
+          isResultSuccess(await authBackend.verifyIdToken(refreshed.idToken)),
+        ).toBe(true);
+      });
+
+      it('should refuse a password reset token after an hour', async () => {
+        const { token } = (
+          await authBackend.createPasswordResetToken({ email: testEmail })
+        ).unwrapOrThrow();
+        clock.advance(hourMs + 1);
+
+        const result = await authBackend.resetPassword({
+          token,
+          newPassword: 'newPassword456',
+        });
+
+        expect(getResultError(result).code).toBe('token-expired');
+      });
+
+      it('should issue another reset token once a minute has passed', async () => {
+        await authBackend.createPasswordResetToken({ email: testEmail });
+        clock.advance(59 * 1000);
+        const early = await authBackend.createPasswordResetToken({
+          email: testEmail,
+        });
+        clock.advance(1000);
+
+        const result = await authBackend.createPasswordResetToken({
+          email: testEmail,
+        });
+
+        expect(getResultError(early).code).toBe('rate-limit-exceeded');
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      if (hasAuthBackendEmailLinks(authBackend)) {
+        it('should refuse a sign-in link token after 15 minutes', async () => {
+          const email = uniqueEmail('clock-link-test');
+          const { token } = (
+            await authBackend.createSignInLinkToken({ email })
+          ).unwrapOrThrow();
+          clock.advance(15 * 60 * 1000 + 1);
+
+          const result = await authBackend.signInWithEmailLink({
+            token,
+            email,
+          });
+
+          expect(getResultError(result).code).toBe('token-expired');
+        });
+      }
+
+      it('should end a session left idle for 14 days', async () => {
+        const { refreshToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        clock.advance(14 * 24 * hourMs);
+
+        const result = await authBackend.signInWithRefreshToken(refreshToken);
+
+        expect(getResultError(result).code).toBe('refresh-token-expired');
+      });
+
+      it('should end a session 30 days after sign-in however often it is refreshed', async () => {
+        const { refreshToken } = unwrapSession(
+          await authBackend.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+          }),
+        );
+        const refreshAfter = async (days: number, token: string) => {
+          clock.advance(days * 24 * hourMs);
+          return authBackend.signInWithRefreshToken(token);
+        };
+
+        const first = (await refreshAfter(10, refreshToken)).unwrapOrThrow();
+        const second = (
+          await refreshAfter(10, first.refreshToken)
+        ).unwrapOrThrow();
+        const result = await refreshAfter(10, second.refreshToken);
+
+        expect(getResultError(result).code).toBe('refresh-token-expired');
+      });
+    });
+
+    if (createWithOptions) {
+      describe('configured with options', () => {
+        const email = 'rehash@example.com';
+        const password = 'testPassword123';
+
+        function tokenFromLink(link: string): string {
+          return new URL(link).searchParams.get('token')!;
+        }
+
+        // For the tests of a capability authBackend has, which the backends
+        // built by createWithOptions must have as well.
+        const createWithCapability = <TBackend extends IAuthBackend>(
+          hasCapability: (backend: IAuthBackend) => backend is TBackend,
+          configuration: AuthBackendTestConfiguration,
+        ): TBackend => {
+          const backend = createWithOptions(configuration);
+          if (!hasCapability(backend)) {
+            throw new Error('createWithOptions built a backend that lacks it');
+          }
+          return backend;
+        };
+
+        it('should rehash the password on sign in when the policy is stronger', async () => {
+          const passwordHasher = new UpgradablePasswordHasher();
+          const backend = createWithOptions({ passwordHasher });
+          await backend.signUpWithEmailPassword({ email, password });
+
+          passwordHasher.upgradePolicy();
+          await backend.signInWithEmailAndPassword({ email, password });
+          expect(passwordHasher.hashCount).toBe(2);
+
+          const result = await backend.signInWithEmailAndPassword({
+            email,
+            password,
+          });
+          expect(unwrapSession(result).uid.length).toBeGreaterThan(0);
+          expect(passwordHasher.hashCount).toBe(2);
+        });
+
+        describe('refresh token lifetimes', () => {
+          async function signIn(backend: IAuthBackend) {
+            const credentials = {
+              email: `lifetime-${Date.now()}@example.com`,
+              password,
+            };
+            await backend.signUpWithEmailPassword(credentials);
+            return unwrapSession(
+              await backend.signInWithEmailAndPassword(credentials),
+            );
+          }
+
+          it('should expire a refresh token that has been idle too long', async () => {
+            const clock = new ManualClock();
+            const backend = createWithOptions({
+              refreshTokenIdleLifetimeMs: 100,
+              clock,
+            });
+            const { refreshToken } = await signIn(backend);
+
+            clock.advance(100);
+            const result = await backend.signInWithRefreshToken(refreshToken);
+
+            expect(getResultError(result).code).toBe('refresh-token-expired');
+          });
+
+          it('should keep a regularly refreshed sign-in alive past the idle lifetime', async () => {
+            const clock = new ManualClock();
+            const backend = createWithOptions({
+              refreshTokenIdleLifetimeMs: 100,
+              clock,
+            });
+            let { refreshToken } = await signIn(backend);
+
+            for (let i = 0; i < 3; i++) {
+              clock.advance(99);
+              const result = await backend.signInWithRefreshToken(refreshToken);
+              expect(() => result.unwrapOrThrow()).not.toThrow();
+              refreshToken = result.unwrapOrThrow().refreshToken;
+            }
+          });
+
+          it('should expire a sign-in past its absolute lifetime however active it is', async () => {
+            const clock = new ManualClock();
+            const backend = createWithOptions({
+              refreshTokenAbsoluteLifetimeMs: 100,
+              clock,
+            });
+            const { refreshToken } = await signIn(backend);
+
+            clock.advance(50);
+            const rotated = (
+              await backend.signInWithRefreshToken(refreshToken)
+            ).unwrapOrThrow();
+            clock.advance(50);
+            const result = await backend.signInWithRefreshToken(
+              rotated.refreshToken,
+            );
+
+            expect(getResultError(result).code).toBe('refresh-token-expired');
+          });
+        });
+
+        describe('required email verification', () => {
+          const credentials = { email: 'unverified@example.com', password };
+
+          it('should refuse to sign in until the email is verified', async () => {
+            const mailer = new InMemoryAuthMailer();
+            const backend = createWithOptions({
+              requireEmailVerification: true,
+              mailer,
+            });
+            await backend.signUpWithEmailPassword(credentials);
+
+            const refused =
+              await backend.signInWithEmailAndPassword(credentials);
+            expect(getResultError(refused).code).toBe('email-not-verified');
+
+            // Refusing the sign-in mails a new verification link.
+            const mail = mailer.getLastMail(
+              credentials.email,
+              'email-verification',
+            );
+            const [link] = mailer.extractLinks(mail!);
+            await backend.verifyEmail({ token: tokenFromLink(link) });
+            const signIn =
+              await backend.signInWithEmailAndPassword(credentials);
+            expect(unwrapSession(signIn).emailVerified).toBe(true);
+          });
+
+          it('should sign in unverified users by default', async () => {
+            const backend = createWithOptions({});
+            await backend.signUpWithEmailPassword(credentials);
+
+            const signIn =
+              await backend.signInWithEmailAndPassword(credentials);
+
+            expect(unwrapSession(signIn).emailVerified).toBe(false);
+          });
+        });
+
+        describe('password policy', () => {
+          it('should list every rule a new password fails', async () => {
+            const backend = createWithOptions({
+              passwordPolicy: {
+                minLength: 12,
+                maxLength: 64,
+                requireLowercase: true,
+                requireUppercase: true,
+                requireDigit: true,
+                requireSymbol: true,
+              },
+            });
+
+            const weak = await backend.signUpWithEmailPassword({
+              email: 'weak@example.com',
+              password: 'short',
+            });
+            const strong = await backend.signUpWithEmailPassword({
+              email: 'strong@example.com',
+              password: 'Correct horse 1',
+            });
+
+            expect(getResultError(weak).code).toBe('weak-password');
+            expect(getFailedRules(weak)).toEqual([
+              'min-length',
+              'uppercase',
+              'digit',
+              'symbol',
+            ]);
+            expect(() => strong.unwrapOrThrow()).not.toThrow();
+          });
+
+          it('should refuse the email and breached passwords on every change', async () => {
+            const backend = createWithOptions({
+              passwordPolicy: {
+                disallowEmail: true,
+                breachedPasswords: new Set(['password1234']),
+              },
+            });
+            const { uid } = (
+              await backend.signUpWithEmailPassword({
+                email: 'jane.doe@example.com',
+                password,
+              })
+            ).unwrapOrThrow();
+            const { token } = (
+              await backend.createPasswordResetToken({
+                email: 'jane.doe@example.com',
+              })
+            ).unwrapOrThrow();
+
+            const changed = await backend.changePassword({
+              uid,
+              newPassword: 'Jane.Doe-2024',
+            });
+            const reset = await backend.resetPassword({
+              token,
+              newPassword: 'password1234',
+            });
+            const retried = await backend.resetPassword({
+              token,
+              newPassword: 'newPassword123',
+            });
+
+            expect(getFailedRules(changed)).toEqual(['contains-email']);
+            expect(getFailedRules(reset)).toEqual(['breached']);
+            // A refused password leaves the token unspent.
+            expect(() => retried.unwrapOrThrow()).not.toThrow();
+          });
+
+          if (hasAuthBackendAnonymous(authBackend)) {
+            it('should refuse the email as the password an anonymous user links', async () => {
+              const backend = createWithCapability(hasAuthBackendAnonymous, {
+                passwordPolicy: { disallowEmail: true },
+              });
+              const anonymous = (
+                await backend.signInAnonymously({})
+              ).unwrapOrThrow();
+
+              const linked = await backend.linkWithEmailAndPassword({
+                uid: anonymous.uid,
+                email: 'john.roe@example.com',
+                password: 'john.roe-secret',
+              });
+
+              expect(getFailedRules(linked)).toEqual(['contains-email']);
+            });
+          }
+        });
+
+        describe('brute-force protection', () => {
+          const credentials = { email: 'guessed@example.com', password };
+          const wrong = { email: credentials.email, password: 'wrong' };
+
+          const backendWithUser = async (
+            bruteForceProtection: BruteForceProtection,
+          ) => {
+            const clock = new ManualClock();
+            const backend = createWithOptions({ bruteForceProtection, clock });
+            const { uid } = (
+              await backend.signUpWithEmailPassword(credentials)
+            ).unwrapOrThrow();
+            return { backend, uid, clock };
+          };
+
+          it('should make each failure past the free ones wait twice as long', async () => {
+            const { backend, clock } = await backendWithUser({
+              account: { freeFailures: 2, baseDelayMs: 200, lockoutAfter: 10 },
+            });
+            for (let i = 0; i < 3; i++) {
+              expect(
+                getResultError(await backend.signInWithEmailAndPassword(wrong))
+                  .code,
+              ).toBe('wrong-password');
+            }
+
+            const early = await backend.signInWithEmailAndPassword(credentials);
+            clock.advance(200);
+            const afterDelay = await backend.signInWithEmailAndPassword(wrong);
+            const doubled =
+              await backend.signInWithEmailAndPassword(credentials);
+
+            expect(getResultError(early).code).toBe('too-many-attempts');
+            expect(getRetryAfterMs(early)).toBeGreaterThan(0);
+            expect(getRetryAfterMs(early)).toBeLessThanOrEqual(200);
+            expect(getResultError(afterDelay).code).toBe('wrong-password');
+            expect(getRetryAfterMs(doubled)).toBeGreaterThan(200);
+            expect(getRetryAfterMs(doubled)).toBeLessThanOrEqual(400);
+          });
+
+          it('should lock the account out until an admin unlocks it', async () => {
+            const { backend, uid } = await backendWithUser({
+              account: { lockoutAfter: 3, lockoutMs: 60 * 1000 },
+            });
+            for (let i = 0; i < 3; i++) {
+              await backend.signInWithEmailAndPassword(wrong);
+            }
+
+            const locked =
+              await backend.signInWithEmailAndPassword(credentials);
+            (await backend.unlockSignIn({ uid })).unwrapOrThrow();
+            const unlocked =
+              await backend.signInWithEmailAndPassword(credentials);
+
+            expect(getResultError(locked).code).toBe('too-many-attempts');
+            expect(getRetryAfterMs(locked)).toBeGreaterThan(50 * 1000);
+            expect(unlocked.unwrapOrThrow()).toEqual(
+              expect.objectContaining({ mfaRequired: false }),
+            );
+          });
+
+          it('should forget the failures after a successful sign-in', async () => {
+            const { backend } = await backendWithUser({
+              account: { freeFailures: 2, lockoutAfter: 3 },
+            });
+            await backend.signInWithEmailAndPassword(wrong);
+            await backend.signInWithEmailAndPassword(wrong);
+            (
+              await backend.signInWithEmailAndPassword(credentials)
+            ).unwrapOrThrow();
+
+            await backend.signInWithEmailAndPassword(wrong);
+            await backend.signInWithEmailAndPassword(wrong);
+            const signIn =
+              await backend.signInWithEmailAndPassword(credentials);
+
+            expect(() => signIn.unwrapOrThrow()).not.toThrow();
+          });
+
+          it('should count failures per client address across accounts', async () => {
+            const backend = createWithOptions({
+              bruteForceProtection: {
+                client: { lockoutAfter: 3, lockoutMs: 60 * 1000 },
+              },
+            });
+            await backend.signUpWithEmailPassword(credentials);
+            const attacker = { ipAddress: '203.0.113.7' };
+            for (const email of [
+              'a@example.com',
+              'b@example.com',
+              'c@example.com',
+            ]) {
+              await backend.signInWithEmailAndPassword({
+                email,
+                password: 'guess',
+                client: attacker,
+              });
+            }
+
+            const fromAttacker = await backend.signInWithEmailAndPassword({
+              ...credentials,
+              client: attacker,
+            });
+            const fromElsewhere = await backend.signInWithEmailAndPassword({
+              ...credentials,
+              client: { ipAddress: '198.51.100.1' },
+            });
+
+            expect(getResultError(fromAttacker).code).toBe('too-many-attempts');
+            expect(() => fromElsewhere.unwrapOrThrow()).not.toThrow();
+          });
+
+          it('should not limit guesses without brute-force protection', async () => {
+            const backend = createWithOptions({});
+            await backend.signUpWithEmailPassword(credentials);
+            for (let i = 0; i < 12; i++) {
+              await backend.signInWithEmailAndPassword(wrong);
+            }
+
+            const signIn =
+              await backend.signInWithEmailAndPassword(credentials);
+
+            expect(() => signIn.unwrapOrThrow()).not.toThrow();
+          });
+        });
+
+        describe('mailer', () => {
+          const credentials = { email: 'mailer@example.com', password };
+
+          it('should mail a reset link whose token resets the password', async () => {
+            const mailer = new InMemoryAuthMailer();
+            const backend = createWithOptions({
+              mailer,
+              mailLinks: createAuthMailLinks('https://app.example.com'),
+            });
+            await backend.signUpWithEmailPassword(credentials);
+
+            await backend.createPasswordResetToken({
+              email: credentials.email,
+            });
+            const mail = mailer.getLastMail(
+              credentials.email,
+              'password-reset',
+            );
+            const [link] = mailer.extractLinks(mail!);
+            expect(link.startsWith('https://app.example.com/')).toBe(true);
+            await backend.resetPassword({
+              token: tokenFromLink(link),
+              newPassword: 'newPassword123',
+            });
+
+            const signIn = await backend.signInWithEmailAndPassword({
+              email: credentials.email,
+              password: 'newPassword123',
+            });
+            expect(() => signIn.unwrapOrThrow()).not.toThrow();
+          });
+
+          it('should mail a verification link in the requested locale', async () => {
+            const mailer = new InMemoryAuthMailer({
+              templates: {
+                es: {
+                  'email-verification': {
+                    subject: () => 'Verifica tu correo',
+                    text: ({ link }) => `Abre ${link}`,
+                  },
+                },
+              },
+            });
+            const backend = createWithOptions({ mailer });
+            const { uid } = (
+              await backend.signUpWithEmailPassword(credentials)
+            ).unwrapOrThrow();
+
+            await backend.createEmailVerificationToken({ uid, locale: 'es' });
+            const mail = mailer.getLastMail(credentials.email)!;
+            expect(mail.subject).toBe('Verifica tu correo');
+            const [link] = mailer.extractLinks(mail);
+            const verified = await backend.verifyEmail({
+              token: tokenFromLink(link),
+            });
+            expect(verified.unwrapOrThrow().uid).toBe(uid);
+          });
+
+          it('should notify the previous address of an email change', async () => {
+            const mailer = new InMemoryAuthMailer();
+            const backend = createWithOptions({ mailer });
+            const { uid } = (
+              await backend.signUpWithEmailPassword(credentials)
+            ).unwrapOrThrow();
+
+            await backend.changeEmail({ uid, newEmail: 'moved@example.com' });
+
+            const mail = mailer.getLastMail(credentials.email, 'email-change');
+            expect(mail?.variables).toEqual({
+              previousEmail: credentials.email,
+              newEmail: 'moved@example.com',
+            });
+          });
+
+          if (hasAuthBackendEmailLinks(authBackend)) {
+            it('should mail a sign-in link that signs the user in', async () => {
+              const mailer = new InMemoryAuthMailer();
+              const backend = createWithCapability(hasAuthBackendEmailLinks, {
+                mailer,
+              });
+
+              await backend.createSignInLinkToken({ email: credentials.email });
+              const mail = mailer.getLastMail(
+                credentials.email,
+                'sign-in-link',
+              );
+              const [link] = mailer.extractLinks(mail!);
+              const signIn = await backend.signInWithEmailLink({
+                email: credentials.email,
+                token: tokenFromLink(link),
+              });
+
+              expect(unwrapSession(signIn).emailVerified).toBe(true);
+            });
+          }
+        });
+
+        if (hasAuthBackendEmailLinks(authBackend)) {
+          describe('sign-in links', () => {
+            const email = 'sign-in-link@example.com';
+
+            it('should tell an expired link from a used one', async () => {
+              const clock = new ManualClock();
+              const backend = createWithCapability(hasAuthBackendEmailLinks, {
+                signInLinkLifetimeMs: 50,
+                clock,
+              });
+              const { token } = (
+                await backend.createSignInLinkToken({ email })
+              ).unwrapOrThrow();
+
+              clock.advance(51);
+              const result = await backend.signInWithEmailLink({
+                email,
+                token,
+              });
+
+              expect(getResultError(result).code).toBe('token-expired');
+            });
+          });
+        }
+
+        if (hasAuthBackendPhone(authBackend)) {
+          describe('phone codes', () => {
+            const phoneNumber = '+15550100';
+
+            it('should text the code in the requested locale', async () => {
+              const smsSender = new InMemorySmsSender();
+              const backend = createWithCapability(hasAuthBackendPhone, {
+                smsSender,
+              });
+
+              const { code } = (
+                await backend.createPhoneSignInCode({
+                  phoneNumber,
+                  locale: 'es',
+                })
+              ).unwrapOrThrow();
+
+              expect(smsSender.getLastMessage(phoneNumber)).toMatchObject({
+                locale: 'es',
+                code,
+              });
+            });
+
+            it('should refuse an expired code', async () => {
+              const clock = new ManualClock();
+              const backend = createWithCapability(hasAuthBackendPhone, {
+                phoneCodeLifetimeMs: 50,
+                clock,
+              });
+              const { verificationId, code } = (
+                await backend.createPhoneSignInCode({ phoneNumber })
+              ).unwrapOrThrow();
+
+              clock.advance(51);
+              const result = await backend.signInWithPhoneCode({
+                verificationId,
+                code,
+              });
+
+              expect(getResultError(result).code).toBe('code-expired');
+            });
+          });
+        }
+
+        it('should invalidate the idToken of a sign-in revoked for token reuse', async () => {
+          const backend = createWithOptions({});
+          const credentials = { email: 'reuse@example.com', password };
+          await backend.signUpWithEmailPassword(credentials);
+          const { refreshToken } = unwrapSession(
+            await backend.signInWithEmailAndPassword(credentials),
+          );
+          const { idToken } = (
+            await backend.signInWithRefreshToken(refreshToken)
+          ).unwrapOrThrow();
+
+          await backend.signInWithRefreshToken(refreshToken);
+          const result = await backend.getUidFromIdToken(idToken);
+
+          expect(() => result.unwrapOrThrow()).toThrow();
+        });
+      });
+    }
   });
 }
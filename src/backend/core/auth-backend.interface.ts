@@ -1,54 +1,601 @@
 import { Result, ErrorUnknown, ErrorWithCode } from '@j2blasco/ts-result';
 import { Observable } from 'rxjs';
+import type {
+  OidcAuthorization,
+  OidcCompletionError,
+} from '../../oidc/oidc-client';
+import type { EmailLinkTokenError } from '../email-links/auth-email-link-tokens';
+import type { PhoneCodeError } from '../phone-codes/auth-phone-codes';
+import type { WeakPasswordError } from '../../password-policy/password-policy';
+import type {
+  AuthClientMetadata,
+  AuthCustomClaims,
+  AuthMfaFactorType,
+  TooManyAttemptsError,
+} from '../../auth-types/auth-types';
+
+export type IdTokenError =
+  | ErrorWithCode<'invalid-token'>
+  | ErrorWithCode<'invalid-signature'>
+  | ErrorWithCode<'token-expired'>
+  | ErrorWithCode<'invalid-audience'>
+  | ErrorWithCode<'invalid-issuer'>
+  // Issued before the user's tokens were revoked, or the user was deleted.
+  | ErrorWithCode<'token-revoked'>
+  | ErrorUnknown;
+
+export type RefreshTokenError =
+  | ErrorWithCode<'invalid-refresh-token'>
+  | ErrorWithCode<'refresh-token-expired'>
+  // A refresh token was presented after it had been rotated out. Every token
+  // issued from the same sign-in is revoked.
+  | ErrorWithCode<'refresh-token-reused'>
+  // Another refresh with the same token rotated it while this one did. The
+  // sign-in is kept with the token the other refresh got.
+  | ErrorWithCode<'refresh-token-conflict'>
+  | ErrorUnknown;
+
+// isAnonymous is only set on tokens of users from signInAnonymously.
+export type VerifiedIdToken = {
+  uid: string;
+  claims: AuthCustomClaims;
+  isAnonymous?: boolean;
+};
+
+// Audit record of an administrator removing a user's second factors.
+export type AuthMfaResetEvent = {
+  uid: string;
+  // Who performed the reset, e.g. an admin uid or a support ticket.
+  resetBy: string;
+  reason?: string;
+  resetAt: number;
+};
+
+// A completed sign-in: it started a new session.
+export type AuthSignInSession = {
+  mfaRequired: false;
+  uid: string;
+  emailVerified: boolean;
+  sessionId: string;
+  refreshToken: string;
+  idToken: string;
+  // When idToken stops being accepted, in ms since epoch. Clients refresh it
+  // before then.
+  idTokenExpiresAt: number;
+  claims: AuthCustomClaims;
+  // Only set for users from signInAnonymously.
+  isAnonymous?: boolean;
+};
+
+// The password was right, but the user has a second factor. No session exists
+// until completeMfaSignIn accepts a code for the challenge.
+export type AuthMfaChallenge = {
+  mfaRequired: true;
+  // Single use, and it expires after a few minutes or too many wrong codes.
+  mfaChallenge: string;
+  factors: AuthMfaFactorType[];
+  expiresAt: number;
+};
+
+// A sign-in through an email link. sameDevice is false when the link was
+// opened on another device than the one that asked for it, or when either
+// side did not say which device it is.
+export type AuthEmailLinkSignIn = (AuthSignInSession | AuthMfaChallenge) & {
+  sameDevice: boolean;
+};
+
+// A sign-in on one device. It lives as long as its refresh token keeps being
+// rotated, and ends when it expires or is revoked.
+export type AuthSession = {
+  id: string;
+  uid: string;
+  createdAt: number;
+  lastRefreshedAt: number;
+  client?: AuthClientMetadata;
+};
 
 // The RefreshToken is a long lived token that can be used to get a new IdToken. This is stored in the browser's local storage.
 // The IdToken is a short lived token that is used to authenticate the user in api calls and is sent in the Authorization header.
+// Every backend implements IAuthBackend. The optional capabilities below have
+// interfaces of their own: a backend implements those it supports, and callers
+// check for them with the guards in auth-backend.capabilities.
 export interface IAuthBackend {
   onUserCreated$: Observable<{ uid: string }>;
   onUserDeleted$: Observable<{ uid: string }>;
-
-  getUidFromIdToken: (idToken: string) => Promise<Result<string, ErrorUnknown>>;
+  getUidFromIdToken: (idToken: string) => Promise<Result<string, IdTokenError>>;
+  // Like getUidFromIdToken, plus the custom claims the token was issued with.
+  verifyIdToken(
+    idToken: string,
+  ): Promise<Result<VerifiedIdToken, IdTokenError>>;
+  // Every sign-in starts a new session, so each device can be listed and
+  // signed out on its own. Backends configured to require verified emails
+  // answer email-not-verified and issue a new verification token instead.
+  // Users with a confirmed second factor get an MFA challenge instead of a
+  // session. Backends with brute-force protection answer too-many-attempts
+  // while the account or client has to wait.
   signInWithEmailAndPassword(args: {
     email: string;
     password: string;
+    client?: AuthClientMetadata;
   }): Promise<
     Result<
-      {
-        uid: string;
-        refreshToken: string;
-        idToken: string;
-      },
+      AuthSignInSession | AuthMfaChallenge,
       | ErrorWithCode<'invalid-email'>
       | ErrorWithCode<'user-not-found'>
       | ErrorWithCode<'wrong-password'>
+      | ErrorWithCode<'email-not-verified'>
+      | TooManyAttemptsError
       | ErrorUnknown
     >
   >;
+  // Every call rotates the refresh token: the returned one replaces the one
+  // passed in, which must not be used again.
   signInWithRefreshToken(refreshToken: string): Promise<
     Result<
       {
         uid: string;
         idToken: string;
+        idTokenExpiresAt: number;
+        refreshToken: string;
+        claims: AuthCustomClaims;
       },
-      ErrorUnknown
+      RefreshTokenError
     >
   >;
+  // The password must satisfy the backend's password policy, as must those
+  // given to linkWithEmailAndPassword, changePassword and resetPassword.
+  // weak-password lists the rules it failed.
   signUpWithEmailPassword(args: {
     email: string;
     password: string;
-  }): Promise<Result<{ uid: string }, ErrorUnknown>>;
+  }): Promise<
+    Result<
+      { uid: string },
+      ErrorWithCode<'email-already-in-use'> | WeakPasswordError | ErrorUnknown
+    >
+  >;
+  // Changing the email marks it unverified again. Changing the email or
+  // password revokes the user's other sign-ins unless
+  // revokeOtherSessions is false. The sign-in that issued currentIdToken keeps
+  // its refresh token, but has to refresh to get an idToken that is accepted.
   changeEmail(args: {
     uid: string;
     newEmail: string;
-  }): Promise<Result<void, ErrorUnknown>>;
+    revokeOtherSessions?: boolean;
+    currentIdToken?: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'email-already-in-use'>
+      | ErrorUnknown
+    >
+  >;
   deleteUser(args: { uid: string }): Promise<Result<void, ErrorUnknown>>;
   changePassword(args: {
     uid: string;
     newPassword: string;
-  }): Promise<Result<void, ErrorUnknown>>;
+    revokeOtherSessions?: boolean;
+    currentIdToken?: string;
+  }): Promise<Result<void, WeakPasswordError | ErrorUnknown>>;
+  // Signs the user out everywhere: every refresh token stops working and every
+  // idToken issued so far is rejected with token-revoked.
+  revokeRefreshTokens(args: {
+    uid: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>>;
+  // Administrative: forgets the failed sign-ins of the user's account and
+  // their wrong second factors, so a locked-out user can try again at once.
+  unlockSignIn(args: {
+    uid: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>>;
   getUidByEmail(
     email: string,
   ): Promise<
-    Result<{ uid: string }, ErrorWithCode<'email-not-found'> | ErrorUnknown>
+    Result<
+      { uid: string; emailVerified: boolean },
+      ErrorWithCode<'email-not-found'> | ErrorUnknown
+    >
+  >;
+  // Like password reset tokens, the token must reach the user out of band. It
+  // is redeemed with verifyEmail and only verifies the email the user has now.
+  createEmailVerificationToken(args: {
+    uid: string;
+    // Picks the mail template when the backend has a mailer.
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  verifyEmail(args: {
+    token: string;
+  }): Promise<
+    Result<
+      { uid: string },
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | ErrorUnknown
+    >
+  >;
+  // The returned token must reach the user out of band and is then redeemed
+  // with resetPassword. Backends given a mailer send it by email themselves.
+  createPasswordResetToken(args: {
+    email: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'email-not-found'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // A weak password leaves the token unused, so the user can pick another.
+  resetPassword(args: {
+    token: string;
+    newPassword: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  >;
+}
+
+// Users who start without any way to sign in again, and keep their uid once
+// they link one.
+export interface IAuthBackendAnonymous {
+  // Creates a user without email or password and signs them in. Their
+  // idTokens are flagged as anonymous until linkWithEmailAndPassword.
+  signInAnonymously(args: {
+    client?: AuthClientMetadata;
+  }): Promise<Result<AuthSignInSession, ErrorUnknown>>;
+  // Turns an anonymous user into a permanent one with the same uid. Their
+  // sessions stay signed in; idTokens issued after the next refresh are no
+  // longer flagged as anonymous. Users without an email, such as those who
+  // sign in with a phone number, can link one the same way.
+  linkWithEmailAndPassword(args: {
+    uid: string;
+    email: string;
+    password: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'not-anonymous'>
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-already-in-use'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  >;
+  // Deletes anonymous users that have not signed in or refreshed a session
+  // for inactiveForMs, emitting onUserDeleted$ for each of them.
+  deleteAnonymousUsers(args: {
+    inactiveForMs: number;
+  }): Promise<Result<{ uids: string[] }, ErrorUnknown>>;
+}
+
+// Passwordless sign-in with links sent by email.
+export interface IAuthBackendEmailLinks {
+  // Passwordless sign-in. The token must reach the user out of band and is
+  // redeemed with signInWithEmailLink; backends given a mailer send the link
+  // themselves. deviceId is any stable id of the asking device.
+  createSignInLinkToken(args: {
+    email: string;
+    deviceId?: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { token: string; expiresAt: number },
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // Signs in the user with email, creating one on first use, and marks the
+  // email verified. Verifying it this way removes the password, second factor
+  // and sessions the account had, since whoever set them never proved they
+  // own the email. A token works once: token-already-used and token-expired
+  // tell a spent link from a stale one, and email-mismatch leaves the token
+  // usable with the right email.
+  signInWithEmailLink(args: {
+    email: string;
+    token: string;
+    deviceId?: string;
+    client?: AuthClientMetadata;
+  }): Promise<Result<AuthEmailLinkSignIn, EmailLinkTokenError | ErrorUnknown>>;
+}
+
+// Sign-in and linking with codes sent by SMS.
+export interface IAuthBackendPhone {
+  // Phone sign-in. phoneNumber must be in E.164 format. Like sign-in link
+  // tokens, the code must reach the user out of band; backends given an SMS
+  // sender text it themselves. The client keeps verificationId and sends it
+  // back with the code the user types in.
+  createPhoneSignInCode(args: {
+    phoneNumber: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { verificationId: string; code: string; expiresAt: number },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // Signs in the user with the phone number, creating one on first use. A
+  // wrong code can be retried a few times before too-many-attempts asks for
+  // a new one.
+  signInWithPhoneCode(args: {
+    verificationId: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<AuthSignInSession | AuthMfaChallenge, PhoneCodeError | ErrorUnknown>
+  >;
+  // Like createPhoneSignInCode, but linkPhoneNumber then gives the number to
+  // uid so either the phone or the email signs in to the same user.
+  createPhoneLinkCode(args: {
+    uid: string;
+    phoneNumber: string;
+    locale?: string;
+  }): Promise<
+    Result<
+      { verificationId: string; code: string; expiresAt: number },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'phone-number-already-in-use'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // Only uid can complete a link it started. The number replaces the one the
+  // user had, and linking makes an anonymous user permanent.
+  linkPhoneNumber(args: {
+    uid: string;
+    verificationId: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | PhoneCodeError
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'phone-number-already-in-use'>
+      | ErrorUnknown
+    >
+  >;
+  getUidByPhoneNumber(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { uid: string },
+      ErrorWithCode<'phone-number-not-found'> | ErrorUnknown
+    >
+  >;
+}
+
+// Sign-in and linking with OpenID Connect providers.
+export interface IAuthBackendOidc {
+  // Sign-in with one of the OpenID Connect providers the backend is configured
+  // with. The browser goes to authorizationUrl, and the provider sends it back
+  // to redirectUri with the state and code for completeProviderSignIn.
+  startProviderSignIn(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      OidcAuthorization,
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  >;
+  // Signs in the user the provider identity is linked to. An identity seen
+  // for the first time gets a new user, who takes the provider's email only
+  // if the provider verified it and no other user has it. Users with a
+  // confirmed second factor get an MFA challenge instead of a session.
+  completeProviderSignIn(args: {
+    state: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInSession | AuthMfaChallenge,
+      OidcCompletionError | ErrorWithCode<'email-already-in-use'> | ErrorUnknown
+    >
+  >;
+  // Like startProviderSignIn, but completeProviderLink then adds the identity
+  // to uid so either way of signing in reaches the same user.
+  startProviderLink(args: {
+    uid: string;
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      OidcAuthorization,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'provider-not-found'>
+      | ErrorUnknown
+    >
+  >;
+  // Only uid can complete a link it started. Linking makes an anonymous user
+  // permanent; linking an identity uid already has changes nothing.
+  completeProviderLink(args: {
+    uid: string;
+    state: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | OidcCompletionError
+      | ErrorWithCode<'identity-already-linked'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorUnknown
+    >
+  >;
+}
+
+// TOTP second factors with recovery codes. Once a user confirms one,
+// their sign-ins answer an AuthMfaChallenge instead of a session.
+export interface IAuthBackendMfa {
+  onMfaReset$: Observable<AuthMfaResetEvent>;
+  // Finishes a sign-in that answered mfaRequired. A wrong code can be retried
+  // until the challenge expires. Wrong TOTP and recovery codes are also
+  // counted per user, across challenges and the checks below: past a few,
+  // codes are refused with too-many-attempts until retryAfterMs has passed.
+  completeMfaSignIn(args: {
+    mfaChallenge: string;
+    code: string;
+  }): Promise<
+    Result<
+      AuthSignInSession,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // Like completeMfaSignIn, for users who lost their authenticator. Each
+  // recovery code works once.
+  completeMfaSignInWithRecoveryCode(args: {
+    mfaChallenge: string;
+    recoveryCode: string;
+  }): Promise<
+    Result<
+      AuthSignInSession,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // Starts enrolling a TOTP authenticator, replacing an unconfirmed one. uri
+  // is the otpauth:// URI to show as a QR code. Sign-ins only ask for codes
+  // once confirmTotpEnrollment has accepted a first one.
+  enrollTotp(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      { secret: string; uri: string },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-already-enrolled'>
+      | ErrorUnknown
+    >
+  >;
+  // Answers the recovery codes of the new factor. Only their hashes are kept,
+  // so this is the one time they can be shown to the user.
+  confirmTotpEnrollment(args: {
+    uid: string;
+    code: string;
+  }): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorUnknown
+    >
+  >;
+  // Checks a code of the confirmed authenticator, e.g. before a sensitive
+  // action. Codes are accepted within the drift window, and each only once.
+  verifyTotpCode(args: {
+    uid: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // Consumes a recovery code, e.g. to let a user without their authenticator
+  // unenroll it.
+  verifyRecoveryCode(args: {
+    uid: string;
+    recoveryCode: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // Replaces every recovery code of the confirmed factor.
+  regenerateRecoveryCodes(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorUnknown
+    >
+  >;
+  // Removes the authenticator and its recovery codes.
+  unenrollTotp(args: {
+    uid: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorUnknown
+    >
+  >;
+  // Administrative: removes every second factor of a user who cannot use
+  // their recovery codes either, and emits onMfaReset$ for the audit trail.
+  resetMfa(args: {
+    uid: string;
+    resetBy: string;
+    reason?: string;
+  }): Promise<Result<void, ErrorWithCode<'user-not-found'> | ErrorUnknown>>;
+}
+
+// Lets users see and end their sign-ins one device at a time.
+export interface IAuthBackendSessions {
+  // Active sessions of the user, oldest first.
+  listSessions(
+    uid: string,
+  ): Promise<
+    Result<AuthSession[], ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  >;
+  // Ends the session: its refresh token stops working and its idToken is
+  // rejected with token-revoked.
+  revokeSession(
+    sessionId: string,
+  ): Promise<Result<void, ErrorWithCode<'session-not-found'> | ErrorUnknown>>;
+}
+
+// Application-defined claims carried in idTokens.
+export interface IAuthBackendClaims {
+  // Replaces the user's claims; {} removes them. Claim names used by the
+  // backend itself are reserved and the claims must stay under 1000 bytes of
+  // JSON.
+  setCustomClaims(args: {
+    uid: string;
+    claims: AuthCustomClaims;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'reserved-claim'>
+      | ErrorWithCode<'claims-too-large'>
+      | ErrorUnknown
+    >
   >;
 }
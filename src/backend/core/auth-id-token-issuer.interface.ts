@@ -0,0 +1,31 @@
+import { ErrorWithCode, Result } from '@j2blasco/ts-result';
+import type { AuthCustomClaims } from '../../auth-types/auth-types';
+
+// What an idToken says about the sign-in it was issued for. Times are in ms
+// since epoch.
+export type AuthIdTokenContents = {
+  uid: string;
+  // The refresh token family (session) the token was issued from. Tokens from
+  // issuers that predate sessions may lack it.
+  sessionId?: string;
+  issuedAt: number;
+  expiresAt: number;
+  claims: AuthCustomClaims;
+  isAnonymous: boolean;
+};
+
+export type AuthIdTokenReadError =
+  | ErrorWithCode<'invalid-token'>
+  | ErrorWithCode<'invalid-signature'>
+  | ErrorWithCode<'invalid-issuer'>
+  | ErrorWithCode<'invalid-audience'>;
+
+/**
+ * Signs and checks idTokens for AuthBackendCore. Only the token format lives
+ * here: expiry, sessions and revocation are checked by the backend.
+ */
+export interface IAuthIdTokenIssuer {
+  issue(contents: AuthIdTokenContents): string;
+  // Succeeds for any token this issuer produced, even an expired one.
+  read(idToken: string): Result<AuthIdTokenContents, AuthIdTokenReadError>;
+}
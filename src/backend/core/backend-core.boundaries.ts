@@ -0,0 +1,28 @@
+import type { Boundaries } from '@j2blasco/ts-boundaries';
+
+const boundaries: Boundaries = {
+  name: 'backend-core',
+  internal: [
+    'root',
+    'backend-action-tokens',
+    'backend-email-links',
+    'backend-mfa',
+    'backend-phone-codes',
+    'backend-refresh-tokens',
+    'mfa',
+    'oidc',
+    'password-hasher-providers',
+  ],
+  external: [
+    'rxjs',
+    '@j2blasco/ts-result',
+    'crypto',
+    'fs',
+    'fs/promises',
+    'http',
+    'os',
+    'path',
+  ],
+};
+
+export default boundaries;
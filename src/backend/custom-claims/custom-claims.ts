@@ -0,0 +1,54 @@
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { AuthCustomClaims } from '../../auth-types/auth-types';
+
+export type CustomClaimsError =
+  | ErrorWithCode<'reserved-claim'>
+  | ErrorWithCode<'claims-too-large'>;
+
+// Serialized as JSON. Claims travel in every idToken and Authorization header,
+// so they are meant for small things like roles, not profile data.
+export const maxCustomClaimsBytes = 1000;
+
+// Names the backends put in idTokens themselves, plus the other registered
+// JWT claims.
+export const reservedClaimNames: ReadonlyArray<string> = [
+  'uid',
+  'sid',
+  'iat',
+  'exp',
+  'iss',
+  'aud',
+  'sub',
+  'nbf',
+  'jti',
+  'auth_time',
+  'anonymous',
+];
+
+export function validateCustomClaims(
+  claims: AuthCustomClaims,
+): Result<void, CustomClaimsError> {
+  if (Object.keys(claims).some((name) => reservedClaimNames.includes(name))) {
+    return resultError.withCode('reserved-claim');
+  }
+  if (Buffer.byteLength(JSON.stringify(claims)) > maxCustomClaimsBytes) {
+    return resultError.withCode('claims-too-large');
+  }
+  return resultSuccessVoid();
+}
+
+// The custom claims of a decoded idToken payload.
+export function pickCustomClaims(
+  payload: Record<string, unknown>,
+): AuthCustomClaims {
+  return Object.fromEntries(
+    Object.entries(payload).filter(
+      ([name]) => !reservedClaimNames.includes(name),
+    ),
+  );
+}
@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import { hashToken } from '../action-tokens/auth-action-tokens';
+import { IClock, systemClock } from '../../clock/clock';
+
+type StoredEmailLinkToken = {
+  email: string;
+  // Hash of the device that asked for the link, when it said which.
+  deviceIdHash?: string;
+  expiresAt: number;
+  usedAt?: number;
+};
+
+export type EmailLinkTokenError =
+  | ErrorWithCode<'token-not-found'>
+  | ErrorWithCode<'token-expired'>
+  | ErrorWithCode<'token-already-used'>
+  | ErrorWithCode<'email-mismatch'>;
+
+// Used and expired tokens are remembered this long past their expiry, so a
+// late click still gets the precise error rather than token-not-found.
+const spentTokenRetentionMs = 24 * 60 * 60 * 1000;
+
+// Maps a token error onto a caller's own Result.
+export function emailLinkTokenError(
+  code: EmailLinkTokenError['code'],
+): Result<never, EmailLinkTokenError> {
+  switch (code) {
+    case 'token-not-found':
+      return resultError.withCode('token-not-found');
+    case 'token-expired':
+      return resultError.withCode('token-expired');
+    case 'token-already-used':
+      return resultError.withCode('token-already-used');
+    case 'email-mismatch':
+      return resultError.withCode('email-mismatch');
+  }
+}
+
+/**
+ * Single-use tokens for passwordless sign-in links. They are keyed by email
+ * rather than uid because the first link creates the user. Like action
+ * tokens, only a hash of each token, and of the requesting device, is kept.
+ */
+export class AuthEmailLinkTokens {
+  private tokens = new Map<string, StoredEmailLinkToken>();
+  private lastIssuedAt = new Map<string, number>();
+
+  constructor(private readonly clock: IClock = systemClock) {}
+
+  public issue(args: {
+    email: string;
+    deviceId?: string;
+    lifetimeMs: number;
+    // Refuse a new token if one was issued for this email more recently.
+    minIntervalMs?: number;
+  }): Result<
+    { token: string; expiresAt: number },
+    ErrorWithCode<'rate-limit-exceeded'>
+  > {
+    const now = this.clock.now();
+    const lastIssuedAt = this.lastIssuedAt.get(args.email);
+    if (
+      args.minIntervalMs !== undefined &&
+      lastIssuedAt !== undefined &&
+      now - lastIssuedAt < args.minIntervalMs
+    ) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    this.forgetSpentTokens(now);
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = now + args.lifetimeMs;
+    this.tokens.set(hashToken(token), {
+      email: args.email,
+      ...(args.deviceId !== undefined && {
+        deviceIdHash: hashToken(args.deviceId),
+      }),
+      expiresAt,
+    });
+    this.lastIssuedAt.set(args.email, now);
+    return resultSuccess({ token, expiresAt });
+  }
+
+  // A token for another email is not used up, so the user can retry with
+  // the address the link was sent to. sameDevice is only true when both the
+  // request and this call named the same device.
+  public consume(args: {
+    token: string;
+    email: string;
+    deviceId?: string;
+  }): Result<{ email: string; sameDevice: boolean }, EmailLinkTokenError> {
+    const stored = this.tokens.get(hashToken(args.token));
+    if (!stored) {
+      return resultError.withCode('token-not-found');
+    }
+    if (stored.usedAt !== undefined) {
+      return resultError.withCode('token-already-used');
+    }
+    const now = this.clock.now();
+    if (now > stored.expiresAt) {
+      return resultError.withCode('token-expired');
+    }
+    if (stored.email !== args.email) {
+      return resultError.withCode('email-mismatch');
+    }
+
+    stored.usedAt = now;
+    return resultSuccess({
+      email: stored.email,
+      sameDevice:
+        stored.deviceIdHash !== undefined &&
+        args.deviceId !== undefined &&
+        stored.deviceIdHash === hashToken(args.deviceId),
+    });
+  }
+
+  public revokeAll(email: string): void {
+    for (const [key, stored] of this.tokens) {
+      if (stored.email === email) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  private forgetSpentTokens(now: number): void {
+    for (const [key, stored] of this.tokens) {
+      if (now > stored.expiresAt + spentTokenRetentionMs) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+}
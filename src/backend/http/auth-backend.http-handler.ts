@@ -0,0 +1,827 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AuthClientMetadata } from '../../auth-types/auth-types';
+import {
+  IAuthBackend,
+  IAuthBackendAnonymous,
+  IAuthBackendEmailLinks,
+  IAuthBackendMfa,
+  IAuthBackendOidc,
+  IAuthBackendPhone,
+  IAuthBackendSessions,
+} from '../core/auth-backend.interface';
+import {
+  hasAuthBackendAnonymous,
+  hasAuthBackendEmailLinks,
+  hasAuthBackendMfa,
+  hasAuthBackendOidc,
+  hasAuthBackendPhone,
+  hasAuthBackendSessions,
+} from '../core/auth-backend.capabilities';
+import {
+  AuthHttpErrorBody,
+  authHttpRoutes,
+} from '../../http/auth-http.contract';
+import { unwrapResult } from '../../utils/result.utils';
+
+export type AuthHttpHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+) => Promise<void>;
+
+export type AuthHttpRouteRequest = {
+  body: Record<string, unknown>;
+  headers: IncomingMessage['headers'];
+  remoteAddress?: string;
+};
+
+export type AuthHttpRouteResponse = {
+  status: number;
+  body: unknown;
+};
+
+export type AuthHttpRoutes = Record<
+  string,
+  (request: AuthHttpRouteRequest) => Promise<AuthHttpRouteResponse>
+>;
+
+// Where the server reports the unknown errors it keeps from clients.
+export type AuthHttpLogger = {
+  error(message: string, details: unknown): void;
+};
+
+export type AuthHttpHandlerOptions = {
+  // Defaults to console.
+  logger?: AuthHttpLogger;
+};
+
+const maxBodyBytes = 1024 * 1024;
+// All a client learns of an unknown error, whose message may name files,
+// stores or other internals.
+const unknownErrorMessage = 'Internal error';
+
+const errorStatus: Record<string, number> = {
+  'invalid-request': 400,
+  'invalid-email': 400,
+  'token-not-found': 400,
+  'token-expired': 400,
+  'token-already-used': 400,
+  'email-mismatch': 400,
+  'invalid-phone-number': 400,
+  'invalid-verification-id': 400,
+  'code-expired': 400,
+  'mfa-not-enrolled': 400,
+  'reserved-claim': 400,
+  'claims-too-large': 400,
+  'weak-password': 400,
+  unauthenticated: 401,
+  'wrong-password': 401,
+  'invalid-refresh-token': 401,
+  'refresh-token-expired': 401,
+  'refresh-token-reused': 401,
+  'token-revoked': 401,
+  'invalid-mfa-challenge': 401,
+  'mfa-challenge-expired': 401,
+  'invalid-mfa-code': 401,
+  'invalid-recovery-code': 401,
+  'invalid-oidc-state': 401,
+  'oidc-state-expired': 401,
+  'invalid-id-token': 401,
+  'invalid-code': 401,
+  forbidden: 403,
+  'email-not-verified': 403,
+  'user-not-found': 404,
+  'email-not-found': 404,
+  'session-not-found': 404,
+  'provider-not-found': 404,
+  'not-found': 404,
+  'email-already-in-use': 409,
+  'refresh-token-conflict': 409,
+  'mfa-already-enrolled': 409,
+  'not-anonymous': 409,
+  'identity-already-linked': 409,
+  'phone-number-already-in-use': 409,
+  'rate-limit-exceeded': 429,
+  'too-many-attempts': 429,
+  'not-supported': 501,
+  'provider-error': 502,
+};
+
+export function httpSuccess(body: unknown = {}): AuthHttpRouteResponse {
+  return { status: 200, body };
+}
+
+export function httpError(
+  code: string,
+  message?: string,
+  status?: number,
+): AuthHttpRouteResponse {
+  const body: AuthHttpErrorBody = message ? { code, message } : { code };
+  return { status: status ?? errorStatus[code] ?? 500, body };
+}
+
+// Backend errors carry a code, ErrorUnknown also a message, weak-password the
+// rules the password failed and too-many-attempts how long to wait.
+export function httpErrorFrom(
+  error: unknown,
+  status?: number,
+): AuthHttpRouteResponse {
+  const { code, message, failedRules, retryAfterMs } = error as {
+    code?: unknown;
+    message?: unknown;
+    failedRules?: unknown;
+    retryAfterMs?: unknown;
+  };
+  const response = httpError(
+    typeof code === 'string' ? code : 'unknown',
+    typeof message === 'string' ? message : undefined,
+    status,
+  );
+  if (Array.isArray(failedRules)) {
+    (response.body as AuthHttpErrorBody).failedRules = failedRules.filter(
+      (rule): rule is string => typeof rule === 'string',
+    );
+  }
+  if (typeof retryAfterMs === 'number') {
+    (response.body as AuthHttpErrorBody).retryAfterMs = retryAfterMs;
+  }
+  return response;
+}
+
+export function readStringFields<TField extends string>(
+  body: Record<string, unknown>,
+  fields: ReadonlyArray<TField>,
+): Record<TField, string> | undefined {
+  const values = {} as Record<TField, string>;
+  for (const field of fields) {
+    const value = body[field];
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    values[field] = value;
+  }
+  return values;
+}
+
+// Undefined when body.client is present but not an object.
+function readClientMetadata({
+  body,
+  headers,
+  remoteAddress,
+}: AuthHttpRouteRequest): AuthClientMetadata | undefined {
+  const client = body.client ?? {};
+  if (typeof client !== 'object' || client === null || Array.isArray(client)) {
+    return undefined;
+  }
+  const { userAgent, deviceName } = client as Record<string, unknown>;
+  const metadata: AuthClientMetadata = {};
+  if (typeof userAgent === 'string') {
+    metadata.userAgent = userAgent;
+  } else if (headers['user-agent']) {
+    metadata.userAgent = headers['user-agent'];
+  }
+  if (typeof deviceName === 'string') {
+    metadata.deviceName = deviceName;
+  }
+  if (remoteAddress) {
+    metadata.ipAddress = remoteAddress;
+  }
+  return metadata;
+}
+
+export async function authenticate(
+  backend: IAuthBackend,
+  headers: IncomingMessage['headers'],
+): Promise<
+  { uid: string; idToken: string } | { error: AuthHttpRouteResponse }
+> {
+  const authorization = headers.authorization;
+  if (!authorization?.startsWith('Bearer ')) {
+    return { error: httpError('unauthenticated', 'Missing bearer token') };
+  }
+
+  const idToken = authorization.slice('Bearer '.length);
+  const uid = unwrapResult(await backend.getUidFromIdToken(idToken));
+  if (!uid.ok) {
+    return { error: httpErrorFrom(uid.error, 401) };
+  }
+  return { uid: uid.value, idToken };
+}
+
+// Routes that change the second factor want a current TOTP code, or a
+// recovery code from users who lost their authenticator. Undefined when the
+// caller passed the check.
+async function verifySecondFactor(
+  backend: IAuthBackendMfa,
+  uid: string,
+  body: Record<string, unknown>,
+): Promise<AuthHttpRouteResponse | undefined> {
+  const { code, recoveryCode } = body;
+  if (typeof recoveryCode === 'string') {
+    const verified = unwrapResult(
+      await backend.verifyRecoveryCode({ uid, recoveryCode }),
+    );
+    return verified.ok ? undefined : httpErrorFrom(verified.error);
+  }
+  if (typeof code === 'string') {
+    const verified = unwrapResult(await backend.verifyTotpCode({ uid, code }));
+    return verified.ok ? undefined : httpErrorFrom(verified.error);
+  }
+  return httpError('invalid-request');
+}
+
+function accountRoutes(backend: IAuthBackend): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.signUp]: async ({ body }) => {
+      const fields = readStringFields(body, ['email', 'password']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.signUpWithEmailPassword(fields),
+      );
+      return result.ok
+        ? httpSuccess({ uid: result.value.uid })
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.signIn]: async (request) => {
+      const fields = readStringFields(request.body, ['email', 'password']);
+      const client = readClientMetadata(request);
+      if (!fields || !client) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.signInWithEmailAndPassword({ ...fields, client }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.refresh]: async ({ body }) => {
+      const fields = readStringFields(body, ['refreshToken']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.signInWithRefreshToken(fields.refreshToken),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.emailAvailable]: async ({ body }) => {
+      const fields = readStringFields(body, ['email']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.getUidByEmail(fields.email));
+      if (result.ok) {
+        return httpSuccess({ available: false });
+      }
+      return result.error.code === 'email-not-found'
+        ? httpSuccess({ available: true })
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.changeEmail]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['newEmail']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.changeEmail({
+          uid: caller.uid,
+          newEmail: fields.newEmail,
+          currentIdToken: caller.idToken,
+        }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.passwordReset]: async ({ body }) => {
+      const fields = readStringFields(body, ['email']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.createPasswordResetToken({ email: fields.email }),
+      );
+      // The token itself must only reach the user out of band.
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.passwordResetConfirm]: async ({ body }) => {
+      const fields = readStringFields(body, ['token', 'newPassword']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.resetPassword(fields));
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.emailVerification]: async ({ headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const result = unwrapResult(
+        await backend.createEmailVerificationToken({ uid: caller.uid }),
+      );
+      // Like the password reset token, it must only reach the user out of band.
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.emailVerificationConfirm]: async ({ body }) => {
+      const fields = readStringFields(body, ['token']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.verifyEmail(fields));
+      return result.ok
+        ? httpSuccess({ uid: result.value.uid })
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.deleteAccount]: async ({ headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const result = unwrapResult(
+        await backend.deleteUser({ uid: caller.uid }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function anonymousRoutes(
+  backend: IAuthBackend & IAuthBackendAnonymous,
+): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.anonymousSignIn]: async (request) => {
+      const client = readClientMetadata(request);
+      if (!client) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.signInAnonymously({ client }));
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.linkEmailPassword]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['email', 'password']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.linkWithEmailAndPassword({ uid: caller.uid, ...fields }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function emailLinkRoutes(
+  backend: IAuthBackend & IAuthBackendEmailLinks,
+): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.signInLink]: async ({ body }) => {
+      const fields = readStringFields(body, ['email']);
+      const { deviceId } = body;
+      if (!fields || (deviceId !== undefined && typeof deviceId !== 'string')) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.createSignInLinkToken({ email: fields.email, deviceId }),
+      );
+      // Like the password reset token, it must only reach the user out of band.
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.signInLinkComplete]: async (request) => {
+      const fields = readStringFields(request.body, ['email', 'token']);
+      const { deviceId } = request.body;
+      const client = readClientMetadata(request);
+      if (
+        !fields ||
+        (deviceId !== undefined && typeof deviceId !== 'string') ||
+        !client
+      ) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.signInWithEmailLink({ ...fields, deviceId, client }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function phoneRoutes(
+  backend: IAuthBackend & IAuthBackendPhone,
+): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.phoneSignInCode]: async ({ body }) => {
+      const fields = readStringFields(body, ['phoneNumber']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.createPhoneSignInCode(fields));
+      // The code itself must only reach the user by SMS.
+      return result.ok
+        ? httpSuccess({
+            verificationId: result.value.verificationId,
+            expiresAt: result.value.expiresAt,
+          })
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.phoneSignIn]: async (request) => {
+      const fields = readStringFields(request.body, ['verificationId', 'code']);
+      const client = readClientMetadata(request);
+      if (!fields || !client) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.signInWithPhoneCode({ ...fields, client }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.phoneLinkCode]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['phoneNumber']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.createPhoneLinkCode({ uid: caller.uid, ...fields }),
+      );
+      return result.ok
+        ? httpSuccess({
+            verificationId: result.value.verificationId,
+            expiresAt: result.value.expiresAt,
+          })
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.phoneLink]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['verificationId', 'code']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.linkPhoneNumber({ uid: caller.uid, ...fields }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function oidcRoutes(backend: IAuthBackend & IAuthBackendOidc): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.providerSignIn]: async ({ body }) => {
+      const fields = readStringFields(body, ['providerId', 'redirectUri']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.startProviderSignIn(fields));
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.providerSignInComplete]: async (request) => {
+      const fields = readStringFields(request.body, ['state', 'code']);
+      const client = readClientMetadata(request);
+      if (!fields || !client) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.completeProviderSignIn({ ...fields, client }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.providerLink]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['providerId', 'redirectUri']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.startProviderLink({ uid: caller.uid, ...fields }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.providerLinkComplete]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['state', 'code']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.completeProviderLink({ uid: caller.uid, ...fields }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function mfaRoutes(backend: IAuthBackend & IAuthBackendMfa): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.mfaSignIn]: async ({ body }) => {
+      const fields = readStringFields(body, ['mfaChallenge', 'code']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(await backend.completeMfaSignIn(fields));
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.mfaRecoverySignIn]: async ({ body }) => {
+      const fields = readStringFields(body, ['mfaChallenge', 'recoveryCode']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.completeMfaSignInWithRecoveryCode(fields),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.totpEnroll]: async ({ headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const result = unwrapResult(
+        await backend.enrollTotp({ uid: caller.uid }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.totpConfirm]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['code']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      const result = unwrapResult(
+        await backend.confirmTotpEnrollment({
+          uid: caller.uid,
+          code: fields.code,
+        }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.totpUnenroll]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const rejected = await verifySecondFactor(backend, caller.uid, body);
+      if (rejected) {
+        return rejected;
+      }
+      const result = unwrapResult(
+        await backend.unenrollTotp({ uid: caller.uid }),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+
+    [authHttpRoutes.recoveryCodesRegenerate]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const rejected = await verifySecondFactor(backend, caller.uid, body);
+      if (rejected) {
+        return rejected;
+      }
+      const result = unwrapResult(
+        await backend.regenerateRecoveryCodes({ uid: caller.uid }),
+      );
+      return result.ok
+        ? httpSuccess(result.value)
+        : httpErrorFrom(result.error);
+    },
+  };
+}
+
+function sessionRoutes(
+  backend: IAuthBackend & IAuthBackendSessions,
+): AuthHttpRoutes {
+  return {
+    [authHttpRoutes.sessions]: async ({ headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const result = unwrapResult(await backend.listSessions(caller.uid));
+      if (!result.ok) {
+        return httpErrorFrom(result.error);
+      }
+      return httpSuccess({
+        sessions: result.value.map(({ uid: _uid, ...session }) => session),
+      });
+    },
+
+    [authHttpRoutes.revokeSession]: async ({ body, headers }) => {
+      const caller = await authenticate(backend, headers);
+      if ('error' in caller) {
+        return caller.error;
+      }
+      const fields = readStringFields(body, ['sessionId']);
+      if (!fields) {
+        return httpError('invalid-request');
+      }
+      // Another user's session is reported exactly like a missing one.
+      const sessions = unwrapResult(await backend.listSessions(caller.uid));
+      if (!sessions.ok) {
+        return httpErrorFrom(sessions.error);
+      }
+      if (!sessions.value.some(({ id }) => id === fields.sessionId)) {
+        return httpError('session-not-found');
+      }
+      const result = unwrapResult(
+        await backend.revokeSession(fields.sessionId),
+      );
+      return result.ok ? httpSuccess() : httpErrorFrom(result.error);
+    },
+  };
+}
+
+// The routes of a capability the backend lacks are left out, so they answer
+// not-found like any unknown path.
+export function createAuthBackendRoutes(backend: IAuthBackend): AuthHttpRoutes {
+  return {
+    ...accountRoutes(backend),
+    ...(hasAuthBackendAnonymous(backend) && anonymousRoutes(backend)),
+    ...(hasAuthBackendEmailLinks(backend) && emailLinkRoutes(backend)),
+    ...(hasAuthBackendPhone(backend) && phoneRoutes(backend)),
+    ...(hasAuthBackendOidc(backend) && oidcRoutes(backend)),
+    ...(hasAuthBackendMfa(backend) && mfaRoutes(backend)),
+    ...(hasAuthBackendSessions(backend) && sessionRoutes(backend)),
+  };
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+async function parseRequest(
+  request: IncomingMessage,
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const raw = await readBody(request);
+    const body: unknown = raw.length > 0 ? JSON.parse(raw) : {};
+    return typeof body === 'object' && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A route that throws answers like one that failed for an unknown reason.
+// Either way the logger gets the details and the client only the code.
+export async function runAuthRoute(
+  routes: AuthHttpRoutes,
+  path: string,
+  request: AuthHttpRouteRequest,
+  logger: AuthHttpLogger = console,
+): Promise<AuthHttpRouteResponse> {
+  const route = routes[path];
+  if (!route) {
+    return httpError('not-found', `No route for ${path}`);
+  }
+  let response: AuthHttpRouteResponse;
+  try {
+    response = await route(request);
+  } catch (error) {
+    logger.error(`Auth route ${path} threw`, error);
+    return httpError('unknown', unknownErrorMessage);
+  }
+  if ((response.body as AuthHttpErrorBody | undefined)?.code === 'unknown') {
+    logger.error(`Auth route ${path} failed`, response.body);
+    return httpError('unknown', unknownErrorMessage, response.status);
+  }
+  return response;
+}
+
+function send(response: ServerResponse, result: AuthHttpRouteResponse): void {
+  response.writeHead(result.status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(result.body));
+}
+
+/**
+ * Serves the routes with Node's http module:
+ * `http.createServer(createAuthHttpHandler(routes))`.
+ */
+export function createAuthHttpHandler(
+  routes: AuthHttpRoutes,
+  options: AuthHttpHandlerOptions = {},
+): AuthHttpHandler {
+  return async (request, response) => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (!routes[path]) {
+      send(response, httpError('not-found', `No route for ${path}`));
+      return;
+    }
+    if (request.method !== 'POST') {
+      send(response, httpError('invalid-request', 'Use POST', 405));
+      return;
+    }
+
+    const body = await parseRequest(request);
+    if (!body) {
+      send(
+        response,
+        httpError('invalid-request', 'Body must be a JSON object'),
+      );
+      return;
+    }
+
+    send(
+      response,
+      await runAuthRoute(
+        routes,
+        path,
+        {
+          body,
+          headers: request.headers,
+          remoteAddress: request.socket.remoteAddress,
+        },
+        options.logger,
+      ),
+    );
+  };
+}
+
+export function createAuthBackendHttpHandler(
+  backend: IAuthBackend,
+  options: AuthHttpHandlerOptions = {},
+): AuthHttpHandler {
+  return createAuthHttpHandler(createAuthBackendRoutes(backend), options);
+}
@@ -0,0 +1,86 @@
+import { randomBytes } from 'crypto';
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import { hashToken } from '../action-tokens/auth-action-tokens';
+import { AuthClientMetadata } from '../../auth-types/auth-types';
+import { IClock, systemClock } from '../../clock/clock';
+
+type PendingMfaChallenge = {
+  uid: string;
+  client?: AuthClientMetadata;
+  expiresAt: number;
+  failedAttempts: number;
+};
+
+export type MfaChallengeError =
+  | ErrorWithCode<'invalid-mfa-challenge'>
+  | ErrorWithCode<'mfa-challenge-expired'>;
+
+const challengeLifetimeMs = 5 * 60 * 1000;
+// After this many wrong codes the password has to be entered again.
+const maxFailedAttempts = 5;
+
+/**
+ * Sign-ins that passed the password check and wait for a second factor. Like
+ * action tokens, only a hash of each handle is kept.
+ */
+export class AuthMfaChallenges {
+  private challenges = new Map<string, PendingMfaChallenge>();
+
+  constructor(private readonly clock: IClock = systemClock) {}
+
+  public issue(
+    uid: string,
+    client?: AuthClientMetadata,
+  ): { mfaChallenge: string; expiresAt: number } {
+    const mfaChallenge = randomBytes(32).toString('base64url');
+    const expiresAt = this.clock.now() + challengeLifetimeMs;
+    this.challenges.set(hashToken(mfaChallenge), {
+      uid,
+      client,
+      expiresAt,
+      failedAttempts: 0,
+    });
+    return { mfaChallenge, expiresAt };
+  }
+
+  // The challenge stays pending until it is consumed or fails too often.
+  public find(
+    mfaChallenge: string,
+  ): Result<{ uid: string; client?: AuthClientMetadata }, MfaChallengeError> {
+    const key = hashToken(mfaChallenge);
+    const pending = this.challenges.get(key);
+    if (!pending) {
+      return resultError.withCode('invalid-mfa-challenge');
+    }
+    if (this.clock.now() > pending.expiresAt) {
+      this.challenges.delete(key);
+      return resultError.withCode('mfa-challenge-expired');
+    }
+    return resultSuccess({ uid: pending.uid, client: pending.client });
+  }
+
+  public recordFailure(mfaChallenge: string): void {
+    const key = hashToken(mfaChallenge);
+    const pending = this.challenges.get(key);
+    if (pending && ++pending.failedAttempts >= maxFailedAttempts) {
+      this.challenges.delete(key);
+    }
+  }
+
+  public consume(mfaChallenge: string): void {
+    this.challenges.delete(hashToken(mfaChallenge));
+  }
+
+  public revokeAll(uid: string): void {
+    for (const [key, pending] of this.challenges) {
+      if (pending.uid === uid) {
+        this.challenges.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import type { Boundaries } from '@j2blasco/ts-boundaries';
+
+const boundaries: Boundaries = {
+  name: 'backend-mfa',
+  internal: ['root', 'backend-action-tokens'],
+  external: [
+    'rxjs',
+    '@j2blasco/ts-result',
+    'crypto',
+    'fs',
+    'fs/promises',
+    'http',
+    'os',
+    'path',
+  ],
+};
+
+export default boundaries;
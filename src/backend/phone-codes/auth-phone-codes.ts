@@ -0,0 +1,133 @@
+import { randomBytes, randomInt } from 'crypto';
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import { hashToken } from '../action-tokens/auth-action-tokens';
+import { IClock, systemClock } from '../../clock/clock';
+
+type PendingPhoneCode = {
+  phoneNumber: string;
+  // Set for codes that link the number to this user rather than sign in.
+  uid?: string;
+  codeHash: string;
+  expiresAt: number;
+  failedAttempts: number;
+};
+
+export type PhoneCodeError =
+  | ErrorWithCode<'invalid-verification-id'>
+  | ErrorWithCode<'code-expired'>
+  | ErrorWithCode<'invalid-code'>
+  | ErrorWithCode<'too-many-attempts'>;
+
+const codeDigits = 6;
+// After this many wrong codes a new one has to be sent.
+const maxFailedAttempts = 5;
+
+// Maps a code error onto a caller's own Result.
+export function phoneCodeError(
+  code: PhoneCodeError['code'],
+): Result<never, PhoneCodeError> {
+  switch (code) {
+    case 'invalid-verification-id':
+      return resultError.withCode('invalid-verification-id');
+    case 'code-expired':
+      return resultError.withCode('code-expired');
+    case 'invalid-code':
+      return resultError.withCode('invalid-code');
+    case 'too-many-attempts':
+      return resultError.withCode('too-many-attempts');
+  }
+}
+
+// The verification id salts the hash, so equal codes do not hash alike.
+function hashCode(verificationId: string, code: string): string {
+  return hashToken(`${verificationId}:${code}`);
+}
+
+/**
+ * Short numeric codes sent by SMS. Each is tied to a verification id the
+ * client keeps and sends back with the code, and only hashes of both are kept.
+ * Sending a new code to a number replaces the one sent before.
+ */
+export class AuthPhoneCodes {
+  private pending = new Map<string, PendingPhoneCode>();
+  private lastSentAt = new Map<string, number>();
+
+  constructor(private readonly clock: IClock = systemClock) {}
+
+  public issue(args: {
+    phoneNumber: string;
+    uid?: string;
+    lifetimeMs: number;
+    // Refuse a new code if one for the same purpose, signing in or linking,
+    // was sent to this number more recently.
+    resendCooldownMs?: number;
+  }): Result<
+    { verificationId: string; code: string; expiresAt: number },
+    ErrorWithCode<'rate-limit-exceeded'>
+  > {
+    const now = this.clock.now();
+    const rateLimitKey = `${args.uid === undefined ? 'sign-in' : 'link'}:${args.phoneNumber}`;
+    const lastSentAt = this.lastSentAt.get(rateLimitKey);
+    if (
+      args.resendCooldownMs !== undefined &&
+      lastSentAt !== undefined &&
+      now - lastSentAt < args.resendCooldownMs
+    ) {
+      return resultError.withCode('rate-limit-exceeded');
+    }
+    for (const [key, pending] of this.pending) {
+      if (pending.phoneNumber === args.phoneNumber || now > pending.expiresAt) {
+        this.pending.delete(key);
+      }
+    }
+
+    const verificationId = randomBytes(32).toString('base64url');
+    const code = randomInt(10 ** codeDigits)
+      .toString()
+      .padStart(codeDigits, '0');
+    const expiresAt = now + args.lifetimeMs;
+    this.pending.set(hashToken(verificationId), {
+      phoneNumber: args.phoneNumber,
+      ...(args.uid !== undefined && { uid: args.uid }),
+      codeHash: hashCode(verificationId, code),
+      expiresAt,
+      failedAttempts: 0,
+    });
+    this.lastSentAt.set(rateLimitKey, now);
+    return resultSuccess({ verificationId, code, expiresAt });
+  }
+
+  // A right code is used up. A wrong one can be retried until the code
+  // expires or has failed too often. uid must match the one the code was
+  // issued for, so a sign-in code cannot link and a link code cannot sign in.
+  public verify(args: {
+    verificationId: string;
+    code: string;
+    uid?: string;
+  }): Result<{ phoneNumber: string }, PhoneCodeError> {
+    const key = hashToken(args.verificationId);
+    const pending = this.pending.get(key);
+    if (!pending || pending.uid !== args.uid) {
+      return resultError.withCode('invalid-verification-id');
+    }
+    if (this.clock.now() > pending.expiresAt) {
+      this.pending.delete(key);
+      return resultError.withCode('code-expired');
+    }
+    if (pending.failedAttempts >= maxFailedAttempts) {
+      return resultError.withCode('too-many-attempts');
+    }
+    if (pending.codeHash !== hashCode(args.verificationId, args.code)) {
+      pending.failedAttempts++;
+      return resultError.withCode('invalid-code');
+    }
+
+    this.pending.delete(key);
+    return resultSuccess({ phoneNumber: pending.phoneNumber });
+  }
+}
@@ -0,0 +1,24 @@
+import type { Boundaries } from '@j2blasco/ts-boundaries';
+
+const boundaries: Boundaries = {
+  name: 'backend-providers',
+  internal: [
+    'root',
+    'backend-core',
+    'oidc',
+    'refresh-token-store-file',
+    'user-store-file',
+  ],
+  external: [
+    'rxjs',
+    '@j2blasco/ts-result',
+    'crypto',
+    'fs',
+    'fs/promises',
+    'http',
+    'os',
+    'path',
+  ],
+};
+
+export default boundaries;
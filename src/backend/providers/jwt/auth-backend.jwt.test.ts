@@ -0,0 +1,324 @@
+import { generateKeyPairSync } from 'crypto';
+import {
+  testAuthBackend,
+  unwrapSession,
+} from '../../core/auth-backend.generic.test';
+import { AuthBackendJwt } from './auth-backend.jwt';
+import { decodeJwt, JwtSigningKey, signJwt } from './jwt';
+import { FakeOidcProvider } from '../../../oidc/fake-oidc-provider';
+import { InMemorySmsSender } from '../../../sms-sender/providers/memory/sms-sender.memory';
+import { ManualClock } from '../../../clock/clock';
+import { AuthUserStoreMemory } from '../../user-store/providers/memory/auth-user-store.memory';
+import { AuthRefreshTokenStoreMemory } from '../../refresh-token-store/providers/memory/auth-refresh-token-store.memory';
+
+const issuer = 'https://auth.example.com';
+const audience = 'example-app';
+
+function hs256Key(kid: string): JwtSigningKey {
+  return { kid, algorithm: 'HS256', secret: `secret-for-${kid}` };
+}
+
+function rs256Key(kid: string): JwtSigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  return { kid, algorithm: 'RS256', privateKey, publicKey };
+}
+
+function es256Key(kid: string): JwtSigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  return { kid, algorithm: 'ES256', privateKey, publicKey };
+}
+
+async function signUpAndSignIn(backend: AuthBackendJwt, email: string) {
+  const password = 'testPassword123';
+  await backend.signUpWithEmailPassword({ email, password });
+  return unwrapSession(
+    await backend.signInWithEmailAndPassword({ email, password }),
+  );
+}
+
+function getErrorCode(result: { unwrapOrThrow: () => unknown }): string {
+  try {
+    result.unwrapOrThrow();
+  } catch (error) {
+    return (error as { code: string }).code;
+  }
+  throw new Error('Result is not an error');
+}
+
+// The provider, phone and configured tests do not depend on the signing
+// algorithm, so they only run once.
+describe('AuthBackendJwt HS256', () => {
+  const clock = new ManualClock();
+  const oidcProvider = new FakeOidcProvider({ clock });
+  const smsSender = new InMemorySmsSender({ clock });
+  testAuthBackend(
+    new AuthBackendJwt({
+      issuer,
+      audience,
+      signingKey: hs256Key('hs-1'),
+      oidcProviders: [oidcProvider.config],
+      oidcFetch: oidcProvider.fetch,
+      smsSender,
+      clock,
+    }),
+    {
+      oidcProvider,
+      smsSender,
+      clock,
+      createWithOptions: (configuration) =>
+        new AuthBackendJwt({
+          issuer,
+          audience,
+          signingKey: hs256Key('hs-2'),
+          ...configuration,
+        }),
+    },
+  );
+});
+
+describe('AuthBackendJwt RS256', () => {
+  testAuthBackend(
+    new AuthBackendJwt({ issuer, audience, signingKey: rs256Key('rs-1') }),
+  );
+});
+
+describe('AuthBackendJwt ES256', () => {
+  testAuthBackend(
+    new AuthBackendJwt({ issuer, audience, signingKey: es256Key('es-1') }),
+  );
+});
+
+describe('AuthBackendJwt specific features', () => {
+  const signingKey = hs256Key('key-1');
+  let backend: AuthBackendJwt;
+
+  beforeEach(() => {
+    backend = new AuthBackendJwt({ issuer, audience, signingKey });
+  });
+
+  it('should put uid, iat, exp, iss and aud in the idToken', async () => {
+    const { uid, idToken } = await signUpAndSignIn(
+      backend,
+      'claims@example.com',
+    );
+
+    const decoded = decodeJwt(idToken);
+
+    expect(decoded?.header).toEqual({ alg: 'HS256', typ: 'JWT', kid: 'key-1' });
+    expect(decoded?.payload.uid).toBe(uid);
+    expect(decoded?.payload.iss).toBe(issuer);
+    expect(decoded?.payload.aud).toBe(audience);
+    expect(decoded?.payload.exp).toBe((decoded?.payload.iat ?? 0) + 3600);
+  });
+
+  it('should put custom claims next to the registered ones', async () => {
+    const email = 'custom-claims@example.com';
+    const { uid } = await signUpAndSignIn(backend, email);
+    await backend.setCustomClaims({ uid, claims: { role: 'admin' } });
+
+    const { idToken } = await signUpAndSignIn(backend, email);
+    const decoded = decodeJwt(idToken);
+
+    expect(decoded?.payload.role).toBe('admin');
+    expect(decoded?.payload.uid).toBe(uid);
+  });
+
+  it('should reject a token signed with the wrong secret', async () => {
+    const { idToken } = await signUpAndSignIn(backend, 'forge@example.com');
+    const decoded = decodeJwt(idToken);
+    const forged = signJwt(
+      { ...decoded!.payload, uid: 'someone-else' },
+      { kid: 'key-1', algorithm: 'HS256', secret: 'guessed-secret' },
+    );
+
+    const result = await backend.getUidFromIdToken(forged);
+
+    expect(getErrorCode(result)).toBe('invalid-signature');
+  });
+
+  it('should reject a token signed with an unknown key', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt(
+      { uid: 'uid', iat: now, exp: now + 60, iss: issuer, aud: audience },
+      hs256Key('unknown-key'),
+    );
+
+    const result = await backend.getUidFromIdToken(token);
+
+    expect(getErrorCode(result)).toBe('invalid-signature');
+  });
+
+  it('should reject an expired token', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt(
+      { uid: 'uid', iat: now - 120, exp: now - 60, iss: issuer, aud: audience },
+      signingKey,
+    );
+
+    const result = await backend.getUidFromIdToken(token);
+
+    expect(getErrorCode(result)).toBe('token-expired');
+  });
+
+  it('should reject a token for another audience', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt(
+      { uid: 'uid', iat: now, exp: now + 60, iss: issuer, aud: 'other-app' },
+      signingKey,
+    );
+
+    const result = await backend.getUidFromIdToken(token);
+
+    expect(getErrorCode(result)).toBe('invalid-audience');
+  });
+
+  it('should reject a token from another issuer', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt(
+      {
+        uid: 'uid',
+        iat: now,
+        exp: now + 60,
+        iss: 'https://evil.example.com',
+        aud: audience,
+      },
+      signingKey,
+    );
+
+    const result = await backend.getUidFromIdToken(token);
+
+    expect(getErrorCode(result)).toBe('invalid-issuer');
+  });
+
+  it('should reject a malformed token', async () => {
+    const result = await backend.getUidFromIdToken('not-a-jwt');
+
+    expect(getErrorCode(result)).toBe('invalid-token');
+  });
+
+  it('should sign new tokens with the rotated key and accept the previous one', async () => {
+    const { uid, idToken: oldToken } = await signUpAndSignIn(
+      backend,
+      'rotate@example.com',
+    );
+
+    backend.rotateSigningKey(hs256Key('key-2'));
+    const { idToken: newToken } = await signUpAndSignIn(
+      backend,
+      'rotate-new@example.com',
+    );
+
+    expect(decodeJwt(newToken)?.header.kid).toBe('key-2');
+    expect((await backend.getUidFromIdToken(oldToken)).unwrapOrThrow()).toBe(
+      uid,
+    );
+  });
+
+  it('should reject the previous key once the grace window has passed', async () => {
+    backend = new AuthBackendJwt({
+      issuer,
+      audience,
+      signingKey,
+      keyRotationGraceMs: 0,
+    });
+    const { idToken } = await signUpAndSignIn(backend, 'grace@example.com');
+
+    backend.rotateSigningKey(hs256Key('key-2'));
+    const result = await backend.getUidFromIdToken(idToken);
+
+    expect(getErrorCode(result)).toBe('invalid-signature');
+  });
+
+  it('should not accept an RS256 public key as an HS256 secret', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    backend = new AuthBackendJwt({
+      issuer,
+      audience,
+      signingKey: { kid: 'rsa-key', algorithm: 'RS256', privateKey, publicKey },
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt(
+      { uid: 'uid', iat: now, exp: now + 60, iss: issuer, aud: audience },
+      {
+        kid: 'rsa-key',
+        algorithm: 'HS256',
+        secret: publicKey.export({ type: 'spki', format: 'pem' }),
+      },
+    );
+
+    const result = await backend.getUidFromIdToken(token);
+
+    expect(getErrorCode(result)).toBe('invalid-signature');
+  });
+
+  describe('instances sharing their stores', () => {
+    let other: AuthBackendJwt;
+
+    beforeEach(() => {
+      const userStore = new AuthUserStoreMemory();
+      const refreshTokenStore = new AuthRefreshTokenStoreMemory();
+      backend = new AuthBackendJwt({
+        issuer,
+        audience,
+        signingKey,
+        userStore,
+        refreshTokenStore,
+      });
+      other = new AuthBackendJwt({
+        issuer,
+        audience,
+        signingKey,
+        userStore,
+        refreshTokenStore,
+      });
+    });
+
+    it('should reject the idToken of a session revoked on the other instance', async () => {
+      const { idToken, sessionId } = await signUpAndSignIn(
+        backend,
+        'shared-session@example.com',
+      );
+      const before = await other.verifyIdToken(idToken);
+
+      (await other.revokeSession(sessionId)).unwrapOrThrow();
+      const after = await backend.verifyIdToken(idToken);
+
+      expect(() => before.unwrapOrThrow()).not.toThrow();
+      expect(getErrorCode(after)).toBe('token-revoked');
+    });
+
+    it('should reject idTokens issued before a revocation on the other instance', async () => {
+      const { idToken, uid } = await signUpAndSignIn(
+        backend,
+        'shared-revocation@example.com',
+      );
+
+      (await other.revokeRefreshTokens({ uid })).unwrapOrThrow();
+      const result = await backend.verifyIdToken(idToken);
+
+      expect(getErrorCode(result)).toBe('token-revoked');
+    });
+
+    it('should refresh on one instance a session started on the other', async () => {
+      const { refreshToken, uid } = await signUpAndSignIn(
+        backend,
+        'shared-refresh@example.com',
+      );
+
+      const refreshed = (
+        await other.signInWithRefreshToken(refreshToken)
+      ).unwrapOrThrow();
+      const verified = await backend.verifyIdToken(refreshed.idToken);
+      const reused = await backend.signInWithRefreshToken(refreshToken);
+
+      expect(verified.unwrapOrThrow().uid).toBe(uid);
+      expect(getErrorCode(reused)).toBe('refresh-token-reused');
+    });
+  });
+});
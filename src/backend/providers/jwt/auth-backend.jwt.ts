@@ -0,0 +1,119 @@
+import { Result, resultError, resultSuccess } from '@j2blasco/ts-result';
+import {
+  AuthBackendCore,
+  AuthBackendCoreOptions,
+  defaultIdTokenLifetimeMs,
+} from '../../core/auth-backend.core';
+import {
+  AuthIdTokenContents,
+  AuthIdTokenReadError,
+  IAuthIdTokenIssuer,
+} from '../../core/auth-id-token-issuer.interface';
+import {
+  decodeJwt,
+  JwtKeyRing,
+  JwtSigningKey,
+  signJwt,
+  verifyJwtSignature,
+} from './jwt';
+import { pickCustomClaims } from '../../custom-claims/custom-claims';
+import { systemClock } from '../../../clock/clock';
+
+export type AuthBackendJwtOptions = Omit<
+  AuthBackendCoreOptions,
+  'idTokenIssuer'
+> & {
+  issuer: string;
+  audience: string;
+  signingKey: JwtSigningKey;
+  // How long a rotated-out key keeps verifying tokens. Defaults to the
+  // idToken lifetime so every token signed before a rotation stays valid.
+  keyRotationGraceMs?: number;
+};
+
+// Signs idTokens as JWTs any service holding the key can verify on its own.
+class AuthIdTokenIssuerJwt implements IAuthIdTokenIssuer {
+  constructor(
+    private readonly keyRing: JwtKeyRing,
+    private readonly options: { issuer: string; audience: string },
+  ) {}
+
+  public issue(contents: AuthIdTokenContents): string {
+    return signJwt(
+      {
+        ...contents.claims,
+        uid: contents.uid,
+        sid: contents.sessionId,
+        ...(contents.isAnonymous && { anonymous: true }),
+        iat: contents.issuedAt / 1000,
+        exp: contents.expiresAt / 1000,
+        iss: this.options.issuer,
+        aud: this.options.audience,
+      },
+      this.keyRing.signingKey,
+    );
+  }
+
+  public read(
+    idToken: string,
+  ): Result<AuthIdTokenContents, AuthIdTokenReadError> {
+    const decoded = decodeJwt(idToken);
+    if (!decoded) {
+      return resultError.withCode('invalid-token');
+    }
+
+    const key = this.keyRing.findVerificationKey(decoded.header.kid);
+    if (!key || !verifyJwtSignature(decoded, key)) {
+      return resultError.withCode('invalid-signature');
+    }
+
+    const { payload } = decoded;
+    if (payload.iss !== this.options.issuer) {
+      return resultError.withCode('invalid-issuer');
+    }
+    if (payload.aud !== this.options.audience) {
+      return resultError.withCode('invalid-audience');
+    }
+    return resultSuccess({
+      uid: payload.uid,
+      sessionId: payload.sid,
+      issuedAt: payload.iat * 1000,
+      expiresAt: payload.exp * 1000,
+      claims: pickCustomClaims(payload),
+      isAnonymous: payload.anonymous === true,
+    });
+  }
+}
+
+/**
+ * A backend whose idTokens are JWTs. verifyIdToken still looks the session
+ * and the user's revocations up in the stores, so every instance of a
+ * deployment needs the same userStore and refreshTokenStore.
+ *
+ * Pending password reset and email verification tokens, sign-in links, phone
+ * codes, MFA challenges and provider sign-ins are kept in the memory of the
+ * instance that issued them, and only that instance redeems them. Behind a
+ * load balancer, route each user to one instance, e.g. with sticky sessions.
+ */
+export class AuthBackendJwt extends AuthBackendCore {
+  private readonly keyRing: JwtKeyRing;
+
+  constructor(options: AuthBackendJwtOptions) {
+    const keyRing = new JwtKeyRing(
+      options.signingKey,
+      options.keyRotationGraceMs ??
+        options.idTokenLifetimeMs ??
+        defaultIdTokenLifetimeMs,
+      options.clock ?? systemClock,
+    );
+    super({
+      ...options,
+      idTokenIssuer: new AuthIdTokenIssuerJwt(keyRing, options),
+    });
+    this.keyRing = keyRing;
+  }
+
+  public rotateSigningKey(nextKey: JwtSigningKey): void {
+    this.keyRing.rotate(nextKey);
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  createHmac,
+  KeyObject,
+  sign as cryptoSign,
+  timingSafeEqual,
+  verify as cryptoVerify,
+} from 'crypto';
+import { IClock, systemClock } from '../../../clock/clock';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+// HS256 keys share a secret between signer and verifier, RS256/ES256 keys are
+// asymmetric so the public half can be handed to other services.
+export type JwtSigningKey =
+  | { kid: string; algorithm: 'HS256'; secret: string | Buffer }
+  | {
+      kid: string;
+      algorithm: 'RS256' | 'ES256';
+      privateKey: KeyObject;
+      publicKey: KeyObject;
+    };
+
+// Enough to check a signature, e.g. a key published in another issuer's JWKS.
+export type JwtVerificationKey =
+  | { kid: string; algorithm: 'HS256'; secret: string | Buffer }
+  | { kid: string; algorithm: 'RS256' | 'ES256'; publicKey: KeyObject };
+
+export type JwtHeader = {
+  alg: JwtAlgorithm;
+  typ: 'JWT';
+  kid: string;
+};
+
+export type JwtPayload = {
+  uid: string;
+  // Id of the sign-in (refresh token family) the token was issued for.
+  sid?: string;
+  // Only present, and true, on tokens of anonymous users.
+  anonymous?: boolean;
+  // Carries milliseconds as a fraction so revocation can be checked precisely.
+  iat: number;
+  exp: number;
+  iss: string;
+  aud: string;
+  // Custom claims sit next to the registered ones.
+  [claim: string]: unknown;
+};
+
+// A token from any issuer: the payload is not checked beyond being an object.
+export type ParsedJwt = {
+  header: JwtHeader;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+};
+
+export type DecodedJwt = Omit<ParsedJwt, 'payload'> & { payload: JwtPayload };
+
+const supportedAlgorithms: ReadonlyArray<JwtAlgorithm> = [
+  'HS256',
+  'RS256',
+  'ES256',
+];
+
+function base64UrlEncodeJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function base64UrlDecodeJson(value: string): unknown {
+  return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+}
+
+function createSignature(signingInput: string, key: JwtSigningKey): Buffer {
+  switch (key.algorithm) {
+    case 'HS256':
+      return createHmac('sha256', key.secret).update(signingInput).digest();
+    case 'RS256':
+      return cryptoSign('sha256', Buffer.from(signingInput), key.privateKey);
+    case 'ES256':
+      // JWS expects the raw r||s encoding instead of the DER default.
+      return cryptoSign('sha256', Buffer.from(signingInput), {
+        key: key.privateKey,
+        dsaEncoding: 'ieee-p1363',
+      });
+  }
+}
+
+export function signJwt(
+  payload: Record<string, unknown>,
+  key: JwtSigningKey,
+): string {
+  const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+  const signingInput = `${base64UrlEncodeJson(header)}.${base64UrlEncodeJson(payload)}`;
+  const signature = createSignature(signingInput, key);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+export function parseJwt(token: string): ParsedJwt | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  let header: JwtHeader;
+  let payload: Record<string, unknown>;
+  try {
+    header = base64UrlDecodeJson(encodedHeader) as JwtHeader;
+    payload = base64UrlDecodeJson(encodedPayload) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+
+  if (
+    typeof header !== 'object' ||
+    header === null ||
+    !supportedAlgorithms.includes(header.alg) ||
+    typeof header.kid !== 'string' ||
+    typeof payload !== 'object' ||
+    payload === null ||
+    Array.isArray(payload)
+  ) {
+    return undefined;
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: Buffer.from(encodedSignature, 'base64url'),
+  };
+}
+
+export function decodeJwt(token: string): DecodedJwt | undefined {
+  const parsed = parseJwt(token);
+  if (
+    !parsed ||
+    typeof parsed.payload.uid !== 'string' ||
+    typeof parsed.payload.exp !== 'number' ||
+    typeof parsed.payload.iat !== 'number'
+  ) {
+    return undefined;
+  }
+  return { ...parsed, payload: parsed.payload as JwtPayload };
+}
+
+export function verifyJwtSignature(
+  decoded: Pick<ParsedJwt, 'header' | 'signingInput' | 'signature'>,
+  key: JwtVerificationKey,
+): boolean {
+  // The algorithm is pinned by the key, never by the token header, so a token
+  // cannot downgrade an asymmetric key to an HMAC secret.
+  if (decoded.header.alg !== key.algorithm) {
+    return false;
+  }
+
+  const data = Buffer.from(decoded.signingInput);
+  switch (key.algorithm) {
+    case 'HS256': {
+      const expected = createHmac('sha256', key.secret).update(data).digest();
+      return (
+        expected.length === decoded.signature.length &&
+        timingSafeEqual(expected, decoded.signature)
+      );
+    }
+    case 'RS256':
+      return cryptoVerify('sha256', data, key.publicKey, decoded.signature);
+    case 'ES256':
+      return cryptoVerify(
+        'sha256',
+        data,
+        { key: key.publicKey, dsaEncoding: 'ieee-p1363' },
+        decoded.signature,
+      );
+  }
+}
+
+/**
+ * Holds the key used to sign new tokens plus the keys it replaced.
+ * Retired keys keep verifying tokens until the grace window has passed,
+ * so rotating does not sign out users holding a still-valid idToken.
+ */
+export class JwtKeyRing {
+  private retiredKeys: Array<{ key: JwtSigningKey; retiredAt: number }> = [];
+
+  constructor(
+    private currentKey: JwtSigningKey,
+    private readonly graceWindowMs: number,
+    private readonly clock: IClock = systemClock,
+  ) {}
+
+  public get signingKey(): JwtSigningKey {
+    return this.currentKey;
+  }
+
+  public rotate(nextKey: JwtSigningKey): void {
+    if (nextKey.kid === this.currentKey.kid) {
+      throw new Error(`Signing key "${nextKey.kid}" is already in use`);
+    }
+    this.retiredKeys.unshift({
+      key: this.currentKey,
+      retiredAt: this.clock.now(),
+    });
+    this.currentKey = nextKey;
+  }
+
+  public findVerificationKey(kid: string): JwtSigningKey | undefined {
+    if (this.currentKey.kid === kid) {
+      return this.currentKey;
+    }
+
+    const now = this.clock.now();
+    this.retiredKeys = this.retiredKeys.filter(
+      (retired) => now - retired.retiredAt < this.graceWindowMs,
+    );
+    return this.retiredKeys.find((retired) => retired.key.kid === kid)?.key;
+  }
+}
@@ -1,6 +1,100 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { testAuthBackend } from '../../core/auth-backend.generic.test';
 import { AuthBackendTesting } from './auth-backend.testing';
+import { AuthUserStoreMemory } from '../../user-store/providers/memory/auth-user-store.memory';
+import { AuthUserStoreFile } from '../../user-store/providers/file/auth-user-store.file';
+import { AuthRefreshTokenStoreFile } from '../../refresh-token-store/providers/file/auth-refresh-token-store.file';
+import { FakeOidcProvider } from '../../../oidc/fake-oidc-provider';
+import { InMemorySmsSender } from '../../../sms-sender/providers/memory/sms-sender.memory';
+import { ManualClock } from '../../../clock/clock';
 
 describe('Backend Auth Testing', () => {
-  testAuthBackend(new AuthBackendTesting());
+  const clock = new ManualClock();
+  const oidcProvider = new FakeOidcProvider({ clock });
+  const smsSender = new InMemorySmsSender({ clock });
+  testAuthBackend(
+    new AuthBackendTesting({
+      oidcProviders: [oidcProvider.config],
+      oidcFetch: oidcProvider.fetch,
+      smsSender,
+      clock,
+    }),
+    {
+      oidcProvider,
+      smsSender,
+      clock,
+      createWithOptions: (configuration) =>
+        new AuthBackendTesting(configuration),
+    },
+  );
+
+  describe('AuthBackendTesting specific features', () => {
+    it('should keep users in the injected user store', async () => {
+      const userStore = new AuthUserStoreMemory();
+      const backend = new AuthBackendTesting({ userStore });
+
+      const { uid } = (
+        await backend.signUpWithEmailPassword({
+          email: 'store@example.com',
+          password: 'testPassword123',
+        })
+      ).unwrapOrThrow();
+
+      const stored = (
+        await userStore.getByEmail('store@example.com')
+      ).unwrapOrThrow();
+      expect(stored.uid).toBe(uid);
+      expect(stored.passwordHash?.startsWith('$scrypt$')).toBe(true);
+    });
+
+    it('should expose the links that have not been used yet', async () => {
+      const email = 'sign-in-link@example.com';
+      const backend = new AuthBackendTesting();
+      await backend.createSignInLinkToken({ email });
+      const [link] = backend.getSignInLinks(email);
+
+      await backend.signInWithEmailLink({
+        email,
+        token: new URL(link).searchParams.get('token')!,
+      });
+
+      expect(backend.getSignInLinks(email)).toEqual([]);
+    });
+
+    it('should expose the code that has not been used yet', async () => {
+      const phoneNumber = '+15550100';
+      const backend = new AuthBackendTesting();
+      const { verificationId } = (
+        await backend.createPhoneSignInCode({ phoneNumber })
+      ).unwrapOrThrow();
+
+      await backend.signInWithPhoneCode({
+        verificationId,
+        code: backend.getPhoneCode(phoneNumber)!,
+      });
+
+      expect(backend.getPhoneCode(phoneNumber)).toBeUndefined();
+    });
+  });
+});
+
+describe('Backend Auth Testing with file stores', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'auth-backend-testing-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  testAuthBackend(
+    new AuthBackendTesting({
+      userStore: new AuthUserStoreFile({
+        filePath: join(directory, 'users.json'),
+      }),
+      refreshTokenStore: new AuthRefreshTokenStoreFile({
+        filePath: join(directory, 'refresh-tokens.json'),
+      }),
+    }),
+  );
 });
@@ -1,174 +1,142 @@
+import { randomUUID } from 'crypto';
 import {
-  Result,
   ErrorUnknown,
+  ErrorWithCode,
+  Result,
   resultError,
-  resultSuccessVoid,
   resultSuccess,
-  ErrorWithCode,
 } from '@j2blasco/ts-result';
-import { IAuthBackend } from 'backend/core/auth-backend.interface';
-import { Subject } from 'rxjs';
-import { v4 as uuidv4 } from 'uuid';
-
-export class AuthBackendTesting implements IAuthBackend {
-  constructor() {}
-
-  public changePassword(args: {
-    uid: string;
-    newPassword: string;
-  }): Promise<Result<void, ErrorUnknown>> {
-    const { uid, newPassword } = args;
-
-    const user = this.registeredUsers.find((u) => u.uid === uid);
-
-    if (!user) {
-      return Promise.resolve(resultError.unknown('User not found'));
-    }
-
-    user.password = newPassword;
-
-    return Promise.resolve(resultSuccessVoid());
-  }
-
-  public sendResetPasswordEmail(_args: {
-    email: string;
-  }): Promise<Result<{ success: boolean }, ErrorUnknown>> {
-    throw new Error('Method not implemented.');
+import type { AuthClientMetadata } from '../../../auth-types/auth-types';
+import type { AuthSignInSession } from '../../core/auth-backend.interface';
+import {
+  AuthBackendCore,
+  AuthBackendCoreOptions,
+  AuthIssuedSecret,
+} from '../../core/auth-backend.core';
+import {
+  AuthIdTokenContents,
+  AuthIdTokenReadError,
+  IAuthIdTokenIssuer,
+} from '../../core/auth-id-token-issuer.interface';
+import {
+  AuthMailLinks,
+  defaultAuthMailLinks,
+} from '../../../mailer/core/auth-mail-templates';
+import { IAuthUserStore } from '../../user-store/core/auth-user-store.interface';
+import { AuthUserStoreMemory } from '../../user-store/providers/memory/auth-user-store.memory';
+import { unwrapResult } from '../../../utils/result.utils';
+
+export type AuthBackendTestingOptions = Omit<
+  AuthBackendCoreOptions,
+  'idTokenIssuer'
+>;
+
+// Opaque idTokens that only the issuing instance can read.
+class AuthIdTokenIssuerOpaque implements IAuthIdTokenIssuer {
+  private readonly idTokens = new Map<string, AuthIdTokenContents>();
+
+  public issue(contents: AuthIdTokenContents): string {
+    const idToken = randomUUID();
+    this.idTokens.set(idToken, { ...contents, claims: { ...contents.claims } });
+    return idToken;
   }
 
-  private registeredUsers = new Array<{
-    idToken: string;
-    uid: string;
-    email: string;
-    password: string;
-    refreshToken: string;
-  }>();
-
-  public getUidFromIdToken(
+  public read(
     idToken: string,
-  ): Promise<Result<string, ErrorUnknown>> {
-    const user = this.registeredUsers.find((u) => u.idToken === idToken);
-    if (!user) {
-      return Promise.resolve(resultError.unknown('User not found'));
-    }
-    return Promise.resolve(resultSuccess(user.uid));
+  ): Result<AuthIdTokenContents, AuthIdTokenReadError> {
+    const contents = this.idTokens.get(idToken);
+    return contents
+      ? resultSuccess({ ...contents, claims: { ...contents.claims } })
+      : resultError.withCode('invalid-token');
   }
+}
 
-  public onUserCreated$ = new Subject<{ uid: string }>();
-  public onUserDeleted$ = new Subject<{ uid: string }>();
+/**
+ * An in-process backend for tests. It keeps the plaintext of every token and
+ * code it issues until they are used, so tests can complete the email and
+ * phone flows without a mailer or SMS sender.
+ */
+export class AuthBackendTesting extends AuthBackendCore {
+  private readonly links: AuthMailLinks;
+  private readonly testUserStore: IAuthUserStore;
+  private issuedSecrets: AuthIssuedSecret[] = [];
+
+  constructor(options: AuthBackendTestingOptions = {}) {
+    const userStore = options.userStore ?? new AuthUserStoreMemory();
+    super({
+      ...options,
+      userStore,
+      idTokenIssuer: new AuthIdTokenIssuerOpaque(),
+    });
+    this.links = options.mailLinks ?? defaultAuthMailLinks;
+    this.testUserStore = userStore;
+  }
 
-  public async signInWithEmailAndPassword(args: {
-    email: string;
-    password: string;
+  // Like the user signing in on another device, whatever their sign-in
+  // methods and second factors.
+  public async addTestSession(args: {
+    uid: string;
+    client?: AuthClientMetadata;
   }): Promise<
-    Result<
-      {
-        uid: string;
-        refreshToken: string;
-        idToken: string;
-      },
-      | ErrorWithCode<'invalid-email'>
-      | ErrorWithCode<'user-not-found'>
-      | ErrorWithCode<'wrong-password'>
-      | ErrorUnknown
-    >
+    Result<AuthSignInSession, ErrorWithCode<'user-not-found'> | ErrorUnknown>
   > {
-    const regex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!regex.test(args.email)) {
-      return Promise.resolve(resultError.withCode('invalid-email'));
-    }
-    const user = this.registeredUsers.find((u) => u.email === args.email);
-
-    if (!user) {
-      return Promise.resolve(resultError.withCode('user-not-found'));
+    const user = unwrapResult(await this.testUserStore.getByUid(args.uid));
+    if (!user.ok) {
+      return resultError.withCode('user-not-found');
     }
-
-    if (user.password !== args.password) {
-      return Promise.resolve(resultError.withCode('wrong-password'));
-    }
-    return Promise.resolve(
-      resultSuccess({
-        uid: user.uid,
-        refreshToken: user.refreshToken,
-        idToken: user.idToken,
-      }),
-    );
+    return this.startSession(user.value, args.client);
   }
 
-  public async signInWithRefreshToken(
-    refreshToken: string,
-  ): Promise<Result<{ idToken: string; uid: string }, ErrorUnknown>> {
-    // Find the user with the matching refresh token
-    const user = this.registeredUsers.find(
-      (u) => u.refreshToken === refreshToken,
-    );
-    if (!user) {
-      return Promise.resolve(resultError.unknown('Invalid refresh token'));
-    }
+  // Tokens that have not been used yet, optionally only those of one user.
+  public getPasswordResetTokens(uid?: string): string[] {
+    return this.findSecrets('password-reset', uid);
+  }
 
-    // Generate a new idToken for this session
-    const newIdToken = uuidv4();
-    user.idToken = newIdToken;
+  // Verification tokens that have not been used yet, optionally only those of
+  // one user.
+  public getEmailVerificationTokens(uid?: string): string[] {
+    return this.findSecrets('email-verification', uid);
+  }
 
-    return Promise.resolve(
-      resultSuccess({
-        idToken: newIdToken,
-        uid: user.uid,
-      }),
+  // The links of sign-in tokens that have not been used yet, optionally only
+  // those sent to one email.
+  public getSignInLinks(email?: string): string[] {
+    return this.findSecrets('sign-in-link', email).map((token) =>
+      this.links['sign-in-link'](token),
     );
   }
 
-  public async signUpWithEmailPassword(_args: {
-    email: string;
-    password: string;
-  }): Promise<Result<{ uid: string }, ErrorUnknown>> {
-    const uid = uuidv4();
-    const idToken = uuidv4();
-    const refreshToken = uuidv4();
-    this.registeredUsers.push({
-      idToken,
-      uid,
-      email: _args.email,
-      password: _args.password,
-      refreshToken,
-    });
-    this.onUserCreated$.next({ uid });
-    return Promise.resolve(resultSuccess({ uid }));
+  // The code last sent to the number, until it is used.
+  public getPhoneCode(phoneNumber: string): string | undefined {
+    return this.findSecrets('phone-code', phoneNumber).at(-1);
   }
 
-  public async changeEmail(_args: {
-    uid: string;
-    newEmail: string;
-  }): Promise<Result<void, ErrorUnknown>> {
-    const user = this.registeredUsers.find((u) => u.uid === _args.uid);
-    if (!user) {
-      return Promise.resolve(resultError.unknown('User not found'));
-    }
-    user.email = _args.newEmail;
-    return Promise.resolve(resultSuccess(undefined));
+  protected override onSecretIssued(secret: AuthIssuedSecret): void {
+    this.issuedSecrets.push(secret);
   }
 
-  public async deleteUser(_args: {
-    uid: string;
-  }): Promise<Result<void, ErrorUnknown>> {
-    const index = this.registeredUsers.findIndex((u) => u.uid === _args.uid);
-    if (index === -1) {
-      return Promise.resolve(resultError.unknown('User not found'));
-    }
-    this.registeredUsers.splice(index, 1);
-    this.onUserDeleted$.next({ uid: _args.uid });
-    return Promise.resolve(resultSuccess(undefined));
+  protected override onSecretsSpent(
+    spent: Pick<AuthIssuedSecret, 'kind'> &
+      Partial<Pick<AuthIssuedSecret, 'secret' | 'owner'>>,
+  ): void {
+    this.issuedSecrets = this.issuedSecrets.filter(
+      (issued) =>
+        issued.kind !== spent.kind ||
+        (spent.secret !== undefined && issued.secret !== spent.secret) ||
+        (spent.owner !== undefined && issued.owner !== spent.owner),
+    );
   }
 
-  public getUidByEmail(
-    email: string,
-  ): Promise<
-    Result<{ uid: string }, ErrorWithCode<'email-not-found'> | ErrorUnknown>
-  > {
-    const user = this.registeredUsers.find((u) => u.email === email);
-    if (!user) {
-      return Promise.resolve(resultError.withCode('email-not-found' as const));
-    }
-    return Promise.resolve(resultSuccess({ uid: user.uid }));
+  private findSecrets(
+    kind: AuthIssuedSecret['kind'],
+    owner?: string,
+  ): string[] {
+    return this.issuedSecrets
+      .filter(
+        (issued) =>
+          issued.kind === kind &&
+          (owner === undefined || issued.owner === owner),
+      )
+      .map((issued) => issued.secret);
   }
 }
@@ -0,0 +1,282 @@
+import { Result } from '@j2blasco/ts-result';
+import {
+  AuthRefreshTokenFamilyRecord,
+  IAuthRefreshTokenStore,
+} from './auth-refresh-token-store.interface';
+
+/**
+ * Helper functions for testing Result types
+ */
+function isResultSuccess<T, E>(result: Result<T, E>): boolean {
+  try {
+    result.unwrapOrThrow();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getResultError<T, E>(result: Result<T, E>): E {
+  try {
+    result.unwrapOrThrow();
+    throw new Error('Result is not an error');
+  } catch (error) {
+    return error as E;
+  }
+}
+
+let familyCounter = 0;
+
+function newFamily(
+  uid = `store-test-uid-${Date.now()}`,
+): Omit<AuthRefreshTokenFamilyRecord, 'version'> {
+  familyCounter += 1;
+  const tokenHash = `hash-${Date.now()}-${familyCounter}`;
+  return {
+    id: `family-${Date.now()}-${familyCounter}`,
+    uid,
+    createdAt: 1000,
+    lastRefreshedAt: 1000,
+    client: { userAgent: 'test-agent' },
+    currentTokenHash: tokenHash,
+    tokenHashes: [tokenHash],
+  };
+}
+
+// The changes a refresh makes: a new current token, remembering the old one.
+function rotated(
+  family: Omit<AuthRefreshTokenFamilyRecord, 'version'>,
+  nextTokenHash: string,
+) {
+  return {
+    currentTokenHash: nextTokenHash,
+    tokenHashes: [...family.tokenHashes, nextTokenHash],
+    lastRefreshedAt: family.lastRefreshedAt + 1,
+  };
+}
+
+/**
+ * Comprehensive test suite for IAuthRefreshTokenStore implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testAuthRefreshTokenStore(
+  storeFactory: () => IAuthRefreshTokenStore,
+): void {
+  describe('IAuthRefreshTokenStore implementation tests', () => {
+    let store: IAuthRefreshTokenStore;
+
+    beforeEach(() => {
+      store = storeFactory();
+    });
+
+    describe('create', () => {
+      it('should create a family with version 1', async () => {
+        const family = newFamily();
+
+        const result = await store.create(family);
+
+        expect(result.unwrapOrThrow()).toEqual({ ...family, version: 1 });
+      });
+
+      it('should return error for a duplicate id', async () => {
+        const family = newFamily();
+        await store.create(family);
+
+        const result = await store.create({ ...newFamily(), id: family.id });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('family-already-exists');
+      });
+
+      it('should return error for a token hash another family holds', async () => {
+        const family = newFamily();
+        await store.create(family);
+
+        const result = await store.create({
+          ...newFamily(),
+          currentTokenHash: family.currentTokenHash,
+          tokenHashes: [family.currentTokenHash],
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('token-hash-already-exists');
+      });
+    });
+
+    describe('getById and getByTokenHash', () => {
+      it('should read a family by id', async () => {
+        const family = newFamily();
+        await store.create(family);
+
+        const result = await store.getById(family.id);
+
+        expect(result.unwrapOrThrow()).toEqual({ ...family, version: 1 });
+      });
+
+      it('should find a family by its current and its rotated-out tokens', async () => {
+        const family = newFamily();
+        await store.create(family);
+        await store.update({
+          id: family.id,
+          expectedVersion: 1,
+          changes: rotated(family, `${family.currentTokenHash}-next`),
+        });
+
+        const current = await store.getByTokenHash(
+          `${family.currentTokenHash}-next`,
+        );
+        const rotatedOut = await store.getByTokenHash(family.currentTokenHash);
+
+        expect(current.unwrapOrThrow().id).toBe(family.id);
+        expect(rotatedOut.unwrapOrThrow().id).toBe(family.id);
+      });
+
+      it('should return error for an unknown id or token hash', async () => {
+        const byId = await store.getById('unknown-family');
+        const byTokenHash = await store.getByTokenHash('unknown-hash');
+
+        expect(getResultError(byId).code).toBe('family-not-found');
+        expect(getResultError(byTokenHash).code).toBe('family-not-found');
+      });
+
+      it('should return a copy that does not change the stored family', async () => {
+        const family = newFamily();
+        await store.create(family);
+
+        const read = (await store.getById(family.id)).unwrapOrThrow();
+        read.tokenHashes.push('changed');
+        const reread = (await store.getById(family.id)).unwrapOrThrow();
+
+        expect(reread.tokenHashes).toEqual(family.tokenHashes);
+      });
+    });
+
+    describe('listByUid', () => {
+      it('should list only the families of the user', async () => {
+        const uid = `list-uid-${Date.now()}`;
+        const first = newFamily(uid);
+        const second = newFamily(uid);
+        await store.create(first);
+        await store.create(second);
+        await store.create(newFamily());
+
+        const result = await store.listByUid(uid);
+
+        expect(
+          result
+            .unwrapOrThrow()
+            .map(({ id }) => id)
+            .sort(),
+        ).toEqual([first.id, second.id].sort());
+      });
+
+      it('should list nothing for a user without families', async () => {
+        const result = await store.listByUid('uid-without-families');
+
+        expect(result.unwrapOrThrow()).toEqual([]);
+      });
+    });
+
+    describe('update', () => {
+      it('should apply the changes and increment the version', async () => {
+        const family = newFamily();
+        await store.create(family);
+        const changes = rotated(family, `${family.currentTokenHash}-next`);
+
+        const result = await store.update({
+          id: family.id,
+          expectedVersion: 1,
+          changes,
+        });
+
+        expect(result.unwrapOrThrow()).toEqual({
+          ...family,
+          ...changes,
+          version: 2,
+        });
+      });
+
+      it('should return error for a stale version', async () => {
+        const family = newFamily();
+        await store.create(family);
+        await store.update({
+          id: family.id,
+          expectedVersion: 1,
+          changes: rotated(family, `${family.currentTokenHash}-a`),
+        });
+
+        const result = await store.update({
+          id: family.id,
+          expectedVersion: 1,
+          changes: rotated(family, `${family.currentTokenHash}-b`),
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('version-conflict');
+      });
+
+      it('should return error for a token hash another family holds', async () => {
+        const owner = newFamily();
+        const other = newFamily();
+        await store.create(owner);
+        await store.create(other);
+
+        const result = await store.update({
+          id: other.id,
+          expectedVersion: 1,
+          changes: rotated(other, owner.currentTokenHash),
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('token-hash-already-exists');
+      });
+
+      it('should return error for an unknown family', async () => {
+        const result = await store.update({
+          id: 'unknown-family',
+          expectedVersion: 1,
+          changes: { lastRefreshedAt: 2000 },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('family-not-found');
+      });
+    });
+
+    describe('delete', () => {
+      it('should forget the family and every token it used', async () => {
+        const family = newFamily();
+        await store.create(family);
+        await store.update({
+          id: family.id,
+          expectedVersion: 1,
+          changes: rotated(family, `${family.currentTokenHash}-next`),
+        });
+
+        const result = await store.delete({ id: family.id });
+
+        expect(isResultSuccess(result)).toBe(true);
+        expect(getResultError(await store.getById(family.id)).code).toBe(
+          'family-not-found',
+        );
+        expect(
+          getResultError(await store.getByTokenHash(family.currentTokenHash))
+            .code,
+        ).toBe('family-not-found');
+      });
+
+      it('should return error for an unknown family', async () => {
+        const result = await store.delete({ id: 'unknown-family' });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('family-not-found');
+      });
+    });
+  });
+}
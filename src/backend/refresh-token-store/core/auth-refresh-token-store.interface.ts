@@ -0,0 +1,80 @@
+import { ErrorUnknown, ErrorWithCode, Result } from '@j2blasco/ts-result';
+import type { AuthClientMetadata } from '../../../auth-types/auth-types';
+
+// A sign-in and the refresh tokens it has been through. Its id is the session
+// id. Times are in ms since epoch.
+export type AuthRefreshTokenFamilyRecord = {
+  id: string;
+  uid: string;
+  createdAt: number;
+  lastRefreshedAt: number;
+  client?: AuthClientMetadata;
+  // SHA-256 of the only token that refreshes the family.
+  currentTokenHash: string;
+  // SHA-256 of the latest tokens the family has used, the current one
+  // included, so a rotated-out token is still recognised when it is presented
+  // again.
+  tokenHashes: string[];
+  // Incremented on every write. Updates pass the version they read so that
+  // two refreshes with one token cannot both succeed.
+  version: number;
+};
+
+export type AuthRefreshTokenFamilyChanges = Partial<
+  Pick<
+    AuthRefreshTokenFamilyRecord,
+    'lastRefreshedAt' | 'currentTokenHash' | 'tokenHashes'
+  >
+>;
+
+// Persistence for refresh token families. Each token hash belongs to at most
+// one family.
+export interface IAuthRefreshTokenStore {
+  create(
+    family: Omit<AuthRefreshTokenFamilyRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-already-exists'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  >;
+  getById(
+    id: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  >;
+  // Finds the family by its current token or any it has rotated out.
+  getByTokenHash(
+    tokenHash: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  >;
+  listByUid(
+    uid: string,
+  ): Promise<Result<AuthRefreshTokenFamilyRecord[], ErrorUnknown>>;
+  update(args: {
+    id: string;
+    expectedVersion: number;
+    changes: AuthRefreshTokenFamilyChanges;
+  }): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  >;
+  // Forgets the family and every token hash it used.
+  delete(args: {
+    id: string;
+  }): Promise<Result<void, ErrorWithCode<'family-not-found'> | ErrorUnknown>>;
+}
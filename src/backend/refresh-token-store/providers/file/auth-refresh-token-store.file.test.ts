@@ -0,0 +1,77 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { testAuthRefreshTokenStore } from '../../core/auth-refresh-token-store.generic.test';
+import { AuthRefreshTokenStoreFile } from './auth-refresh-token-store.file';
+import { unwrapResult } from '../../../../utils/result.utils';
+
+describe('AuthRefreshTokenStoreFile', () => {
+  let directory: string;
+  let fileCounter = 0;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'auth-refresh-token-store-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const nextFilePath = () => {
+    fileCounter += 1;
+    return join(directory, `refresh-tokens-${fileCounter}.json`);
+  };
+
+  testAuthRefreshTokenStore(
+    () => new AuthRefreshTokenStoreFile({ filePath: nextFilePath() }),
+  );
+
+  describe('AuthRefreshTokenStoreFile specific features', () => {
+    const family = {
+      id: 'file-store-family',
+      uid: 'file-store-uid',
+      createdAt: 1000,
+      lastRefreshedAt: 1000,
+      currentTokenHash: 'file-store-hash',
+      tokenHashes: ['file-store-hash'],
+    };
+
+    it('should persist families across instances', async () => {
+      const filePath = nextFilePath();
+      await new AuthRefreshTokenStoreFile({ filePath }).create(family);
+
+      const result = await new AuthRefreshTokenStoreFile({
+        filePath,
+      }).getByTokenHash(family.currentTokenHash);
+
+      expect(result.unwrapOrThrow()).toEqual({ ...family, version: 1 });
+    });
+
+    it('should let only one of two instances rotate the same version', async () => {
+      const filePath = nextFilePath();
+      await new AuthRefreshTokenStoreFile({ filePath }).create(family);
+      const writers = [1, 2].map(
+        () => new AuthRefreshTokenStoreFile({ filePath }),
+      );
+
+      const results = await Promise.all(
+        writers.map((writer, index) =>
+          writer.update({
+            id: family.id,
+            expectedVersion: 1,
+            changes: { currentTokenHash: `next-${index}` },
+          }),
+        ),
+      );
+
+      expect(results.filter((result) => unwrapResult(result).ok).length).toBe(
+        1,
+      );
+      expect(
+        readdirSync(directory).some(
+          (name) => name.endsWith('.lock') || name.endsWith('.tmp'),
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { randomBytes } from 'crypto';
+import { readFile, rename, unlink, writeFile } from 'fs/promises';
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+} from '@j2blasco/ts-result';
+import {
+  AuthRefreshTokenFamilyChanges,
+  AuthRefreshTokenFamilyRecord,
+  IAuthRefreshTokenStore,
+} from '../../core/auth-refresh-token-store.interface';
+import { AuthRefreshTokenStoreMemory } from '../memory/auth-refresh-token-store.memory';
+import { unwrapResult } from '../../../../utils/result.utils';
+import { withFileLock } from '../../../../file-lock/file-lock';
+
+type AuthRefreshTokenStoreFileContents = {
+  families: AuthRefreshTokenFamilyRecord[];
+};
+
+/**
+ * Keeps refresh token families in a single JSON file, the same way
+ * AuthUserStoreFile keeps users: re-read before every operation, locked from
+ * read to rename on writes, and replaced through a temporary file.
+ */
+export class AuthRefreshTokenStoreFile implements IAuthRefreshTokenStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: { filePath: string }) {}
+
+  public create(
+    family: Omit<AuthRefreshTokenFamilyRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-already-exists'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    return this.write((store) => store.create(family));
+  }
+
+  public getById(
+    id: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  > {
+    return this.read((store) => store.getById(id));
+  }
+
+  public getByTokenHash(
+    tokenHash: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  > {
+    return this.read((store) => store.getByTokenHash(tokenHash));
+  }
+
+  public listByUid(
+    uid: string,
+  ): Promise<Result<AuthRefreshTokenFamilyRecord[], ErrorUnknown>> {
+    return this.read((store) => store.listByUid(uid));
+  }
+
+  public update(args: {
+    id: string;
+    expectedVersion: number;
+    changes: AuthRefreshTokenFamilyChanges;
+  }): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    return this.write((store) => store.update(args));
+  }
+
+  public delete(args: {
+    id: string;
+  }): Promise<Result<void, ErrorWithCode<'family-not-found'> | ErrorUnknown>> {
+    return this.write((store) => store.delete(args));
+  }
+
+  private read<T, E>(
+    operation: (store: AuthRefreshTokenStoreMemory) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    return this.enqueue(async () => operation(await this.load()));
+  }
+
+  private write<T, E>(
+    operation: (store: AuthRefreshTokenStoreMemory) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    return this.enqueue(() =>
+      withFileLock(this.options.filePath, async () => {
+        const store = await this.load();
+        const result = await operation(store);
+        if (unwrapResult(result).ok) {
+          await this.save(store);
+        }
+        return result;
+      }),
+    );
+  }
+
+  // Operations from this process run one at a time so a read-modify-write is
+  // never interleaved with another one.
+  private enqueue<T, E>(
+    operation: () => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    const run = this.pending
+      .then(operation)
+      .catch((error: unknown) =>
+        resultError.unknown(
+          `Refresh token store file operation failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    this.pending = run;
+    return run;
+  }
+
+  private async load(): Promise<AuthRefreshTokenStoreMemory> {
+    let raw: string;
+    try {
+      raw = await readFile(this.options.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new AuthRefreshTokenStoreMemory();
+      }
+      throw error;
+    }
+    const contents = JSON.parse(raw) as AuthRefreshTokenStoreFileContents;
+    return new AuthRefreshTokenStoreMemory(contents.families);
+  }
+
+  private async save(store: AuthRefreshTokenStoreMemory): Promise<void> {
+    const contents: AuthRefreshTokenStoreFileContents = {
+      families: store.exportFamilies(),
+    };
+    const temporaryPath = `${this.options.filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await writeFile(temporaryPath, JSON.stringify(contents, null, 2), 'utf8');
+      await rename(temporaryPath, this.options.filePath);
+    } catch (error) {
+      await unlink(temporaryPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
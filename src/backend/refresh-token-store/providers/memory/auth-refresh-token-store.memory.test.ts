@@ -0,0 +1,6 @@
+import { testAuthRefreshTokenStore } from '../../core/auth-refresh-token-store.generic.test';
+import { AuthRefreshTokenStoreMemory } from './auth-refresh-token-store.memory';
+
+describe('AuthRefreshTokenStoreMemory', () => {
+  testAuthRefreshTokenStore(() => new AuthRefreshTokenStoreMemory());
+});
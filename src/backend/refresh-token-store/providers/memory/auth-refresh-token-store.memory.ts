@@ -0,0 +1,171 @@
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import {
+  AuthRefreshTokenFamilyChanges,
+  AuthRefreshTokenFamilyRecord,
+  IAuthRefreshTokenStore,
+} from '../../core/auth-refresh-token-store.interface';
+
+export class AuthRefreshTokenStoreMemory implements IAuthRefreshTokenStore {
+  private families = new Map<string, AuthRefreshTokenFamilyRecord>();
+  // Family id by current and rotated-out token hash.
+  private familyIdByTokenHash = new Map<string, string>();
+
+  constructor(
+    initialFamilies: ReadonlyArray<AuthRefreshTokenFamilyRecord> = [],
+  ) {
+    for (const family of initialFamilies) {
+      this.put(structuredClone(family));
+    }
+  }
+
+  public exportFamilies(): AuthRefreshTokenFamilyRecord[] {
+    return Array.from(this.families.values(), (family) =>
+      structuredClone(family),
+    );
+  }
+
+  public async create(
+    family: Omit<AuthRefreshTokenFamilyRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-already-exists'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    if (this.families.has(family.id)) {
+      return resultError.withCode('family-already-exists');
+    }
+    if (
+      [...family.tokenHashes, family.currentTokenHash].some((hash) =>
+        this.familyIdByTokenHash.has(hash),
+      )
+    ) {
+      return resultError.withCode('token-hash-already-exists');
+    }
+
+    const record: AuthRefreshTokenFamilyRecord = {
+      ...structuredClone(family),
+      version: 1,
+    };
+    this.put(record);
+    return resultSuccess(structuredClone(record));
+  }
+
+  public async getById(
+    id: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  > {
+    const family = this.families.get(id);
+    if (!family) {
+      return resultError.withCode('family-not-found');
+    }
+    return resultSuccess(structuredClone(family));
+  }
+
+  public async getByTokenHash(
+    tokenHash: string,
+  ): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      ErrorWithCode<'family-not-found'> | ErrorUnknown
+    >
+  > {
+    const familyId = this.familyIdByTokenHash.get(tokenHash);
+    return this.getById(familyId ?? '');
+  }
+
+  public async listByUid(
+    uid: string,
+  ): Promise<Result<AuthRefreshTokenFamilyRecord[], ErrorUnknown>> {
+    return resultSuccess(
+      this.exportFamilies().filter((family) => family.uid === uid),
+    );
+  }
+
+  public async update(args: {
+    id: string;
+    expectedVersion: number;
+    changes: AuthRefreshTokenFamilyChanges;
+  }): Promise<
+    Result<
+      AuthRefreshTokenFamilyRecord,
+      | ErrorWithCode<'family-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'token-hash-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    const family = this.families.get(args.id);
+    if (!family) {
+      return resultError.withCode('family-not-found');
+    }
+    if (family.version !== args.expectedVersion) {
+      return resultError.withCode('version-conflict');
+    }
+    const tokenHashes = [
+      ...(args.changes.tokenHashes ?? []),
+      ...(args.changes.currentTokenHash !== undefined
+        ? [args.changes.currentTokenHash]
+        : []),
+    ];
+    if (
+      tokenHashes.some((hash) => {
+        const owner = this.familyIdByTokenHash.get(hash);
+        return owner !== undefined && owner !== args.id;
+      })
+    ) {
+      return resultError.withCode('token-hash-already-exists');
+    }
+
+    const updated: AuthRefreshTokenFamilyRecord = {
+      ...family,
+      ...structuredClone(args.changes),
+      id: family.id,
+      version: family.version + 1,
+    };
+    this.remove(family);
+    this.put(updated);
+    return resultSuccess(structuredClone(updated));
+  }
+
+  public async delete(args: {
+    id: string;
+  }): Promise<Result<void, ErrorWithCode<'family-not-found'> | ErrorUnknown>> {
+    const family = this.families.get(args.id);
+    if (!family) {
+      return resultError.withCode('family-not-found');
+    }
+
+    this.remove(family);
+    return resultSuccessVoid();
+  }
+
+  private put(family: AuthRefreshTokenFamilyRecord): void {
+    this.families.set(family.id, family);
+    for (const tokenHash of family.tokenHashes) {
+      this.familyIdByTokenHash.set(tokenHash, family.id);
+    }
+    this.familyIdByTokenHash.set(family.currentTokenHash, family.id);
+  }
+
+  private remove(family: AuthRefreshTokenFamilyRecord): void {
+    for (const tokenHash of family.tokenHashes) {
+      this.familyIdByTokenHash.delete(tokenHash);
+    }
+    this.familyIdByTokenHash.delete(family.currentTokenHash);
+    this.families.delete(family.id);
+  }
+}
@@ -0,0 +1,55 @@
+import { Result } from '@j2blasco/ts-result';
+import { AuthRefreshTokenStoreMemory } from '../refresh-token-store/providers/memory/auth-refresh-token-store.memory';
+import { AuthRefreshTokens } from './auth-refresh-tokens';
+
+// 'rotated', or the code of the error.
+function outcome<T, E>(result: Result<T, E>): string {
+  try {
+    result.unwrapOrThrow();
+    return 'rotated';
+  } catch (error) {
+    return (error as { code: string }).code;
+  }
+}
+
+describe('AuthRefreshTokens', () => {
+  let store: AuthRefreshTokenStoreMemory;
+  let refreshTokens: AuthRefreshTokens;
+
+  beforeEach(() => {
+    store = new AuthRefreshTokenStoreMemory();
+    refreshTokens = new AuthRefreshTokens({ store });
+  });
+
+  it('should answer one of two rotations of one token with a conflict', async () => {
+    const { refreshToken } = (
+      await refreshTokens.issue('uid-1')
+    ).unwrapOrThrow();
+
+    const results = await Promise.all([
+      refreshTokens.rotate(refreshToken),
+      refreshTokens.rotate(refreshToken),
+    ]);
+
+    expect(results.map(outcome).sort()).toEqual([
+      'refresh-token-conflict',
+      'rotated',
+    ]);
+    expect(store.exportFamilies()).toHaveLength(1);
+  });
+
+  it('should remember only the latest tokens of a family', async () => {
+    const first = (await refreshTokens.issue('uid-1')).unwrapOrThrow();
+    let refreshToken = first.refreshToken;
+    for (let i = 0; i < 100; i++) {
+      refreshToken = (await refreshTokens.rotate(refreshToken)).unwrapOrThrow()
+        .refreshToken;
+    }
+
+    expect(store.exportFamilies()[0].tokenHashes).toHaveLength(100);
+    expect(outcome(await refreshTokens.rotate(first.refreshToken))).toBe(
+      'invalid-refresh-token',
+    );
+    expect(outcome(await refreshTokens.rotate(refreshToken))).toBe('rotated');
+  });
+});
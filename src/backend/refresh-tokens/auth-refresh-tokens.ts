@@ -0,0 +1,246 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { hashToken } from '../action-tokens/auth-action-tokens';
+import { AuthClientMetadata } from '../../auth-types/auth-types';
+import { AuthSession } from '../core/auth-backend.interface';
+import {
+  AuthRefreshTokenFamilyRecord,
+  IAuthRefreshTokenStore,
+} from '../refresh-token-store/core/auth-refresh-token-store.interface';
+import { AuthRefreshTokenStoreMemory } from '../refresh-token-store/providers/memory/auth-refresh-token-store.memory';
+import { unwrapResult } from '../../utils/result.utils';
+import { IClock, systemClock } from '../../clock/clock';
+
+export type AuthRefreshTokensOptions = {
+  // A family cannot be refreshed once it is this old, however active it is.
+  // Defaults to 30 days.
+  absoluteLifetimeMs?: number;
+  // A family that has not been refreshed for this long expires. Defaults to
+  // 14 days.
+  idleLifetimeMs?: number;
+  // Defaults to an AuthRefreshTokenStoreMemory, which forgets every sign-in
+  // when the process exits.
+  store?: IAuthRefreshTokenStore;
+  clock?: IClock;
+};
+
+export type RefreshTokenRotationError =
+  | ErrorWithCode<'invalid-refresh-token'>
+  | ErrorWithCode<'refresh-token-expired'>
+  | ErrorWithCode<'refresh-token-reused'>
+  | ErrorWithCode<'refresh-token-conflict'>;
+
+const defaultAbsoluteLifetimeMs = 30 * 24 * 60 * 60 * 1000;
+const defaultIdleLifetimeMs = 14 * 24 * 60 * 60 * 1000;
+// How many of its latest tokens a family remembers. Older ones answer
+// invalid-refresh-token instead of revoking the family.
+const maxTokenHashes = 100;
+// How often a refresh tries to rotate a family that others keep writing.
+const maxRotationAttempts = 3;
+
+/**
+ * Rotating refresh tokens. A sign-in starts a family and every refresh
+ * replaces its token. Presenting a token the family has already rotated away
+ * from means it was copied, so the whole family is revoked.
+ *
+ * Each family is one session: its id is the session id. Families live in the
+ * store, so backends sharing one see each other's sign-ins and revocations.
+ */
+export class AuthRefreshTokens {
+  private readonly absoluteLifetimeMs: number;
+  private readonly idleLifetimeMs: number;
+  private readonly store: IAuthRefreshTokenStore;
+  private readonly clock: IClock;
+
+  constructor(options: AuthRefreshTokensOptions = {}) {
+    this.absoluteLifetimeMs =
+      options.absoluteLifetimeMs ?? defaultAbsoluteLifetimeMs;
+    this.idleLifetimeMs = options.idleLifetimeMs ?? defaultIdleLifetimeMs;
+    this.store = options.store ?? new AuthRefreshTokenStoreMemory();
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public async issue(
+    uid: string,
+    client?: AuthClientMetadata,
+  ): Promise<Result<{ familyId: string; refreshToken: string }, ErrorUnknown>> {
+    const now = this.clock.now();
+    const refreshToken = randomBytes(32).toString('base64url');
+    const tokenHash = hashToken(refreshToken);
+    const created = unwrapResult(
+      await this.store.create({
+        id: randomUUID(),
+        uid,
+        createdAt: now,
+        lastRefreshedAt: now,
+        ...(client && { client }),
+        currentTokenHash: tokenHash,
+        tokenHashes: [tokenHash],
+      }),
+    );
+    if (!created.ok) {
+      return resultError.unknown('Failed to store the refresh token');
+    }
+    return resultSuccess({ familyId: created.value.id, refreshToken });
+  }
+
+  public async rotate(
+    refreshToken: string,
+  ): Promise<
+    Result<
+      { uid: string; familyId: string; refreshToken: string },
+      RefreshTokenRotationError | ErrorUnknown
+    >
+  > {
+    const tokenHash = hashToken(refreshToken);
+    const found = unwrapResult(await this.store.getByTokenHash(tokenHash));
+    if (!found.ok) {
+      return found.error.code === 'family-not-found'
+        ? resultError.withCode('invalid-refresh-token')
+        : resultError.unknown('Failed to read the refresh token');
+    }
+
+    let family = found.value;
+    if (family.currentTokenHash !== tokenHash) {
+      await this.revokeFamily(family.id);
+      return resultError.withCode('refresh-token-reused');
+    }
+
+    const now = this.clock.now();
+    if (this.isExpired(family, now)) {
+      await this.revokeFamily(family.id);
+      return resultError.withCode('refresh-token-expired');
+    }
+
+    const nextToken = randomBytes(32).toString('base64url');
+    const nextHash = hashToken(nextToken);
+    // Re-read when the family was written since it was read. If the token is
+    // no longer current by then, another refresh with it got there first: it
+    // was current when this refresh read it, so it is no copy, and the family
+    // is kept for the refresh that won.
+    for (let attempt = 1; ; attempt++) {
+      const updated = unwrapResult(
+        await this.store.update({
+          id: family.id,
+          expectedVersion: family.version,
+          changes: {
+            currentTokenHash: nextHash,
+            lastRefreshedAt: now,
+            tokenHashes: [...family.tokenHashes, nextHash].slice(
+              -maxTokenHashes,
+            ),
+          },
+        }),
+      );
+      if (updated.ok) {
+        break;
+      }
+      if (updated.error.code === 'family-not-found') {
+        return resultError.withCode('invalid-refresh-token');
+      }
+      if (
+        updated.error.code !== 'version-conflict' ||
+        attempt === maxRotationAttempts
+      ) {
+        return resultError.unknown('Failed to rotate the refresh token');
+      }
+
+      const reread = unwrapResult(await this.store.getById(family.id));
+      if (!reread.ok) {
+        return reread.error.code === 'family-not-found'
+          ? resultError.withCode('invalid-refresh-token')
+          : resultError.unknown('Failed to read the refresh token');
+      }
+      if (reread.value.currentTokenHash !== tokenHash) {
+        return resultError.withCode('refresh-token-conflict');
+      }
+      family = reread.value;
+    }
+    return resultSuccess({
+      uid: family.uid,
+      familyId: family.id,
+      refreshToken: nextToken,
+    });
+  }
+
+  public async hasFamily(
+    familyId: string,
+  ): Promise<Result<boolean, ErrorUnknown>> {
+    const found = unwrapResult(await this.store.getById(familyId));
+    if (!found.ok && found.error.code !== 'family-not-found') {
+      return resultError.unknown('Failed to read the session');
+    }
+    return resultSuccess(found.ok);
+  }
+
+  // Expired families are dropped on the way.
+  public async listSessions(
+    uid: string,
+  ): Promise<Result<AuthSession[], ErrorUnknown>> {
+    const families = unwrapResult(await this.store.listByUid(uid));
+    if (!families.ok) {
+      return resultError.unknown('Failed to list the sessions');
+    }
+
+    const now = this.clock.now();
+    const sessions: AuthSession[] = [];
+    for (const family of families.value) {
+      if (this.isExpired(family, now)) {
+        await this.revokeFamily(family.id);
+        continue;
+      }
+      sessions.push({
+        id: family.id,
+        uid: family.uid,
+        createdAt: family.createdAt,
+        lastRefreshedAt: family.lastRefreshedAt,
+        ...(family.client && { client: { ...family.client } }),
+      });
+    }
+    return resultSuccess(sessions);
+  }
+
+  public async revokeFamily(
+    familyId: string,
+  ): Promise<Result<void, ErrorWithCode<'family-not-found'> | ErrorUnknown>> {
+    return this.store.delete({ id: familyId });
+  }
+
+  public async revokeAll(
+    uid: string,
+    exceptFamilyId?: string,
+  ): Promise<Result<void, ErrorUnknown>> {
+    const families = unwrapResult(await this.store.listByUid(uid));
+    if (!families.ok) {
+      return resultError.unknown('Failed to list the sessions');
+    }
+    for (const family of families.value) {
+      if (family.id === exceptFamilyId) {
+        continue;
+      }
+      const revoked = unwrapResult(await this.revokeFamily(family.id));
+      // Already gone is as good as revoked.
+      if (!revoked.ok && revoked.error.code !== 'family-not-found') {
+        return resultError.unknown('Failed to revoke the sessions');
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  private isExpired(
+    family: AuthRefreshTokenFamilyRecord,
+    now: number,
+  ): boolean {
+    return (
+      now - family.createdAt >= this.absoluteLifetimeMs ||
+      now - family.lastRefreshedAt >= this.idleLifetimeMs
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { AuthUserRecord } from '../user-store/core/auth-user-store.interface';
+
+type RevocationState = Pick<AuthUserRecord, 'tokensValidAfter'>;
+
+// The cut-off sits just after now, so a token issued in the same millisecond
+// as the revocation is rejected too.
+export function tokensValidAfterNow(now: number): number {
+  return now + 1;
+}
+
+// New tokens are never dated before the cut-off, even when they are issued in
+// the same millisecond as the revocation.
+export function idTokenIssuedAt(user: RevocationState, now: number): number {
+  return Math.max(now, user.tokensValidAfter ?? 0);
+}
+
+export function isIdTokenRevoked(
+  issuedAt: number,
+  user: RevocationState,
+): boolean {
+  return issuedAt < (user.tokensValidAfter ?? 0);
+}
@@ -0,0 +1,249 @@
+import {
+  ErrorUnknown,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import type {
+  AuthClientMetadata,
+  TooManyAttemptsError,
+} from '../../auth-types/auth-types';
+import {
+  AttemptRecord,
+  IAttemptTracker,
+} from '../../attempt-tracker/core/attempt-tracker.interface';
+import { InMemoryAttemptTracker } from '../../attempt-tracker/providers/memory/attempt-tracker.memory';
+import { IClock, systemClock } from '../../clock/clock';
+import { resultErrorWithDetails, unwrapResult } from '../../utils/result.utils';
+
+export type AttemptLimits = {
+  // Failures allowed before the first delay.
+  freeFailures: number;
+  // Wait after the first failure past freeFailures, doubled for each further
+  // one up to maxDelayMs.
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // This many failures lock the key out for lockoutMs, after which its
+  // failures are forgotten.
+  lockoutAfter: number;
+  lockoutMs: number;
+};
+
+export type BruteForceProtection = {
+  // Defaults to an InMemoryAttemptTracker. Pass a shared one when several
+  // servers check passwords.
+  tracker?: IAttemptTracker;
+  // Failures on one account, from any client.
+  account?: Partial<AttemptLimits>;
+  // Failures from one IP address, on any account. Looser by default because
+  // many users may share an address.
+  client?: Partial<AttemptLimits>;
+  // Wrong TOTP and recovery codes of one user, across MFA challenges and the
+  // checks of routes that want a second factor.
+  secondFactor?: Partial<AttemptLimits>;
+};
+
+const defaultAccountLimits: AttemptLimits = {
+  freeFailures: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: 10,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+const defaultClientLimits: AttemptLimits = {
+  freeFailures: 20,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: 100,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+const defaultSecondFactorLimits: AttemptLimits = {
+  freeFailures: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: 10,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+type ThrottledKey = { key: string; limits: AttemptLimits };
+
+export function tooManyAttemptsError(
+  retryAfterMs: number,
+): Result<never, TooManyAttemptsError> {
+  return resultErrorWithDetails('too-many-attempts', { retryAfterMs });
+}
+
+// When the key may try again (ms since epoch), 0 if it need not wait.
+function allowedAt(record: AttemptRecord, limits: AttemptLimits): number {
+  if (record.failures >= limits.lockoutAfter) {
+    return record.lastFailedAt + limits.lockoutMs;
+  }
+  const delayed = record.failures - limits.freeFailures;
+  if (delayed <= 0) {
+    return 0;
+  }
+  return (
+    record.lastFailedAt +
+    Math.min(limits.baseDelayMs * 2 ** (delayed - 1), limits.maxDelayMs)
+  );
+}
+
+// Emails differing in case name the same account here.
+function accountKey(email: string): string {
+  return `account:${email.toLowerCase()}`;
+}
+
+function secondFactorKey(uid: string): string {
+  return `second-factor:${uid}`;
+}
+
+/**
+ * Slows down password guessing. Failed sign-ins are counted per account and
+ * per client IP address, each further failure past a few free ones makes the
+ * key wait longer, and enough of them lock it out for a while. Attempts made
+ * while a key has to wait are refused without checking the password, and do
+ * not count.
+ */
+export class AuthSignInThrottle {
+  private readonly tracker: IAttemptTracker;
+  private readonly accountLimits: AttemptLimits;
+  private readonly clientLimits: AttemptLimits;
+
+  // The clock should be the one the tracker dates failures with.
+  constructor(
+    options: BruteForceProtection = {},
+    private readonly clock: IClock = systemClock,
+  ) {
+    this.tracker = options.tracker ?? new InMemoryAttemptTracker({ clock });
+    this.accountLimits = { ...defaultAccountLimits, ...options.account };
+    this.clientLimits = { ...defaultClientLimits, ...options.client };
+  }
+
+  // How long the caller has to wait before trying this account, 0 if it may
+  // try now. The longest wait of the account and the client wins.
+  public async retryAfterMs(args: {
+    email: string;
+    client?: AuthClientMetadata;
+  }): Promise<Result<number, ErrorUnknown>> {
+    const now = this.clock.now();
+    let waitUntil = 0;
+    for (const { key, limits } of this.keys(args)) {
+      const record = unwrapResult(await this.tracker.get(key));
+      if (!record.ok) {
+        return resultError.unknown('Failed to read failed sign-ins');
+      }
+      if (record.value) {
+        waitUntil = Math.max(waitUntil, allowedAt(record.value, limits));
+      }
+    }
+    return resultSuccess(Math.max(0, waitUntil - now));
+  }
+
+  public async recordFailure(args: {
+    email: string;
+    client?: AuthClientMetadata;
+  }): Promise<Result<void, ErrorUnknown>> {
+    for (const { key, limits } of this.keys(args)) {
+      const recorded = unwrapResult(
+        await this.tracker.recordFailure({
+          key,
+          forgetAfterMs: limits.lockoutMs,
+        }),
+      );
+      if (!recorded.ok) {
+        return resultError.unknown('Failed to record a failed sign-in');
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  // A right password forgets the failures of both the account and the client.
+  public async recordSuccess(args: {
+    email: string;
+    client?: AuthClientMetadata;
+  }): Promise<Result<void, ErrorUnknown>> {
+    for (const { key } of this.keys(args)) {
+      const reset = unwrapResult(await this.tracker.reset(key));
+      if (!reset.ok) {
+        return resultError.unknown('Failed to reset failed sign-ins');
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  // Lets the account try again at once. Failures of its clients remain.
+  public async unlock(email: string): Promise<Result<void, ErrorUnknown>> {
+    const reset = unwrapResult(await this.tracker.reset(accountKey(email)));
+    return reset.ok
+      ? resultSuccessVoid()
+      : resultError.unknown('Failed to unlock sign-in');
+  }
+
+  private keys(args: {
+    email: string;
+    client?: AuthClientMetadata;
+  }): ThrottledKey[] {
+    const keys = [{ key: accountKey(args.email), limits: this.accountLimits }];
+    const ipAddress = args.client?.ipAddress;
+    if (ipAddress !== undefined) {
+      keys.push({ key: `client:${ipAddress}`, limits: this.clientLimits });
+    }
+    return keys;
+  }
+}
+
+/**
+ * Slows down guessing of TOTP and recovery codes the same way
+ * AuthSignInThrottle slows down password guessing, with failures counted per
+ * user. A challenge only allows a few wrong codes, but each password sign-in
+ * starts a new one; counting per user keeps the guesses from adding up.
+ */
+export class AuthSecondFactorThrottle {
+  private readonly tracker: IAttemptTracker;
+  private readonly limits: AttemptLimits;
+
+  // The clock should be the one the tracker dates failures with.
+  constructor(
+    options: BruteForceProtection = {},
+    private readonly clock: IClock = systemClock,
+  ) {
+    this.tracker = options.tracker ?? new InMemoryAttemptTracker({ clock });
+    this.limits = { ...defaultSecondFactorLimits, ...options.secondFactor };
+  }
+
+  // How long the user has to wait before trying another code, 0 if they may
+  // try now.
+  public async retryAfterMs(
+    uid: string,
+  ): Promise<Result<number, ErrorUnknown>> {
+    const record = unwrapResult(await this.tracker.get(secondFactorKey(uid)));
+    if (!record.ok) {
+      return resultError.unknown('Failed to read failed second factors');
+    }
+    const waitUntil = record.value ? allowedAt(record.value, this.limits) : 0;
+    return resultSuccess(Math.max(0, waitUntil - this.clock.now()));
+  }
+
+  public async recordFailure(uid: string): Promise<Result<void, ErrorUnknown>> {
+    const recorded = unwrapResult(
+      await this.tracker.recordFailure({
+        key: secondFactorKey(uid),
+        forgetAfterMs: this.limits.lockoutMs,
+      }),
+    );
+    return recorded.ok
+      ? resultSuccessVoid()
+      : resultError.unknown('Failed to record a failed second factor');
+  }
+
+  // An accepted code forgets the failures, and so does unlocking the user.
+  public async reset(uid: string): Promise<Result<void, ErrorUnknown>> {
+    const reset = unwrapResult(await this.tracker.reset(secondFactorKey(uid)));
+    return reset.ok
+      ? resultSuccessVoid()
+      : resultError.unknown('Failed to reset failed second factors');
+  }
+}
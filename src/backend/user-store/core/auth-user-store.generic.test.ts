@@ -0,0 +1,426 @@
+import { Result } from '@j2blasco/ts-result';
+import { AuthUserRecord, IAuthUserStore } from './auth-user-store.interface';
+
+/**
+ * Helper functions for testing Result types
+ */
+function isResultSuccess<T, E>(result: Result<T, E>): boolean {
+  try {
+    result.unwrapOrThrow();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getResultError<T, E>(result: Result<T, E>): E {
+  try {
+    result.unwrapOrThrow();
+    throw new Error('Result is not an error');
+  } catch (error) {
+    return error as E;
+  }
+}
+
+let userCounter = 0;
+
+function newUser(): Omit<AuthUserRecord, 'version'> & { email: string } {
+  userCounter += 1;
+  return {
+    uid: `store-test-uid-${Date.now()}-${userCounter}`,
+    email: `store-test-${Date.now()}-${userCounter}@example.com`,
+    passwordHash: '$scrypt$ln=15,r=8,p=1$c2FsdA$aGFzaA',
+  };
+}
+
+/**
+ * Comprehensive test suite for IAuthUserStore implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testAuthUserStore(storeFactory: () => IAuthUserStore): void {
+  describe('IAuthUserStore implementation tests', () => {
+    let store: IAuthUserStore;
+
+    beforeEach(() => {
+      store = storeFactory();
+    });
+
+    describe('create', () => {
+      it('should create a user with version 1', async () => {
+        const user = newUser();
+
+        const result = await store.create(user);
+
+        expect(result.unwrapOrThrow()).toEqual({ ...user, version: 1 });
+      });
+
+      it('should return error for a duplicate uid', async () => {
+        const user = newUser();
+        await store.create(user);
+
+        const result = await store.create({ ...newUser(), uid: user.uid });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('uid-already-exists');
+      });
+
+      it('should return error for a duplicate email', async () => {
+        const user = newUser();
+        await store.create(user);
+
+        const result = await store.create({ ...newUser(), email: user.email });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('email-already-exists');
+      });
+
+      it('should create several users without an email', async () => {
+        const { uid: firstUid } = newUser();
+        const { uid: secondUid } = newUser();
+
+        const first = await store.create({ uid: firstUid, anonymousSince: 1 });
+        const second = await store.create({
+          uid: secondUid,
+          anonymousSince: 2,
+        });
+
+        expect(first.unwrapOrThrow().email).toBeUndefined();
+        expect(second.unwrapOrThrow().uid).toBe(secondUid);
+      });
+    });
+
+    describe('getByUid and getByEmail', () => {
+      let user: ReturnType<typeof newUser>;
+
+      beforeEach(async () => {
+        user = newUser();
+        await store.create(user);
+      });
+
+      it('should read a user by uid', async () => {
+        const result = await store.getByUid(user.uid);
+
+        expect(result.unwrapOrThrow()).toEqual({ ...user, version: 1 });
+      });
+
+      it('should read a user by email', async () => {
+        const result = await store.getByEmail(user.email);
+
+        expect(result.unwrapOrThrow().uid).toBe(user.uid);
+      });
+
+      it('should return error for an unknown uid', async () => {
+        const result = await store.getByUid('non-existent-uid');
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+
+      it('should return error for an unknown email', async () => {
+        const result = await store.getByEmail('nonexistent@example.com');
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+
+      it('should not let callers mutate stored records', async () => {
+        const read = (await store.getByUid(user.uid)).unwrapOrThrow();
+        read.email = 'mutated@example.com';
+
+        const reread = (await store.getByUid(user.uid)).unwrapOrThrow();
+        expect(reread.email).toBe(user.email);
+      });
+    });
+
+    describe('update', () => {
+      let user: ReturnType<typeof newUser>;
+
+      beforeEach(async () => {
+        user = newUser();
+        await store.create(user);
+      });
+
+      it('should apply changes and increment the version', async () => {
+        const result = await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { passwordHash: 'new-hash' },
+        });
+
+        expect(result.unwrapOrThrow()).toEqual({
+          ...user,
+          passwordHash: 'new-hash',
+          version: 2,
+        });
+        const reread = (await store.getByUid(user.uid)).unwrapOrThrow();
+        expect(reread.passwordHash).toBe('new-hash');
+      });
+
+      it('should return error for a stale version', async () => {
+        await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { passwordHash: 'first-writer' },
+        });
+
+        const result = await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { passwordHash: 'second-writer' },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('version-conflict');
+        const reread = (await store.getByUid(user.uid)).unwrapOrThrow();
+        expect(reread.passwordHash).toBe('first-writer');
+      });
+
+      it('should return error when the new email is taken', async () => {
+        const other = newUser();
+        await store.create(other);
+
+        const result = await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { email: other.email },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('email-already-exists');
+      });
+
+      it('should find the user by the new email after a change', async () => {
+        const newEmail = newUser().email;
+        await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { email: newEmail },
+        });
+
+        const byNewEmail = await store.getByEmail(newEmail);
+        const byOldEmail = await store.getByEmail(user.email);
+
+        expect(byNewEmail.unwrapOrThrow().uid).toBe(user.uid);
+        expect(isResultSuccess(byOldEmail)).toBe(false);
+      });
+
+      it('should return error for an unknown uid', async () => {
+        const result = await store.update({
+          uid: 'non-existent-uid',
+          expectedVersion: 1,
+          changes: { passwordHash: 'new-hash' },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+    });
+
+    describe('identities', () => {
+      function withIdentity(subject: string) {
+        return {
+          ...newUser(),
+          identities: [{ providerId: 'test-idp', subject, linkedAt: 1 }],
+        };
+      }
+
+      it('should read a user by a linked identity', async () => {
+        const user = withIdentity(`subject-${Date.now()}`);
+        await store.create(user);
+
+        const result = await store.getByIdentity({
+          providerId: 'test-idp',
+          subject: user.identities[0].subject,
+        });
+
+        expect(result.unwrapOrThrow().uid).toBe(user.uid);
+      });
+
+      it('should return error for an unknown identity', async () => {
+        const result = await store.getByIdentity({
+          providerId: 'test-idp',
+          subject: 'non-existent-subject',
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+
+      it('should return error for an identity another user created', async () => {
+        const user = withIdentity(`subject-${Date.now()}`);
+        await store.create(user);
+
+        const result = await store.create(
+          withIdentity(user.identities[0].subject),
+        );
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('identity-already-exists');
+      });
+
+      it('should return error when linking an identity another user holds', async () => {
+        const owner = withIdentity(`subject-${Date.now()}`);
+        const other = newUser();
+        await store.create(owner);
+        await store.create(other);
+
+        const result = await store.update({
+          uid: other.uid,
+          expectedVersion: 1,
+          changes: { identities: owner.identities },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('identity-already-exists');
+      });
+    });
+
+    describe('phone numbers', () => {
+      let phoneCounter = 0;
+
+      function withPhoneNumber() {
+        phoneCounter += 1;
+        return {
+          ...newUser(),
+          phoneNumber: `+1555${Date.now() % 1000000}${phoneCounter}`,
+        };
+      }
+
+      it('should read a user by phone number', async () => {
+        const user = withPhoneNumber();
+        await store.create(user);
+
+        const result = await store.getByPhoneNumber(user.phoneNumber);
+
+        expect(result.unwrapOrThrow().uid).toBe(user.uid);
+      });
+
+      it('should return error for an unknown phone number', async () => {
+        const result = await store.getByPhoneNumber('+15550000000');
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+
+      it('should return error for a phone number another user created', async () => {
+        const user = withPhoneNumber();
+        await store.create(user);
+
+        const result = await store.create({
+          ...newUser(),
+          phoneNumber: user.phoneNumber,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('phone-number-already-exists');
+      });
+
+      it('should return error when linking a phone number another user holds', async () => {
+        const owner = withPhoneNumber();
+        const other = newUser();
+        await store.create(owner);
+        await store.create(other);
+
+        const result = await store.update({
+          uid: other.uid,
+          expectedVersion: 1,
+          changes: { phoneNumber: owner.phoneNumber },
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('phone-number-already-exists');
+      });
+    });
+
+    describe('list', () => {
+      it('should list every stored user', async () => {
+        const first = newUser();
+        const second = newUser();
+        await store.create(first);
+        await store.create(second);
+
+        const users = (await store.list()).unwrapOrThrow();
+
+        expect(users).toEqual(
+          expect.arrayContaining([
+            { ...first, version: 1 },
+            { ...second, version: 1 },
+          ]),
+        );
+      });
+
+      it('should not list deleted users', async () => {
+        const user = newUser();
+        await store.create(user);
+        await store.delete({ uid: user.uid });
+
+        const users = (await store.list()).unwrapOrThrow();
+
+        expect(users.some(({ uid }) => uid === user.uid)).toBe(false);
+      });
+    });
+
+    describe('delete', () => {
+      let user: ReturnType<typeof newUser>;
+
+      beforeEach(async () => {
+        user = newUser();
+        await store.create(user);
+      });
+
+      it('should delete a user', async () => {
+        const result = await store.delete({ uid: user.uid });
+
+        expect(isResultSuccess(result)).toBe(true);
+        const reread = await store.getByUid(user.uid);
+        expect(isResultSuccess(reread)).toBe(false);
+      });
+
+      it('should free the email for reuse', async () => {
+        await store.delete({ uid: user.uid });
+
+        const result = await store.create({ ...newUser(), email: user.email });
+
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      it('should return error for a stale version', async () => {
+        await store.update({
+          uid: user.uid,
+          expectedVersion: 1,
+          changes: { passwordHash: 'new-hash' },
+        });
+
+        const result = await store.delete({
+          uid: user.uid,
+          expectedVersion: 1,
+        });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('version-conflict');
+      });
+
+      it('should return error for an unknown uid', async () => {
+        const result = await store.delete({ uid: 'non-existent-uid' });
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('user-not-found');
+      });
+    });
+  });
+}
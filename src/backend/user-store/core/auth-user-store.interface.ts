@@ -0,0 +1,112 @@
+import { ErrorUnknown, ErrorWithCode, Result } from '@j2blasco/ts-result';
+import type { AuthCustomClaims } from '../../../auth-types/auth-types';
+
+// An account at an OpenID Connect provider that signs in as the user.
+export type AuthUserIdentity = {
+  providerId: string;
+  // The provider's sub claim.
+  subject: string;
+  // As the provider reported it when the identity was linked.
+  email?: string;
+  linkedAt: number;
+};
+
+export type AuthUserRecord = {
+  uid: string;
+  // Both missing for anonymous users and users who only sign in with a
+  // provider.
+  email?: string;
+  passwordHash?: string;
+  // Missing means not verified. Reset whenever the email changes.
+  emailVerified?: boolean;
+  // E.164, e.g. +14155550123. Only set once a code sent to it was entered, so
+  // it needs no verified flag of its own.
+  phoneNumber?: string;
+  // When signInAnonymously created the user (ms since epoch). Removed once an
+  // email and password are linked.
+  anonymousSince?: number;
+  identities?: AuthUserIdentity[];
+  // TOTP authenticator. Sign-ins ask for a code once confirmedAt is set.
+  // lastUsedCounter is the time step of the last accepted code, so a code
+  // cannot be used twice.
+  totp?: { secret: string; confirmedAt?: number; lastUsedCounter?: number };
+  // SHA-256 of the recovery codes not used yet.
+  recoveryCodeHashes?: string[];
+  // Copied into every idToken issued for the user.
+  customClaims?: AuthCustomClaims;
+  // idTokens issued before this time (ms since epoch) are revoked.
+  tokensValidAfter?: number;
+  // Incremented on every write. Updates and deletes may pass the version they
+  // read so that concurrent writers cannot silently overwrite each other.
+  version: number;
+};
+
+export type AuthUserRecordChanges = Partial<
+  Omit<AuthUserRecord, 'uid' | 'version'>
+>;
+
+// Persistence for backend users. Emails are unique across the store, and so
+// are phone numbers and each provider identity.
+export interface IAuthUserStore {
+  create(
+    user: Omit<AuthUserRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'uid-already-exists'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  >;
+  getByUid(
+    uid: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  >;
+  getByEmail(
+    email: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  >;
+  getByPhoneNumber(
+    phoneNumber: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  >;
+  getByIdentity(args: {
+    providerId: string;
+    subject: string;
+  }): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  >;
+  list(): Promise<Result<AuthUserRecord[], ErrorUnknown>>;
+  update(args: {
+    uid: string;
+    expectedVersion: number;
+    changes: AuthUserRecordChanges;
+  }): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  >;
+  // Without an expectedVersion the user is deleted unconditionally.
+  delete(args: {
+    uid: string;
+    expectedVersion?: number;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorUnknown
+    >
+  >;
+}
@@ -0,0 +1,113 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { testAuthUserStore } from '../../core/auth-user-store.generic.test';
+import { AuthUserStoreFile } from './auth-user-store.file';
+
+describe('AuthUserStoreFile', () => {
+  let directory: string;
+  let fileCounter = 0;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'auth-user-store-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const nextFilePath = () => {
+    fileCounter += 1;
+    return join(directory, `users-${fileCounter}.json`);
+  };
+
+  testAuthUserStore(() => new AuthUserStoreFile({ filePath: nextFilePath() }));
+
+  describe('AuthUserStoreFile specific features', () => {
+    const user = {
+      uid: 'file-store-uid',
+      email: 'file-store@example.com',
+      passwordHash: 'hash',
+    };
+
+    it('should persist users across instances', async () => {
+      const filePath = nextFilePath();
+      await new AuthUserStoreFile({ filePath }).create(user);
+
+      const result = await new AuthUserStoreFile({ filePath }).getByUid(
+        user.uid,
+      );
+
+      expect(result.unwrapOrThrow()).toEqual({ ...user, version: 1 });
+    });
+
+    it('should write valid JSON and leave no temporary files behind', async () => {
+      const filePath = nextFilePath();
+      const store = new AuthUserStoreFile({ filePath });
+
+      await store.create(user);
+      await store.update({
+        uid: user.uid,
+        expectedVersion: 1,
+        changes: { passwordHash: 'new-hash' },
+      });
+
+      const contents = JSON.parse(readFileSync(filePath, 'utf8'));
+      expect(contents.users).toEqual([
+        { ...user, passwordHash: 'new-hash', version: 2 },
+      ]);
+      expect(readdirSync(directory).some((name) => name.endsWith('.tmp'))).toBe(
+        false,
+      );
+    });
+
+    it('should let only one of two concurrent writers win', async () => {
+      const filePath = nextFilePath();
+      await new AuthUserStoreFile({ filePath }).create(user);
+      const writerA = new AuthUserStoreFile({ filePath });
+      const writerB = new AuthUserStoreFile({ filePath });
+
+      await writerA.update({
+        uid: user.uid,
+        expectedVersion: 1,
+        changes: { passwordHash: 'writer-a' },
+      });
+      const result = await writerB.update({
+        uid: user.uid,
+        expectedVersion: 1,
+        changes: { passwordHash: 'writer-b' },
+      });
+
+      expect(() => result.unwrapOrThrow()).toThrow();
+      const reread = (await writerB.getByUid(user.uid)).unwrapOrThrow();
+      expect(reread.passwordHash).toBe('writer-a');
+    });
+
+    it('should keep the writes of instances sharing the file at once', async () => {
+      const filePath = nextFilePath();
+      const writers = [1, 2, 3, 4].map(
+        () => new AuthUserStoreFile({ filePath }),
+      );
+
+      await Promise.all(
+        writers.map((writer, index) =>
+          writer.create({
+            uid: `shared-${index}`,
+            email: `shared-${index}@example.com`,
+          }),
+        ),
+      );
+
+      const users = (await writers[0].list()).unwrapOrThrow();
+      expect(users.map(({ uid }) => uid).sort()).toEqual([
+        'shared-0',
+        'shared-1',
+        'shared-2',
+        'shared-3',
+      ]);
+      expect(
+        readdirSync(directory).some((name) => name.endsWith('.lock')),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { randomBytes } from 'crypto';
+import { readFile, rename, unlink, writeFile } from 'fs/promises';
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+} from '@j2blasco/ts-result';
+import {
+  AuthUserRecord,
+  AuthUserRecordChanges,
+  IAuthUserStore,
+} from '../../core/auth-user-store.interface';
+import { AuthUserStoreMemory } from '../memory/auth-user-store.memory';
+import { unwrapResult } from '../../../../utils/result.utils';
+import { withFileLock } from '../../../../file-lock/file-lock';
+
+type AuthUserStoreFileContents = {
+  users: AuthUserRecord[];
+};
+
+/**
+ * Keeps users in a single JSON file. The file is re-read before every
+ * operation and writes hold a lock file from read to rename, so several
+ * processes can share it. Every write goes to a temporary file that is
+ * renamed over the original so readers never see a partially written file.
+ */
+export class AuthUserStoreFile implements IAuthUserStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: { filePath: string }) {}
+
+  public create(
+    user: Omit<AuthUserRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'uid-already-exists'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    return this.write((store) => store.create(user));
+  }
+
+  public getByUid(
+    uid: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    return this.read((store) => store.getByUid(uid));
+  }
+
+  public getByEmail(
+    email: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    return this.read((store) => store.getByEmail(email));
+  }
+
+  public getByPhoneNumber(
+    phoneNumber: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    return this.read((store) => store.getByPhoneNumber(phoneNumber));
+  }
+
+  public getByIdentity(args: {
+    providerId: string;
+    subject: string;
+  }): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    return this.read((store) => store.getByIdentity(args));
+  }
+
+  public list(): Promise<Result<AuthUserRecord[], ErrorUnknown>> {
+    return this.read((store) => store.list());
+  }
+
+  public update(args: {
+    uid: string;
+    expectedVersion: number;
+    changes: AuthUserRecordChanges;
+  }): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    return this.write((store) => store.update(args));
+  }
+
+  public delete(args: {
+    uid: string;
+    expectedVersion?: number;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorUnknown
+    >
+  > {
+    return this.write((store) => store.delete(args));
+  }
+
+  private read<T, E>(
+    operation: (store: AuthUserStoreMemory) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    return this.enqueue(async () => operation(await this.load()));
+  }
+
+  private write<T, E>(
+    operation: (store: AuthUserStoreMemory) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    return this.enqueue(() =>
+      withFileLock(this.options.filePath, async () => {
+        const store = await this.load();
+        const result = await operation(store);
+        if (unwrapResult(result).ok) {
+          await this.save(store);
+        }
+        return result;
+      }),
+    );
+  }
+
+  // Operations from this process run one at a time so a read-modify-write is
+  // never interleaved with another one.
+  private enqueue<T, E>(
+    operation: () => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | ErrorUnknown>> {
+    const run = this.pending
+      .then(operation)
+      .catch((error: unknown) =>
+        resultError.unknown(
+          `User store file operation failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    this.pending = run;
+    return run;
+  }
+
+  private async load(): Promise<AuthUserStoreMemory> {
+    let raw: string;
+    try {
+      raw = await readFile(this.options.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new AuthUserStoreMemory();
+      }
+      throw error;
+    }
+    const contents = JSON.parse(raw) as AuthUserStoreFileContents;
+    return new AuthUserStoreMemory(contents.users);
+  }
+
+  private async save(store: AuthUserStoreMemory): Promise<void> {
+    const contents: AuthUserStoreFileContents = { users: store.exportUsers() };
+    const temporaryPath = `${this.options.filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await writeFile(temporaryPath, JSON.stringify(contents, null, 2), 'utf8');
+      await rename(temporaryPath, this.options.filePath);
+    } catch (error) {
+      await unlink(temporaryPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,6 @@
+import { testAuthUserStore } from '../../core/auth-user-store.generic.test';
+import { AuthUserStoreMemory } from './auth-user-store.memory';
+
+describe('AuthUserStoreMemory', () => {
+  testAuthUserStore(() => new AuthUserStoreMemory());
+});
@@ -0,0 +1,229 @@
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import {
+  AuthUserRecord,
+  AuthUserRecordChanges,
+  IAuthUserStore,
+} from '../../core/auth-user-store.interface';
+
+export class AuthUserStoreMemory implements IAuthUserStore {
+  private users = new Map<string, AuthUserRecord>();
+
+  constructor(initialUsers: ReadonlyArray<AuthUserRecord> = []) {
+    for (const user of initialUsers) {
+      this.users.set(user.uid, structuredClone(user));
+    }
+  }
+
+  public exportUsers(): AuthUserRecord[] {
+    return Array.from(this.users.values(), (user) => structuredClone(user));
+  }
+
+  public async create(
+    user: Omit<AuthUserRecord, 'version'>,
+  ): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'uid-already-exists'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    if (this.users.has(user.uid)) {
+      return resultError.withCode('uid-already-exists');
+    }
+    if (user.email !== undefined && this.findByEmail(user.email)) {
+      return resultError.withCode('email-already-exists');
+    }
+    if (
+      user.phoneNumber !== undefined &&
+      this.findByPhoneNumber(user.phoneNumber)
+    ) {
+      return resultError.withCode('phone-number-already-exists');
+    }
+    if (user.identities?.some((identity) => this.findByIdentity(identity))) {
+      return resultError.withCode('identity-already-exists');
+    }
+
+    const record: AuthUserRecord = { ...structuredClone(user), version: 1 };
+    this.users.set(record.uid, record);
+    return resultSuccess(structuredClone(record));
+  }
+
+  public async getByUid(
+    uid: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    const user = this.users.get(uid);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    return resultSuccess(structuredClone(user));
+  }
+
+  public async getByEmail(
+    email: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    const user = this.findByEmail(email);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    return resultSuccess(structuredClone(user));
+  }
+
+  public async getByPhoneNumber(
+    phoneNumber: string,
+  ): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    const user = this.findByPhoneNumber(phoneNumber);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    return resultSuccess(structuredClone(user));
+  }
+
+  public async getByIdentity(args: {
+    providerId: string;
+    subject: string;
+  }): Promise<
+    Result<AuthUserRecord, ErrorWithCode<'user-not-found'> | ErrorUnknown>
+  > {
+    const user = this.findByIdentity(args);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    return resultSuccess(structuredClone(user));
+  }
+
+  public async list(): Promise<Result<AuthUserRecord[], ErrorUnknown>> {
+    return resultSuccess(this.exportUsers());
+  }
+
+  public async update(args: {
+    uid: string;
+    expectedVersion: number;
+    changes: AuthUserRecordChanges;
+  }): Promise<
+    Result<
+      AuthUserRecord,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorWithCode<'email-already-exists'>
+      | ErrorWithCode<'phone-number-already-exists'>
+      | ErrorWithCode<'identity-already-exists'>
+      | ErrorUnknown
+    >
+  > {
+    const user = this.users.get(args.uid);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    if (user.version !== args.expectedVersion) {
+      return resultError.withCode('version-conflict');
+    }
+    if (args.changes.email !== undefined) {
+      const owner = this.findByEmail(args.changes.email);
+      if (owner && owner.uid !== args.uid) {
+        return resultError.withCode('email-already-exists');
+      }
+    }
+    if (args.changes.phoneNumber !== undefined) {
+      const owner = this.findByPhoneNumber(args.changes.phoneNumber);
+      if (owner && owner.uid !== args.uid) {
+        return resultError.withCode('phone-number-already-exists');
+      }
+    }
+    const identities = args.changes.identities ?? [];
+    if (
+      identities.some((identity) => {
+        const owner = this.findByIdentity(identity);
+        return owner && owner.uid !== args.uid;
+      })
+    ) {
+      return resultError.withCode('identity-already-exists');
+    }
+
+    const updated: AuthUserRecord = {
+      ...user,
+      ...structuredClone(args.changes),
+      uid: user.uid,
+      version: user.version + 1,
+    };
+    this.users.set(updated.uid, updated);
+    return resultSuccess(structuredClone(updated));
+  }
+
+  public async delete(args: {
+    uid: string;
+    expectedVersion?: number;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'version-conflict'>
+      | ErrorUnknown
+    >
+  > {
+    const user = this.users.get(args.uid);
+    if (!user) {
+      return resultError.withCode('user-not-found');
+    }
+    if (
+      args.expectedVersion !== undefined &&
+      user.version !== args.expectedVersion
+    ) {
+      return resultError.withCode('version-conflict');
+    }
+
+    this.users.delete(args.uid);
+    return resultSuccessVoid();
+  }
+
+  private findByEmail(email: string): AuthUserRecord | undefined {
+    for (const user of this.users.values()) {
+      if (user.email === email) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  private findByPhoneNumber(phoneNumber: string): AuthUserRecord | undefined {
+    for (const user of this.users.values()) {
+      if (user.phoneNumber === phoneNumber) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  private findByIdentity(identity: {
+    providerId: string;
+    subject: string;
+  }): AuthUserRecord | undefined {
+    for (const user of this.users.values()) {
+      if (
+        user.identities?.some(
+          (linked) =>
+            linked.providerId === identity.providerId &&
+            linked.subject === identity.subject,
+        )
+      ) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+}
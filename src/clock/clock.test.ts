@@ -0,0 +1,99 @@
+import { ManualClock, systemClock } from './clock';
+
+describe('systemClock', () => {
+  it('should tell the current time', () => {
+    const before = Date.now();
+
+    const now = systemClock.now();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should call a timer once its delay has passed', async () => {
+    const called = new Promise<number>((resolve) =>
+      systemClock.setTimer(() => resolve(Date.now()), 20),
+    );
+    const before = Date.now();
+
+    expect(await called).toBeGreaterThanOrEqual(before + 15);
+  });
+
+  it('should not call a cancelled timer', async () => {
+    let called = false;
+    const cancel = systemClock.setTimer(() => {
+      called = true;
+    }, 10);
+
+    cancel();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(called).toBe(false);
+  });
+});
+
+describe('ManualClock', () => {
+  it('should stand still until advanced', async () => {
+    const clock = new ManualClock(1000);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(clock.now()).toBe(1000);
+
+    clock.advance(500);
+
+    expect(clock.now()).toBe(1500);
+  });
+
+  it('should be set to any time', () => {
+    const clock = new ManualClock();
+
+    clock.set(0);
+
+    expect(clock.now()).toBe(0);
+  });
+
+  it('should run the timers that fall due, earliest first', () => {
+    const clock = new ManualClock(0);
+    const calls: string[] = [];
+    clock.setTimer(() => calls.push('later'), 200);
+    clock.setTimer(() => calls.push('sooner'), 100);
+    clock.setTimer(() => calls.push('too late'), 1000);
+
+    clock.advance(500);
+
+    expect(calls).toEqual(['sooner', 'later']);
+  });
+
+  it('should run a timer only once', () => {
+    const clock = new ManualClock(0);
+    let calls = 0;
+    clock.setTimer(() => calls++, 100);
+
+    clock.advance(100);
+    clock.advance(100);
+
+    expect(calls).toBe(1);
+  });
+
+  it('should not run a cancelled timer', () => {
+    const clock = new ManualClock(0);
+    let called = false;
+    const cancel = clock.setTimer(() => {
+      called = true;
+    }, 100);
+
+    cancel();
+    clock.advance(100);
+
+    expect(called).toBe(false);
+  });
+
+  it('should start at the current time by default', () => {
+    const before = Date.now();
+
+    const clock = new ManualClock();
+
+    expect(clock.now()).toBeGreaterThanOrEqual(before);
+    expect(clock.now()).toBeLessThanOrEqual(Date.now());
+  });
+});
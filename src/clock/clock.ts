@@ -0,0 +1,84 @@
+// Where providers read the current time, so tests can control token expiry,
+// rate limits and lockouts instead of waiting for them.
+export interface IClock {
+  // ms since epoch, like Date.now().
+  now(): number;
+  // Calls callback once delayMs have passed on this clock. Returns a function
+  // that cancels the call.
+  setTimer(callback: () => void, delayMs: number): () => void;
+}
+
+// setTimeout fires at once for longer delays.
+const maxTimeoutMs = 2 ** 31 - 1;
+
+function setSystemTimer(callback: () => void, delayMs: number): () => void {
+  let cancelNext: (() => void) | undefined;
+  const timeout = setTimeout(
+    () => {
+      if (delayMs > maxTimeoutMs) {
+        cancelNext = setSystemTimer(callback, delayMs - maxTimeoutMs);
+      } else {
+        callback();
+      }
+    },
+    Math.min(delayMs, maxTimeoutMs),
+  );
+  // A pending timer should not keep a Node process alive on its own.
+  (timeout as { unref?: () => void }).unref?.();
+  return () => {
+    clearTimeout(timeout);
+    cancelNext?.();
+  };
+}
+
+export const systemClock: IClock = {
+  now: () => Date.now(),
+  setTimer: setSystemTimer,
+};
+
+type ManualTimer = { dueAt: number; callback: () => void };
+
+/**
+ * A clock that only moves when a test moves it. Starts at the current time
+ * unless given another, so tokens it dates still look recent. Moving it runs
+ * the timers that fall due, earliest first.
+ */
+export class ManualClock implements IClock {
+  private currentMs: number;
+  private timers: ManualTimer[] = [];
+
+  constructor(startMs: number = Date.now()) {
+    this.currentMs = startMs;
+  }
+
+  public now(): number {
+    return this.currentMs;
+  }
+
+  public setTimer(callback: () => void, delayMs: number): () => void {
+    const timer = { dueAt: this.currentMs + delayMs, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((pending) => pending !== timer);
+    };
+  }
+
+  public advance(ms: number): void {
+    this.set(this.currentMs + ms);
+  }
+
+  // Timers set by the ones that run are run too when already due.
+  public set(ms: number): void {
+    this.currentMs = ms;
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.dueAt <= ms)
+        .sort((a, b) => a.dueAt - b.dueAt)[0];
+      if (!due) {
+        return;
+      }
+      this.timers = this.timers.filter((timer) => timer !== due);
+      due.callback();
+    }
+  }
+}
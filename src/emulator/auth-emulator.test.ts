@@ -0,0 +1,377 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { firstValueFrom } from 'rxjs';
+import {
+  AuthEmulator,
+  authEmulatorAdminKeyHeader,
+  authEmulatorAdminRoutes,
+} from './auth-emulator';
+import { AuthFrontendHttp } from '../frontend/providers/http/auth-frontend.http';
+import { testAuthFrontend } from '../frontend/core/auth-frontend.generic.test';
+import { generateTotpCode } from '../mfa/totp';
+import { AuthBackendTesting } from '../backend/providers/testing/auth-backend.testing';
+import { unwrapResult } from '../utils/result.utils';
+
+const adminKey = 'test-admin-key';
+
+async function post(
+  url: string,
+  body: unknown,
+  // null sends no key, since undefined would fall back to the default.
+  key: string | null = adminKey,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (key) {
+    headers[authEmulatorAdminKeyHeader] = key;
+  }
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  return {
+    status: response.status,
+    body: (await response.json()) as Record<string, unknown>,
+  };
+}
+
+describe('AuthEmulator', () => {
+  const emulator = new AuthEmulator({ adminKey });
+  // Set once the emulator runs. The generic suite builds a frontend before
+  // that, only to tell its capabilities.
+  let url = '';
+
+  beforeAll(async () => {
+    ({ url } = await emulator.start({ port: 0 }));
+  });
+
+  afterAll(async () => {
+    await emulator.stop();
+  });
+
+  testAuthFrontend(() => new AuthFrontendHttp({ baseUrl: url }));
+
+  describe('admin routes', () => {
+    beforeEach(async () => {
+      await post(`${url}${authEmulatorAdminRoutes.reset}`, {});
+    });
+
+    it('should refuse requests without the admin key', async () => {
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.listUsers}`,
+        {},
+        null,
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('forbidden');
+    });
+
+    it('should refuse requests with a wrong admin key', async () => {
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.listUsers}`,
+        {},
+        'wrong-key',
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should seed users that can sign in', async () => {
+      const seeded = await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'seeded@example.com', password: 'seededPassword' }],
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+
+      const signIn = await auth.signInWithEmailAndPassword({
+        email: 'seeded@example.com',
+        password: 'seededPassword',
+        persistent: true,
+      });
+
+      expect(seeded.status).toBe(200);
+      expect(() => signIn.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should list users without their password hashes', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [
+          { email: 'first@example.com', password: 'password1' },
+          { email: 'second@example.com', password: 'password2' },
+        ],
+      });
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.listUsers}`,
+        {},
+      );
+
+      const users = response.body.users as Array<Record<string, unknown>>;
+      expect(users.map(({ email }) => email).sort()).toEqual([
+        'first@example.com',
+        'second@example.com',
+      ]);
+      expect(users.every((user) => !('passwordHash' in user))).toBe(true);
+    });
+
+    it('should remove every user on reset', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'reset@example.com', password: 'password1' }],
+      });
+
+      await post(`${url}${authEmulatorAdminRoutes.reset}`, {});
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.listUsers}`,
+        {},
+      );
+
+      expect(response.body.users).toEqual([]);
+    });
+
+    it('should reject a malformed seed body', async () => {
+      const response = await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'no-password@example.com' }],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('invalid-request');
+    });
+
+    it('should expose pending password reset tokens by email', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'forgot@example.com', password: 'oldPassword' }],
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      await auth.triggerResetPasswordFlow('forgot@example.com');
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.passwordResetTokens}`,
+        { email: 'forgot@example.com' },
+      );
+      const [passwordToken] = response.body.tokens as string[];
+      const reset = await auth.requestChangePassword({
+        passwordToken,
+        newPassword: 'newPassword',
+      });
+
+      expect(() => reset.unwrapOrThrow()).not.toThrow();
+      const afterUse = await post(
+        `${url}${authEmulatorAdminRoutes.passwordResetTokens}`,
+        { email: 'forgot@example.com' },
+      );
+      expect(afterUse.body.tokens).toEqual([]);
+    });
+
+    it('should expose pending email verification tokens by email', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'verify@example.com', password: 'password' }],
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      await auth.signInWithEmailAndPassword({
+        email: 'verify@example.com',
+        password: 'password',
+        persistent: true,
+      });
+      await auth.sendEmailVerification();
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.emailVerificationTokens}`,
+        { email: 'verify@example.com' },
+      );
+      const [token] = response.body.tokens as string[];
+      await auth.verifyEmail(token);
+
+      const users = await post(
+        `${url}${authEmulatorAdminRoutes.listUsers}`,
+        {},
+      );
+      expect(users.body.users).toEqual([
+        expect.objectContaining({
+          email: 'verify@example.com',
+          emailVerified: true,
+        }),
+      ]);
+    });
+
+    it('should expose unused sign-in links by email', async () => {
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      await auth.sendSignInLink('link@example.com');
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.signInLinks}`,
+        { email: 'link@example.com' },
+      );
+      const [link] = response.body.links as string[];
+      const signedIn = await auth.signInWithEmailLink('link@example.com', link);
+
+      expect(signedIn.unwrapOrThrow()).toEqual({
+        mfaRequired: false,
+        sameDevice: true,
+      });
+      const afterUse = await post(
+        `${url}${authEmulatorAdminRoutes.signInLinks}`,
+        { email: 'link@example.com' },
+      );
+      expect(afterUse.body.links).toEqual([]);
+    });
+
+    it('should expose the unused phone code by number', async () => {
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      const { verificationId } = (
+        await auth.sendPhoneSignInCode('+15550100')
+      ).unwrapOrThrow();
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.phoneCodes}`,
+        { phoneNumber: '+15550100' },
+      );
+      const [code] = response.body.codes as string[];
+      const signedIn = await auth.signInWithPhoneCode({ verificationId, code });
+
+      expect(signedIn.unwrapOrThrow()).toEqual({ mfaRequired: false });
+      const afterUse = await post(
+        `${url}${authEmulatorAdminRoutes.phoneCodes}`,
+        { phoneNumber: '+15550100' },
+      );
+      expect(afterUse.body.codes).toEqual([]);
+    });
+
+    it('should set custom claims that reach the client on sign-in', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'claims@example.com', password: 'password' }],
+      });
+
+      const set = await post(`${url}${authEmulatorAdminRoutes.customClaims}`, {
+        email: 'claims@example.com',
+        claims: { role: 'admin' },
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      await auth.signInWithEmailAndPassword({
+        email: 'claims@example.com',
+        password: 'password',
+        persistent: true,
+      });
+
+      expect(set.status).toBe(200);
+      expect(await firstValueFrom(auth.claims$)).toEqual({ role: 'admin' });
+    });
+
+    it('should reject reserved claim names', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'reserved@example.com', password: 'password' }],
+      });
+
+      const response = await post(
+        `${url}${authEmulatorAdminRoutes.customClaims}`,
+        { email: 'reserved@example.com', claims: { uid: 'someone-else' } },
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('reserved-claim');
+    });
+
+    it('should reset the second factor of a locked-out user', async () => {
+      await post(`${url}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'locked-out@example.com', password: 'password' }],
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: url });
+      const credentials = {
+        email: 'locked-out@example.com',
+        password: 'password',
+        persistent: true,
+      };
+      await auth.signInWithEmailAndPassword(credentials);
+      const { secret } = (await auth.enrollTotp()).unwrapOrThrow();
+      await auth.confirmTotpEnrollment(generateTotpCode(secret));
+      await auth.signOut();
+
+      const reset = await post(`${url}${authEmulatorAdminRoutes.mfaReset}`, {
+        email: 'locked-out@example.com',
+        reason: 'Lost phone and recovery codes',
+      });
+      const signIn = await auth.signInWithEmailAndPassword(credentials);
+
+      expect(reset.status).toBe(200);
+      expect(signIn.unwrapOrThrow()).toEqual({ mfaRequired: false });
+    });
+  });
+
+  describe('brute-force protection', () => {
+    const guarded = new AuthEmulator({
+      adminKey,
+      createBackend: (userStore) =>
+        new AuthBackendTesting({
+          userStore,
+          bruteForceProtection: { account: { lockoutAfter: 2 } },
+        }),
+    });
+    let guardedUrl: string;
+
+    beforeAll(async () => {
+      ({ url: guardedUrl } = await guarded.start({ port: 0 }));
+    });
+
+    afterAll(async () => {
+      await guarded.stop();
+    });
+
+    it('should tell how long to wait and unlock the account', async () => {
+      await post(`${guardedUrl}${authEmulatorAdminRoutes.seed}`, {
+        users: [{ email: 'guessed@example.com', password: 'password' }],
+      });
+      const auth = new AuthFrontendHttp({ baseUrl: guardedUrl });
+      const credentials = {
+        email: 'guessed@example.com',
+        password: 'password',
+        persistent: true,
+      };
+      await auth.signInWithEmailAndPassword({ ...credentials, password: 'a' });
+      await auth.signInWithEmailAndPassword({ ...credentials, password: 'b' });
+
+      const locked = await auth.signInWithEmailAndPassword(credentials);
+      const unlock = await post(
+        `${guardedUrl}${authEmulatorAdminRoutes.signInUnlock}`,
+        { email: 'guessed@example.com' },
+      );
+      const signIn = await auth.signInWithEmailAndPassword(credentials);
+
+      expect(unwrapResult(locked)).toEqual({
+        ok: false,
+        error: expect.objectContaining({
+          code: 'too-many-attempts',
+          retryAfterMs: expect.any(Number),
+        }),
+      });
+      expect(unlock.status).toBe(200);
+      expect(signIn.unwrapOrThrow()).toEqual({ mfaRequired: false });
+    });
+  });
+
+  describe('persistence', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = mkdtempSync(join(tmpdir(), 'auth-emulator-'));
+    });
+
+    afterAll(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep users across restarts when given a data file', async () => {
+      const dataFilePath = join(directory, 'users.json');
+      const first = new AuthEmulator({ dataFilePath });
+      await first.seed([{ email: 'persisted@example.com', password: 'pw' }]);
+
+      const second = new AuthEmulator({ dataFilePath });
+      const users = (await second.listUsers()).unwrapOrThrow();
+
+      expect(users.map(({ email }) => email)).toEqual([
+        'persisted@example.com',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import {
+  ErrorUnknown,
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+  resultSuccessVoid,
+} from '@j2blasco/ts-result';
+import { randomBytes } from 'crypto';
+import { createServer, Server } from 'http';
+import { AuthCustomClaims } from '../auth-types/auth-types';
+import { IAuthBackend } from '../backend/core/auth-backend.interface';
+import {
+  hasAuthBackendClaims,
+  hasAuthBackendMfa,
+} from '../backend/core/auth-backend.capabilities';
+import {
+  AuthHttpHandler,
+  AuthHttpLogger,
+  AuthHttpRouteResponse,
+  AuthHttpRoutes,
+  createAuthBackendRoutes,
+  createAuthHttpHandler,
+  httpError,
+  httpErrorFrom,
+  httpSuccess,
+  readStringFields,
+} from '../backend/http/auth-backend.http-handler';
+import { AuthBackendTesting } from '../backend/providers/testing/auth-backend.testing';
+import { IAuthUserStore } from '../backend/user-store/core/auth-user-store.interface';
+import { AuthUserStoreFile } from '../backend/user-store/providers/file/auth-user-store.file';
+import { AuthUserStoreMemory } from '../backend/user-store/providers/memory/auth-user-store.memory';
+import { unwrapResult } from '../utils/result.utils';
+
+export type AuthEmulatorBackend = IAuthBackend & {
+  // Implemented by AuthBackendTesting. Lets browser tests finish reset and
+  // verification flows.
+  getPasswordResetTokens?(uid?: string): string[];
+  getEmailVerificationTokens?(uid?: string): string[];
+  getSignInLinks?(email?: string): string[];
+  getPhoneCode?(phoneNumber: string): string | undefined;
+};
+
+export type AuthEmulatorOptions = {
+  // Users are written to this JSON file so they survive restarts. Sessions
+  // and pending tokens only live in memory.
+  dataFilePath?: string;
+  // Expected in the admin key header of every admin route. Generated when
+  // omitted.
+  adminKey?: string;
+  // Defaults to AuthBackendTesting.
+  createBackend?: (userStore: IAuthUserStore) => AuthEmulatorBackend;
+  // Gets the details of unknown errors. Defaults to console.
+  logger?: AuthHttpLogger;
+};
+
+// email is missing for anonymous users and users who sign in with a phone
+// number or provider only.
+export type AuthEmulatorUser = {
+  uid: string;
+  email?: string;
+  phoneNumber?: string;
+  emailVerified: boolean;
+};
+
+export const authEmulatorAdminKeyHeader = 'x-auth-emulator-admin-key';
+
+export const authEmulatorAdminRoutes = {
+  listUsers: '/admin/users',
+  reset: '/admin/reset',
+  seed: '/admin/seed',
+  passwordResetTokens: '/admin/password-reset-tokens',
+  emailVerificationTokens: '/admin/email-verification-tokens',
+  signInLinks: '/admin/sign-in-links',
+  phoneCodes: '/admin/phone-codes',
+  customClaims: '/admin/custom-claims',
+  mfaReset: '/admin/mfa/reset',
+  signInUnlock: '/admin/sign-in/unlock',
+} as const;
+
+export const authEmulatorDefaultPort = 9099;
+
+/**
+ * Serves an IAuthBackend over the REST contract in docs/http-contract.md,
+ * plus admin routes that let end-to-end tests inspect and reset its state.
+ */
+export class AuthEmulator {
+  public readonly adminKey: string;
+  public readonly backend: AuthEmulatorBackend;
+  public readonly handler: AuthHttpHandler;
+  private readonly userStore: IAuthUserStore;
+  private server: Server | undefined;
+
+  constructor(options: AuthEmulatorOptions = {}) {
+    this.adminKey = options.adminKey ?? randomBytes(16).toString('hex');
+    this.userStore = options.dataFilePath
+      ? new AuthUserStoreFile({ filePath: options.dataFilePath })
+      : new AuthUserStoreMemory();
+    this.backend = options.createBackend
+      ? options.createBackend(this.userStore)
+      : new AuthBackendTesting({ userStore: this.userStore });
+    this.handler = createAuthHttpHandler(
+      {
+        ...createAuthBackendRoutes(this.backend),
+        ...this.createAdminRoutes(),
+      },
+      { logger: options.logger },
+    );
+  }
+
+  public async start(
+    args: { port?: number; host?: string } = {},
+  ): Promise<{ url: string }> {
+    if (this.server) {
+      throw new Error('Auth emulator is already running');
+    }
+
+    const host = args.host ?? '127.0.0.1';
+    const server = createServer(this.handler);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(args.port ?? authEmulatorDefaultPort, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const { port } = server.address() as { port: number };
+    return { url: `http://${host}:${port}` };
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  public async listUsers(): Promise<Result<AuthEmulatorUser[], ErrorUnknown>> {
+    const users = unwrapResult(await this.userStore.list());
+    if (!users.ok) {
+      return resultError.unknown('Failed to list users');
+    }
+    return resultSuccess(
+      users.value.map(({ uid, email, phoneNumber, emailVerified }) => ({
+        uid,
+        ...(email !== undefined && { email }),
+        ...(phoneNumber !== undefined && { phoneNumber }),
+        emailVerified: emailVerified ?? false,
+      })),
+    );
+  }
+
+  // Users are deleted through the backend so their sessions and pending
+  // tokens go with them and onUserDeleted$ fires.
+  public async reset(): Promise<Result<void, ErrorUnknown>> {
+    const users = unwrapResult(await this.listUsers());
+    if (!users.ok) {
+      return resultError.unknown('Failed to list users');
+    }
+    for (const { uid } of users.value) {
+      const deleted = unwrapResult(await this.backend.deleteUser({ uid }));
+      if (!deleted.ok) {
+        return resultError.unknown(`Failed to delete user ${uid}`);
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async seed(
+    users: ReadonlyArray<{ email: string; password: string }>,
+  ): Promise<
+    Result<
+      AuthEmulatorUser[],
+      ErrorWithCode<'email-already-in-use'> | ErrorUnknown
+    >
+  > {
+    const created: AuthEmulatorUser[] = [];
+    for (const { email, password } of users) {
+      const result = unwrapResult(
+        await this.backend.signUpWithEmailPassword({ email, password }),
+      );
+      if (!result.ok) {
+        return result.error.code === 'email-already-in-use'
+          ? resultError.withCode('email-already-in-use')
+          : resultError.unknown(`Failed to seed ${email}`);
+      }
+      created.push({ uid: result.value.uid, email, emailVerified: false });
+    }
+    return resultSuccess(created);
+  }
+
+  private createAdminRoutes(): AuthHttpRoutes {
+    const routes: AuthHttpRoutes = {
+      [authEmulatorAdminRoutes.listUsers]: async () => {
+        const users = unwrapResult(await this.listUsers());
+        return users.ok
+          ? httpSuccess({ users: users.value })
+          : httpErrorFrom(users.error);
+      },
+
+      [authEmulatorAdminRoutes.reset]: async () => {
+        const reset = unwrapResult(await this.reset());
+        return reset.ok ? httpSuccess() : httpErrorFrom(reset.error);
+      },
+
+      [authEmulatorAdminRoutes.seed]: async ({ body }) => {
+        const users = parseSeedUsers(body.users);
+        if (!users) {
+          return httpError(
+            'invalid-request',
+            'Expected users: Array<{ email, password }>',
+          );
+        }
+        const seeded = unwrapResult(await this.seed(users));
+        return seeded.ok
+          ? httpSuccess({ users: seeded.value })
+          : httpErrorFrom(seeded.error);
+      },
+
+      [authEmulatorAdminRoutes.passwordResetTokens]: ({ body }) =>
+        this.pendingTokensByEmail(
+          body,
+          this.backend.getPasswordResetTokens?.bind(this.backend),
+          'password reset',
+        ),
+
+      [authEmulatorAdminRoutes.emailVerificationTokens]: ({ body }) =>
+        this.pendingTokensByEmail(
+          body,
+          this.backend.getEmailVerificationTokens?.bind(this.backend),
+          'email verification',
+        ),
+
+      // By email rather than uid: the first link creates the user.
+      [authEmulatorAdminRoutes.signInLinks]: async ({ body }) => {
+        if (!this.backend.getSignInLinks) {
+          return httpError(
+            'not-supported',
+            'The backend does not expose sign-in links',
+          );
+        }
+        const fields = readStringFields(body, ['email']);
+        if (!fields) {
+          return httpError('invalid-request');
+        }
+        return httpSuccess({
+          links: this.backend.getSignInLinks(fields.email),
+        });
+      },
+
+      // By phone number, since the first code creates the user.
+      [authEmulatorAdminRoutes.phoneCodes]: async ({ body }) => {
+        if (!this.backend.getPhoneCode) {
+          return httpError(
+            'not-supported',
+            'The backend does not expose phone codes',
+          );
+        }
+        const fields = readStringFields(body, ['phoneNumber']);
+        if (!fields) {
+          return httpError('invalid-request');
+        }
+        const code = this.backend.getPhoneCode(fields.phoneNumber);
+        return httpSuccess({ codes: code === undefined ? [] : [code] });
+      },
+
+      [authEmulatorAdminRoutes.customClaims]: async ({ body }) => {
+        const backend = this.backend;
+        if (!hasAuthBackendClaims(backend)) {
+          return httpError(
+            'not-supported',
+            'The backend does not set custom claims',
+          );
+        }
+        const fields = readStringFields(body, ['email']);
+        const { claims } = body;
+        if (
+          !fields ||
+          typeof claims !== 'object' ||
+          claims === null ||
+          Array.isArray(claims)
+        ) {
+          return httpError('invalid-request', 'Expected { email, claims }');
+        }
+        const user = unwrapResult(
+          await this.backend.getUidByEmail(fields.email),
+        );
+        if (!user.ok) {
+          return httpErrorFrom(user.error);
+        }
+        const set = unwrapResult(
+          await backend.setCustomClaims({
+            uid: user.value.uid,
+            claims: claims as AuthCustomClaims,
+          }),
+        );
+        return set.ok ? httpSuccess() : httpErrorFrom(set.error);
+      },
+
+      [authEmulatorAdminRoutes.mfaReset]: async ({ body }) => {
+        const backend = this.backend;
+        if (!hasAuthBackendMfa(backend)) {
+          return httpError(
+            'not-supported',
+            'The backend does not support second factors',
+          );
+        }
+        const fields = readStringFields(body, ['email']);
+        const { reason } = body;
+        if (!fields || (reason !== undefined && typeof reason !== 'string')) {
+          return httpError('invalid-request', 'Expected { email, reason? }');
+        }
+        const user = unwrapResult(
+          await this.backend.getUidByEmail(fields.email),
+        );
+        if (!user.ok) {
+          return httpErrorFrom(user.error);
+        }
+        const reset = unwrapResult(
+          await backend.resetMfa({
+            uid: user.value.uid,
+            resetBy: 'auth-emulator',
+            reason,
+          }),
+        );
+        return reset.ok ? httpSuccess() : httpErrorFrom(reset.error);
+      },
+
+      [authEmulatorAdminRoutes.signInUnlock]: async ({ body }) => {
+        const fields = readStringFields(body, ['email']);
+        if (!fields) {
+          return httpError('invalid-request', 'Expected { email }');
+        }
+        const user = unwrapResult(
+          await this.backend.getUidByEmail(fields.email),
+        );
+        if (!user.ok) {
+          return httpErrorFrom(user.error);
+        }
+        const unlocked = unwrapResult(
+          await this.backend.unlockSignIn({ uid: user.value.uid }),
+        );
+        return unlocked.ok ? httpSuccess() : httpErrorFrom(unlocked.error);
+      },
+    };
+
+    const guarded: AuthHttpRoutes = {};
+    for (const [path, route] of Object.entries(routes)) {
+      guarded[path] = (request) =>
+        request.headers[authEmulatorAdminKeyHeader] === this.adminKey
+          ? route(request)
+          : Promise.resolve(
+              httpError('forbidden', 'Missing or wrong admin key'),
+            );
+    }
+    return guarded;
+  }
+
+  private async pendingTokensByEmail(
+    body: Record<string, unknown>,
+    getTokens: ((uid: string) => string[]) | undefined,
+    description: string,
+  ): Promise<AuthHttpRouteResponse> {
+    if (!getTokens) {
+      return httpError(
+        'not-supported',
+        `The backend does not expose ${description} tokens`,
+      );
+    }
+    const fields = readStringFields(body, ['email']);
+    if (!fields) {
+      return httpError('invalid-request');
+    }
+    const user = unwrapResult(await this.backend.getUidByEmail(fields.email));
+    if (!user.ok) {
+      return httpErrorFrom(user.error);
+    }
+    return httpSuccess({ tokens: getTokens(user.value.uid) });
+  }
+}
+
+function parseSeedUsers(
+  value: unknown,
+): Array<{ email: string; password: string }> | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const users: Array<{ email: string; password: string }> = [];
+  for (const entry of value) {
+    const fields =
+      typeof entry === 'object' && entry !== null
+        ? readStringFields(entry as Record<string, unknown>, [
+            'email',
+            'password',
+          ])
+        : undefined;
+    if (!fields) {
+      return undefined;
+    }
+    users.push(fields);
+  }
+  return users;
+}
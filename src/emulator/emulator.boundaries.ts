@@ -0,0 +1,25 @@
+import type { Boundaries } from '@j2blasco/ts-boundaries';
+
+const boundaries: Boundaries = {
+  name: 'emulator',
+  internal: [
+    'root',
+    'backend-core',
+    'backend-http',
+    'backend-providers',
+    'mfa',
+    'user-store-file',
+  ],
+  external: [
+    'rxjs',
+    '@j2blasco/ts-result',
+    'crypto',
+    'fs',
+    'fs/promises',
+    'http',
+    'os',
+    'path',
+  ],
+};
+
+export default boundaries;
@@ -0,0 +1,130 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { withFileLock } from './file-lock';
+
+describe('withFileLock', () => {
+  let directory: string;
+  let fileCounter = 0;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-lock-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const nextFilePath = () => {
+    fileCounter += 1;
+    return join(directory, `counter-${fileCounter}.txt`);
+  };
+
+  it('should run read-modify-writes on one file one at a time', async () => {
+    const filePath = nextFilePath();
+    writeFileSync(filePath, '0');
+    const increment = () =>
+      withFileLock(filePath, async () => {
+        const value = Number(await readFile(filePath, 'utf8'));
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        await writeFile(filePath, String(value + 1));
+      });
+
+    await Promise.all(Array.from({ length: 10 }, increment));
+
+    expect(readFileSync(filePath, 'utf8')).toBe('10');
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('should release the lock when the operation throws', async () => {
+    const filePath = nextFilePath();
+
+    await expect(
+      withFileLock(filePath, async () => {
+        throw new Error('failed');
+      }),
+    ).rejects.toThrow('failed');
+
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('should give up once the timeout has passed', async () => {
+    const filePath = nextFilePath();
+    writeFileSync(`${filePath}.lock`, '');
+
+    await expect(
+      withFileLock(filePath, async () => 'ran', { timeoutMs: 30 }),
+    ).rejects.toThrow('Timed out');
+  });
+
+  it('should take over a stale lock', async () => {
+    const filePath = nextFilePath();
+    writeFileSync(`${filePath}.lock`, '');
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${filePath}.lock`, longAgo, longAgo);
+
+    expect(await withFileLock(filePath, async () => 'ran')).toBe('ran');
+  });
+
+  it('should let only one of several waiters take over a stale lock', async () => {
+    const filePath = nextFilePath();
+    writeFileSync(`${filePath}.lock`, 'crashed-owner');
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${filePath}.lock`, longAgo, longAgo);
+    let holders = 0;
+    let maxHolders = 0;
+    const hold = () =>
+      withFileLock(filePath, async () => {
+        holders += 1;
+        maxHolders = Math.max(maxHolders, holders);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        holders -= 1;
+      });
+
+    await Promise.all(Array.from({ length: 10 }, hold));
+
+    expect(maxHolders).toBe(1);
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+    expect(existsSync(`${filePath}.lock.takeover`)).toBe(false);
+  });
+
+  it('should leave the lock of whoever took it over from a slow holder', async () => {
+    const filePath = nextFilePath();
+    let releaseSlow!: () => void;
+    const slow = withFileLock(
+      filePath,
+      () => new Promise<void>((resolve) => (releaseSlow = resolve)),
+      { staleMs: 20 },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    let releaseNext!: () => void;
+    let nextHolds!: () => void;
+    const holding = new Promise<void>((resolve) => (nextHolds = resolve));
+    const next = withFileLock(
+      filePath,
+      () =>
+        new Promise<void>((resolve) => {
+          releaseNext = resolve;
+          nextHolds();
+        }),
+      { staleMs: 20 },
+    );
+    await holding;
+
+    releaseSlow();
+    await slow;
+    expect(existsSync(`${filePath}.lock`)).toBe(true);
+
+    releaseNext();
+    await next;
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { open, readFile, stat, unlink } from 'fs/promises';
+
+export type FileLockOptions = {
+  // How long to wait for another holder before giving up. Defaults to 10s.
+  timeoutMs?: number;
+  // Pause between attempts to take the lock. Defaults to 10ms.
+  retryMs?: number;
+  // A lock file older than this was left by a process that died while
+  // holding it, and is removed. Defaults to 30s.
+  staleMs?: number;
+};
+
+/**
+ * Runs the operation while holding `<path>.lock`. The lock file is created
+ * with O_EXCL, so only one process at a time can create it; the others retry
+ * until it is removed. Use it around read-modify-write cycles of a file that
+ * several processes share.
+ *
+ * The lock file holds a token of its owner. A stale lock is only removed
+ * while holding `<path>.lock.takeover`, and only if it still has the token
+ * that was found stale, so two processes that both find it stale cannot
+ * remove the lock the first of them took next.
+ */
+export async function withFileLock<T>(
+  path: string,
+  operation: () => Promise<T>,
+  { timeoutMs = 10_000, retryMs = 10, staleMs = 30_000 }: FileLockOptions = {},
+): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const owner = randomUUID();
+  const deadline = Date.now() + timeoutMs;
+  while (!(await tryCreate(lockPath, owner))) {
+    const staleOwner = await findStaleOwner(lockPath, staleMs);
+    if (staleOwner !== undefined) {
+      await takeOver(lockPath, staleOwner, staleMs);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+  try {
+    return await operation();
+  } finally {
+    // Taken over if the operation outlived staleMs; the lock is the new
+    // owner's then.
+    if ((await readOwner(lockPath)) === owner) {
+      await unlink(lockPath).catch(() => undefined);
+    }
+  }
+}
+
+async function tryCreate(lockPath: string, owner: string): Promise<boolean> {
+  let handle;
+  try {
+    handle = await open(lockPath, 'wx');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+  try {
+    await handle.writeFile(owner);
+  } finally {
+    await handle.close();
+  }
+  return true;
+}
+
+async function takeOver(
+  lockPath: string,
+  staleOwner: string,
+  staleMs: number,
+): Promise<void> {
+  const takeoverPath = `${lockPath}.takeover`;
+  if (!(await tryCreate(takeoverPath, staleOwner))) {
+    // Another process is taking over, or died doing so.
+    if ((await findStaleOwner(takeoverPath, staleMs)) !== undefined) {
+      await unlink(takeoverPath).catch(() => undefined);
+    }
+    return;
+  }
+  try {
+    if ((await findStaleOwner(lockPath, staleMs)) === staleOwner) {
+      await unlink(lockPath).catch(() => undefined);
+    }
+  } finally {
+    await unlink(takeoverPath).catch(() => undefined);
+  }
+}
+
+// The owner of a lock older than staleMs, undefined while it is fresh or
+// once it is gone. The owner is read first: a lock that replaced it in
+// between is fresh.
+async function findStaleOwner(
+  lockPath: string,
+  staleMs: number,
+): Promise<string | undefined> {
+  const owner = await readOwner(lockPath);
+  try {
+    if (Date.now() - (await stat(lockPath)).mtimeMs <= staleMs) {
+      return undefined;
+    }
+  } catch (error) {
+    // Released between the attempt and the check.
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  return owner;
+}
+
+async function readOwner(lockPath: string): Promise<string | undefined> {
+  try {
+    return await readFile(lockPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import type {
+  IAuthFrontend,
+  IAuthFrontendAnonymous,
+  IAuthFrontendClaims,
+  IAuthFrontendEmailLinks,
+  IAuthFrontendMfa,
+  IAuthFrontendOidc,
+  IAuthFrontendPhone,
+  IAuthFrontendSessions,
+  IAuthFrontendTokenEvents,
+} from './auth-frontend.interface';
+
+// Each guard checks for one member of the capability: a frontend implements a
+// capability whole or not at all.
+
+export function hasAuthFrontendTokenEvents<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendTokenEvents {
+  return 'sessionEnded$' in frontend;
+}
+
+export function hasAuthFrontendClaims<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendClaims {
+  return 'claims$' in frontend;
+}
+
+export function hasAuthFrontendAnonymous<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendAnonymous {
+  return 'signInAnonymously' in frontend;
+}
+
+export function hasAuthFrontendEmailLinks<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendEmailLinks {
+  return 'signInWithEmailLink' in frontend;
+}
+
+export function hasAuthFrontendPhone<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendPhone {
+  return 'signInWithPhoneCode' in frontend;
+}
+
+export function hasAuthFrontendOidc<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendOidc {
+  return 'completeProviderSignIn' in frontend;
+}
+
+export function hasAuthFrontendMfa<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendMfa {
+  return 'enrollTotp' in frontend;
+}
+
+export function hasAuthFrontendSessions<TFrontend extends IAuthFrontend>(
+  frontend: TFrontend,
+): frontend is TFrontend & IAuthFrontendSessions {
+  return 'listSessions' in frontend;
+}
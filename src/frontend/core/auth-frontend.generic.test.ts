@@ -1,5 +1,37 @@
 import { Result } from '@j2blasco/ts-result';
-import { IAuthFrontend } from './auth-frontend.interface';
+import { filter, firstValueFrom } from 'rxjs';
+import {
+  AuthSessionEnded,
+  IAuthFrontend,
+  IAuthFrontendAnonymous,
+  IAuthFrontendClaims,
+  IAuthFrontendEmailLinks,
+  IAuthFrontendMfa,
+  IAuthFrontendOidc,
+  IAuthFrontendPhone,
+  IAuthFrontendSessions,
+  IAuthFrontendTokenEvents,
+} from './auth-frontend.interface';
+import {
+  hasAuthFrontendAnonymous,
+  hasAuthFrontendClaims,
+  hasAuthFrontendEmailLinks,
+  hasAuthFrontendMfa,
+  hasAuthFrontendOidc,
+  hasAuthFrontendPhone,
+  hasAuthFrontendSessions,
+  hasAuthFrontendTokenEvents,
+} from './auth-frontend.capabilities';
+import { ManualClock } from '../../clock/clock';
+import { generateTotpCode } from '../../mfa/totp';
+import { FakeOidcProvider, FakeOidcUser } from '../../oidc/fake-oidc-provider';
+import { InMemoryAuthMailer } from '../../mailer/providers/memory/auth-mailer.memory';
+import { readAuthMailLinkToken } from '../../mailer/core/auth-mail-templates';
+import { InMemorySmsSender } from '../../sms-sender/providers/memory/sms-sender.memory';
+import {
+  AuthBackendTestConfiguration,
+  UpgradablePasswordHasher,
+} from '../../backend/core/auth-backend.generic.test';
 
 /**
  * Helper functions for testing Result types
@@ -22,16 +54,95 @@ function getResultError<T, E>(result: Result<T, E>): E {
   }
 }
 
+let emailCounter = 0;
+
+/**
+ * Emails are unique per test so implementations may share one user database
+ */
+function uniqueEmail(prefix: string): string {
+  emailCounter += 1;
+  return `${prefix}-${Date.now()}-${emailCounter}@example.com`;
+}
+
+let subjectCounter = 0;
+
+function uniqueSubject(prefix: string): string {
+  subjectCounter += 1;
+  return `${prefix}-${Date.now()}-${subjectCounter}`;
+}
+
+let phoneCounter = 0;
+
+/**
+ * Phone numbers are unique per test since a number only gets a code a minute
+ */
+function uniquePhoneNumber(): string {
+  phoneCounter += 1;
+  const digits = (Date.now() * 100 + phoneCounter) % 1e10;
+  return `+1${digits.toString().padStart(10, '0')}`;
+}
+
+/**
+ * A frontend with every capability. The tests of a capability only run when
+ * the frontend under test has it.
+ */
+type TestedFrontend = IAuthFrontend &
+  IAuthFrontendTokenEvents &
+  IAuthFrontendClaims &
+  IAuthFrontendAnonymous &
+  IAuthFrontendEmailLinks &
+  IAuthFrontendPhone &
+  IAuthFrontendOidc &
+  IAuthFrontendMfa &
+  IAuthFrontendSessions;
+
+export type AuthFrontendTestOptions = {
+  // Runs the provider sign-in tests. Whatever the frontend signs in against
+  // must be configured with this provider's config and fetch.
+  oidcProvider?: FakeOidcProvider;
+  // Runs the tests that follow links in mails. Whatever the frontend signs in
+  // against must send its mails through this mailer.
+  mailer?: InMemoryAuthMailer;
+  // Runs the tests that enter texted codes. Whatever the frontend signs in
+  // against must text its codes through this sender.
+  smsSender?: InMemorySmsSender;
+  // Runs the expiry tests, which move this clock past token lifetimes and
+  // rate limit windows instead of waiting. Whatever the frontend signs in
+  // against must read the time from it, and use the default lifetimes.
+  clock?: ManualClock;
+  // Runs the session restoration tests. Returns a new frontend on the same
+  // storage and backend as the one given, like after a page reload.
+  reload?: (auth: IAuthFrontend) => IAuthFrontend;
+  // Runs the cross-tab tests. Returns two new frontends like tabs of one
+  // browser: on the same backend and persistent storage, and connected to
+  // one channel.
+  openTabs?: () => [IAuthFrontend, IAuthFrontend];
+  // Runs the configured tests, each on a new frontend whose backend is built
+  // with these options.
+  createWithOptions?: (
+    configuration: AuthBackendTestConfiguration,
+  ) => IAuthFrontend;
+};
+
 /**
  * Comprehensive test suite for IAuth implementations.
  * Run this against any implementation to verify it satisfies the interface contract.
  */
-export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
+export function testAuthFrontend(
+  authFactory: () => IAuthFrontend,
+  options: AuthFrontendTestOptions = {},
+): void {
+  const { clock, reload, openTabs, createWithOptions } = options;
+  // The time as the frontend sees it.
+  const now = () => clock?.now() ?? Date.now();
+  // Tells which capabilities to test, before any test runs.
+  const probe = authFactory();
+
   describe('IAuth implementation tests', () => {
-    let auth: IAuthFrontend;
+    let auth: TestedFrontend;
 
     beforeEach(async () => {
-      auth = authFactory();
+      auth = authFactory() as TestedFrontend;
       // Ensure clean state before each test
       try {
         await auth.signOut();
@@ -64,7 +175,7 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
 
     describe('signUp', () => {
       it('should create a new user and return a UserId', async () => {
-        const email = `test-${Date.now()}@example.com`;
+        const email = uniqueEmail('test');
         const password = 'testPassword123';
 
         const userId = await auth.signUp(email, password);
@@ -74,21 +185,28 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
       });
 
       it('should reject duplicate email addresses', async () => {
-        const email = `duplicate-${Date.now()}@example.com`;
+        const email = uniqueEmail('duplicate');
         const password = 'testPassword123';
 
         await auth.signUp(email, password);
 
         await expect(auth.signUp(email, password)).rejects.toThrow();
       });
+
+      it('should reject an empty password', async () => {
+        await expect(
+          auth.signUp(uniqueEmail('empty-password'), ''),
+        ).rejects.toThrow();
+      });
     });
 
     describe('signInWithEmailAndPassword', () => {
-      const testEmail = `signin-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       let testUserId: string;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('signin-test');
         testUserId = await auth.signUp(testEmail, testPassword);
       });
 
@@ -100,6 +218,7 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
         });
 
         expect(isResultSuccess(result)).toBe(true);
+        expect(result.unwrapOrThrow()).toEqual({ mfaRequired: false });
       });
 
       it('should update authState$ when signing in', async () => {
@@ -161,10 +280,11 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
     });
 
     describe('getIdToken', () => {
-      const testEmail = `token-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('token-test');
         await auth.signUp(testEmail, testPassword);
         await auth.signInWithEmailAndPassword({
           email: testEmail,
@@ -185,13 +305,41 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
 
         await expect(auth.getIdToken()).rejects.toThrow();
       });
+
+      it('should hand out a new token when forced to refresh', async () => {
+        const token = await auth.getIdToken();
+
+        const refreshed = await auth.getIdToken({ forceRefresh: true });
+
+        expect(refreshed).not.toBe(token);
+        expect(await auth.getIdToken()).toBe(refreshed);
+      });
+
+      if (hasAuthFrontendTokenEvents(probe)) {
+        it('should emit the current token on idToken$ and null after sign out', async () => {
+          const token = await auth.getIdToken();
+          const signedIn = await firstValueFrom(auth.idToken$);
+
+          await auth.signOut();
+
+          expect(signedIn).toBe(token);
+          expect(await firstValueFrom(auth.idToken$)).toBeNull();
+        });
+
+        it('should emit the refreshed token on idToken$', async () => {
+          const refreshed = await auth.getIdToken({ forceRefresh: true });
+
+          expect(await firstValueFrom(auth.idToken$)).toBe(refreshed);
+        });
+      }
     });
 
     describe('signOut', () => {
-      const testEmail = `signout-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('signout-test');
         await auth.signUp(testEmail, testPassword);
         await auth.signInWithEmailAndPassword({
           email: testEmail,
@@ -222,18 +370,38 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
       });
     });
 
+    if (hasAuthFrontendClaims(probe)) {
+      describe('claims$', () => {
+        it('should emit the claims of a signed-in user and null after sign out', async () => {
+          const testEmail = uniqueEmail('claims-test');
+          await auth.signUp(testEmail, 'testPassword123');
+          await auth.signInWithEmailAndPassword({
+            email: testEmail,
+            password: 'testPassword123',
+            persistent: true,
+          });
+
+          expect(await firstValueFrom(auth.claims$)).toEqual({});
+
+          await auth.signOut();
+          expect(await firstValueFrom(auth.claims$)).toBeNull();
+        });
+      });
+    }
+
     describe('isEmailAvailable', () => {
-      const testEmail = `availability-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
 
       it('should return true for available email', async () => {
         const available = await auth.isEmailAvailable(
-          `new-${Date.now()}@example.com`,
+          uniqueEmail('available-test'),
         );
         expect(available).toBe(true);
       });
 
       it('should return false for taken email', async () => {
+        testEmail = uniqueEmail('availability-test');
         await auth.signUp(testEmail, testPassword);
 
         const available = await auth.isEmailAvailable(testEmail);
@@ -242,11 +410,11 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
     });
 
     describe('changeEmail', () => {
-      const testEmail = `changeemail-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
-      const newEmail = `new-${Date.now()}@example.com`;
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('changeemail-test');
         await auth.signUp(testEmail, testPassword);
         await auth.signInWithEmailAndPassword({
           email: testEmail,
@@ -256,13 +424,13 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
       });
 
       it('should change email to available address', async () => {
-        const result = await auth.changeEmail(newEmail);
+        const result = await auth.changeEmail(uniqueEmail('new'));
 
         expect(isResultSuccess(result)).toBe(true);
       });
 
       it('should return error for unavailable email', async () => {
-        const takenEmail = `taken-${Date.now()}@example.com`;
+        const takenEmail = uniqueEmail('taken');
         await auth.signUp(takenEmail, 'anotherPassword');
 
         const result = await auth.changeEmail(takenEmail);
@@ -271,13 +439,74 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
         const error = getResultError(result);
         expect(error.code).toBe('email-not-available');
       });
+
+      it('should return error for an invalid email', async () => {
+        const result = await auth.changeEmail('invalid-email');
+
+        expect(isResultSuccess(result)).toBe(false);
+        expect(getResultError(result).code).toBe('invalid-email');
+      });
+    });
+
+    describe('email verification', () => {
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('verify-test');
+        await auth.signUp(testEmail, testPassword);
+        await auth.signInWithEmailAndPassword({
+          email: testEmail,
+          password: testPassword,
+          persistent: true,
+        });
+      });
+
+      it('should report a new email as not verified in authState$', async () => {
+        const state = await firstValueFrom(auth.authState$);
+
+        expect(state?.emailVerified).toBe(false);
+      });
+
+      it('should send a verification email', async () => {
+        const result = await auth.sendEmailVerification();
+
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      it('should rate limit repeated requests', async () => {
+        await auth.sendEmailVerification();
+
+        const result = await auth.sendEmailVerification();
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('rate-limit-exceeded');
+      });
+
+      it('should return error when not signed in', async () => {
+        await auth.signOut();
+
+        const result = await auth.sendEmailVerification();
+
+        expect(isResultSuccess(result)).toBe(false);
+      });
+
+      it('should return error for invalid token', async () => {
+        const result = await auth.verifyEmail('invalid-token');
+
+        expect(isResultSuccess(result)).toBe(false);
+        const error = getResultError(result);
+        expect(error.code).toBe('token-not-found');
+      });
     });
 
     describe('triggerResetPasswordFlow', () => {
-      const testEmail = `reset-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('reset-test');
         await auth.signUp(testEmail, testPassword);
       });
 
@@ -309,11 +538,12 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
     });
 
     describe('requestChangePassword', () => {
-      const testEmail = `passwordchange-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
       const newPassword = 'newPassword456';
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('passwordchange-test');
         await auth.signUp(testEmail, testPassword);
       });
 
@@ -333,10 +563,11 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
     });
 
     describe('deleteAccount', () => {
-      const testEmail = `delete-test-${Date.now()}@example.com`;
+      let testEmail: string;
       const testPassword = 'testPassword123';
 
       beforeEach(async () => {
+        testEmail = uniqueEmail('delete-test');
         await auth.signUp(testEmail, testPassword);
         await auth.signInWithEmailAndPassword({
           email: testEmail,
@@ -372,5 +603,1132 @@ export function testAuthFrontend(authFactory: () => IAuthFrontend): void {
         await expect(auth.deleteAccount()).rejects.toThrow();
       });
     });
+
+    if (hasAuthFrontendSessions(probe)) {
+      describe('sessions', () => {
+        let testEmail: string;
+        const testPassword = 'testPassword123';
+
+        beforeEach(async () => {
+          testEmail = uniqueEmail('sessions-test');
+          await auth.signUp(testEmail, testPassword);
+          await auth.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+            persistent: true,
+            client: { deviceName: 'Test device' },
+          });
+        });
+
+        it('should list the current session with its client metadata', async () => {
+          const sessions = (await auth.listSessions()).unwrapOrThrow();
+
+          const current = sessions.filter((session) => session.current);
+          expect(current.length).toBe(1);
+          expect(current[0].client?.deviceName).toBe('Test device');
+          expect(current[0].createdAt).toBeLessThanOrEqual(now());
+        });
+
+        it('should keep the current session when signing out the others', async () => {
+          const result = await auth.signOutOtherSessions();
+
+          expect(isResultSuccess(result)).toBe(true);
+          const sessions = (await auth.listSessions()).unwrapOrThrow();
+          expect(sessions.length).toBe(1);
+          expect(sessions[0].current).toBe(true);
+        });
+
+        it('should sign out when the current session is revoked', async () => {
+          const sessions = (await auth.listSessions()).unwrapOrThrow();
+          const current = sessions.find((session) => session.current);
+
+          const result = await auth.revokeSession(current!.id);
+
+          expect(isResultSuccess(result)).toBe(true);
+          await expect(auth.getIdToken()).rejects.toThrow();
+        });
+
+        it('should return error for an unknown session', async () => {
+          const result = await auth.revokeSession('unknown-session');
+
+          expect(isResultSuccess(result)).toBe(false);
+          const error = getResultError(result);
+          expect(error.code).toBe('session-not-found');
+        });
+
+        it('should return error when not signed in', async () => {
+          await auth.signOut();
+
+          const result = await auth.listSessions();
+
+          expect(isResultSuccess(result)).toBe(false);
+        });
+      });
+    }
+
+    if (hasAuthFrontendAnonymous(probe)) {
+      describe('anonymous sign-in', () => {
+        it('should sign in and flag the user as anonymous', async () => {
+          const result = await auth.signInAnonymously();
+
+          const state = await firstValueFrom(auth.authState$);
+          expect(isResultSuccess(result)).toBe(true);
+          expect(state?.isAnonymous).toBe(true);
+          expect(typeof (await auth.getIdToken())).toBe('string');
+        });
+
+        it('should keep the uid when an email and password are linked', async () => {
+          await auth.signInAnonymously();
+          const anonymous = await firstValueFrom(auth.authState$);
+          const email = uniqueEmail('link-test');
+
+          const result = await auth.linkWithEmailAndPassword({
+            email,
+            password: 'testPassword123',
+          });
+          const linked = await firstValueFrom(auth.authState$);
+          await auth.signOut();
+          await auth.signInWithEmailAndPassword({
+            email,
+            password: 'testPassword123',
+            persistent: true,
+          });
+          const signedIn = await firstValueFrom(auth.authState$);
+
+          expect(isResultSuccess(result)).toBe(true);
+          expect(linked).toEqual({ uid: anonymous?.uid, emailVerified: false });
+          expect(signedIn?.uid).toBe(anonymous?.uid);
+        });
+
+        it('should refuse to link a user who is not anonymous', async () => {
+          const email = uniqueEmail('not-anonymous-test');
+          await auth.signUp(email, 'testPassword123');
+          await auth.signInWithEmailAndPassword({
+            email,
+            password: 'testPassword123',
+            persistent: true,
+          });
+
+          const result = await auth.linkWithEmailAndPassword({
+            email: uniqueEmail('not-anonymous-link-test'),
+            password: 'testPassword123',
+          });
+
+          expect(getResultError(result).code).toBe('not-anonymous');
+        });
+
+        it('should refuse to link an email that is taken', async () => {
+          const email = uniqueEmail('taken-link-test');
+          await auth.signUp(email, 'testPassword123');
+          await auth.signInAnonymously();
+
+          const result = await auth.linkWithEmailAndPassword({
+            email,
+            password: 'otherPassword123',
+          });
+
+          expect(getResultError(result).code).toBe('email-not-available');
+          expect((await firstValueFrom(auth.authState$))?.isAnonymous).toBe(
+            true,
+          );
+        });
+
+        it('should return error for invalid email format', async () => {
+          await auth.signInAnonymously();
+
+          const result = await auth.linkWithEmailAndPassword({
+            email: 'not-an-email',
+            password: 'testPassword123',
+          });
+
+          expect(getResultError(result).code).toBe('invalid-email');
+        });
+
+        it('should list the rules a weak password failed', async () => {
+          await auth.signInAnonymously();
+
+          const result = await auth.linkWithEmailAndPassword({
+            email: uniqueEmail('weak-link-test'),
+            password: '',
+          });
+
+          expect(getResultError(result)).toMatchObject({
+            code: 'weak-password',
+            failedRules: ['min-length'],
+          });
+          expect((await firstValueFrom(auth.authState$))?.isAnonymous).toBe(
+            true,
+          );
+        });
+      });
+    }
+
+    if (hasAuthFrontendEmailLinks(probe)) {
+      describe('email link sign-in', () => {
+        it('should refuse to send a link to an invalid email', async () => {
+          const result = await auth.sendSignInLink('not-an-email');
+
+          expect(getResultError(result).code).toBe('invalid-email');
+        });
+
+        it('should rate limit repeated requests', async () => {
+          const email = uniqueEmail('link-rate-test');
+          await auth.sendSignInLink(email);
+
+          const result = await auth.sendSignInLink(email);
+
+          expect(getResultError(result).code).toBe('rate-limit-exceeded');
+        });
+
+        it('should refuse a link it did not send', async () => {
+          const result = await auth.signInWithEmailLink(
+            uniqueEmail('link-unknown-test'),
+            'http://localhost/sign-in?token=unknown-token',
+          );
+
+          expect(getResultError(result).code).toBe('token-not-found');
+        });
+
+        const { mailer } = options;
+        if (mailer) {
+          // An arrow function, so the narrowing of mailer carries over.
+          const sendSignInLink = async (email: string): Promise<string> => {
+            (await auth.sendSignInLink(email)).unwrapOrThrow();
+            const mail = mailer.getLastMail(email, 'sign-in-link');
+            const [link] = mail ? mailer.extractLinks(mail) : [];
+            return link;
+          };
+
+          it('should sign in a new user with a verified email', async () => {
+            const email = uniqueEmail('link-test');
+            const link = await sendSignInLink(email);
+
+            const result = await auth.signInWithEmailLink(email, link);
+
+            expect(result.unwrapOrThrow()).toEqual({
+              mfaRequired: false,
+              sameDevice: true,
+            });
+            expect((await firstValueFrom(auth.authState$))?.emailVerified).toBe(
+              true,
+            );
+            expect(await auth.isEmailAvailable(email)).toBe(false);
+          });
+
+          it('should sign in the user who has the email', async () => {
+            const email = uniqueEmail('link-existing-test');
+            const uid = await auth.signUp(email, 'testPassword123');
+            const link = await sendSignInLink(email);
+
+            await auth.signInWithEmailLink(email, link);
+
+            expect((await firstValueFrom(auth.authState$))?.uid).toBe(uid);
+          });
+
+          it('should refuse a link that was already used', async () => {
+            const email = uniqueEmail('link-used-test');
+            const link = await sendSignInLink(email);
+            await auth.signInWithEmailLink(email, link);
+            await auth.signOut();
+
+            const result = await auth.signInWithEmailLink(email, link);
+
+            expect(getResultError(result).code).toBe('token-already-used');
+            expect(await firstValueFrom(auth.authState$)).toBeFalsy();
+          });
+
+          it('should keep the link usable after a wrong email', async () => {
+            const email = uniqueEmail('link-mismatch-test');
+            const link = await sendSignInLink(email);
+
+            const mismatch = await auth.signInWithEmailLink(
+              uniqueEmail('link-other-test'),
+              link,
+            );
+            const result = await auth.signInWithEmailLink(email, link);
+
+            expect(getResultError(mismatch).code).toBe('email-mismatch');
+            expect(isResultSuccess(result)).toBe(true);
+          });
+        }
+      });
+    }
+
+    if (hasAuthFrontendPhone(probe)) {
+      describe('phone sign-in', () => {
+        it('should refuse to send a code to a number not in E.164 format', async () => {
+          const result = await auth.sendPhoneSignInCode('555 0100');
+
+          expect(getResultError(result).code).toBe('invalid-phone-number');
+        });
+
+        it('should rate limit repeated requests', async () => {
+          const phoneNumber = uniquePhoneNumber();
+          await auth.sendPhoneSignInCode(phoneNumber);
+
+          const result = await auth.sendPhoneSignInCode(phoneNumber);
+
+          expect(getResultError(result).code).toBe('rate-limit-exceeded');
+        });
+
+        it('should refuse a code it did not send', async () => {
+          const result = await auth.signInWithPhoneCode({
+            verificationId: 'unknown-verification-id',
+            code: '123456',
+          });
+
+          expect(getResultError(result).code).toBe('invalid-verification-id');
+        });
+
+        const { smsSender } = options;
+        if (smsSender) {
+          // Arrow functions, so the narrowing of smsSender carries over.
+          const sendSignInCode = async (
+            phoneNumber: string,
+          ): Promise<{ verificationId: string; code: string }> => {
+            const { verificationId } = (
+              await auth.sendPhoneSignInCode(phoneNumber)
+            ).unwrapOrThrow();
+            return {
+              verificationId,
+              code: smsSender.getLastCode(phoneNumber)!,
+            };
+          };
+
+          const linkPhoneNumber = async (phoneNumber: string) => {
+            const { verificationId } = (
+              await auth.sendPhoneLinkCode(phoneNumber)
+            ).unwrapOrThrow();
+            return auth.linkPhoneNumber({
+              verificationId,
+              code: smsSender.getLastCode(phoneNumber)!,
+            });
+          };
+
+          it('should sign in a new user with the texted code', async () => {
+            const sent = await sendSignInCode(uniquePhoneNumber());
+
+            const result = await auth.signInWithPhoneCode(sent);
+
+            expect(result.unwrapOrThrow()).toEqual({ mfaRequired: false });
+            expect((await firstValueFrom(auth.authState$))?.uid).toBeTruthy();
+            expect(typeof (await auth.getIdToken())).toBe('string');
+          });
+
+          it('should keep the code usable after a wrong one', async () => {
+            const { verificationId, code } =
+              await sendSignInCode(uniquePhoneNumber());
+            const wrongCode = code === '000000' ? '111111' : '000000';
+
+            const wrong = await auth.signInWithPhoneCode({
+              verificationId,
+              code: wrongCode,
+            });
+            const right = await auth.signInWithPhoneCode({
+              verificationId,
+              code,
+            });
+
+            expect(getResultError(wrong).code).toBe('invalid-code');
+            expect(isResultSuccess(right)).toBe(true);
+          });
+
+          it('should sign in the user who linked the number', async () => {
+            const email = uniqueEmail('phone-link-test');
+            await auth.signUp(email, 'testPassword123');
+            await auth.signInWithEmailAndPassword({
+              email,
+              password: 'testPassword123',
+              persistent: true,
+            });
+            const owner = await firstValueFrom(auth.authState$);
+            const phoneNumber = uniquePhoneNumber();
+
+            const linked = await linkPhoneNumber(phoneNumber);
+            await auth.signOut();
+            await auth.signInWithPhoneCode(await sendSignInCode(phoneNumber));
+
+            expect(isResultSuccess(linked)).toBe(true);
+            expect((await firstValueFrom(auth.authState$))?.uid).toBe(
+              owner?.uid,
+            );
+          });
+
+          if (hasAuthFrontendAnonymous(probe)) {
+            it('should make an anonymous user permanent when linking', async () => {
+              await auth.signInAnonymously();
+              const anonymous = await firstValueFrom(auth.authState$);
+
+              const result = await linkPhoneNumber(uniquePhoneNumber());
+              const linked = await firstValueFrom(auth.authState$);
+
+              expect(isResultSuccess(result)).toBe(true);
+              expect(linked).toEqual({
+                uid: anonymous?.uid,
+                emailVerified: false,
+              });
+            });
+
+            it('should refuse to link the number of another user', async () => {
+              const phoneNumber = uniquePhoneNumber();
+              await auth.signInWithPhoneCode(await sendSignInCode(phoneNumber));
+              await auth.signOut();
+              await auth.signInAnonymously();
+
+              const result = await auth.sendPhoneLinkCode(phoneNumber);
+
+              expect(getResultError(result).code).toBe(
+                'phone-number-not-available',
+              );
+            });
+          }
+        }
+      });
+    }
+
+    const { oidcProvider } = options;
+    if (oidcProvider && hasAuthFrontendOidc(probe)) {
+      describe('provider sign-in', () => {
+        const providerId = oidcProvider.config.id;
+        const redirectUri = 'https://app.example.com/auth/callback';
+
+        // Arrow functions, so the narrowing of oidcProvider carries over.
+        const signInWithProvider = async (user: FakeOidcUser) => {
+          const { authorizationUrl } = (
+            await auth.signInWithProvider({ providerId, redirectUri })
+          ).unwrapOrThrow();
+          return auth.completeProviderSignIn({
+            callbackUrl: oidcProvider.authorize(authorizationUrl, user),
+          });
+        };
+
+        const linkProvider = async (user: FakeOidcUser) => {
+          const { authorizationUrl } = (
+            await auth.linkProvider({ providerId, redirectUri })
+          ).unwrapOrThrow();
+          return auth.completeProviderLink({
+            callbackUrl: oidcProvider.authorize(authorizationUrl, user),
+          });
+        };
+
+        it('should sign in as the same user every time', async () => {
+          const user = {
+            subject: uniqueSubject('oidc-test'),
+            email: uniqueEmail('oidc-test'),
+          };
+
+          const result = await signInWithProvider(user);
+          const first = await firstValueFrom(auth.authState$);
+          await auth.signOut();
+          await signInWithProvider(user);
+          const second = await firstValueFrom(auth.authState$);
+
+          expect(result.unwrapOrThrow()).toEqual({ mfaRequired: false });
+          expect(first?.emailVerified).toBe(true);
+          expect(second?.uid).toBe(first?.uid);
+          expect(typeof (await auth.getIdToken())).toBe('string');
+        });
+
+        it('should report a sign-in the user declined', async () => {
+          const { authorizationUrl } = (
+            await auth.signInWithProvider({ providerId, redirectUri })
+          ).unwrapOrThrow();
+
+          const result = await auth.completeProviderSignIn({
+            callbackUrl: oidcProvider.deny(authorizationUrl),
+          });
+
+          expect(getResultError(result).code).toBe('provider-error');
+          expect(await firstValueFrom(auth.authState$)).toBeFalsy();
+        });
+
+        it('should refuse the email of another user', async () => {
+          const email = uniqueEmail('oidc-taken-test');
+          await auth.signUp(email, 'testPassword123');
+
+          const result = await signInWithProvider({
+            subject: uniqueSubject('oidc-test'),
+            email,
+          });
+
+          expect(getResultError(result).code).toBe('email-not-available');
+        });
+
+        it('should refuse a callback without a state', async () => {
+          const result = await auth.completeProviderSignIn({
+            callbackUrl: `${redirectUri}?code=code`,
+          });
+
+          expect(getResultError(result).code).toBe('invalid-oidc-state');
+        });
+
+        it('should sign in the user a provider was linked to', async () => {
+          const email = uniqueEmail('oidc-link-test');
+          await auth.signUp(email, 'testPassword123');
+          await auth.signInWithEmailAndPassword({
+            email,
+            password: 'testPassword123',
+            persistent: true,
+          });
+          const owner = await firstValueFrom(auth.authState$);
+          const user = { subject: uniqueSubject('oidc-link-test') };
+
+          const linked = await linkProvider(user);
+          await auth.signOut();
+          await signInWithProvider(user);
+
+          expect(isResultSuccess(linked)).toBe(true);
+          expect((await firstValueFrom(auth.authState$))?.uid).toBe(owner?.uid);
+        });
+
+        if (hasAuthFrontendAnonymous(probe)) {
+          it('should refuse to link an identity of another user', async () => {
+            const user = { subject: uniqueSubject('oidc-link-test') };
+            await signInWithProvider(user);
+            await auth.signOut();
+            await auth.signInAnonymously();
+
+            const result = await linkProvider(user);
+
+            expect(getResultError(result).code).toBe('identity-already-linked');
+          });
+
+          it('should make an anonymous user permanent when linking', async () => {
+            await auth.signInAnonymously();
+            const anonymous = await firstValueFrom(auth.authState$);
+
+            const result = await linkProvider({
+              subject: uniqueSubject('oidc-anonymous-test'),
+            });
+            const linked = await firstValueFrom(auth.authState$);
+
+            expect(isResultSuccess(result)).toBe(true);
+            expect(linked).toEqual({
+              uid: anonymous?.uid,
+              emailVerified: false,
+            });
+          });
+        }
+      });
+    }
+
+    if (hasAuthFrontendMfa(probe)) {
+      describe('TOTP multi-factor authentication', () => {
+        let testEmail: string;
+        const testPassword = 'testPassword123';
+
+        beforeEach(async () => {
+          testEmail = uniqueEmail('mfa-test');
+          await auth.signUp(testEmail, testPassword);
+          await auth.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+            persistent: true,
+          });
+        });
+
+        // A code of the next time step, which replay protection has not seen.
+        const nextCode = (secret: string) =>
+          generateTotpCode(secret, now() + 30_000);
+
+        async function enroll(): Promise<{
+          secret: string;
+          recoveryCodes: string[];
+        }> {
+          const { secret } = (await auth.enrollTotp()).unwrapOrThrow();
+          const { recoveryCodes } = (
+            await auth.confirmTotpEnrollment(generateTotpCode(secret, now()))
+          ).unwrapOrThrow();
+          return { secret, recoveryCodes };
+        }
+
+        function signIn() {
+          return auth.signInWithEmailAndPassword({
+            email: testEmail,
+            password: testPassword,
+            persistent: true,
+          });
+        }
+
+        it('should ask for a code after the enrollment is confirmed', async () => {
+          await enroll();
+          await auth.signOut();
+
+          const result = await signIn();
+
+          expect(result.unwrapOrThrow()).toEqual({
+            mfaRequired: true,
+            factors: ['totp', 'recovery-code'],
+          });
+          await expect(auth.getIdToken()).rejects.toThrow();
+        });
+
+        it('should sign in once the code is accepted', async () => {
+          const { secret } = await enroll();
+          await auth.signOut();
+          await signIn();
+
+          const wrong = await auth.completeMfaSignIn('000000');
+          const right = await auth.completeMfaSignIn(nextCode(secret));
+
+          expect(getResultError(wrong).code).toBe('invalid-mfa-code');
+          expect(isResultSuccess(right)).toBe(true);
+          expect(typeof (await auth.getIdToken())).toBe('string');
+        });
+
+        it('should refuse codes for a while after too many wrong ones', async () => {
+          const { secret } = await enroll();
+          await auth.signOut();
+          await signIn();
+          // Past the three failures the backend allows by default, one more
+          // makes the user wait.
+          for (let i = 0; i < 4; i++) {
+            await auth.completeMfaSignIn('000000');
+          }
+
+          const result = await auth.completeMfaSignIn(nextCode(secret));
+
+          expect(getResultError(result).code).toBe('too-many-attempts');
+        });
+
+        it('should return error when no sign-in awaits a code', async () => {
+          const result = await auth.completeMfaSignIn('123456');
+
+          expect(getResultError(result).code).toBe('invalid-mfa-challenge');
+        });
+
+        it('should reject a wrong confirmation code', async () => {
+          await auth.enrollTotp();
+
+          const result = await auth.confirmTotpEnrollment('000000');
+
+          expect(getResultError(result).code).toBe('invalid-mfa-code');
+        });
+
+        it('should sign in without a code after unenrolling', async () => {
+          const { secret } = await enroll();
+
+          (await auth.unenrollTotp({ code: nextCode(secret) })).unwrapOrThrow();
+          await auth.signOut();
+
+          expect((await signIn()).unwrapOrThrow()).toEqual({
+            mfaRequired: false,
+          });
+        });
+
+        it('should answer the confirmation with distinct recovery codes', async () => {
+          const { recoveryCodes } = await enroll();
+
+          expect(recoveryCodes.length).toBeGreaterThan(0);
+          expect(new Set(recoveryCodes).size).toBe(recoveryCodes.length);
+        });
+
+        it('should sign in with each recovery code once', async () => {
+          const { recoveryCodes } = await enroll();
+          await auth.signOut();
+
+          await signIn();
+          const first = await auth.completeMfaSignInWithRecoveryCode(
+            recoveryCodes[0],
+          );
+          await auth.signOut();
+          await signIn();
+          const reused = await auth.completeMfaSignInWithRecoveryCode(
+            recoveryCodes[0],
+          );
+
+          expect(isResultSuccess(first)).toBe(true);
+          expect(getResultError(reused).code).toBe('invalid-recovery-code');
+        });
+
+        it('should unenroll a lost authenticator with a recovery code', async () => {
+          const { recoveryCodes } = await enroll();
+
+          const result = await auth.unenrollTotp({
+            recoveryCode: recoveryCodes[0],
+          });
+
+          expect(isResultSuccess(result)).toBe(true);
+          expect(isResultSuccess(await auth.enrollTotp())).toBe(true);
+        });
+
+        it('should replace the recovery codes when regenerated', async () => {
+          const { secret, recoveryCodes } = await enroll();
+
+          const regenerated = (
+            await auth.regenerateRecoveryCodes({ code: nextCode(secret) })
+          ).unwrapOrThrow();
+          await auth.signOut();
+          await signIn();
+          const old = await auth.completeMfaSignInWithRecoveryCode(
+            recoveryCodes[1],
+          );
+          const fresh = await auth.completeMfaSignInWithRecoveryCode(
+            regenerated.recoveryCodes[0],
+          );
+
+          expect(getResultError(old).code).toBe('invalid-recovery-code');
+          expect(isResultSuccess(fresh)).toBe(true);
+        });
+      });
+    }
+
+    describe('session restoration', () => {
+      if (!reload) {
+        return;
+      }
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+      let testUserId: string;
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('restore-test');
+        testUserId = await auth.signUp(testEmail, testPassword);
+      });
+
+      const signIn = (persistent: boolean) =>
+        auth.signInWithEmailAndPassword({
+          email: testEmail,
+          password: testPassword,
+          persistent,
+        });
+      // The state once restoration has settled.
+      const restoredState = (frontend: IAuthFrontend) =>
+        firstValueFrom(
+          frontend.authState$.pipe(filter((state) => state !== undefined)),
+        );
+
+      it('should resume a persistent session after a reload', async () => {
+        await signIn(true);
+        const reloaded = reload(auth);
+        const states: unknown[] = [];
+        const subscription = reloaded.authState$.subscribe((state) =>
+          states.push(state),
+        );
+
+        await restoredState(reloaded);
+
+        subscription.unsubscribe();
+        expect(states).toEqual([
+          undefined,
+          expect.objectContaining({ uid: testUserId }),
+        ]);
+      });
+
+      it('should resume a session that is not persistent after a reload', async () => {
+        await signIn(false);
+
+        const state = await restoredState(reload(auth));
+
+        expect(state?.uid).toBe(testUserId);
+      });
+
+      it('should hand out idTokens from a resumed session', async () => {
+        await signIn(true);
+        const reloaded = reload(auth);
+        await restoredState(reloaded);
+
+        const idToken = await reloaded.getIdToken({ forceRefresh: true });
+
+        expect(typeof idToken).toBe('string');
+        if (hasAuthFrontendClaims(reloaded)) {
+          expect(await firstValueFrom(reloaded.claims$)).toBeTruthy();
+        }
+      });
+
+      it('should keep a session refreshed after a reload for the next one', async () => {
+        await signIn(true);
+        const reloaded = reload(auth);
+        await reloaded.getIdToken({ forceRefresh: true });
+
+        const reloadedAgain = reload(reloaded);
+
+        expect((await restoredState(reloadedAgain))?.uid).toBe(testUserId);
+        await expect(
+          reloadedAgain.getIdToken({ forceRefresh: true }),
+        ).resolves.toEqual(expect.any(String));
+      });
+
+      it('should start signed out after a reload once signed out', async () => {
+        await signIn(true);
+        await auth.signOut();
+
+        expect(await restoredState(reload(auth))).toBeNull();
+      });
+
+      it('should start signed out after a reload when never signed in', async () => {
+        expect(await restoredState(reload(auth))).toBeNull();
+      });
+    });
+
+    describe('cross-tab sync', () => {
+      if (!openTabs) {
+        return;
+      }
+      let tab: TestedFrontend;
+      let otherTab: TestedFrontend;
+      const testPassword = 'testPassword123';
+      let testUserId: string;
+
+      beforeEach(async () => {
+        [tab, otherTab] = openTabs() as [TestedFrontend, TestedFrontend];
+        const testEmail = uniqueEmail('tabs-test');
+        testUserId = await tab.signUp(testEmail, testPassword);
+        await tab.signInWithEmailAndPassword({
+          email: testEmail,
+          password: testPassword,
+          persistent: true,
+        });
+      });
+
+      // Stops the leading tab refreshing in the background.
+      afterEach(async () => {
+        await tab.signOut();
+      });
+
+      const signedIn = (frontend: IAuthFrontend) =>
+        firstValueFrom(
+          frontend.authState$.pipe(
+            filter((state) => state?.uid === testUserId),
+          ),
+        );
+      const signedOut = (frontend: IAuthFrontend) =>
+        firstValueFrom(
+          frontend.authState$.pipe(filter((state) => state === null)),
+        );
+
+      it('should sign the other tab in', async () => {
+        await signedIn(otherTab);
+
+        expect(await otherTab.getIdToken()).toBe(await tab.getIdToken());
+      });
+
+      it('should sign the other tab out', async () => {
+        await signedIn(otherTab);
+
+        await tab.signOut();
+
+        expect(await signedOut(otherTab)).toBeNull();
+        await expect(otherTab.getIdToken()).rejects.toThrow();
+      });
+
+      it('should sign the other tab out when the account is deleted', async () => {
+        await signedIn(otherTab);
+
+        await tab.deleteAccount();
+
+        expect(await signedOut(otherTab)).toBeNull();
+      });
+
+      if (hasAuthFrontendTokenEvents(probe)) {
+        it('should hand the other tab a refreshed idToken', async () => {
+          await signedIn(otherTab);
+
+          const refreshed = await tab.getIdToken({ forceRefresh: true });
+
+          await firstValueFrom(
+            otherTab.idToken$.pipe(filter((idToken) => idToken === refreshed)),
+          );
+          expect(await otherTab.getIdToken()).toBe(refreshed);
+          // The other tab refreshes with the session as it now is.
+          await expect(
+            otherTab.getIdToken({ forceRefresh: true }),
+          ).resolves.toEqual(expect.any(String));
+          expect(await tab.getIdToken()).toBe(await otherTab.getIdToken());
+        });
+      }
+    });
+
+    // Last, since moving the clock ahead ages whatever earlier tests left.
+    describe('expiry on a manual clock', () => {
+      if (!clock) {
+        return;
+      }
+      let testEmail: string;
+      const testPassword = 'testPassword123';
+
+      beforeEach(async () => {
+        testEmail = uniqueEmail('clock-test');
+        await auth.signUp(testEmail, testPassword);
+      });
+
+      const hourMs = 60 * 60 * 1000;
+      const signIn = () =>
+        auth.signInWithEmailAndPassword({
+          email: testEmail,
+          password: testPassword,
+          persistent: true,
+        });
+
+      it('should refresh an idToken about to expire', async () => {
+        await signIn();
+        const token = await auth.getIdToken();
+        clock.advance(hourMs - 4 * 60 * 1000);
+
+        const refreshed = await auth.getIdToken();
+
+        expect(refreshed).not.toBe(token);
+        expect(await auth.getIdToken()).toBe(refreshed);
+      });
+
+      it('should share one refresh between concurrent calls', async () => {
+        await signIn();
+        clock.advance(hourMs);
+
+        const tokens = await Promise.all([
+          auth.getIdToken(),
+          auth.getIdToken(),
+        ]);
+
+        expect(tokens[1]).toBe(tokens[0]);
+        expect(await firstValueFrom(auth.authState$)).toBeTruthy();
+      });
+
+      if (hasAuthFrontendTokenEvents(probe)) {
+        it('should end the session with a reason when the refresh fails', async () => {
+          await signIn();
+          const ended: AuthSessionEnded[] = [];
+          const subscription = auth.sessionEnded$.subscribe((event) =>
+            ended.push(event),
+          );
+          clock.advance(30 * 24 * hourMs);
+
+          await expect(auth.getIdToken()).rejects.toThrow();
+
+          subscription.unsubscribe();
+          expect(ended).toEqual([{ reason: 'refresh-token-expired' }]);
+          expect(await firstValueFrom(auth.authState$)).toBeNull();
+          expect(await firstValueFrom(auth.idToken$)).toBeNull();
+        });
+      }
+
+      it('should send another reset mail once a minute has passed', async () => {
+        await auth.triggerResetPasswordFlow(testEmail);
+        clock.advance(59 * 1000);
+        const early = await auth.triggerResetPasswordFlow(testEmail);
+        clock.advance(1000);
+
+        const result = await auth.triggerResetPasswordFlow(testEmail);
+
+        expect(getResultError(early).code).toBe('rate-limit-exceeded');
+        expect(isResultSuccess(result)).toBe(true);
+      });
+
+      const { mailer } = options;
+      if (mailer) {
+        it('should refuse a password reset token after an hour', async () => {
+          (await auth.triggerResetPasswordFlow(testEmail)).unwrapOrThrow();
+          const mail = mailer.getLastMail(testEmail, 'password-reset');
+          const [link] = mail ? mailer.extractLinks(mail) : [];
+          clock.advance(60 * 60 * 1000 + 1);
+
+          const result = await auth.requestChangePassword({
+            passwordToken: readAuthMailLinkToken(link) ?? '',
+            newPassword: 'newPassword456',
+          });
+
+          expect(getResultError(result).code).toBe('token-expired');
+        });
+      }
+    });
+
+    if (createWithOptions) {
+      describe('configured with options', () => {
+        const password = 'password123';
+
+        it('should rehash the password on sign in when the policy is stronger', async () => {
+          const passwordHasher = new UpgradablePasswordHasher();
+          const configured = createWithOptions({ passwordHasher });
+          const email = uniqueEmail('rehash');
+          await configured.signUp(email, password);
+          const credentials = { email, password, persistent: true };
+
+          passwordHasher.upgradePolicy();
+          await configured.signInWithEmailAndPassword(credentials);
+          expect(passwordHasher.hashCount).toBe(2);
+
+          await configured.signOut();
+          const result =
+            await configured.signInWithEmailAndPassword(credentials);
+          expect(isResultSuccess(result)).toBe(true);
+          expect(passwordHasher.hashCount).toBe(2);
+        });
+
+        it('should check new passwords against the password policy', async () => {
+          const mailer = new InMemoryAuthMailer();
+          const configured = createWithOptions({
+            passwordPolicy: { minLength: 10, requireDigit: true },
+            mailer,
+          });
+          const email = uniqueEmail('policy');
+          await configured.signUp(email, 'password123');
+          await configured.triggerResetPasswordFlow(email);
+          const mail = mailer.getLastMail(email, 'password-reset');
+          const passwordToken = readAuthMailLinkToken(
+            mailer.extractLinks(mail!)[0],
+          )!;
+
+          const weak = await configured.requestChangePassword({
+            passwordToken,
+            newPassword: 'longEnough',
+          });
+          const strong = await configured.requestChangePassword({
+            passwordToken,
+            newPassword: 'longEnough1',
+          });
+
+          await expect(
+            configured.signUp(uniqueEmail('weak'), 'short'),
+          ).rejects.toThrow('weak-password (min-length, digit)');
+          expect(getResultError(weak)).toEqual(
+            expect.objectContaining({
+              code: 'weak-password',
+              failedRules: ['digit'],
+            }),
+          );
+          expect(isResultSuccess(strong)).toBe(true);
+        });
+
+        it('should refuse sign-ins after too many wrong passwords', async () => {
+          const configured = createWithOptions({
+            bruteForceProtection: { account: { lockoutAfter: 2 } },
+          });
+          const email = uniqueEmail('guessed');
+          await configured.signUp(email, password);
+          const credentials = { email, password, persistent: true };
+          await configured.signInWithEmailAndPassword({
+            ...credentials,
+            password: 'a',
+          });
+          await configured.signInWithEmailAndPassword({
+            ...credentials,
+            password: 'b',
+          });
+
+          const locked =
+            await configured.signInWithEmailAndPassword(credentials);
+
+          expect(getResultError(locked)).toEqual(
+            expect.objectContaining({
+              code: 'too-many-attempts',
+              retryAfterMs: expect.any(Number),
+            }),
+          );
+        });
+
+        it('should refuse unverified users when verification is required', async () => {
+          const mailer = new InMemoryAuthMailer();
+          const configured = createWithOptions({
+            requireEmailVerification: true,
+            mailer,
+          });
+          const email = uniqueEmail('required');
+          await configured.signUp(email, password);
+          const credentials = { email, password, persistent: true };
+
+          const refused =
+            await configured.signInWithEmailAndPassword(credentials);
+          expect(getResultError(refused).code).toBe('email-not-verified');
+
+          const mail = mailer.getLastMail(email, 'email-verification');
+          const token = readAuthMailLinkToken(mailer.extractLinks(mail!)[0])!;
+          await configured.verifyEmail(token);
+          const result =
+            await configured.signInWithEmailAndPassword(credentials);
+          expect(isResultSuccess(result)).toBe(true);
+        });
+
+        it('should end a session left idle past the configured lifetime', async () => {
+          const clock = new ManualClock();
+          const configured = createWithOptions({
+            refreshTokenIdleLifetimeMs: 2 * 60 * 60 * 1000,
+            clock,
+          });
+          const email = uniqueEmail('idle');
+          await configured.signUp(email, password);
+          await configured.signInWithEmailAndPassword({
+            email,
+            password,
+            persistent: true,
+          });
+          clock.advance(60 * 60 * 1000);
+          await configured.getIdToken();
+          clock.advance(2 * 60 * 60 * 1000);
+
+          await expect(configured.getIdToken()).rejects.toThrow(
+            'refresh-token-expired',
+          );
+        });
+
+        it('should mail a reset link that resets the password', async () => {
+          const mailer = new InMemoryAuthMailer();
+          const configured = createWithOptions({ mailer });
+          const email = uniqueEmail('mailed');
+          await configured.signUp(email, password);
+
+          await configured.triggerResetPasswordFlow(email);
+          const mail = mailer.getLastMail(email, 'password-reset');
+          const [link] = mailer.extractLinks(mail!);
+          await configured.requestChangePassword({
+            passwordToken: readAuthMailLinkToken(link)!,
+            newPassword: 'newPassword123',
+          });
+
+          const result = await configured.signInWithEmailAndPassword({
+            email,
+            password: 'newPassword123',
+            persistent: true,
+          });
+          expect(isResultSuccess(result)).toBe(true);
+        });
+
+        if (hasAuthFrontendEmailLinks(probe)) {
+          it('should refuse an expired sign-in link', async () => {
+            const clock = new ManualClock();
+            const mailer = new InMemoryAuthMailer({ clock });
+            const configured = createWithOptions({
+              signInLinkLifetimeMs: 50,
+              mailer,
+              clock,
+            }) as TestedFrontend;
+            const email = uniqueEmail('late');
+            await configured.sendSignInLink(email);
+            const [link] = mailer.extractLinks(
+              mailer.getLastMail(email, 'sign-in-link')!,
+            );
+            clock.advance(51);
+
+            const result = await configured.signInWithEmailLink(email, link);
+
+            expect(getResultError(result).code).toBe('token-expired');
+          });
+        }
+
+        if (hasAuthFrontendPhone(probe)) {
+          it('should refuse an expired phone code', async () => {
+            const clock = new ManualClock();
+            const smsSender = new InMemorySmsSender({ clock });
+            const configured = createWithOptions({
+              phoneCodeLifetimeMs: 50,
+              smsSender,
+              clock,
+            }) as TestedFrontend;
+            const phoneNumber = uniquePhoneNumber();
+            const { verificationId } = (
+              await configured.sendPhoneSignInCode(phoneNumber)
+            ).unwrapOrThrow();
+            const code = smsSender.getLastCode(phoneNumber)!;
+            clock.advance(51);
+
+            const result = await configured.signInWithPhoneCode({
+              verificationId,
+              code,
+            });
+
+            expect(getResultError(result).code).toBe('code-expired');
+          });
+        }
+      });
+    }
   });
 }
@@ -5,37 +5,126 @@ import {
   Result,
   SuccessVoid,
 } from '@j2blasco/ts-result';
+import type {
+  AuthClientMetadata,
+  AuthCustomClaims,
+  AuthMfaFactorType,
+  TooManyAttemptsError,
+} from '../../auth-types/auth-types';
+import type { WeakPasswordError } from '../../password-policy/password-policy';
 
 export const e2eAuthService = 'e2eAuthService';
 
 export type UserId = string;
 
-export type BackendAuthUser = { uid: UserId };
+// isAnonymous is only set for users from signInAnonymously.
+export type BackendAuthUser = {
+  uid: UserId;
+  emailVerified: boolean;
+  isAnonymous?: boolean;
+};
 
-// Authentication service like Firebase Auth or AWS Cognito
+// One device the user is signed in on. current marks this client's own session.
+export type AuthSessionInfo = {
+  id: string;
+  createdAt: number;
+  lastRefreshedAt: number;
+  client?: AuthClientMetadata;
+  current: boolean;
+};
+
+// Users with a second factor are not signed in until completeMfaSignIn accepts
+// a code. factors lists what they can answer with.
+export type AuthSignInOutcome =
+  | { mfaRequired: false }
+  | { mfaRequired: true; factors: AuthMfaFactorType[] };
+
+// sameDevice is false when the link was opened on another device than the
+// one that asked for it. Apps may want the user to confirm the email then.
+export type AuthEmailLinkSignInOutcome = AuthSignInOutcome & {
+  sameDevice: boolean;
+};
+
+// Why a session ended without the user signing out: the server answered a
+// refresh of the idToken that the refresh token or its user is gone.
+export type AuthSessionEndedReason =
+  | 'invalid-refresh-token'
+  | 'refresh-token-expired'
+  | 'refresh-token-reused'
+  | 'user-not-found';
+
+export type AuthSessionEnded = { reason: AuthSessionEndedReason };
+
+// Proves the user still controls their second factor: a current TOTP code, or
+// one of their recovery codes when the authenticator is lost.
+export type AuthSecondFactorProof = { code: string } | { recoveryCode: string };
+
+// Authentication service like Firebase Auth or AWS Cognito. Every frontend
+// implements IAuthFrontend. The optional capabilities below have interfaces
+// of their own: a frontend implements those its backend supports, and
+// callers check for them with the guards in auth-frontend.capabilities.
 export interface IAuthFrontend {
+  // undefined until the session kept from an earlier instance, e.g. before a
+  // reload, has been restored or found missing.
   authState$: Observable<BackendAuthUser | null | undefined>;
   signInWithEmailAndPassword(args: {
     email: string;
     password: string;
+    // Keep the session after the browser closes. Otherwise it lasts as long
+    // as the tab. Other ways of signing in always keep it.
     persistent: boolean;
+    // Recorded on the session so it can be recognised in listSessions.
+    client?: AuthClientMetadata;
   }): Promise<
     Result<
-      SuccessVoid,
+      AuthSignInOutcome,
       | ErrorWithCode<'invalid-email'>
       | ErrorWithCode<'user-not-found'>
       | ErrorWithCode<'wrong-password'>
+      // Only when the backend requires verified emails. A new verification
+      // email is sent.
+      | ErrorWithCode<'email-not-verified'>
+      // Only when the backend limits password guesses. retryAfterMs says how
+      // long to wait.
+      | TooManyAttemptsError
       | ErrorUnknown
     >
   >;
   // IdToken is a short-lived token that is used to authenticate a user after they have signed in.
   // RefreshToken are used to obtain new IdTokens after the current IdToken has expired.
-  getIdToken(): Promise<string>;
+  // A token about to expire is refreshed first, and forceRefresh refreshes it
+  // regardless, e.g. to pick up changed claims. Concurrent calls share one
+  // refresh. Rejects when signed out or when the refresh failed.
+  getIdToken(options?: { forceRefresh?: boolean }): Promise<string>;
   signOut(): Promise<void>;
   isEmailAvailable(email: string): Promise<boolean>;
   changeEmail(
     email: string,
-  ): Promise<Result<void, ErrorWithCode<'email-not-available'> | ErrorUnknown>>;
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorUnknown
+    >
+  >;
+
+  // Sends the signed-in user a token that proves they own their email.
+  sendEmailVerification(): Promise<
+    Result<void, ErrorWithCode<'rate-limit-exceeded'> | ErrorUnknown>
+  >;
+  // Works without being signed in, e.g. from the link in the email. authState$
+  // emits emailVerified: true when the verified user is the signed-in one.
+  verifyEmail(
+    token: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | ErrorUnknown
+    >
+  >;
 
   triggerResetPasswordFlow(
     email: string,
@@ -48,6 +137,8 @@ export interface IAuthFrontend {
     >
   >;
 
+  // weak-password lists the password policy rules the new password failed,
+  // and leaves the token usable.
   requestChangePassword(args: {
     passwordToken: string;
     newPassword: string;
@@ -56,10 +147,296 @@ export interface IAuthFrontend {
       SuccessVoid,
       | ErrorWithCode<'token-expired'>
       | ErrorWithCode<'token-not-found'>
+      | WeakPasswordError
       | ErrorUnknown
     >
   >;
 
   deleteAccount(): Promise<void>;
+  // Rejects passwords that fail the password policy, like taken emails.
   signUp(email: string, password: string): Promise<UserId>;
 }
+
+// The current idToken and why a session ended, for apps that watch the
+// session instead of asking for a token before each request.
+export interface IAuthFrontendTokenEvents {
+  // The current idToken, null when signed out. Emits again with every new
+  // token, whether from a sign-in or a refresh.
+  idToken$: Observable<string | null | undefined>;
+  // Emits when a failed refresh ends the session, just before authState$
+  // emits null. Signing out does not emit.
+  sessionEnded$: Observable<AuthSessionEnded>;
+}
+
+// Application-defined claims carried in idTokens.
+export interface IAuthFrontendClaims {
+  // Custom claims carried by the current idToken, null when signed out. Claims
+  // changed on the server show up once the idToken is refreshed.
+  claims$: Observable<AuthCustomClaims | null | undefined>;
+}
+
+// Users who start without any way to sign in again, and keep their uid once
+// they link one.
+export interface IAuthFrontendAnonymous {
+  // Signs in as a new user without email or password, e.g. a visitor who has
+  // not registered yet. authState$ emits the user with isAnonymous: true.
+  signInAnonymously(args?: {
+    client?: AuthClientMetadata;
+  }): Promise<Result<void, ErrorUnknown>>;
+  // Makes the signed-in anonymous user permanent. The uid stays the same, so
+  // data keyed to it is kept, and the user stays signed in. Also adds an email
+  // and password to users without an email, such as phone users.
+  linkWithEmailAndPassword(args: {
+    email: string;
+    password: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorWithCode<'not-anonymous'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  >;
+}
+
+// Passwordless sign-in with links sent by email.
+export interface IAuthFrontendEmailLinks {
+  // Mails a link that signs the user in without a password. The first link
+  // for an email creates the user.
+  sendSignInLink(
+    email: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // link is the URL from the email, and email the address it was sent to. A
+  // link works once and marks the email verified.
+  signInWithEmailLink(
+    email: string,
+    link: string,
+  ): Promise<
+    Result<
+      AuthEmailLinkSignInOutcome,
+      | ErrorWithCode<'token-not-found'>
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-already-used'>
+      | ErrorWithCode<'email-mismatch'>
+      | ErrorUnknown
+    >
+  >;
+}
+
+// Sign-in and linking with codes sent by SMS.
+export interface IAuthFrontendPhone {
+  // Texts a one-time code to phoneNumber, in E.164 format such as
+  // +14155550123. The first code entered for a number creates the user.
+  // verificationId goes back with the code to signInWithPhoneCode.
+  sendPhoneSignInCode(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { verificationId: string },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  // A wrong code can be retried a few times before too-many-attempts asks
+  // for a new one.
+  signInWithPhoneCode(args: {
+    verificationId: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInOutcome,
+      | ErrorWithCode<'invalid-verification-id'>
+      | ErrorWithCode<'code-expired'>
+      | ErrorWithCode<'invalid-code'>
+      | ErrorWithCode<'too-many-attempts'>
+      | ErrorUnknown
+    >
+  >;
+  // Like sendPhoneSignInCode, but linkPhoneNumber then gives the number to
+  // the signed-in user, so the phone and the email sign in to the same uid.
+  sendPhoneLinkCode(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { verificationId: string },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'phone-number-not-available'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  >;
+  linkPhoneNumber(args: {
+    verificationId: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-verification-id'>
+      | ErrorWithCode<'code-expired'>
+      | ErrorWithCode<'invalid-code'>
+      | ErrorWithCode<'too-many-attempts'>
+      | ErrorWithCode<'phone-number-not-available'>
+      | ErrorUnknown
+    >
+  >;
+}
+
+// Sign-in and linking with OpenID Connect providers.
+export interface IAuthFrontendOidc {
+  // Sign-in with an OpenID Connect provider: the app sends the browser to
+  // authorizationUrl, and the provider sends it back to redirectUri.
+  signInWithProvider(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      { authorizationUrl: string },
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  >;
+  // callbackUrl is the full URL the provider sent the browser back to.
+  // provider-error includes the user declining at the provider, and
+  // email-not-available an existing user with the provider's email, who has
+  // to sign in and link the provider instead.
+  completeProviderSignIn(args: {
+    callbackUrl: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInOutcome,
+      | ErrorWithCode<'invalid-oidc-state'>
+      | ErrorWithCode<'oidc-state-expired'>
+      | ErrorWithCode<'provider-error'>
+      | ErrorWithCode<'invalid-id-token'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorUnknown
+    >
+  >;
+  // Like signInWithProvider, but the provider identity is linked to the
+  // signed-in user. Linking makes an anonymous user permanent.
+  linkProvider(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      { authorizationUrl: string },
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  >;
+  completeProviderLink(args: {
+    callbackUrl: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-oidc-state'>
+      | ErrorWithCode<'oidc-state-expired'>
+      | ErrorWithCode<'provider-error'>
+      | ErrorWithCode<'invalid-id-token'>
+      | ErrorWithCode<'identity-already-linked'>
+      | ErrorUnknown
+    >
+  >;
+}
+
+// TOTP second factors with recovery codes. Once the user confirms one,
+// signInWithEmailAndPassword answers mfaRequired until completeMfaSignIn
+// accepts a code.
+export interface IAuthFrontendMfa {
+  // Answers the challenge of the last sign-in that returned mfaRequired.
+  // invalid-mfa-challenge means there is none, or it failed too often and the
+  // user has to sign in again. too-many-attempts means the user got too many
+  // codes wrong, across sign-ins, and has to wait retryAfterMs.
+  completeMfaSignIn(
+    code: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // For users who lost their authenticator. Each recovery code works once.
+  completeMfaSignInWithRecoveryCode(
+    recoveryCode: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // TOTP for the signed-in user. uri is the otpauth:// URI to show as a QR
+  // code; sign-ins ask for codes once confirmTotpEnrollment accepted one.
+  // The recovery codes it answers cannot be retrieved again.
+  enrollTotp(): Promise<
+    Result<
+      { secret: string; uri: string },
+      ErrorWithCode<'mfa-already-enrolled'> | ErrorUnknown
+    >
+  >;
+  confirmTotpEnrollment(
+    code: string,
+  ): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorUnknown
+    >
+  >;
+  // Both need proof of the second factor, so an unattended signed-in device
+  // cannot change it.
+  unenrollTotp(
+    proof: AuthSecondFactorProof,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+  // Replaces every recovery code.
+  regenerateRecoveryCodes(
+    proof: AuthSecondFactorProof,
+  ): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  >;
+}
+
+// Lets users see and end their sign-ins one device at a time.
+export interface IAuthFrontendSessions {
+  // Every device the signed-in user is signed in on, this one included.
+  listSessions(): Promise<Result<AuthSessionInfo[], ErrorUnknown>>;
+  // Revoking the current session signs this client out.
+  revokeSession(
+    sessionId: string,
+  ): Promise<Result<void, ErrorWithCode<'session-not-found'> | ErrorUnknown>>;
+  signOutOtherSessions(): Promise<Result<void, ErrorUnknown>>;
+}
@@ -0,0 +1,593 @@
+import { createServer, Server } from 'http';
+import { filter, firstValueFrom } from 'rxjs';
+import { AuthFetch, AuthFrontendHttp } from './auth-frontend.http';
+import { testAuthFrontend } from '../../core/auth-frontend.generic.test';
+import { AuthBackendTesting } from '../../../backend/providers/testing/auth-backend.testing';
+import {
+  createAuthBackendHttpHandler,
+  createAuthBackendRoutes,
+  httpError,
+  runAuthRoute,
+} from '../../../backend/http/auth-backend.http-handler';
+import { authHttpRoutes } from '../../../http/auth-http.contract';
+import { FakeOidcProvider } from '../../../oidc/fake-oidc-provider';
+import { InMemoryAuthMailer } from '../../../mailer/providers/memory/auth-mailer.memory';
+import { InMemorySmsSender } from '../../../sms-sender/providers/memory/sms-sender.memory';
+import { ManualClock } from '../../../clock/clock';
+import { IAuthFrontend } from '../../core/auth-frontend.interface';
+import { IAuthBackend } from '../../../backend/core/auth-backend.interface';
+import { InMemoryAuthStorage } from '../../../auth-storage/providers/memory/auth-storage.memory';
+import { InMemoryAuthChannel } from '../../../auth-channel/providers/memory/auth-channel.memory';
+
+type FrontendStorage = {
+  persistentStorage: InMemoryAuthStorage;
+  sessionStorage: InMemoryAuthStorage;
+};
+
+describe('AuthFrontendHttp', () => {
+  const clock = new ManualClock();
+  const oidcProvider = new FakeOidcProvider({ clock });
+  const mailer = new InMemoryAuthMailer({ clock });
+  const smsSender = new InMemorySmsSender({ clock });
+  const backend = new AuthBackendTesting({
+    mailer,
+    smsSender,
+    oidcProviders: [oidcProvider.config],
+    oidcFetch: oidcProvider.fetch,
+    clock,
+  });
+  let server: Server;
+  // Set once the server listens. The generic suite builds a frontend before
+  // that, only to tell its capabilities.
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    server = createServer(createAuthBackendHttpHandler(backend));
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  // Reloads reuse the storage of the frontend they reload.
+  const storageOf = new WeakMap<IAuthFrontend, FrontendStorage>();
+  function createFrontend(
+    storage: FrontendStorage = {
+      persistentStorage: new InMemoryAuthStorage(),
+      sessionStorage: new InMemoryAuthStorage(),
+    },
+  ): AuthFrontendHttp {
+    const auth = new AuthFrontendHttp({ baseUrl, clock, ...storage });
+    storageOf.set(auth, storage);
+    return auth;
+  }
+
+  // Tabs of one browser share localStorage and a channel, not
+  // sessionStorage.
+  let browserCount = 0;
+  function openTabs(): [AuthFrontendHttp, AuthFrontendHttp] {
+    browserCount++;
+    const persistentStorage = new InMemoryAuthStorage();
+    const openTab = () =>
+      new AuthFrontendHttp({
+        baseUrl,
+        clock,
+        persistentStorage,
+        sessionStorage: new InMemoryAuthStorage(),
+        channel: new InMemoryAuthChannel(`http-browser-${browserCount}`),
+      });
+    return [openTab(), openTab()];
+  }
+
+  testAuthFrontend(() => createFrontend(), {
+    oidcProvider,
+    mailer,
+    smsSender,
+    clock,
+    reload: (auth) => createFrontend(storageOf.get(auth)),
+    openTabs,
+  });
+
+  describe('AuthFrontendHttp specific features', () => {
+    let auth: AuthFrontendHttp;
+
+    beforeEach(() => {
+      auth = new AuthFrontendHttp({ baseUrl, clock });
+    });
+
+    it('should complete a password reset with the token sent out of band', async () => {
+      const email = `http-reset-${Date.now()}@example.com`;
+      const uid = await auth.signUp(email, 'oldPassword123');
+
+      await auth.triggerResetPasswordFlow(email);
+      const [token] = backend.getPasswordResetTokens(uid);
+      const result = await auth.requestChangePassword({
+        passwordToken: token,
+        newPassword: 'newPassword456',
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+      const signIn = await auth.signInWithEmailAndPassword({
+        email,
+        password: 'newPassword456',
+        persistent: true,
+      });
+      expect(() => signIn.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should verify the email with the token sent out of band', async () => {
+      const email = `http-verify-${Date.now()}@example.com`;
+      const uid = await auth.signUp(email, 'testPassword123');
+      await auth.signInWithEmailAndPassword({
+        email,
+        password: 'testPassword123',
+        persistent: true,
+      });
+
+      await auth.sendEmailVerification();
+      const [token] = backend.getEmailVerificationTokens(uid);
+      const result = await auth.verifyEmail(token);
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+      expect(await firstValueFrom(auth.authState$)).toEqual({
+        uid,
+        emailVerified: true,
+      });
+    });
+
+    it('should hand out idTokens the backend accepts', async () => {
+      const email = `http-token-${Date.now()}@example.com`;
+      const uid = await auth.signUp(email, 'testPassword123');
+      await auth.signInWithEmailAndPassword({
+        email,
+        password: 'testPassword123',
+        persistent: true,
+      });
+
+      const idToken = await auth.getIdToken();
+
+      expect((await backend.getUidFromIdToken(idToken)).unwrapOrThrow()).toBe(
+        uid,
+      );
+    });
+
+    it('should send requests through the injected fetch', async () => {
+      const requestedUrls: string[] = [];
+      const recordingFetch: AuthFetch = (url, init) => {
+        requestedUrls.push(url);
+        return fetch(url, init);
+      };
+      auth = new AuthFrontendHttp({
+        baseUrl,
+        fetch: recordingFetch,
+        clock,
+      });
+
+      await auth.isEmailAvailable(`http-fetch-${Date.now()}@example.com`);
+
+      expect(requestedUrls).toEqual([
+        `${baseUrl}${authHttpRoutes.emailAvailable}`,
+      ]);
+    });
+
+    describe('session storage', () => {
+      const password = 'testPassword123';
+      let storage: FrontendStorage;
+      let email: string;
+
+      beforeEach(async () => {
+        storage = {
+          persistentStorage: new InMemoryAuthStorage(),
+          sessionStorage: new InMemoryAuthStorage(),
+        };
+        auth = createFrontend(storage);
+        email = `http-storage-${Date.now()}@example.com`;
+        await auth.signUp(email, password);
+      });
+
+      // Like reopening the browser: localStorage survives, sessionStorage
+      // does not.
+      async function restoredAfterRestart() {
+        const reopened = createFrontend({
+          persistentStorage: storage.persistentStorage,
+          sessionStorage: new InMemoryAuthStorage(),
+        });
+        return firstValueFrom(
+          reopened.authState$.pipe(filter((state) => state !== undefined)),
+        );
+      }
+
+      it('should keep a persistent session across a browser restart', async () => {
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        const signedIn = await firstValueFrom(auth.authState$);
+
+        expect((await restoredAfterRestart())?.uid).toBe(signedIn?.uid);
+      });
+
+      it('should end a session that is not persistent with the browser', async () => {
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: false,
+        });
+
+        expect(await restoredAfterRestart()).toBeNull();
+      });
+
+      it('should move the session when signing in again with the other choice', async () => {
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: false,
+        });
+
+        expect(
+          (await storage.persistentStorage.get('auth-session')).unwrapOrThrow(),
+        ).toBeUndefined();
+        expect(
+          (await storage.sessionStorage.get('auth-session')).unwrapOrThrow(),
+        ).toBeDefined();
+      });
+
+      it('should start signed out when the stored session is unreadable', async () => {
+        await storage.persistentStorage.set('auth-session', '{not json');
+
+        const state = await firstValueFrom(
+          createFrontend(storage).authState$.pipe(
+            filter((state) => state !== undefined),
+          ),
+        );
+
+        expect(state).toBeNull();
+      });
+
+      it('should end a resumed session the server revoked on first use', async () => {
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        const reloaded = createFrontend(storage);
+        await auth.signOut();
+        const ended = firstValueFrom(reloaded.sessionEnded$);
+
+        await expect(
+          reloaded.getIdToken({ forceRefresh: true }),
+        ).rejects.toThrow();
+
+        expect((await ended).reason).toBe('invalid-refresh-token');
+        expect(await firstValueFrom(reloaded.authState$)).toBeNull();
+      });
+    });
+
+    describe('idToken refresh', () => {
+      const password = 'testPassword123';
+      const requestedUrls: string[] = [];
+      let offline: boolean;
+      // Answers the refresh with this instead of asking the server.
+      let refreshAnswer: { status: number; code: string } | undefined;
+
+      beforeEach(async () => {
+        requestedUrls.length = 0;
+        offline = false;
+        refreshAnswer = undefined;
+        auth = new AuthFrontendHttp({
+          baseUrl,
+          fetch: (url, init) => {
+            requestedUrls.push(url.slice(baseUrl.length));
+            if (offline) {
+              return Promise.reject(new Error('Network is down'));
+            }
+            if (
+              refreshAnswer &&
+              url === `${baseUrl}${authHttpRoutes.refresh}`
+            ) {
+              const { status, code } = refreshAnswer;
+              return Promise.resolve({ status, json: async () => ({ code }) });
+            }
+            return fetch(url, init);
+          },
+          clock,
+        });
+        const email = `http-refresh-${Date.now()}@example.com`;
+        await auth.signUp(email, password);
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        requestedUrls.length = 0;
+      });
+
+      it('should refresh an expiring idToken before sending a request', async () => {
+        clock.advance(60 * 60 * 1000);
+
+        const sessions = await auth.listSessions();
+
+        expect(() => sessions.unwrapOrThrow()).not.toThrow();
+        expect(requestedUrls).toEqual([
+          authHttpRoutes.refresh,
+          authHttpRoutes.sessions,
+        ]);
+      });
+
+      it('should keep the session when the server cannot be reached', async () => {
+        clock.advance(60 * 60 * 1000);
+        offline = true;
+
+        await expect(auth.getIdToken()).rejects.toThrow('network-error');
+        offline = false;
+        const idToken = await auth.getIdToken();
+
+        expect(await firstValueFrom(auth.authState$)).toBeTruthy();
+        expect(
+          (await backend.getUidFromIdToken(idToken)).unwrapOrThrow(),
+        ).toBeTruthy();
+      });
+
+      for (const answer of [
+        { status: 500, code: 'unknown' },
+        { status: 429, code: 'rate-limit-exceeded' },
+      ]) {
+        it(`should keep the session when the refresh answers ${answer.status}`, async () => {
+          clock.advance(60 * 60 * 1000);
+          refreshAnswer = answer;
+
+          await expect(auth.getIdToken()).rejects.toThrow(answer.code);
+          refreshAnswer = undefined;
+          const idToken = await auth.getIdToken();
+
+          expect(await firstValueFrom(auth.authState$)).toBeTruthy();
+          expect(
+            (await backend.getUidFromIdToken(idToken)).unwrapOrThrow(),
+          ).toBeTruthy();
+        });
+      }
+
+      it('should end the session when the user of the refresh token is gone', async () => {
+        clock.advance(60 * 60 * 1000);
+        refreshAnswer = { status: 404, code: 'user-not-found' };
+        const ended = firstValueFrom(auth.sessionEnded$);
+
+        await expect(auth.getIdToken()).rejects.toThrow();
+
+        expect((await ended).reason).toBe('user-not-found');
+        expect(await firstValueFrom(auth.authState$)).toBeNull();
+      });
+    });
+
+    describe('cross-tab sync', () => {
+      const password = 'testPassword123';
+      let refreshes: number[];
+      let channels: InMemoryAuthChannel[];
+      let tabs: AuthFrontendHttp[];
+
+      beforeEach(async () => {
+        const counts = [0, 0];
+        refreshes = counts;
+        const persistentStorage = new InMemoryAuthStorage();
+        const channelName = `http-leader-${Date.now()}`;
+        channels = counts.map(() => new InMemoryAuthChannel(channelName));
+        tabs = channels.map(
+          (channel, index) =>
+            new AuthFrontendHttp({
+              baseUrl,
+              fetch: (url, init) => {
+                if (url === `${baseUrl}${authHttpRoutes.refresh}`) {
+                  counts[index]++;
+                }
+                return fetch(url, init);
+              },
+              clock,
+              persistentStorage,
+              sessionStorage: new InMemoryAuthStorage(),
+              channel,
+            }),
+        );
+        const email = `http-tabs-${Date.now()}@example.com`;
+        await tabs[0].signUp(email, password);
+        await tabs[0].signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        await firstValueFrom(tabs[1].authState$.pipe(filter(Boolean)));
+      });
+
+      afterEach(async () => {
+        await Promise.all(channels.map((channel) => channel.close()));
+        await tabs[0].signOut();
+      });
+
+      // Past the point where the leader refreshes, not yet where a tab
+      // would refresh on use.
+      async function refreshedInBackground(): Promise<string> {
+        const previous = await tabs[1].getIdToken();
+        const refreshed = firstValueFrom(
+          tabs[1].idToken$.pipe(
+            filter((idToken) => !!idToken && idToken !== previous),
+          ),
+        );
+        clock.advance(51 * 60 * 1000);
+        return (await refreshed) as string;
+      }
+
+      it('should refresh in the background in the leading tab only', async () => {
+        const refreshed = await refreshedInBackground();
+
+        expect(await tabs[1].getIdToken()).toBe(refreshed);
+        expect(refreshes).toEqual([1, 0]);
+      });
+
+      it('should hand the background refresh over when the leading tab closes', async () => {
+        await channels[0].close();
+
+        await refreshedInBackground();
+
+        expect(refreshes).toEqual([0, 1]);
+      });
+    });
+
+    it('should log unknown errors and only tell the client the code', async () => {
+      const logged: unknown[] = [];
+      const logger = {
+        error: (_: string, details: unknown) => logged.push(details),
+      };
+      const routes = {
+        '/throws': async () => {
+          throw new Error('EACCES: open /var/lib/auth/users.json');
+        },
+        '/fails': async () => httpError('unknown', 'Store unreachable'),
+      };
+      const request = { body: {}, headers: {} };
+
+      const responses = [
+        await runAuthRoute(routes, '/throws', request, logger),
+        await runAuthRoute(routes, '/fails', request, logger),
+      ];
+
+      expect(responses).toEqual([
+        { status: 500, body: { code: 'unknown', message: 'Internal error' } },
+        { status: 500, body: { code: 'unknown', message: 'Internal error' } },
+      ]);
+      expect(logged).toEqual([
+        expect.objectContaining({
+          message: 'EACCES: open /var/lib/auth/users.json',
+        }),
+        { code: 'unknown', message: 'Store unreachable' },
+      ]);
+    });
+
+    it('should reject a request with a malformed body', async () => {
+      const response = await fetch(`${baseUrl}${authHttpRoutes.signIn}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 42 }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ code: 'invalid-request' });
+    });
+
+    it('should reject authenticated routes without a bearer token', async () => {
+      const response = await fetch(
+        `${baseUrl}${authHttpRoutes.deleteAccount}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{}',
+        },
+      );
+
+      expect(response.status).toBe(401);
+      expect(((await response.json()) as { code: string }).code).toBe(
+        'unauthenticated',
+      );
+    });
+
+    it('should leave out the routes of capabilities the backend lacks', async () => {
+      // Like a backend without second factors.
+      const withoutMfa: IAuthBackend = new Proxy(backend, {
+        has: (target, key) => key !== 'enrollTotp' && key in target,
+      });
+      const routes = createAuthBackendRoutes(withoutMfa);
+      const request = { body: {}, headers: {} };
+
+      const response = await runAuthRoute(
+        routes,
+        authHttpRoutes.totpEnroll,
+        request,
+      );
+
+      expect(response.status).toBe(404);
+      expect(routes[authHttpRoutes.mfaSignIn]).toBeUndefined();
+      expect(routes[authHttpRoutes.signIn]).toBeDefined();
+      expect(
+        createAuthBackendRoutes(backend)[authHttpRoutes.totpEnroll],
+      ).toBeDefined();
+    });
+
+    describe('sessions across devices', () => {
+      const password = 'testPassword123';
+      let email: string;
+      let phone: AuthFrontendHttp;
+
+      beforeEach(async () => {
+        email = `http-sessions-${Date.now()}@example.com`;
+        await auth.signUp(email, password);
+        await auth.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+        });
+        phone = new AuthFrontendHttp({ baseUrl, clock });
+        await phone.signInWithEmailAndPassword({
+          email,
+          password,
+          persistent: true,
+          client: { deviceName: 'Phone' },
+        });
+      });
+
+      it('should list the sessions of every device', async () => {
+        const sessions = (await auth.listSessions()).unwrapOrThrow();
+
+        expect(sessions.length).toBe(2);
+        const other = sessions.find((session) => !session.current);
+        expect(other?.client?.deviceName).toBe('Phone');
+        expect(other?.client?.ipAddress).toBe('127.0.0.1');
+      });
+
+      it('should sign the other devices out', async () => {
+        await auth.signOutOtherSessions();
+
+        const phoneSessions = await phone.listSessions();
+
+        expect(() => phoneSessions.unwrapOrThrow()).toThrow();
+        await expect(phone.getIdToken()).rejects.toThrow();
+        expect((await auth.listSessions()).unwrapOrThrow().length).toBe(1);
+      });
+
+      it('should end the session on the server when signing out', async () => {
+        await phone.signOut();
+
+        const sessions = (await auth.listSessions()).unwrapOrThrow();
+
+        expect(sessions.map((session) => session.current)).toEqual([true]);
+      });
+
+      it("should not revoke another user's session", async () => {
+        const [phoneSession] = (await phone.listSessions())
+          .unwrapOrThrow()
+          .filter((session) => session.current);
+        const stranger = new AuthFrontendHttp({ baseUrl, clock });
+        const strangerEmail = `http-stranger-${Date.now()}@example.com`;
+        await stranger.signUp(strangerEmail, password);
+        await stranger.signInWithEmailAndPassword({
+          email: strangerEmail,
+          password,
+          persistent: true,
+        });
+
+        const result = await stranger.revokeSession(phoneSession.id);
+
+        expect(() => result.unwrapOrThrow()).toThrow();
+        expect((await phone.listSessions()).unwrapOrThrow().length).toBe(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,1620 @@
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import {
+  ErrorWithCode,
+  ErrorUnknown,
+  Result,
+  SuccessVoid,
+  resultSuccess,
+  resultSuccessVoid,
+  resultError,
+} from '@j2blasco/ts-result';
+import {
+  IAuthFrontend,
+  IAuthFrontendAnonymous,
+  IAuthFrontendClaims,
+  IAuthFrontendEmailLinks,
+  IAuthFrontendMfa,
+  IAuthFrontendOidc,
+  IAuthFrontendPhone,
+  IAuthFrontendSessions,
+  IAuthFrontendTokenEvents,
+  AuthSessionEnded,
+  AuthSessionEndedReason,
+  AuthSessionInfo,
+  AuthEmailLinkSignInOutcome,
+  AuthSecondFactorProof,
+  AuthSignInOutcome,
+  BackendAuthUser,
+  UserId,
+} from '../../core/auth-frontend.interface';
+import type {
+  AuthClientMetadata,
+  AuthCustomClaims,
+  TooManyAttemptsError,
+} from '../../../auth-types/auth-types';
+import {
+  AuthHttpAnonymousSignInResponse,
+  AuthHttpEmailAvailableResponse,
+  AuthHttpEmailVerificationConfirmResponse,
+  AuthHttpErrorBody,
+  AuthHttpMfaSignInResponse,
+  AuthHttpPhoneCodeResponse,
+  AuthHttpPhoneSignInResponse,
+  AuthHttpProviderLinkResponse,
+  AuthHttpProviderSignInCompleteResponse,
+  AuthHttpProviderSignInResponse,
+  AuthHttpRefreshResponse,
+  AuthHttpRoute,
+  AuthHttpSessionResponse,
+  AuthHttpSessionsResponse,
+  AuthHttpSignInLinkCompleteResponse,
+  AuthHttpSignInResponse,
+  AuthHttpSignUpResponse,
+  AuthHttpRecoveryCodesResponse,
+  AuthHttpTotpEnrollResponse,
+  authHttpRoutes,
+} from '../../../http/auth-http.contract';
+import { parseOidcCallback } from '../../../oidc/oidc-callback';
+import { readAuthMailLinkToken } from '../../../mailer/core/auth-mail-templates';
+import {
+  PasswordRule,
+  passwordRules,
+  WeakPasswordError,
+  weakPasswordError,
+} from '../../../password-policy/password-policy';
+import { tooManyAttemptsError } from '../../../backend/sign-in-throttle/auth-sign-in-throttle';
+import { IClock, systemClock } from '../../../clock/clock';
+import { IAuthStorage } from '../../../auth-storage/core/auth-storage.interface';
+import {
+  createLocalAuthStorage,
+  createSessionAuthStorage,
+} from '../../../auth-storage/providers/web/auth-storage.web';
+import { unwrapResult } from '../../../utils/result.utils';
+import {
+  AuthChannelMessage,
+  IAuthChannel,
+} from '../../../auth-channel/core/auth-channel.interface';
+
+// The subset of the WHATWG fetch API this client relies on, so tests and
+// non-browser runtimes can inject their own transport.
+export type AuthFetch = (
+  url: string,
+  init: { method: 'POST'; headers: Record<string, string>; body: string },
+) => Promise<{ status: number; json(): Promise<unknown> }>;
+
+export type AuthFrontendHttpOptions = {
+  // Origin (plus optional path prefix) the contract routes are appended to.
+  baseUrl: string;
+  // Defaults to the global fetch.
+  fetch?: AuthFetch;
+  // Tells the server which device asked for a sign-in link. Defaults to a
+  // random id per instance; pass a persisted one so a link opened after a
+  // reload still counts as the same device.
+  deviceId?: string;
+  // Decides when the idToken is due for a refresh. Defaults to the system
+  // clock.
+  clock?: IClock;
+  // Keeps sessions signed in with persistent: true, and those of the other
+  // ways of signing in, so a new instance resumes them. Defaults to
+  // localStorage, or memory outside a browser.
+  persistentStorage?: IAuthStorage;
+  // Keeps sessions signed in with persistent: false. Defaults to
+  // sessionStorage, or memory outside a browser.
+  sessionStorage?: IAuthStorage;
+  // Keeps this instance in step with the others on the channel, e.g. the
+  // app's other tabs: they follow its sign-ins, sign-outs, refreshes and
+  // account deletion. The one leading the channel also refreshes the idToken
+  // ahead of expiry. Defaults to none.
+  channel?: IAuthChannel;
+};
+
+type HttpResponse<T> =
+  | { ok: true; body: T }
+  | { ok: false; status: number; error: AuthHttpErrorBody };
+
+type Session = {
+  uid: UserId;
+  sessionId: string;
+  idToken: string;
+  idTokenExpiresAt: number;
+  refreshToken: string;
+  // Which storage the session is kept in.
+  persistent: boolean;
+};
+
+// What a new instance needs to resume a session without asking the server.
+type StoredSession = Session & {
+  user: BackendAuthUser;
+  claims: AuthCustomClaims;
+};
+
+const storedSessionKey = 'auth-session';
+
+// The instance leading the channel refreshes the idToken this long before it
+// expires, ahead of idTokenRefreshMarginMs, so the others find it fresh and do
+// not spend the shared refresh token themselves.
+const backgroundRefreshMarginMs = 10 * 60 * 1000;
+// Wait before trying again after a background refresh failed for want of a
+// network.
+const backgroundRetryMs = 60 * 1000;
+
+// An idToken this close to expiring is refreshed before use, so it does not
+// lapse in flight and small differences with the server's clock do not matter.
+const idTokenRefreshMarginMs = 5 * 60 * 1000;
+
+export class AuthFrontendHttp
+  implements
+    IAuthFrontend,
+    IAuthFrontendTokenEvents,
+    IAuthFrontendClaims,
+    IAuthFrontendAnonymous,
+    IAuthFrontendEmailLinks,
+    IAuthFrontendPhone,
+    IAuthFrontendOidc,
+    IAuthFrontendMfa,
+    IAuthFrontendSessions
+{
+  private readonly baseUrl: string;
+  private readonly fetch: AuthFetch;
+  private readonly deviceId: string;
+  private readonly clock: IClock;
+  private readonly persistentStorage: IAuthStorage;
+  private readonly sessionStorage: IAuthStorage;
+  private readonly channel: IAuthChannel | undefined;
+  private session: Session | null = null;
+  // Settles once the stored session, if any, has been resumed.
+  private readonly restoration: Promise<void>;
+  // Challenge of the last sign-in that answered mfaRequired.
+  private pendingMfaChallenge:
+    | { challenge: string; persistent: boolean }
+    | undefined;
+  // Refresh tokens are single use, so concurrent callers share one refresh.
+  private inFlightRefresh: Promise<HttpResponse<unknown>> | undefined;
+  private isLeader = false;
+  private cancelBackgroundRefresh: (() => void) | undefined;
+  private authState = new BehaviorSubject<BackendAuthUser | null | undefined>(
+    undefined,
+  );
+  private claims = new BehaviorSubject<AuthCustomClaims | null | undefined>(
+    undefined,
+  );
+  private idToken = new BehaviorSubject<string | null | undefined>(undefined);
+  private sessionEnded = new Subject<AuthSessionEnded>();
+
+  constructor(options: AuthFrontendHttpOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    // Browsers reject a fetch that is not called on the global object.
+    this.fetch = options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    this.deviceId = options.deviceId ?? globalThis.crypto.randomUUID();
+    this.clock = options.clock ?? systemClock;
+    this.persistentStorage =
+      options.persistentStorage ?? createLocalAuthStorage();
+    this.sessionStorage = options.sessionStorage ?? createSessionAuthStorage();
+    this.channel = options.channel;
+    this.restoration = this.restoreSession();
+    this.channel?.messages$.subscribe((message) => this.receive(message));
+    this.channel?.isLeader$.subscribe((isLeader) => {
+      this.isLeader = isLeader;
+      this.scheduleBackgroundRefresh();
+    });
+  }
+
+  public get authState$(): Observable<BackendAuthUser | null | undefined> {
+    return this.authState.asObservable();
+  }
+
+  public get claims$(): Observable<AuthCustomClaims | null | undefined> {
+    return this.claims.asObservable();
+  }
+
+  public get idToken$(): Observable<string | null | undefined> {
+    return this.idToken.asObservable();
+  }
+
+  public get sessionEnded$(): Observable<AuthSessionEnded> {
+    return this.sessionEnded.asObservable();
+  }
+
+  public async signInWithEmailAndPassword(args: {
+    email: string;
+    password: string;
+    persistent: boolean;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInOutcome,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'user-not-found'>
+      | ErrorWithCode<'wrong-password'>
+      | ErrorWithCode<'email-not-verified'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post<AuthHttpSignInResponse>(
+      authHttpRoutes.signIn,
+      {
+        email: args.email,
+        password: args.password,
+        ...(args.client && {
+          client: {
+            userAgent: args.client.userAgent,
+            deviceName: args.client.deviceName,
+          },
+        }),
+      },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-email':
+          return resultError.withCode('invalid-email');
+        case 'user-not-found':
+          return resultError.withCode('user-not-found');
+        case 'wrong-password':
+          return resultError.withCode('wrong-password');
+        case 'email-not-verified':
+          return resultError.withCode('email-not-verified');
+        case 'too-many-attempts':
+          return tooManyAttemptsError(response.error.retryAfterMs ?? 0);
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+
+    return resultSuccess(
+      await this.finishSignIn(response.body, args.persistent),
+    );
+  }
+
+  public async completeMfaSignIn(
+    code: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.answerMfaChallenge(authHttpRoutes.mfaSignIn, {
+      code,
+    });
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-mfa-code':
+          return resultError.withCode('invalid-mfa-code');
+        case 'too-many-attempts':
+          return tooManyAttemptsError(response.error.retryAfterMs ?? 0);
+        case 'mfa-challenge-expired':
+          return resultError.withCode('mfa-challenge-expired');
+        case 'invalid-mfa-challenge':
+          return resultError.withCode('invalid-mfa-challenge');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async completeMfaSignInWithRecoveryCode(
+    recoveryCode: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-mfa-challenge'>
+      | ErrorWithCode<'mfa-challenge-expired'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.answerMfaChallenge(
+      authHttpRoutes.mfaRecoverySignIn,
+      { recoveryCode },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-recovery-code':
+          return resultError.withCode('invalid-recovery-code');
+        case 'too-many-attempts':
+          return tooManyAttemptsError(response.error.retryAfterMs ?? 0);
+        case 'mfa-challenge-expired':
+          return resultError.withCode('mfa-challenge-expired');
+        case 'invalid-mfa-challenge':
+          return resultError.withCode('invalid-mfa-challenge');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async getIdToken(
+    options: { forceRefresh?: boolean } = {},
+  ): Promise<string> {
+    const session = await this.currentSession();
+    if (!session) {
+      throw new Error('No user signed in');
+    }
+    if (options.forceRefresh || this.isIdTokenDue(session)) {
+      const refreshed = await this.refreshShared(session);
+      if (!refreshed.ok) {
+        throw new Error(describeError(refreshed.error));
+      }
+    }
+    return session.idToken;
+  }
+
+  // Ends the session on the server too. Signing out locally never fails, even
+  // when the server cannot be reached.
+  public async signOut(): Promise<void> {
+    const session = await this.currentSession();
+    if (session) {
+      await this.postAuthenticated(authHttpRoutes.revokeSession, {
+        sessionId: session.sessionId,
+      });
+    }
+    await this.clearSession('signed-out');
+  }
+
+  public async isEmailAvailable(email: string): Promise<boolean> {
+    const response = await this.post<AuthHttpEmailAvailableResponse>(
+      authHttpRoutes.emailAvailable,
+      { email },
+    );
+    if (!response.ok) {
+      throw new Error(describeError(response.error));
+    }
+    return response.body.available;
+  }
+
+  public async changeEmail(
+    email: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorUnknown
+    >
+  > {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(authHttpRoutes.changeEmail, {
+      newEmail: email,
+    });
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-email':
+          return resultError.withCode('invalid-email');
+        case 'email-already-in-use':
+          return resultError.withCode('email-not-available');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    await this.updateEmailVerified(session.uid, false);
+    return resultSuccessVoid();
+  }
+
+  public async sendEmailVerification(): Promise<
+    Result<void, ErrorWithCode<'rate-limit-exceeded'> | ErrorUnknown>
+  > {
+    if (!(await this.currentSession())) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(
+      authHttpRoutes.emailVerification,
+      {},
+    );
+    if (!response.ok) {
+      return response.error.code === 'rate-limit-exceeded'
+        ? resultError.withCode('rate-limit-exceeded')
+        : resultError.unknown(describeError(response.error));
+    }
+    return resultSuccessVoid();
+  }
+
+  public async verifyEmail(
+    token: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post<AuthHttpEmailVerificationConfirmResponse>(
+      authHttpRoutes.emailVerificationConfirm,
+      { token },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'token-expired':
+          return resultError.withCode('token-expired');
+        case 'token-not-found':
+          return resultError.withCode('token-not-found');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    await this.updateEmailVerified(response.body.uid, true);
+    return resultSuccessVoid();
+  }
+
+  public async triggerResetPasswordFlow(
+    email: string,
+  ): Promise<
+    Result<
+      SuccessVoid,
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorWithCode<'email-not-in-database'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post(authHttpRoutes.passwordReset, { email });
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'rate-limit-exceeded':
+          return resultError.withCode('rate-limit-exceeded');
+        // user-not-found: the account behind the email has no email left.
+        case 'email-not-found':
+        case 'user-not-found':
+          return resultError.withCode('email-not-in-database');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async requestChangePassword(args: {
+    passwordToken: string;
+    newPassword: string;
+  }): Promise<
+    Result<
+      SuccessVoid,
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-not-found'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post(authHttpRoutes.passwordResetConfirm, {
+      token: args.passwordToken,
+      newPassword: args.newPassword,
+    });
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'token-expired':
+          return resultError.withCode('token-expired');
+        case 'token-not-found':
+          return resultError.withCode('token-not-found');
+        case 'weak-password':
+          return weakPasswordError(readFailedRules(response.error));
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async sendSignInLink(
+    email: string,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post(authHttpRoutes.signInLink, {
+      email,
+      deviceId: this.deviceId,
+    });
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-email':
+          return resultError.withCode('invalid-email');
+        case 'rate-limit-exceeded':
+          return resultError.withCode('rate-limit-exceeded');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async signInWithEmailLink(
+    email: string,
+    link: string,
+  ): Promise<
+    Result<
+      AuthEmailLinkSignInOutcome,
+      | ErrorWithCode<'token-not-found'>
+      | ErrorWithCode<'token-expired'>
+      | ErrorWithCode<'token-already-used'>
+      | ErrorWithCode<'email-mismatch'>
+      | ErrorUnknown
+    >
+  > {
+    const token = readAuthMailLinkToken(link);
+    if (token === undefined) {
+      return resultError.withCode('token-not-found');
+    }
+
+    const response = await this.post<AuthHttpSignInLinkCompleteResponse>(
+      authHttpRoutes.signInLinkComplete,
+      { email, token, deviceId: this.deviceId },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'token-not-found':
+          return resultError.withCode('token-not-found');
+        case 'token-expired':
+          return resultError.withCode('token-expired');
+        case 'token-already-used':
+          return resultError.withCode('token-already-used');
+        case 'email-mismatch':
+          return resultError.withCode('email-mismatch');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccess({
+      ...(await this.finishSignIn(response.body)),
+      sameDevice: response.body.sameDevice,
+    });
+  }
+
+  public async sendPhoneSignInCode(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { verificationId: string },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post<AuthHttpPhoneCodeResponse>(
+      authHttpRoutes.phoneSignInCode,
+      { phoneNumber },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-phone-number':
+          return resultError.withCode('invalid-phone-number');
+        case 'rate-limit-exceeded':
+          return resultError.withCode('rate-limit-exceeded');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccess({ verificationId: response.body.verificationId });
+  }
+
+  public async signInWithPhoneCode(args: {
+    verificationId: string;
+    code: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInOutcome,
+      | ErrorWithCode<'invalid-verification-id'>
+      | ErrorWithCode<'code-expired'>
+      | ErrorWithCode<'invalid-code'>
+      | ErrorWithCode<'too-many-attempts'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.post<AuthHttpPhoneSignInResponse>(
+      authHttpRoutes.phoneSignIn,
+      {
+        verificationId: args.verificationId,
+        code: args.code,
+        ...(args.client && {
+          client: {
+            userAgent: args.client.userAgent,
+            deviceName: args.client.deviceName,
+          },
+        }),
+      },
+    );
+    if (!response.ok) {
+      return phoneCodeError(response.error);
+    }
+    return resultSuccess(await this.finishSignIn(response.body));
+  }
+
+  public async sendPhoneLinkCode(
+    phoneNumber: string,
+  ): Promise<
+    Result<
+      { verificationId: string },
+      | ErrorWithCode<'invalid-phone-number'>
+      | ErrorWithCode<'phone-number-not-available'>
+      | ErrorWithCode<'rate-limit-exceeded'>
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.postAuthenticated<AuthHttpPhoneCodeResponse>(
+      authHttpRoutes.phoneLinkCode,
+      { phoneNumber },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-phone-number':
+          return resultError.withCode('invalid-phone-number');
+        case 'phone-number-already-in-use':
+          return resultError.withCode('phone-number-not-available');
+        case 'rate-limit-exceeded':
+          return resultError.withCode('rate-limit-exceeded');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccess({ verificationId: response.body.verificationId });
+  }
+
+  public async linkPhoneNumber(args: {
+    verificationId: string;
+    code: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-verification-id'>
+      | ErrorWithCode<'code-expired'>
+      | ErrorWithCode<'invalid-code'>
+      | ErrorWithCode<'too-many-attempts'>
+      | ErrorWithCode<'phone-number-not-available'>
+      | ErrorUnknown
+    >
+  > {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(authHttpRoutes.phoneLink, {
+      verificationId: args.verificationId,
+      code: args.code,
+    });
+    if (!response.ok) {
+      return response.error.code === 'phone-number-already-in-use'
+        ? resultError.withCode('phone-number-not-available')
+        : phoneCodeError(response.error);
+    }
+
+    // As in completeProviderLink, an anonymous user's idToken stays flagged
+    // until it is refreshed.
+    if (this.authState.value?.isAnonymous) {
+      await this.refreshShared(session);
+      if (this.session === session) {
+        await this.updateUser({
+          uid: session.uid,
+          emailVerified: this.authState.value?.emailVerified ?? false,
+        });
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async deleteAccount(): Promise<void> {
+    if (!(await this.currentSession())) {
+      throw new Error('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(
+      authHttpRoutes.deleteAccount,
+      {},
+    );
+    if (!response.ok) {
+      throw new Error(describeError(response.error));
+    }
+
+    await this.clearSession('account-deleted');
+  }
+
+  public async signUp(email: string, password: string): Promise<UserId> {
+    const response = await this.post<AuthHttpSignUpResponse>(
+      authHttpRoutes.signUp,
+      { email, password },
+    );
+    if (!response.ok) {
+      throw new Error(describeError(response.error));
+    }
+    return response.body.uid;
+  }
+
+  public async signInAnonymously(
+    args: { client?: AuthClientMetadata } = {},
+  ): Promise<Result<void, ErrorUnknown>> {
+    const response = await this.post<AuthHttpAnonymousSignInResponse>(
+      authHttpRoutes.anonymousSignIn,
+      {
+        ...(args.client && {
+          client: {
+            userAgent: args.client.userAgent,
+            deviceName: args.client.deviceName,
+          },
+        }),
+      },
+    );
+    if (!response.ok) {
+      return resultError.unknown(describeError(response.error));
+    }
+    this.pendingMfaChallenge = undefined;
+    await this.startSession(response.body, true);
+    return resultSuccessVoid();
+  }
+
+  public async linkWithEmailAndPassword(args: {
+    email: string;
+    password: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-email'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorWithCode<'not-anonymous'>
+      | WeakPasswordError
+      | ErrorUnknown
+    >
+  > {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(
+      authHttpRoutes.linkEmailPassword,
+      { email: args.email, password: args.password },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-email':
+          return resultError.withCode('invalid-email');
+        case 'email-already-in-use':
+          return resultError.withCode('email-not-available');
+        case 'not-anonymous':
+          return resultError.withCode('not-anonymous');
+        case 'weak-password':
+          return weakPasswordError(readFailedRules(response.error));
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+
+    // The current idToken is still flagged as anonymous. Best effort: a failed
+    // refresh leaves the old idToken, which keeps working until it expires.
+    await this.refreshShared(session);
+    if (this.session === session) {
+      await this.updateUser({ uid: session.uid, emailVerified: false });
+    }
+    return resultSuccessVoid();
+  }
+
+  public async signInWithProvider(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      { authorizationUrl: string },
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  > {
+    const response = await this.post<AuthHttpProviderSignInResponse>(
+      authHttpRoutes.providerSignIn,
+      { providerId: args.providerId, redirectUri: args.redirectUri },
+    );
+    if (!response.ok) {
+      return response.error.code === 'provider-not-found'
+        ? resultError.withCode('provider-not-found')
+        : resultError.unknown(describeError(response.error));
+    }
+    return resultSuccess({ authorizationUrl: response.body.authorizationUrl });
+  }
+
+  public async completeProviderSignIn(args: {
+    callbackUrl: string;
+    client?: AuthClientMetadata;
+  }): Promise<
+    Result<
+      AuthSignInOutcome,
+      | ErrorWithCode<'invalid-oidc-state'>
+      | ErrorWithCode<'oidc-state-expired'>
+      | ErrorWithCode<'provider-error'>
+      | ErrorWithCode<'invalid-id-token'>
+      | ErrorWithCode<'email-not-available'>
+      | ErrorUnknown
+    >
+  > {
+    const { state, code, error } = parseOidcCallback(args.callbackUrl);
+    if (error !== undefined) {
+      return resultError.withCode('provider-error');
+    }
+    if (state === undefined || code === undefined) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+
+    const response = await this.post<AuthHttpProviderSignInCompleteResponse>(
+      authHttpRoutes.providerSignInComplete,
+      {
+        state,
+        code,
+        ...(args.client && {
+          client: {
+            userAgent: args.client.userAgent,
+            deviceName: args.client.deviceName,
+          },
+        }),
+      },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-oidc-state':
+          return resultError.withCode('invalid-oidc-state');
+        case 'oidc-state-expired':
+          return resultError.withCode('oidc-state-expired');
+        case 'provider-error':
+          return resultError.withCode('provider-error');
+        case 'invalid-id-token':
+          return resultError.withCode('invalid-id-token');
+        case 'email-already-in-use':
+          return resultError.withCode('email-not-available');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccess(await this.finishSignIn(response.body));
+  }
+
+  public async linkProvider(args: {
+    providerId: string;
+    redirectUri: string;
+  }): Promise<
+    Result<
+      { authorizationUrl: string },
+      ErrorWithCode<'provider-not-found'> | ErrorUnknown
+    >
+  > {
+    const response = await this.postAuthenticated<AuthHttpProviderLinkResponse>(
+      authHttpRoutes.providerLink,
+      { providerId: args.providerId, redirectUri: args.redirectUri },
+    );
+    if (!response.ok) {
+      return response.error.code === 'provider-not-found'
+        ? resultError.withCode('provider-not-found')
+        : resultError.unknown(describeError(response.error));
+    }
+    return resultSuccess({ authorizationUrl: response.body.authorizationUrl });
+  }
+
+  public async completeProviderLink(args: {
+    callbackUrl: string;
+  }): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'invalid-oidc-state'>
+      | ErrorWithCode<'oidc-state-expired'>
+      | ErrorWithCode<'provider-error'>
+      | ErrorWithCode<'invalid-id-token'>
+      | ErrorWithCode<'identity-already-linked'>
+      | ErrorUnknown
+    >
+  > {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+    const { state, code, error } = parseOidcCallback(args.callbackUrl);
+    if (error !== undefined) {
+      return resultError.withCode('provider-error');
+    }
+    if (state === undefined || code === undefined) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+
+    const response = await this.postAuthenticated(
+      authHttpRoutes.providerLinkComplete,
+      { state, code },
+    );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'invalid-oidc-state':
+          return resultError.withCode('invalid-oidc-state');
+        case 'oidc-state-expired':
+          return resultError.withCode('oidc-state-expired');
+        case 'provider-error':
+          return resultError.withCode('provider-error');
+        case 'invalid-id-token':
+          return resultError.withCode('invalid-id-token');
+        case 'identity-already-linked':
+          return resultError.withCode('identity-already-linked');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+
+    // An anonymous user's idToken stays flagged until it is refreshed. Best
+    // effort, as in linkWithEmailAndPassword.
+    if (this.authState.value?.isAnonymous) {
+      await this.refreshShared(session);
+      if (this.session === session) {
+        await this.updateUser({
+          uid: session.uid,
+          emailVerified: this.authState.value?.emailVerified ?? false,
+        });
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async listSessions(): Promise<
+    Result<AuthSessionInfo[], ErrorUnknown>
+  > {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated<AuthHttpSessionsResponse>(
+      authHttpRoutes.sessions,
+      {},
+    );
+    if (!response.ok) {
+      return resultError.unknown(describeError(response.error));
+    }
+    return resultSuccess(
+      response.body.sessions.map((info) => ({
+        ...info,
+        current: info.id === session.sessionId,
+      })),
+    );
+  }
+
+  public async revokeSession(
+    sessionId: string,
+  ): Promise<Result<void, ErrorWithCode<'session-not-found'> | ErrorUnknown>> {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const response = await this.postAuthenticated(
+      authHttpRoutes.revokeSession,
+      { sessionId },
+    );
+    if (!response.ok) {
+      return response.error.code === 'session-not-found'
+        ? resultError.withCode('session-not-found')
+        : resultError.unknown(describeError(response.error));
+    }
+
+    if (sessionId === session.sessionId && this.session === session) {
+      await this.clearSession('signed-out');
+    }
+    return resultSuccessVoid();
+  }
+
+  public async signOutOtherSessions(): Promise<Result<void, ErrorUnknown>> {
+    const session = await this.currentSession();
+    if (!session) {
+      return resultError.unknown('No user signed in');
+    }
+
+    const listed = await this.postAuthenticated<AuthHttpSessionsResponse>(
+      authHttpRoutes.sessions,
+      {},
+    );
+    if (!listed.ok) {
+      return resultError.unknown(describeError(listed.error));
+    }
+
+    for (const { id } of listed.body.sessions) {
+      if (id === session.sessionId) {
+        continue;
+      }
+      const revoked = await this.postAuthenticated(
+        authHttpRoutes.revokeSession,
+        { sessionId: id },
+      );
+      // A session that ended in the meantime is already signed out.
+      if (!revoked.ok && revoked.error.code !== 'session-not-found') {
+        return resultError.unknown(describeError(revoked.error));
+      }
+    }
+    return resultSuccessVoid();
+  }
+
+  public async enrollTotp(): Promise<
+    Result<
+      { secret: string; uri: string },
+      ErrorWithCode<'mfa-already-enrolled'> | ErrorUnknown
+    >
+  > {
+    const response = await this.postAuthenticated<AuthHttpTotpEnrollResponse>(
+      authHttpRoutes.totpEnroll,
+      {},
+    );
+    if (!response.ok) {
+      return response.error.code === 'mfa-already-enrolled'
+        ? resultError.withCode('mfa-already-enrolled')
+        : resultError.unknown(describeError(response.error));
+    }
+    return resultSuccess(response.body);
+  }
+
+  public async confirmTotpEnrollment(
+    code: string,
+  ): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorUnknown
+    >
+  > {
+    const response =
+      await this.postAuthenticated<AuthHttpRecoveryCodesResponse>(
+        authHttpRoutes.totpConfirm,
+        { code },
+      );
+    if (!response.ok) {
+      switch (response.error.code) {
+        case 'mfa-not-enrolled':
+          return resultError.withCode('mfa-not-enrolled');
+        case 'invalid-mfa-code':
+          return resultError.withCode('invalid-mfa-code');
+        default:
+          return resultError.unknown(describeError(response.error));
+      }
+    }
+    return resultSuccess(response.body);
+  }
+
+  public async unenrollTotp(
+    proof: AuthSecondFactorProof,
+  ): Promise<
+    Result<
+      void,
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const response = await this.postAuthenticated(
+      authHttpRoutes.totpUnenroll,
+      proof,
+    );
+    return response.ok
+      ? resultSuccessVoid()
+      : secondFactorError(response.error);
+  }
+
+  public async regenerateRecoveryCodes(
+    proof: AuthSecondFactorProof,
+  ): Promise<
+    Result<
+      { recoveryCodes: string[] },
+      | ErrorWithCode<'mfa-not-enrolled'>
+      | ErrorWithCode<'invalid-mfa-code'>
+      | ErrorWithCode<'invalid-recovery-code'>
+      | TooManyAttemptsError
+      | ErrorUnknown
+    >
+  > {
+    const response =
+      await this.postAuthenticated<AuthHttpRecoveryCodesResponse>(
+        authHttpRoutes.recoveryCodesRegenerate,
+        proof,
+      );
+    return response.ok
+      ? resultSuccess(response.body)
+      : secondFactorError(response.error);
+  }
+
+  // Sends the user's answer to the challenge of the last sign-in. A challenge
+  // the server no longer accepts is dropped.
+  private async answerMfaChallenge(
+    route: AuthHttpRoute,
+    answer: { code: string } | { recoveryCode: string },
+  ): Promise<HttpResponse<AuthHttpMfaSignInResponse>> {
+    const pending = this.pendingMfaChallenge;
+    if (!pending) {
+      return {
+        ok: false,
+        status: 401,
+        error: { code: 'invalid-mfa-challenge', message: 'No sign-in pending' },
+      };
+    }
+
+    const response = await this.post<AuthHttpMfaSignInResponse>(route, {
+      mfaChallenge: pending.challenge,
+      ...answer,
+    });
+    if (response.ok) {
+      this.pendingMfaChallenge = undefined;
+      await this.startSession(response.body, pending.persistent);
+    } else if (
+      response.error.code === 'invalid-mfa-challenge' ||
+      response.error.code === 'mfa-challenge-expired'
+    ) {
+      this.pendingMfaChallenge = undefined;
+    }
+    return response;
+  }
+
+  // Retries once with a fresh idToken when the current one has expired or was
+  // revoked. A refresh token the server no longer accepts ends the session.
+  private async postAuthenticated<T>(
+    route: AuthHttpRoute,
+    body: object,
+  ): Promise<HttpResponse<T>> {
+    const session = await this.currentSession();
+    if (!session) {
+      return {
+        ok: false,
+        status: 401,
+        error: { code: 'unauthenticated', message: 'No user signed in' },
+      };
+    }
+
+    if (this.isIdTokenDue(session)) {
+      const refreshed = await this.refreshShared(session);
+      if (!refreshed.ok) {
+        return refreshed;
+      }
+    }
+    const response = await this.post<T>(route, body, session.idToken);
+    if (
+      response.ok ||
+      (response.error.code !== 'token-expired' &&
+        response.error.code !== 'token-revoked')
+    ) {
+      return response;
+    }
+
+    const refreshed = await this.refreshShared(session);
+    if (!refreshed.ok) {
+      return refreshed;
+    }
+    return this.post<T>(route, body, session.idToken);
+  }
+
+  private isIdTokenDue(session: Session): boolean {
+    return (
+      this.clock.now() >= session.idTokenExpiresAt - idTokenRefreshMarginMs
+    );
+  }
+
+  private refreshShared(session: Session): Promise<HttpResponse<unknown>> {
+    if (!this.inFlightRefresh) {
+      this.inFlightRefresh = this.refreshSession(session).finally(() => {
+        this.inFlightRefresh = undefined;
+      });
+    }
+    return this.inFlightRefresh;
+  }
+
+  // Only an answer that the refresh token or its user is gone ends the
+  // session. Without a network, on a server error or while rate limited it is
+  // kept, so a later call can try again.
+  private async refreshSession(
+    session: Session,
+  ): Promise<HttpResponse<unknown>> {
+    const refreshed = await this.post<AuthHttpRefreshResponse>(
+      authHttpRoutes.refresh,
+      { refreshToken: session.refreshToken },
+    );
+    if (!refreshed.ok) {
+      const reason = sessionEndedReason(refreshed.error);
+      if (this.session === session && reason) {
+        this.sessionEnded.next({ reason });
+        await this.clearSession('signed-out');
+      }
+      return refreshed;
+    }
+
+    session.idToken = refreshed.body.idToken;
+    session.idTokenExpiresAt = refreshed.body.idTokenExpiresAt;
+    session.refreshToken = refreshed.body.refreshToken;
+    if (this.session === session) {
+      this.claims.next(refreshed.body.claims);
+      this.idToken.next(session.idToken);
+      this.scheduleBackgroundRefresh();
+      // The old refresh token is spent, so the stored one must be replaced,
+      // and the other instances must stop using it.
+      await this.publishSession('token-refreshed');
+    }
+    return refreshed;
+  }
+
+  // A session, or a challenge kept for completeMfaSignIn.
+  // persistent only matters for sign-ins that let the user choose; the others
+  // keep the session.
+  private async finishSignIn(
+    body: AuthHttpSignInResponse,
+    persistent = true,
+  ): Promise<AuthSignInOutcome> {
+    if (body.mfaRequired) {
+      this.pendingMfaChallenge = { challenge: body.mfaChallenge, persistent };
+      return { mfaRequired: true, factors: body.factors };
+    }
+    this.pendingMfaChallenge = undefined;
+    await this.startSession(body, persistent);
+    return { mfaRequired: false };
+  }
+
+  private startSession(
+    body: AuthHttpSessionResponse,
+    persistent: boolean,
+  ): Promise<void> {
+    this.useSession({
+      uid: body.uid,
+      sessionId: body.sessionId,
+      idToken: body.idToken,
+      idTokenExpiresAt: body.idTokenExpiresAt,
+      refreshToken: body.refreshToken,
+      persistent,
+      user: {
+        uid: body.uid,
+        emailVerified: body.emailVerified,
+        ...(body.isAnonymous && { isAnonymous: true }),
+      },
+      claims: body.claims,
+    });
+    return this.publishSession('signed-in');
+  }
+
+  private async updateEmailVerified(
+    uid: UserId,
+    emailVerified: boolean,
+  ): Promise<void> {
+    if (this.session?.uid === uid) {
+      await this.updateUser({ uid, emailVerified });
+    }
+  }
+
+  private updateUser(user: BackendAuthUser): Promise<void> {
+    this.authState.next(user);
+    return this.publishSession('user-updated');
+  }
+
+  private useSession(stored: StoredSession): void {
+    const { user, claims, ...session } = stored;
+    this.session = session;
+    this.claims.next(claims);
+    this.idToken.next(session.idToken);
+    this.authState.next(user);
+    this.scheduleBackgroundRefresh();
+  }
+
+  // Ends the session here and in storage. message tells the other instances
+  // on the channel to end it too.
+  private async clearSession(
+    message?: 'signed-out' | 'account-deleted',
+  ): Promise<void> {
+    this.session = null;
+    this.claims.next(null);
+    this.idToken.next(null);
+    this.authState.next(null);
+    this.scheduleBackgroundRefresh();
+    await Promise.all([
+      message && this.channel?.post({ type: message }),
+      this.persistentStorage.remove(storedSessionKey),
+      this.sessionStorage.remove(storedSessionKey),
+    ]);
+  }
+
+  // The session, once a stored one has had the chance to be resumed.
+  private async currentSession(): Promise<Session | null> {
+    await this.restoration;
+    return this.session;
+  }
+
+  // Resumes the stored session as it was, without asking the server. An
+  // idToken that expired meanwhile is refreshed on first use, and a refresh
+  // token the server no longer accepts ends the session then.
+  private async restoreSession(): Promise<void> {
+    const stored = await this.readStoredSession();
+    // A sign-in or sign-out while reading wins over what was stored.
+    if (this.authState.value !== undefined) {
+      return;
+    }
+    if (!stored) {
+      this.claims.next(null);
+      this.idToken.next(null);
+      this.authState.next(null);
+      return;
+    }
+    this.useSession(stored);
+  }
+
+  private async readStoredSession(): Promise<StoredSession | undefined> {
+    for (const storage of [this.persistentStorage, this.sessionStorage]) {
+      const read = unwrapResult(await storage.get(storedSessionKey));
+      const stored =
+        read.ok && read.value !== undefined
+          ? parseStoredSession(read.value)
+          : undefined;
+      if (stored) {
+        return stored;
+      }
+    }
+    return undefined;
+  }
+
+  // Stores the session and tells the other instances on the channel.
+  private async publishSession(
+    type: 'signed-in' | 'token-refreshed' | 'user-updated',
+  ): Promise<void> {
+    const session = this.session;
+    const user = this.authState.value;
+    const claims = this.claims.value;
+    if (!session || !user || !claims) {
+      return;
+    }
+    const stored: StoredSession = { ...session, user, claims };
+    await Promise.all([
+      this.channel?.post({ type, session: JSON.stringify(stored) }),
+      this.saveSession(stored),
+    ]);
+  }
+
+  // Keeps the session in the storage its sign-in asked for, and out of the
+  // other one. The writes start before the first await, so a new instance
+  // created right after sees them with synchronous storage like localStorage.
+  // A failed write only costs resuming the session later.
+  private async saveSession(stored: StoredSession): Promise<void> {
+    const [storage, otherStorage] = stored.persistent
+      ? [this.persistentStorage, this.sessionStorage]
+      : [this.sessionStorage, this.persistentStorage];
+    await Promise.all([
+      otherStorage.remove(storedSessionKey),
+      storage.set(storedSessionKey, JSON.stringify(stored)),
+    ]);
+  }
+
+  // Follows what another instance did, without telling the others again.
+  private async receive(message: AuthChannelMessage): Promise<void> {
+    switch (message.type) {
+      case 'signed-in':
+      case 'token-refreshed':
+      case 'user-updated': {
+        const stored = parseStoredSession(message.session);
+        if (stored) {
+          this.useSession(stored);
+          await this.saveSession(stored);
+        }
+        return;
+      }
+      case 'signed-out':
+      case 'account-deleted':
+        await this.clearSession();
+        return;
+    }
+  }
+
+  // Only the instance leading the channel refreshes ahead of time. Without a
+  // channel, or when another leads, the idToken is refreshed when next used.
+  private scheduleBackgroundRefresh(delayMs?: number): void {
+    this.cancelBackgroundRefresh?.();
+    this.cancelBackgroundRefresh = undefined;
+    const session = this.session;
+    if (!this.isLeader || !session) {
+      return;
+    }
+    this.cancelBackgroundRefresh = this.clock.setTimer(
+      () => this.refreshInBackground(session),
+      delayMs ??
+        Math.max(
+          0,
+          session.idTokenExpiresAt -
+            backgroundRefreshMarginMs -
+            this.clock.now(),
+        ),
+    );
+  }
+
+  // A refresh that succeeds schedules the next one itself.
+  private async refreshInBackground(session: Session): Promise<void> {
+    const refreshed = await this.refreshShared(session);
+    if (!refreshed.ok && this.session === session) {
+      this.scheduleBackgroundRefresh(backgroundRetryMs);
+    }
+  }
+
+  private async post<T = Record<string, never>>(
+    route: AuthHttpRoute,
+    body: object,
+    idToken?: string,
+  ): Promise<HttpResponse<T>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (idToken) {
+      headers.Authorization = `Bearer ${idToken}`;
+    }
+
+    let status: number;
+    let payload: unknown;
+    try {
+      const response = await this.fetch(`${this.baseUrl}${route}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+      status = response.status;
+      payload = await response.json();
+    } catch (error) {
+      return {
+        ok: false,
+        status: 0,
+        error: {
+          code: 'network-error',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    if (status >= 200 && status < 300) {
+      return { ok: true, body: payload as T };
+    }
+    return { ok: false, status, error: toErrorBody(payload) };
+  }
+}
+
+function toErrorBody(payload: unknown): AuthHttpErrorBody {
+  const { code, message, failedRules, retryAfterMs } = (payload ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+    failedRules?: unknown;
+    retryAfterMs?: unknown;
+  };
+  return {
+    code: typeof code === 'string' ? code : 'unknown',
+    message: typeof message === 'string' ? message : undefined,
+    ...(Array.isArray(failedRules) && {
+      failedRules: failedRules.filter(
+        (rule): rule is string => typeof rule === 'string',
+      ),
+    }),
+    ...(typeof retryAfterMs === 'number' && { retryAfterMs }),
+  };
+}
+
+// Anything not written by saveSession, e.g. by an older version, counts as no
+// session.
+function parseStoredSession(value: string): StoredSession | undefined {
+  let stored: Partial<StoredSession>;
+  try {
+    stored = JSON.parse(value) ?? {};
+  } catch {
+    return undefined;
+  }
+  const {
+    uid,
+    sessionId,
+    idToken,
+    idTokenExpiresAt,
+    refreshToken,
+    persistent,
+    user,
+  } = stored;
+  if (
+    typeof uid !== 'string' ||
+    typeof sessionId !== 'string' ||
+    typeof idToken !== 'string' ||
+    typeof idTokenExpiresAt !== 'number' ||
+    typeof refreshToken !== 'string' ||
+    typeof persistent !== 'boolean' ||
+    user?.uid !== uid ||
+    typeof stored.claims !== 'object' ||
+    stored.claims === null
+  ) {
+    return undefined;
+  }
+  return {
+    uid,
+    sessionId,
+    idToken,
+    idTokenExpiresAt,
+    refreshToken,
+    persistent,
+    user,
+    claims: stored.claims,
+  };
+}
+
+// Undefined for the failures the session outlives.
+function sessionEndedReason(
+  error: AuthHttpErrorBody,
+): AuthSessionEndedReason | undefined {
+  switch (error.code) {
+    case 'invalid-refresh-token':
+    case 'refresh-token-expired':
+    case 'refresh-token-reused':
+    case 'user-not-found':
+      return error.code;
+    default:
+      return undefined;
+  }
+}
+
+// Errors of the endpoints that want proof of the second factor.
+function secondFactorError(
+  error: AuthHttpErrorBody,
+): Result<
+  never,
+  | ErrorWithCode<'mfa-not-enrolled'>
+  | ErrorWithCode<'invalid-mfa-code'>
+  | ErrorWithCode<'invalid-recovery-code'>
+  | TooManyAttemptsError
+  | ErrorUnknown
+> {
+  switch (error.code) {
+    case 'mfa-not-enrolled':
+      return resultError.withCode('mfa-not-enrolled');
+    case 'invalid-mfa-code':
+      return resultError.withCode('invalid-mfa-code');
+    case 'invalid-recovery-code':
+      return resultError.withCode('invalid-recovery-code');
+    case 'too-many-attempts':
+      return tooManyAttemptsError(error.retryAfterMs ?? 0);
+    default:
+      return resultError.unknown(describeError(error));
+  }
+}
+
+// Errors of the endpoints that check a code texted to the user.
+function phoneCodeError(
+  error: AuthHttpErrorBody,
+): Result<
+  never,
+  | ErrorWithCode<'invalid-verification-id'>
+  | ErrorWithCode<'code-expired'>
+  | ErrorWithCode<'invalid-code'>
+  | ErrorWithCode<'too-many-attempts'>
+  | ErrorUnknown
+> {
+  switch (error.code) {
+    case 'invalid-verification-id':
+      return resultError.withCode('invalid-verification-id');
+    case 'code-expired':
+      return resultError.withCode('code-expired');
+    case 'invalid-code':
+      return resultError.withCode('invalid-code');
+    case 'too-many-attempts':
+      return resultError.withCode('too-many-attempts');
+    default:
+      return resultError.unknown(describeError(error));
+  }
+}
+
+// Rules this client does not know, from a newer server, are left out.
+function readFailedRules(error: AuthHttpErrorBody): PasswordRule[] {
+  return (error.failedRules ?? []).filter((rule): rule is PasswordRule =>
+    (passwordRules as ReadonlyArray<string>).includes(rule),
+  );
+}
+
+function describeError(error: AuthHttpErrorBody): string {
+  const description = error.message
+    ? `${error.code}: ${error.message}`
+    : error.code;
+  return error.failedRules?.length
+    ? `${description} (${error.failedRules.join(', ')})`
+    : description;
+}
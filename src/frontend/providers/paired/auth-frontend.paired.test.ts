@@ -0,0 +1,139 @@
+import { firstValueFrom } from 'rxjs';
+import { AuthFrontendPaired } from './auth-frontend.paired';
+import { testAuthFrontend } from '../../core/auth-frontend.generic.test';
+import { AuthBackendTesting } from '../../../backend/providers/testing/auth-backend.testing';
+import { FakeOidcProvider } from '../../../oidc/fake-oidc-provider';
+import { InMemoryAuthMailer } from '../../../mailer/providers/memory/auth-mailer.memory';
+import { InMemorySmsSender } from '../../../sms-sender/providers/memory/sms-sender.memory';
+import { ManualClock } from '../../../clock/clock';
+import { IAuthFrontend } from '../../core/auth-frontend.interface';
+import { InMemoryAuthStorage } from '../../../auth-storage/providers/memory/auth-storage.memory';
+import { InMemoryAuthChannel } from '../../../auth-channel/providers/memory/auth-channel.memory';
+
+type FrontendStorage = {
+  persistentStorage: InMemoryAuthStorage;
+  sessionStorage: InMemoryAuthStorage;
+};
+
+describe('AuthFrontendPaired', () => {
+  const clock = new ManualClock();
+  const oidcProvider = new FakeOidcProvider({ clock });
+  const mailer = new InMemoryAuthMailer({ clock });
+  const smsSender = new InMemorySmsSender({ clock });
+  const backend = new AuthBackendTesting({
+    mailer,
+    smsSender,
+    oidcProviders: [oidcProvider.config],
+    oidcFetch: oidcProvider.fetch,
+    clock,
+  });
+
+  // Reloads reuse the storage of the frontend they reload.
+  const storageOf = new WeakMap<IAuthFrontend, FrontendStorage>();
+  function createFrontend(
+    storage: FrontendStorage = {
+      persistentStorage: new InMemoryAuthStorage(),
+      sessionStorage: new InMemoryAuthStorage(),
+    },
+  ): AuthFrontendPaired {
+    const auth = new AuthFrontendPaired(backend, { clock, ...storage });
+    storageOf.set(auth, storage);
+    return auth;
+  }
+
+  let browserCount = 0;
+  testAuthFrontend(() => createFrontend(), {
+    oidcProvider,
+    mailer,
+    smsSender,
+    clock,
+    reload: (auth) => createFrontend(storageOf.get(auth)),
+    createWithOptions: (configuration) =>
+      new AuthFrontendPaired(new AuthBackendTesting(configuration), {
+        clock: configuration.clock,
+      }),
+    openTabs: () => {
+      const channelName = `paired-browser-${++browserCount}`;
+      const persistentStorage = new InMemoryAuthStorage();
+      const openTab = () =>
+        new AuthFrontendPaired(backend, {
+          clock,
+          persistentStorage,
+          sessionStorage: new InMemoryAuthStorage(),
+          channel: new InMemoryAuthChannel(channelName),
+        });
+      return [openTab(), openTab()];
+    },
+  });
+
+  describe('AuthFrontendPaired specific features', () => {
+    const password = 'testPassword123';
+    let auth: AuthFrontendPaired;
+    let email: string;
+
+    beforeEach(() => {
+      auth = createFrontend();
+      email = `paired-${Date.now()}-${Math.random()}@example.com`;
+    });
+
+    it('should sign in a user created on the backend', async () => {
+      const { uid } = (
+        await backend.signUpWithEmailPassword({ email, password })
+      ).unwrapOrThrow();
+
+      await auth.signInWithEmailAndPassword({
+        email,
+        password,
+        persistent: true,
+      });
+
+      expect((await firstValueFrom(auth.authState$))?.uid).toBe(uid);
+    });
+
+    it('should create its sign-ups on the backend', async () => {
+      const uid = await auth.signUp(email, password);
+
+      expect((await backend.getUidByEmail(email)).unwrapOrThrow().uid).toBe(
+        uid,
+      );
+    });
+
+    it('should hand out idTokens the backend accepts', async () => {
+      const uid = await auth.signUp(email, password);
+      await auth.signInWithEmailAndPassword({
+        email,
+        password,
+        persistent: true,
+      });
+
+      const idToken = await auth.getIdToken();
+
+      expect((await backend.getUidFromIdToken(idToken)).unwrapOrThrow()).toBe(
+        uid,
+      );
+    });
+
+    it('should fire the backend events for its sign-ups and deletions', async () => {
+      const created: string[] = [];
+      const deleted: string[] = [];
+      const subscriptions = [
+        backend.onUserCreated$.subscribe(({ uid }) => created.push(uid)),
+        backend.onUserDeleted$.subscribe(({ uid }) => deleted.push(uid)),
+      ];
+
+      const uid = await auth.signUp(email, password);
+      await auth.signInWithEmailAndPassword({
+        email,
+        password,
+        persistent: true,
+      });
+      await auth.deleteAccount();
+
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      expect(created).toEqual([uid]);
+      expect(deleted).toEqual([uid]);
+      const lookup = await backend.getUidByEmail(email);
+      expect(() => lookup.unwrapOrThrow()).toThrow();
+    });
+  });
+});
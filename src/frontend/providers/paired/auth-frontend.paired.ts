@@ -0,0 +1,74 @@
+import { IAuthBackend } from '../../../backend/core/auth-backend.interface';
+import {
+  AuthHttpLogger,
+  AuthHttpRoutes,
+  createAuthBackendRoutes,
+  runAuthRoute,
+} from '../../../backend/http/auth-backend.http-handler';
+import {
+  AuthFetch,
+  AuthFrontendHttp,
+  AuthFrontendHttpOptions,
+} from '../http/auth-frontend.http';
+
+export type AuthFrontendPairedOptions = Omit<
+  AuthFrontendHttpOptions,
+  'baseUrl' | 'fetch'
+> & {
+  // Gets the details of unknown errors on the backend. Defaults to console.
+  logger?: AuthHttpLogger;
+};
+
+// Never resolved: requests to it are answered in-process.
+const pairedBaseUrl = 'http://paired.invalid';
+
+/**
+ * Answers the frontend's requests with the routes, in this process and
+ * without a server. Bodies are serialised both ways, as over a network, so
+ * the two sides never share objects.
+ */
+export function createAuthRoutesFetch(
+  routes: AuthHttpRoutes,
+  logger?: AuthHttpLogger,
+): AuthFetch {
+  return async (url, init) => {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(init.headers)) {
+      headers[name.toLowerCase()] = value;
+    }
+    const result = await runAuthRoute(
+      routes,
+      new URL(url).pathname,
+      {
+        body: JSON.parse(init.body) as Record<string, unknown>,
+        headers,
+      },
+      logger,
+    );
+    const body = JSON.stringify(result.body);
+    return {
+      status: result.status,
+      json: async () => JSON.parse(body) as unknown,
+    };
+  };
+}
+
+/**
+ * A frontend on top of a backend instance, e.g. AuthBackendTesting, for
+ * full-stack tests in one process. It speaks the HTTP contract to the
+ * backend's routes in-process, so users created on either side exist on
+ * both, its idTokens are the backend's own, and the backend's events fire
+ * for its sign-ups and deletions. Give both the same clock.
+ */
+export class AuthFrontendPaired extends AuthFrontendHttp {
+  constructor(
+    backend: IAuthBackend,
+    { logger, ...options }: AuthFrontendPairedOptions = {},
+  ) {
+    super({
+      ...options,
+      baseUrl: pairedBaseUrl,
+      fetch: createAuthRoutesFetch(createAuthBackendRoutes(backend), logger),
+    });
+  }
+}
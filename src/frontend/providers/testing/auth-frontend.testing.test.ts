@@ -1,9 +1,46 @@
+import { filter, firstValueFrom } from 'rxjs';
 import { AuthFrontendTesting } from './auth-frontend.testing';
 import { testAuthFrontend } from '../../core/auth-frontend.generic.test';
+import { InMemoryAuthMailer } from '../../../mailer/providers/memory/auth-mailer.memory';
+import { InMemorySmsSender } from '../../../sms-sender/providers/memory/sms-sender.memory';
+import { FakeOidcProvider } from '../../../oidc/fake-oidc-provider';
+import { unwrapResult } from '../../../utils/result.utils';
+import { ManualClock } from '../../../clock/clock';
+import { IAuthChannel } from '../../../auth-channel/core/auth-channel.interface';
+import { InMemoryAuthChannel } from '../../../auth-channel/providers/memory/auth-channel.memory';
 
 describe('AuthTesting Core', () => {
-  const authFactory = () => new AuthFrontendTesting();
-  testAuthFrontend(authFactory);
+  const clock = new ManualClock();
+  const oidcProvider = new FakeOidcProvider({ clock });
+  const mailer = new InMemoryAuthMailer({ clock });
+  const smsSender = new InMemorySmsSender({ clock });
+  const authFactory = (channel?: IAuthChannel) =>
+    new AuthFrontendTesting({
+      mailer,
+      smsSender,
+      oidcProviders: [oidcProvider.config],
+      oidcFetch: oidcProvider.fetch,
+      clock,
+      channel,
+    });
+  let browserCount = 0;
+  testAuthFrontend(authFactory, {
+    oidcProvider,
+    mailer,
+    smsSender,
+    clock,
+    reload: (auth) => (auth as AuthFrontendTesting).reloadTestInstance(),
+    createWithOptions: (configuration) =>
+      new AuthFrontendTesting(configuration),
+    openTabs: () => {
+      const channelName = `testing-browser-${++browserCount}`;
+      const tab = authFactory(new InMemoryAuthChannel(channelName));
+      return [
+        tab,
+        tab.openTestTab({ channel: new InMemoryAuthChannel(channelName) }),
+      ];
+    },
+  });
 });
 
 describe('AuthTesting Implementation', () => {
@@ -43,5 +80,172 @@ describe('AuthTesting Implementation', () => {
       expect(await auth.isEmailAvailable('user1@example.com')).toBe(false);
       expect(await auth.isEmailAvailable('user2@example.com')).toBe(false);
     });
+
+    it('should sign in again once unlockTestSignIn lifts a lockout', async () => {
+      auth = new AuthFrontendTesting({
+        bruteForceProtection: { account: { lockoutAfter: 2 } },
+      });
+      auth.addTestUser('guessed@example.com', 'password123');
+      const credentials = {
+        email: 'guessed@example.com',
+        password: 'password123',
+        persistent: true,
+      };
+      await auth.signInWithEmailAndPassword({ ...credentials, password: 'a' });
+      await auth.signInWithEmailAndPassword({ ...credentials, password: 'b' });
+
+      const locked = await auth.signInWithEmailAndPassword(credentials);
+      await auth.unlockTestSignIn('guessed@example.com');
+      const unlocked = await auth.signInWithEmailAndPassword(credentials);
+
+      expect(unwrapResult(locked)).toEqual({
+        ok: false,
+        error: expect.objectContaining({
+          code: 'too-many-attempts',
+          retryAfterMs: expect.any(Number),
+        }),
+      });
+      expect(unwrapResult(unlocked).ok).toBe(true);
+    });
+
+    it('should verify the email with the issued token', async () => {
+      auth.addTestUser('verify@example.com', 'password123');
+      await auth.signInWithEmailAndPassword({
+        email: 'verify@example.com',
+        password: 'password123',
+        persistent: true,
+      });
+
+      await auth.sendEmailVerification();
+      const [token] = auth.getEmailVerificationTokens();
+      const result = await auth.verifyEmail(token);
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+      expect((await firstValueFrom(auth.authState$))?.emailVerified).toBe(true);
+    });
+
+    it('should list and sign out sessions added on other devices', async () => {
+      const uid = auth.addTestUser('sessions@example.com', 'password123');
+      await auth.signInWithEmailAndPassword({
+        email: 'sessions@example.com',
+        password: 'password123',
+        persistent: true,
+      });
+      const otherId = await auth.addTestSession(uid, {
+        deviceName: 'Tablet',
+      });
+
+      const sessions = (await auth.listSessions()).unwrapOrThrow();
+      expect(sessions.length).toBe(2);
+      expect(sessions.find((session) => session.id === otherId)).toEqual(
+        expect.objectContaining({
+          current: false,
+          client: { deviceName: 'Tablet' },
+        }),
+      );
+
+      await auth.signOutOtherSessions();
+      const remaining = (await auth.listSessions()).unwrapOrThrow();
+      expect(remaining.map((session) => session.current)).toEqual([true]);
+    });
+
+    it('should publish changed claims once the idToken is refreshed', async () => {
+      const uid = auth.addTestUser('claims@example.com', 'password123');
+      await auth.signInWithEmailAndPassword({
+        email: 'claims@example.com',
+        password: 'password123',
+        persistent: true,
+      });
+
+      auth.setTestCustomClaims(uid, { role: 'admin' });
+      expect(await firstValueFrom(auth.claims$)).toEqual({});
+
+      await auth.refreshTestIdToken();
+      expect(await firstValueFrom(auth.claims$)).toEqual({ role: 'admin' });
+    });
+
+    it('should end the session when the refresh finds it revoked', async () => {
+      auth.addTestUser('revoked@example.com', 'password123');
+      await auth.signInWithEmailAndPassword({
+        email: 'revoked@example.com',
+        password: 'password123',
+        persistent: true,
+      });
+      const [current] = (await auth.listSessions()).unwrapOrThrow();
+      const ended = firstValueFrom(auth.sessionEnded$);
+
+      auth.revokeTestSession(current.id);
+      const token = await auth.getIdToken();
+      const refresh = auth.getIdToken({ forceRefresh: true });
+
+      expect(token).toBeTruthy();
+      await expect(refresh).rejects.toThrow('invalid-refresh-token');
+      expect(await ended).toEqual({ reason: 'invalid-refresh-token' });
+      expect(await firstValueFrom(auth.authState$)).toBeNull();
+    });
+
+    it('should refresh the idToken of a tab in the background while it leads', async () => {
+      const clock = new ManualClock();
+      auth = new AuthFrontendTesting({
+        clock,
+        channel: new InMemoryAuthChannel('testing-leader'),
+      });
+      const otherTab = auth.openTestTab({
+        channel: new InMemoryAuthChannel('testing-leader'),
+      });
+      auth.addTestUser('leader@example.com', 'password123');
+      await auth.signInWithEmailAndPassword({
+        email: 'leader@example.com',
+        password: 'password123',
+        persistent: true,
+      });
+      const idToken = await auth.getIdToken();
+      const refreshed = firstValueFrom(
+        otherTab.idToken$.pipe(filter((token) => !!token && token !== idToken)),
+      );
+
+      clock.advance(51 * 60 * 1000);
+
+      expect(await refreshed).toBe(await otherTab.getIdToken());
+      await auth.signOut();
+    });
+
+    it('should expose unused sign-in links', async () => {
+      await auth.sendSignInLink('link@example.com');
+      const [link] = auth.getSignInLinks('link@example.com');
+
+      const result = await auth.signInWithEmailLink('link@example.com', link);
+
+      expect(result.unwrapOrThrow().sameDevice).toBe(true);
+      expect(auth.getSignInLinks('link@example.com')).toEqual([]);
+    });
+
+    it('should tell a link requested on another device apart', async () => {
+      const link = await auth.createTestSignInLink('elsewhere@example.com');
+
+      const result = await auth.signInWithEmailLink(
+        'elsewhere@example.com',
+        link,
+      );
+
+      expect(result.unwrapOrThrow()).toEqual({
+        mfaRequired: false,
+        sameDevice: false,
+      });
+    });
+
+    it('should expose the unused phone code', async () => {
+      const { verificationId } = (
+        await auth.sendPhoneSignInCode('+15550100')
+      ).unwrapOrThrow();
+
+      const result = await auth.signInWithPhoneCode({
+        verificationId,
+        code: auth.getPhoneCode('+15550100')!,
+      });
+
+      expect(result.unwrapOrThrow()).toEqual({ mfaRequired: false });
+      expect(auth.getPhoneCode('+15550100')).toBeUndefined();
+    });
   });
 });
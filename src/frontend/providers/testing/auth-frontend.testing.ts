@@ -1,236 +1,235 @@
-import { BehaviorSubject, Observable } from 'rxjs';
+import { randomUUID } from 'crypto';
+import { UserId } from '../../core/auth-frontend.interface';
+import type {
+  AuthClientMetadata,
+  AuthCustomClaims,
+} from '../../../auth-types/auth-types';
 import {
-  ErrorWithCode,
-  ErrorUnknown,
-  Result,
-  SuccessVoid,
-  resultSuccess,
-  resultSuccessVoid,
-  resultError,
-} from '@j2blasco/ts-result';
-import {
-  IAuthFrontend,
-  BackendAuthUser,
-  UserId,
-} from '../../core/auth-frontend.interface';
-
-interface FakeUser {
-  uid: UserId;
-  email: string;
-  password: string;
-}
-
-interface FakePasswordResetToken {
-  token: string;
-  email: string;
-  expiresAt: number;
+  AuthBackendTesting,
+  AuthBackendTestingOptions,
+} from '../../../backend/providers/testing/auth-backend.testing';
+import { IPasswordHasher } from '../../../password-hasher/core/password-hasher.interface';
+import { PasswordHasherScrypt } from '../../../password-hasher/providers/scrypt/password-hasher.scrypt';
+import { AuthUserStoreMemory } from '../../../backend/user-store/providers/memory/auth-user-store.memory';
+import { createAuthBackendRoutes } from '../../../backend/http/auth-backend.http-handler';
+import { IAuthStorage } from '../../../auth-storage/core/auth-storage.interface';
+import { InMemoryAuthStorage } from '../../../auth-storage/providers/memory/auth-storage.memory';
+import { IAuthChannel } from '../../../auth-channel/core/auth-channel.interface';
+import { AuthFrontendHttp } from '../http/auth-frontend.http';
+import { createAuthRoutesFetch } from '../paired/auth-frontend.paired';
+
+export type AuthFrontendTestingOptions = Omit<
+  AuthBackendTestingOptions,
+  'userStore'
+> & {
+  // Keep sessions like AuthFrontendHttp does. Both default to a new
+  // InMemoryAuthStorage, so only reloadTestInstance resumes a session.
+  persistentStorage?: IAuthStorage;
+  sessionStorage?: IAuthStorage;
+  // Keeps this instance in step with the others on the channel, like
+  // AuthFrontendHttp. openTestTab makes instances worth connecting.
+  channel?: IAuthChannel;
+};
+
+// What the instances of one simulated browser share: the backend behind them
+// and the device they run on.
+export type AuthFrontendTestingBrowser = {
+  backend: AuthBackendTesting;
+  // Where addTestUser puts users, past the backend's password policy.
+  userStore: AuthUserStoreMemory;
+  passwordHasher: IPasswordHasher;
+  deviceId: string;
+  // Changes from the synchronous test helpers. Every request waits for them.
+  setup: Promise<unknown>;
+};
+
+function openTestBrowser(
+  options: AuthFrontendTestingOptions,
+): AuthFrontendTestingBrowser {
+  const userStore = new AuthUserStoreMemory();
+  const passwordHasher = options.passwordHasher ?? new PasswordHasherScrypt();
+  return {
+    backend: new AuthBackendTesting({ ...options, userStore, passwordHasher }),
+    userStore,
+    passwordHasher,
+    deviceId: randomUUID(),
+    setup: Promise.resolve(),
+  };
 }
 
-export class AuthFrontendTesting implements IAuthFrontend {
-  private users: Map<string, FakeUser> = new Map();
-  private currentUser: BackendAuthUser | null = null;
-  private authState = new BehaviorSubject<BackendAuthUser | null | undefined>(
-    undefined,
-  );
-  private passwordResetTokens: Map<string, FakePasswordResetToken> = new Map();
-  private rateLimitTracker: Map<string, number> = new Map();
-  private idTokens: Map<string, string> = new Map();
-
-  constructor() {
-    this.authState.next(undefined);
+/**
+ * A frontend for tests, on an AuthBackendTesting of its own. It speaks the
+ * HTTP contract to the backend in-process like AuthFrontendPaired, and adds
+ * helpers that act on the backend the way other devices, administrators or
+ * mailboxes would.
+ */
+export class AuthFrontendTesting extends AuthFrontendHttp {
+  private readonly testOptions: AuthFrontendTestingOptions;
+  private readonly browser: AuthFrontendTestingBrowser;
+
+  // Instances from reloadTestInstance and openTestTab pass the browser of the
+  // instance they came from.
+  constructor(
+    options: AuthFrontendTestingOptions = {},
+    browser: AuthFrontendTestingBrowser = openTestBrowser(options),
+  ) {
+    const persistentStorage =
+      options.persistentStorage ?? new InMemoryAuthStorage();
+    const sessionStorage = options.sessionStorage ?? new InMemoryAuthStorage();
+    const routesFetch = createAuthRoutesFetch(
+      createAuthBackendRoutes(browser.backend),
+    );
+    super({
+      baseUrl: 'http://testing.invalid',
+      fetch: async (url, init) => {
+        await browser.setup;
+        return routesFetch(url, init);
+      },
+      deviceId: browser.deviceId,
+      clock: options.clock,
+      persistentStorage,
+      sessionStorage,
+      channel: options.channel,
+    });
+    this.testOptions = { ...options, persistentStorage, sessionStorage };
+    this.browser = browser;
   }
 
+  // Like an account created on the backend. The password policy does not
+  // apply, so tests can sign in with any password.
   public addTestUser(email: string, password: string, uid?: string): UserId {
     const userId =
       uid || `fake-user-${Math.random().toString(36).substring(2)}`;
-    this.users.set(email, { uid: userId, email, password });
+    // Hashed at once, with the hasher's policy of the moment.
+    const passwordHash = this.browser.passwordHasher.hash(password);
+    this.addSetup(async () =>
+      (
+        await this.browser.userStore.create({
+          uid: userId,
+          email,
+          passwordHash: await passwordHash,
+        })
+      ).unwrapOrThrow(),
+    );
     return userId;
   }
 
-  public getPasswordResetTokens(): string[] {
-    return Array.from(this.passwordResetTokens.keys());
-  }
-
-  public get authState$(): Observable<BackendAuthUser | null | undefined> {
-    return this.authState.asObservable();
-  }
-
-  public async signInWithEmailAndPassword(args: {
-    email: string;
-    password: string;
-    persistent: boolean;
-  }): Promise<
-    Result<
-      SuccessVoid,
-      | ErrorWithCode<'invalid-email'>
-      | ErrorWithCode<'user-not-found'>
-      | ErrorWithCode<'wrong-password'>
-      | ErrorUnknown
-    >
-  > {
-    if (!this.isValidEmail(args.email)) {
-      return resultError.withCode('invalid-email');
-    }
-
-    const user = this.users.get(args.email);
-    if (!user) {
-      return resultError.withCode('user-not-found');
-    }
-
-    if (user.password !== args.password) {
-      return resultError.withCode('wrong-password');
-    }
-
-    this.currentUser = { uid: user.uid };
-    this.authState.next(this.currentUser);
-    this.idTokens.set(user.uid, `fake-id-token-${user.uid}-${Date.now()}`);
-
-    return resultSuccessVoid();
-  }
-
-  public async getIdToken(): Promise<string> {
-    if (!this.currentUser) {
-      throw new Error('No user signed in');
-    }
-
-    const token = this.idTokens.get(this.currentUser.uid);
-    if (!token) {
-      throw new Error('No token available');
-    }
-
-    return token;
-  }
-
-  public async signOut(): Promise<void> {
-    if (this.currentUser) {
-      this.idTokens.delete(this.currentUser.uid);
-    }
-    this.currentUser = null;
-    this.authState.next(null);
-  }
-
-  public async isEmailAvailable(email: string): Promise<boolean> {
-    return !this.users.has(email);
-  }
-
-  public async changeEmail(
-    email: string,
-  ): Promise<
-    Result<void, ErrorWithCode<'email-not-available'> | ErrorUnknown>
-  > {
-    if (!this.currentUser) {
-      return resultError.unknown('No user signed in');
-    }
-
-    if (!(await this.isEmailAvailable(email))) {
-      return resultError.withCode('email-not-available');
-    }
-
-    for (const [oldEmail, user] of this.users.entries()) {
-      if (user.uid === this.currentUser.uid) {
-        this.users.delete(oldEmail);
-        this.users.set(email, { ...user, email });
-        break;
-      }
-    }
-
-    return resultSuccess(undefined);
-  }
-
-  public async triggerResetPasswordFlow(
-    email: string,
-  ): Promise<
-    Result<
-      SuccessVoid,
-      | ErrorWithCode<'rate-limit-exceeded'>
-      | ErrorWithCode<'email-not-in-database'>
-      | ErrorUnknown
-    >
-  > {
-    const lastRequest = this.rateLimitTracker.get(email) || 0;
-    const now = Date.now();
-    if (now - lastRequest < 60000) {
-      return resultError.withCode('rate-limit-exceeded');
-    }
-
-    if (!this.users.has(email)) {
-      return resultError.withCode('email-not-in-database');
-    }
-
-    const token = `fake-reset-token-${Math.random().toString(36).substring(2)}`;
-    this.passwordResetTokens.set(token, {
-      token,
-      email,
-      expiresAt: now + 3600000,
-    });
-
-    this.rateLimitTracker.set(email, now);
+  // Like setting claims on the backend: the signed-in user only sees them
+  // after refreshTestIdToken or the next sign-in.
+  public setTestCustomClaims(uid: UserId, claims: AuthCustomClaims): void {
+    this.addSetup(async () =>
+      (
+        await this.browser.backend.setCustomClaims({ uid, claims })
+      ).unwrapOrThrow(),
+    );
+  }
 
-    return resultSuccessVoid();
+  // Simulates the idToken expiring and being refreshed.
+  public async refreshTestIdToken(): Promise<void> {
+    await this.getIdToken({ forceRefresh: true });
   }
 
-  public async requestChangePassword(args: {
-    passwordToken: string;
-    newPassword: string;
-  }): Promise<
-    Result<
-      SuccessVoid,
-      | ErrorWithCode<'token-expired'>
-      | ErrorWithCode<'token-not-found'>
-      | ErrorUnknown
-    >
-  > {
-    const resetToken = this.passwordResetTokens.get(args.passwordToken);
-    if (!resetToken) {
-      return resultError.withCode('token-not-found');
-    }
+  // Simulates reloading the page: a new instance on the same backend and
+  // storage, which resumes the stored session like AuthFrontendHttp.
+  // A pending MFA challenge is not carried over, and neither is the channel:
+  // pass a new connection to it.
+  public reloadTestInstance(
+    options: { channel?: IAuthChannel } = {},
+  ): AuthFrontendTesting {
+    return this.openTestInstance({
+      sessionStorage: this.testOptions.sessionStorage,
+      channel: options.channel,
+    });
+  }
 
-    if (Date.now() > resetToken.expiresAt) {
-      this.passwordResetTokens.delete(args.passwordToken);
-      return resultError.withCode('token-expired');
-    }
+  // Simulates opening the app in another tab of the same browser: a new
+  // instance on the same backend and persistent storage, with session
+  // storage of its own. Pass it a connection to this instance's channel to
+  // keep the two in step.
+  public openTestTab(
+    options: { channel?: IAuthChannel } = {},
+  ): AuthFrontendTesting {
+    return this.openTestInstance({
+      sessionStorage: new InMemoryAuthStorage(),
+      channel: options.channel,
+    });
+  }
 
-    const user = this.users.get(resetToken.email);
-    if (user) {
-      this.users.set(resetToken.email, { ...user, password: args.newPassword });
-    }
+  // Simulates the user signing in on another device.
+  public async addTestSession(
+    uid: UserId,
+    client?: AuthClientMetadata,
+  ): Promise<string> {
+    await this.browser.setup;
+    return (
+      await this.browser.backend.addTestSession({ uid, client })
+    ).unwrapOrThrow().sessionId;
+  }
 
-    this.passwordResetTokens.delete(args.passwordToken);
+  // Simulates a session being revoked from another device or by an admin.
+  // When it is the current one, the next refresh of the idToken fails.
+  public revokeTestSession(sessionId: string): void {
+    this.addSetup(() => this.browser.backend.revokeSession(sessionId));
+  }
 
-    return resultSuccessVoid();
+  public getPasswordResetTokens(): string[] {
+    return this.browser.backend.getPasswordResetTokens();
   }
 
-  public async deleteAccount(): Promise<void> {
-    if (!this.currentUser) {
-      throw new Error('No user signed in');
-    }
+  public getEmailVerificationTokens(): string[] {
+    return this.browser.backend.getEmailVerificationTokens();
+  }
 
-    for (const [email, user] of this.users.entries()) {
-      if (user.uid === this.currentUser.uid) {
-        this.users.delete(email);
-        break;
-      }
-    }
+  // Sign-in links that have not been used yet, optionally only those sent to
+  // one email.
+  public getSignInLinks(email?: string): string[] {
+    return this.browser.backend.getSignInLinks(email);
+  }
 
-    this.idTokens.delete(this.currentUser.uid);
+  // Simulates the user asking for a sign-in link on another device.
+  public async createTestSignInLink(email: string): Promise<string> {
+    await this.browser.setup;
+    (
+      await this.browser.backend.createSignInLinkToken({ email })
+    ).unwrapOrThrow();
+    return this.browser.backend.getSignInLinks(email).at(-1)!;
+  }
 
-    this.currentUser = null;
-    this.authState.next(null);
+  // The code last sent to the number, until it is used.
+  public getPhoneCode(phoneNumber: string): string | undefined {
+    return this.browser.backend.getPhoneCode(phoneNumber);
   }
 
-  public async signUp(email: string, password: string): Promise<UserId> {
-    if (this.users.has(email)) {
-      throw new Error('Email already in use');
-    }
+  // Like an administrator unlocking an account after too many failed
+  // sign-ins.
+  public async unlockTestSignIn(email: string): Promise<void> {
+    await this.browser.setup;
+    const user = (
+      await this.browser.backend.getUidByEmail(email)
+    ).unwrapOrThrow();
+    (
+      await this.browser.backend.unlockSignIn({ uid: user.uid })
+    ).unwrapOrThrow();
+  }
 
-    const uid = `fake-user-${Math.random().toString(36).substring(2)}`;
-    this.users.set(email, { uid, email, password });
+  // Like an administrator resetting the factors of a locked-out user.
+  public resetTestMfa(uid: UserId): void {
+    this.addSetup(() =>
+      this.browser.backend.resetMfa({ uid, resetBy: 'AuthFrontendTesting' }),
+    );
+  }
 
-    return uid;
+  private addSetup(change: () => Promise<unknown>): void {
+    this.browser.setup = this.browser.setup.then(change);
   }
 
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  private openTestInstance(options: {
+    sessionStorage?: IAuthStorage;
+    channel?: IAuthChannel;
+  }): AuthFrontendTesting {
+    return new AuthFrontendTesting(
+      { ...this.testOptions, ...options },
+      this.browser,
+    );
   }
 }
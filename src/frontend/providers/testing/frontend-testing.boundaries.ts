@@ -0,0 +1,24 @@
+import type { Boundaries } from '@j2blasco/ts-boundaries';
+
+const boundaries: Boundaries = {
+  name: 'frontend-testing',
+  internal: [
+    'root',
+    'backend-http',
+    'backend-providers',
+    'oidc',
+    'password-hasher-providers',
+  ],
+  external: [
+    'rxjs',
+    '@j2blasco/ts-result',
+    'crypto',
+    'fs',
+    'fs/promises',
+    'http',
+    'os',
+    'path',
+  ],
+};
+
+export default boundaries;
@@ -0,0 +1,230 @@
+// REST contract between AuthFrontendHttp and the server side created with
+// createAuthBackendHttpHandler. See docs/http-contract.md for the full description.
+// Every endpoint takes and returns JSON. Failures use a non-2xx status and an
+// AuthHttpErrorBody whose code matches the IAuthBackend error code.
+
+import type {
+  AuthClientMetadata,
+  AuthCustomClaims,
+  AuthMfaFactorType,
+} from '../auth-types/auth-types';
+
+export const authHttpRoutes = {
+  signUp: '/auth/sign-up',
+  signIn: '/auth/sign-in',
+  anonymousSignIn: '/auth/sign-in/anonymous',
+  linkEmailPassword: '/auth/link/email-password',
+  signInLink: '/auth/sign-in-link',
+  signInLinkComplete: '/auth/sign-in-link/complete',
+  phoneSignInCode: '/auth/phone/sign-in-code',
+  phoneSignIn: '/auth/phone/sign-in',
+  phoneLinkCode: '/auth/phone/link-code',
+  phoneLink: '/auth/phone/link',
+  providerSignIn: '/auth/provider/sign-in',
+  providerSignInComplete: '/auth/provider/sign-in/complete',
+  providerLink: '/auth/provider/link',
+  providerLinkComplete: '/auth/provider/link/complete',
+  refresh: '/auth/refresh',
+  emailAvailable: '/auth/email-available',
+  changeEmail: '/auth/change-email',
+  passwordReset: '/auth/password-reset',
+  passwordResetConfirm: '/auth/password-reset/confirm',
+  emailVerification: '/auth/email-verification',
+  emailVerificationConfirm: '/auth/email-verification/confirm',
+  deleteAccount: '/auth/delete-account',
+  sessions: '/auth/sessions',
+  revokeSession: '/auth/sessions/revoke',
+  mfaSignIn: '/auth/mfa/sign-in',
+  mfaRecoverySignIn: '/auth/mfa/recovery-code/sign-in',
+  totpEnroll: '/auth/mfa/totp/enroll',
+  totpConfirm: '/auth/mfa/totp/confirm',
+  totpUnenroll: '/auth/mfa/totp/unenroll',
+  recoveryCodesRegenerate: '/auth/mfa/recovery-codes/regenerate',
+} as const;
+
+export type AuthHttpRoute =
+  (typeof authHttpRoutes)[keyof typeof authHttpRoutes];
+
+export type AuthHttpErrorBody = {
+  code: string;
+  message?: string;
+  // Only on weak-password: the password policy rules the password failed.
+  failedRules?: string[];
+  // Only on too-many-attempts from sign-in: how long to wait before trying
+  // again.
+  retryAfterMs?: number;
+};
+
+export type AuthHttpSignUpRequest = { email: string; password: string };
+export type AuthHttpSignUpResponse = { uid: string };
+
+// The server records ipAddress itself and falls back to the User-Agent header
+// when client.userAgent is missing.
+export type AuthHttpSignInRequest = {
+  email: string;
+  password: string;
+  client?: Pick<AuthClientMetadata, 'userAgent' | 'deviceName'>;
+};
+export type AuthHttpSignInResponse =
+  | AuthHttpSessionResponse
+  | AuthHttpMfaChallengeResponse;
+export type AuthHttpSessionResponse = {
+  mfaRequired: false;
+  uid: string;
+  emailVerified: boolean;
+  sessionId: string;
+  idToken: string;
+  // When the server stops accepting idToken, in ms since epoch.
+  idTokenExpiresAt: number;
+  refreshToken: string;
+  // The custom claims carried by idToken.
+  claims: AuthCustomClaims;
+  // Only present, and true, for anonymous users.
+  isAnonymous?: boolean;
+};
+// No session yet: the client has to send a code to /auth/mfa/sign-in.
+export type AuthHttpMfaChallengeResponse = {
+  mfaRequired: true;
+  mfaChallenge: string;
+  factors: AuthMfaFactorType[];
+  expiresAt: number;
+};
+
+export type AuthHttpAnonymousSignInRequest = Pick<
+  AuthHttpSignInRequest,
+  'client'
+>;
+export type AuthHttpAnonymousSignInResponse = AuthHttpSessionResponse;
+
+// Requires an `Authorization: Bearer <idToken>` header of an anonymous user
+// or one without an email.
+export type AuthHttpLinkEmailPasswordRequest = {
+  email: string;
+  password: string;
+};
+
+// The token is mailed to email. deviceId is any stable id of the client; the
+// complete route reports whether the link was opened on the same one.
+export type AuthHttpSignInLinkRequest = { email: string; deviceId?: string };
+export type AuthHttpSignInLinkCompleteRequest = {
+  email: string;
+  token: string;
+  deviceId?: string;
+  client?: Pick<AuthClientMetadata, 'userAgent' | 'deviceName'>;
+};
+export type AuthHttpSignInLinkCompleteResponse = AuthHttpSignInResponse & {
+  sameDevice: boolean;
+};
+
+// The code is texted to phoneNumber, in E.164 format. The client keeps
+// verificationId and sends it back with the code the user types in.
+export type AuthHttpPhoneSignInCodeRequest = { phoneNumber: string };
+export type AuthHttpPhoneCodeResponse = {
+  verificationId: string;
+  expiresAt: number;
+};
+export type AuthHttpPhoneSignInRequest = {
+  verificationId: string;
+  code: string;
+  client?: Pick<AuthClientMetadata, 'userAgent' | 'deviceName'>;
+};
+export type AuthHttpPhoneSignInResponse = AuthHttpSignInResponse;
+
+// Both require an `Authorization: Bearer <idToken>` header, of the same user.
+export type AuthHttpPhoneLinkCodeRequest = AuthHttpPhoneSignInCodeRequest;
+export type AuthHttpPhoneLinkRequest = { verificationId: string; code: string };
+
+// The browser is sent to authorizationUrl. The provider sends it back to
+// redirectUri with the state and code for the matching complete route.
+export type AuthHttpProviderSignInRequest = {
+  providerId: string;
+  redirectUri: string;
+};
+export type AuthHttpProviderSignInResponse = {
+  authorizationUrl: string;
+  state: string;
+  expiresAt: number;
+};
+export type AuthHttpProviderSignInCompleteRequest = {
+  state: string;
+  code: string;
+  client?: Pick<AuthClientMetadata, 'userAgent' | 'deviceName'>;
+};
+export type AuthHttpProviderSignInCompleteResponse = AuthHttpSignInResponse;
+
+// Both require an `Authorization: Bearer <idToken>` header, of the same user.
+export type AuthHttpProviderLinkRequest = AuthHttpProviderSignInRequest;
+export type AuthHttpProviderLinkResponse = AuthHttpProviderSignInResponse;
+export type AuthHttpProviderLinkCompleteRequest = {
+  state: string;
+  code: string;
+};
+
+export type AuthHttpMfaSignInRequest = { mfaChallenge: string; code: string };
+export type AuthHttpMfaSignInResponse = AuthHttpSessionResponse;
+export type AuthHttpMfaRecoverySignInRequest = {
+  mfaChallenge: string;
+  recoveryCode: string;
+};
+
+export type AuthHttpRefreshRequest = { refreshToken: string };
+// The refresh token is rotated: the one in the response replaces the one sent.
+export type AuthHttpRefreshResponse = {
+  uid: string;
+  idToken: string;
+  idTokenExpiresAt: number;
+  refreshToken: string;
+  claims: AuthCustomClaims;
+};
+
+export type AuthHttpEmailAvailableRequest = { email: string };
+export type AuthHttpEmailAvailableResponse = { available: boolean };
+
+// Requires an `Authorization: Bearer <idToken>` header.
+export type AuthHttpChangeEmailRequest = { newEmail: string };
+
+export type AuthHttpPasswordResetRequest = { email: string };
+
+export type AuthHttpPasswordResetConfirmRequest = {
+  token: string;
+  newPassword: string;
+};
+
+// Requires an `Authorization: Bearer <idToken>` header and an empty body. The
+// token is sent to the signed-in user out of band.
+export type AuthHttpEmailVerificationRequest = Record<string, never>;
+
+export type AuthHttpEmailVerificationConfirmRequest = { token: string };
+export type AuthHttpEmailVerificationConfirmResponse = { uid: string };
+
+// Requires an `Authorization: Bearer <idToken>` header and an empty body.
+export type AuthHttpDeleteAccountRequest = Record<string, never>;
+
+// Both require an `Authorization: Bearer <idToken>` header. Only the caller's
+// own sessions are listed or can be revoked.
+export type AuthHttpSessionsRequest = Record<string, never>;
+export type AuthHttpSessionsResponse = {
+  sessions: {
+    id: string;
+    createdAt: number;
+    lastRefreshedAt: number;
+    client?: AuthClientMetadata;
+  }[];
+};
+export type AuthHttpRevokeSessionRequest = { sessionId: string };
+
+// All require an `Authorization: Bearer <idToken>` header. Unenrolling and
+// regenerating recovery codes need a current code or an unused recovery code,
+// so a stolen idToken alone cannot change the second factor.
+export type AuthHttpTotpEnrollRequest = Record<string, never>;
+export type AuthHttpTotpEnrollResponse = { secret: string; uri: string };
+export type AuthHttpTotpConfirmRequest = { code: string };
+export type AuthHttpRecoveryCodesResponse = { recoveryCodes: string[] };
+export type AuthHttpSecondFactorProof =
+  | { code: string }
+  | { recoveryCode: string };
+export type AuthHttpTotpUnenrollRequest = AuthHttpSecondFactorProof;
+export type AuthHttpRecoveryCodesRegenerateRequest = AuthHttpSecondFactorProof;
+
+// Returned by endpoints that have nothing else to report.
+export type AuthHttpEmptyResponse = Record<string, never>;
@@ -0,0 +1,64 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+
+const nodeModules = ['crypto', 'fs', 'fs/promises', 'http', 'os', 'path'];
+
+// Imports and re-exports that survive compilation: type-only ones are erased.
+function runtimeImports(source: string): string[] {
+  const statements = source.matchAll(
+    /^(?:import|export)\s+(type\s+)?([^'";]*?)\s*from\s+'([^']+)'/gms,
+  );
+  return [...statements]
+    .filter(([, typeOnly, clause]) => {
+      if (typeOnly) {
+        return false;
+      }
+      const names = clause.match(/^\{([^}]*)\}$/)?.[1];
+      return (
+        names === undefined ||
+        names
+          .split(',')
+          .map((name) => name.trim())
+          .some((name) => name && !name.startsWith('type '))
+      );
+    })
+    .map(([, , , specifier]) => specifier);
+}
+
+// The Node modules the entry pulls in, each with the file that imports it.
+function findNodeImports(entry: string): string[] {
+  const found: string[] = [];
+  const visited = new Set<string>();
+  const visit = (file: string) => {
+    if (visited.has(file)) {
+      return;
+    }
+    visited.add(file);
+    for (const specifier of runtimeImports(readFileSync(file, 'utf8'))) {
+      if (nodeModules.includes(specifier)) {
+        found.push(`${relative(__dirname, file)}: ${specifier}`);
+      } else if (specifier.startsWith('.')) {
+        const path = join(dirname(file), specifier);
+        visit(existsSync(`${path}.ts`) ? `${path}.ts` : join(path, 'index.ts'));
+      }
+    }
+  };
+  visit(entry);
+  return found;
+}
+
+describe('package entries', () => {
+  it('should keep the root entry free of Node modules', () => {
+    expect(findNodeImports(join(__dirname, 'index.ts'))).toEqual([]);
+  });
+
+  it('should leave the modules that need Node to the node entry', () => {
+    expect(findNodeImports(join(__dirname, 'node.ts'))).toEqual(
+      expect.arrayContaining([
+        'backend/core/auth-backend.core.ts: crypto',
+        'backend/user-store/providers/file/auth-user-store.file.ts: fs/promises',
+        'emulator/auth-emulator.ts: http',
+      ]),
+    );
+  });
+});
@@ -1,7 +1,123 @@
 export * from './frontend/core/auth-frontend.interface';
-export { testAuthFrontend } from './frontend/core/auth-frontend.generic.test';
-export { AuthFrontendTesting } from './frontend/providers/testing/auth-frontend.testing';
+export * from './frontend/core/auth-frontend.capabilities';
 
+export * from './auth-types/auth-types';
 export * from './backend/core/auth-backend.interface';
-export { testAuthBackend } from './backend/core/auth-backend.generic.test';
-export { AuthBackendTesting } from './backend/providers/testing/auth-backend.testing';
+export * from './backend/core/auth-backend.capabilities';
+export * from './backend/core/auth-id-token-issuer.interface';
+export {
+  maxCustomClaimsBytes,
+  reservedClaimNames,
+} from './backend/custom-claims/custom-claims';
+export type { EmailLinkTokenError } from './backend/email-links/auth-email-link-tokens';
+export type { PhoneCodeError } from './backend/phone-codes/auth-phone-codes';
+
+export type {
+  AuthOidcProviderConfig,
+  OidcAuthorization,
+  OidcCompletionError,
+  OidcFetch,
+  OidcIdentity,
+} from './oidc/oidc-client';
+export { parseOidcCallback } from './oidc/oidc-callback';
+
+export * from './backend/user-store/core/auth-user-store.interface';
+export { testAuthUserStore } from './backend/user-store/core/auth-user-store.generic.test';
+export { AuthUserStoreMemory } from './backend/user-store/providers/memory/auth-user-store.memory';
+
+export * from './backend/refresh-token-store/core/auth-refresh-token-store.interface';
+export { testAuthRefreshTokenStore } from './backend/refresh-token-store/core/auth-refresh-token-store.generic.test';
+export { AuthRefreshTokenStoreMemory } from './backend/refresh-token-store/providers/memory/auth-refresh-token-store.memory';
+
+export {
+  findFailedPasswordRules,
+  passwordRules,
+  weakPasswordError,
+  type IBreachedPasswordList,
+  type PasswordPolicy,
+  type PasswordRule,
+  type WeakPasswordError,
+} from './password-policy/password-policy';
+
+export { ManualClock, systemClock, type IClock } from './clock/clock';
+
+export * from './attempt-tracker/core/attempt-tracker.interface';
+export { testAttemptTracker } from './attempt-tracker/core/attempt-tracker.generic.test';
+export { InMemoryAttemptTracker } from './attempt-tracker/providers/memory/attempt-tracker.memory';
+export {
+  tooManyAttemptsError,
+  type AttemptLimits,
+  type BruteForceProtection,
+} from './backend/sign-in-throttle/auth-sign-in-throttle';
+
+export * from './password-hasher/core/password-hasher.interface';
+export { testPasswordHasher } from './password-hasher/core/password-hasher.generic.test';
+
+export * from './mailer/core/auth-mailer.interface';
+export {
+  createAuthMailLinks,
+  defaultAuthMailLinks,
+  defaultAuthMailTemplates,
+  readAuthMailLinkToken,
+  renderAuthMail,
+  type AuthMailLinks,
+  type AuthMailLocalizedTemplates,
+  type AuthMailTemplate,
+  type AuthMailTemplates,
+  type RenderedAuthMail,
+} from './mailer/core/auth-mail-templates';
+export { testAuthMailer } from './mailer/core/auth-mailer.generic.test';
+export {
+  InMemoryAuthMailer,
+  type AuthOutboxMail,
+  type InMemoryAuthMailerOptions,
+} from './mailer/providers/memory/auth-mailer.memory';
+
+export * from './sms-sender/core/sms-sender.interface';
+export {
+  isE164PhoneNumber,
+  renderAuthSms,
+} from './sms-sender/core/phone-number';
+export { testSmsSender } from './sms-sender/core/sms-sender.generic.test';
+export {
+  InMemorySmsSender,
+  type AuthOutboxSms,
+  type InMemorySmsSenderOptions,
+} from './sms-sender/providers/memory/sms-sender.memory';
+
+export * from './auth-storage/core/auth-storage.interface';
+export { testAuthStorage } from './auth-storage/core/auth-storage.generic.test';
+export { InMemoryAuthStorage } from './auth-storage/providers/memory/auth-storage.memory';
+export {
+  WebAuthStorage,
+  createLocalAuthStorage,
+  createSessionAuthStorage,
+  type WebStorage,
+} from './auth-storage/providers/web/auth-storage.web';
+
+export * from './auth-channel/core/auth-channel.interface';
+export { testAuthChannel } from './auth-channel/core/auth-channel.generic.test';
+export { InMemoryAuthChannel } from './auth-channel/providers/memory/auth-channel.memory';
+export {
+  BroadcastAuthChannel,
+  createBroadcastAuthChannel,
+  type WebBroadcastChannel,
+  type WebLocks,
+} from './auth-channel/providers/broadcast/auth-channel.broadcast';
+
+export * from './policy/core/auth-policy.interface';
+export {
+  AuthPolicyEngine,
+  findAuthPolicyProblems,
+} from './policy/core/auth-policy-engine';
+export {
+  testAuthPolicy,
+  type AuthPolicyTestCase,
+} from './policy/core/auth-policy.generic.test';
+
+export * from './http/auth-http.contract';
+export {
+  AuthFrontendHttp,
+  type AuthFetch,
+  type AuthFrontendHttpOptions,
+} from './frontend/providers/http/auth-frontend.http';
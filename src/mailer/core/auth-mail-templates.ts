@@ -0,0 +1,135 @@
+import {
+  AuthMail,
+  AuthMailTemplateId,
+  AuthMailTemplateVariables,
+} from './auth-mailer.interface';
+
+export type AuthMailTemplate<T extends AuthMailTemplateId> = {
+  subject: (variables: AuthMailTemplateVariables[T]) => string;
+  text: (variables: AuthMailTemplateVariables[T]) => string;
+  html?: (variables: AuthMailTemplateVariables[T]) => string;
+};
+
+export type AuthMailTemplates = {
+  [T in AuthMailTemplateId]: AuthMailTemplate<T>;
+};
+
+// Templates by locale. A locale may override only some of the templates.
+export type AuthMailLocalizedTemplates = Record<
+  string,
+  Partial<AuthMailTemplates>
+>;
+
+export type RenderedAuthMail = {
+  to: string;
+  locale: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Builds the links put in mails from the action token.
+export type AuthMailLinks = {
+  [T in
+    | 'password-reset'
+    | 'email-verification'
+    | 'sign-in-link'
+    | 'invitation']: (token: string) => string;
+};
+
+export function createAuthMailLinks(baseUrl: string): AuthMailLinks {
+  const base = baseUrl.replace(/\/+$/, '');
+  const link = (path: string) => (token: string) =>
+    `${base}/${path}?token=${encodeURIComponent(token)}`;
+  return {
+    'password-reset': link('reset-password'),
+    'email-verification': link('verify-email'),
+    'sign-in-link': link('sign-in'),
+    invitation: link('accept-invitation'),
+  };
+}
+
+// The token in a link built by createAuthMailLinks, or undefined when the
+// link is not a URL with one.
+export function readAuthMailLinkToken(link: string): string | undefined {
+  try {
+    return new URL(link).searchParams.get('token') ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const defaultAuthMailLinks = createAuthMailLinks('http://localhost');
+
+function formatExpiry(expiresAt: number): string {
+  return new Date(expiresAt).toUTCString();
+}
+
+export const defaultAuthMailTemplates: AuthMailTemplates = {
+  'password-reset': {
+    subject: () => 'Reset your password',
+    text: ({ email, link, expiresAt }) =>
+      `Someone asked to reset the password of ${email}.\n\n` +
+      `Open ${link} to choose a new one. The link expires on ${formatExpiry(expiresAt)}.\n\n` +
+      'If it was not you, ignore this email.',
+  },
+  'email-verification': {
+    subject: () => 'Verify your email',
+    text: ({ email, link, expiresAt }) =>
+      `Open ${link} to confirm that ${email} is your address. ` +
+      `The link expires on ${formatExpiry(expiresAt)}.`,
+  },
+  'sign-in-link': {
+    subject: () => 'Your sign-in link',
+    text: ({ email, link, expiresAt }) =>
+      `Open ${link} to sign in as ${email}. The link works once and expires on ${formatExpiry(expiresAt)}.\n\n` +
+      'If you did not ask for it, ignore this email.',
+  },
+  'email-change': {
+    subject: () => 'Your email was changed',
+    text: ({ previousEmail, newEmail }) =>
+      `The email of your account was changed from ${previousEmail} to ${newEmail}.\n\n` +
+      'If it was not you, contact support right away.',
+  },
+  invitation: {
+    subject: ({ invitedBy }) =>
+      invitedBy ? `${invitedBy} invited you` : 'You are invited',
+    text: ({ email, link }) =>
+      `Open ${link} to create the account for ${email}.`,
+  },
+};
+
+/**
+ * Renders the mail with the most specific template available: the exact
+ * locale, then its language ('pt' for 'pt-BR'), then the default locale, then
+ * the built-in English templates.
+ */
+export function renderAuthMail<T extends AuthMailTemplateId>(
+  mail: AuthMail<T>,
+  templates: AuthMailLocalizedTemplates = {},
+  defaultLocale = 'en',
+): RenderedAuthMail {
+  const candidates = mail.locale
+    ? [mail.locale, mail.locale.split('-')[0], defaultLocale]
+    : [defaultLocale];
+  let locale = defaultLocale;
+  let template: AuthMailTemplate<T> = defaultAuthMailTemplates[mail.template];
+  for (const candidate of candidates) {
+    const localized = templates[candidate]?.[mail.template] as
+      | AuthMailTemplate<T>
+      | undefined;
+    if (localized) {
+      locale = candidate;
+      template = localized;
+      break;
+    }
+  }
+
+  return {
+    to: mail.to,
+    locale,
+    subject: template.subject(mail.variables),
+    text: template.text(mail.variables),
+    ...(template.html && { html: template.html(mail.variables) }),
+  };
+}
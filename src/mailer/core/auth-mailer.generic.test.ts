@@ -0,0 +1,89 @@
+import { IAuthMailer } from './auth-mailer.interface';
+
+/**
+ * Comprehensive test suite for IAuthMailer implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testAuthMailer(mailer: IAuthMailer): void {
+  describe('IAuthMailer implementation tests', () => {
+    const to = 'mailer-test@example.com';
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+
+    it('should send a password reset mail', async () => {
+      const result = await mailer.send({
+        template: 'password-reset',
+        to,
+        variables: {
+          email: to,
+          link: 'http://localhost/reset-password?token=abc',
+          expiresAt,
+        },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send an email verification mail', async () => {
+      const result = await mailer.send({
+        template: 'email-verification',
+        to,
+        variables: {
+          email: to,
+          link: 'http://localhost/verify-email?token=abc',
+          expiresAt,
+        },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send a sign-in link mail', async () => {
+      const result = await mailer.send({
+        template: 'sign-in-link',
+        to,
+        variables: {
+          email: to,
+          link: 'http://localhost/sign-in?token=abc',
+          expiresAt,
+        },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send an email change notice', async () => {
+      const result = await mailer.send({
+        template: 'email-change',
+        to,
+        variables: { previousEmail: to, newEmail: 'new@example.com' },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send an invitation', async () => {
+      const result = await mailer.send({
+        template: 'invitation',
+        to,
+        variables: {
+          email: to,
+          link: 'http://localhost/accept-invitation?token=abc',
+          invitedBy: 'Ada',
+        },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send mails for a locale without templates', async () => {
+      const result = await mailer.send({
+        template: 'email-change',
+        to,
+        locale: 'xx-YY',
+        variables: { previousEmail: to, newEmail: 'new@example.com' },
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+  });
+}
@@ -0,0 +1,30 @@
+import { ErrorUnknown, Result } from '@j2blasco/ts-result';
+
+// Variables each template is rendered with, by template id.
+export type AuthMailTemplateVariables = {
+  'password-reset': { email: string; link: string; expiresAt: number };
+  'email-verification': { email: string; link: string; expiresAt: number };
+  'sign-in-link': { email: string; link: string; expiresAt: number };
+  // Sent to the previous address so the owner notices a takeover.
+  'email-change': { previousEmail: string; newEmail: string };
+  invitation: { email: string; link: string; invitedBy?: string };
+};
+
+export type AuthMailTemplateId = keyof AuthMailTemplateVariables;
+
+export type AuthMail<T extends AuthMailTemplateId = AuthMailTemplateId> = {
+  template: T;
+  to: string;
+  // BCP 47 tag such as 'fr' or 'pt-BR'. Mailers fall back to their default
+  // locale when it is missing or has no template.
+  locale?: string;
+  variables: AuthMailTemplateVariables[T];
+};
+
+// Transactional email for auth flows. Implementations render the template
+// for the locale and deliver the result.
+export interface IAuthMailer {
+  send<T extends AuthMailTemplateId>(
+    mail: AuthMail<T>,
+  ): Promise<Result<void, ErrorUnknown>>;
+}
@@ -0,0 +1,107 @@
+import { testAuthMailer } from '../../core/auth-mailer.generic.test';
+import { InMemoryAuthMailer } from './auth-mailer.memory';
+
+describe('InMemoryAuthMailer', () => {
+  testAuthMailer(new InMemoryAuthMailer());
+
+  describe('InMemoryAuthMailer specific features', () => {
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+    let mailer: InMemoryAuthMailer;
+
+    beforeEach(() => {
+      mailer = new InMemoryAuthMailer();
+    });
+
+    async function sendReset(to: string, link: string, locale?: string) {
+      await mailer.send({
+        template: 'password-reset',
+        to,
+        locale,
+        variables: { email: to, link, expiresAt },
+      });
+    }
+
+    it('should keep sent mails by recipient', async () => {
+      await sendReset('a@example.com', 'http://localhost/a');
+      await sendReset('b@example.com', 'http://localhost/b');
+      await sendReset('a@example.com', 'http://localhost/a2');
+
+      expect(mailer.outbox.length).toBe(3);
+      expect(mailer.getMails('a@example.com').length).toBe(2);
+      expect(mailer.getLastMail('a@example.com')?.variables).toEqual({
+        email: 'a@example.com',
+        link: 'http://localhost/a2',
+        expiresAt,
+      });
+    });
+
+    it('should filter by template', async () => {
+      await sendReset('a@example.com', 'http://localhost/a');
+      await mailer.send({
+        template: 'email-change',
+        to: 'a@example.com',
+        variables: {
+          previousEmail: 'a@example.com',
+          newEmail: 'b@example.com',
+        },
+      });
+
+      expect(
+        mailer
+          .getMails('a@example.com', 'password-reset')
+          .map((m) => m.template),
+      ).toEqual(['password-reset']);
+    });
+
+    it('should extract the links of a mail', async () => {
+      await sendReset(
+        'a@example.com',
+        'https://app.example.com/reset-password?token=abc',
+      );
+
+      const mail = mailer.getLastMail('a@example.com')!;
+
+      expect(mailer.extractLinks(mail)).toEqual([
+        'https://app.example.com/reset-password?token=abc',
+      ]);
+    });
+
+    it('should render the template of the requested locale', async () => {
+      mailer = new InMemoryAuthMailer({
+        templates: {
+          fr: {
+            'password-reset': {
+              subject: () => 'Réinitialisez votre mot de passe',
+              text: ({ link }) => `Ouvrez ${link}`,
+            },
+          },
+        },
+      });
+
+      await sendReset('a@example.com', 'http://localhost/a', 'fr-CA');
+      const mail = mailer.getLastMail('a@example.com')!;
+
+      expect(mail.locale).toBe('fr');
+      expect(mail.subject).toBe('Réinitialisez votre mot de passe');
+      expect(mail.text).toBe('Ouvrez http://localhost/a');
+    });
+
+    it('should fall back to the default templates for other locales', async () => {
+      await sendReset('a@example.com', 'http://localhost/a', 'de');
+
+      const mail = mailer.getLastMail('a@example.com')!;
+
+      expect(mail.locale).toBe('en');
+      expect(mail.subject).toBe('Reset your password');
+      expect(mail.text).toContain('http://localhost/a');
+    });
+
+    it('should empty the outbox on clear', async () => {
+      await sendReset('a@example.com', 'http://localhost/a');
+
+      mailer.clear();
+
+      expect(mailer.outbox).toEqual([]);
+    });
+  });
+});
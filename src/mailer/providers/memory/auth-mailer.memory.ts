@@ -0,0 +1,85 @@
+import { ErrorUnknown, Result, resultSuccessVoid } from '@j2blasco/ts-result';
+import {
+  AuthMail,
+  AuthMailTemplateId,
+  AuthMailTemplateVariables,
+  IAuthMailer,
+} from '../../core/auth-mailer.interface';
+import {
+  AuthMailLocalizedTemplates,
+  RenderedAuthMail,
+  renderAuthMail,
+} from '../../core/auth-mail-templates';
+import { IClock, systemClock } from '../../../clock/clock';
+
+export type InMemoryAuthMailerOptions = {
+  templates?: AuthMailLocalizedTemplates;
+  // Defaults to 'en'.
+  defaultLocale?: string;
+  // Dates sent mails.
+  clock?: IClock;
+};
+
+export type AuthOutboxMail = RenderedAuthMail & {
+  template: AuthMailTemplateId;
+  variables: AuthMailTemplateVariables[AuthMailTemplateId];
+  sentAt: number;
+};
+
+/**
+ * Keeps every mail in an outbox instead of delivering it, so tests can read
+ * what a user would have received and follow the links in it.
+ */
+export class InMemoryAuthMailer implements IAuthMailer {
+  private readonly templates: AuthMailLocalizedTemplates;
+  private readonly defaultLocale: string;
+  private readonly clock: IClock;
+  private readonly mails: AuthOutboxMail[] = [];
+
+  constructor(options: InMemoryAuthMailerOptions = {}) {
+    this.templates = options.templates ?? {};
+    this.defaultLocale = options.defaultLocale ?? 'en';
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public async send<T extends AuthMailTemplateId>(
+    mail: AuthMail<T>,
+  ): Promise<Result<void, ErrorUnknown>> {
+    this.mails.push({
+      ...renderAuthMail(mail, this.templates, this.defaultLocale),
+      template: mail.template,
+      variables: mail.variables,
+      sentAt: this.clock.now(),
+    });
+    return resultSuccessVoid();
+  }
+
+  // Oldest first.
+  public get outbox(): ReadonlyArray<AuthOutboxMail> {
+    return this.mails;
+  }
+
+  public getMails(to: string, template?: AuthMailTemplateId): AuthOutboxMail[] {
+    return this.mails.filter(
+      (mail) =>
+        mail.to === to &&
+        (template === undefined || mail.template === template),
+    );
+  }
+
+  public getLastMail(
+    to: string,
+    template?: AuthMailTemplateId,
+  ): AuthOutboxMail | undefined {
+    return this.getMails(to, template).at(-1);
+  }
+
+  // Every http(s) URL in the text body, in order.
+  public extractLinks(mail: AuthOutboxMail): string[] {
+    return mail.text.match(/https?:\/\/[^\s"'<>]+/g) ?? [];
+  }
+
+  public clear(): void {
+    this.mails.length = 0;
+  }
+}
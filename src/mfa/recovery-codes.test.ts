@@ -0,0 +1,26 @@
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  recoveryCodeCount,
+} from './recovery-codes';
+
+describe('recovery codes', () => {
+  it('should generate distinct codes in two groups of five', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes.length).toBe(recoveryCodeCount);
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const code of codes) {
+      expect(code).toMatch(/^[A-HJ-NP-Z2-9]{5}-[A-HJ-NP-Z2-9]{5}$/);
+    }
+  });
+
+  it('should hash codes regardless of case, spaces and dashes', () => {
+    expect(hashRecoveryCode('abcde-fghjk')).toBe(
+      hashRecoveryCode('ABCDE FGHJK'),
+    );
+    expect(hashRecoveryCode('ABCDE-FGHJK')).not.toBe(
+      hashRecoveryCode('ABCDE-FGHJM'),
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Ten codes of ten characters each, shown as two groups of five. Letters and
+// digits that are easily confused (0/O, 1/I) are left out.
+export const recoveryCodeCount = 10;
+const recoveryCodeLength = 10;
+const recoveryCodeAlphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generateRecoveryCodes(count = recoveryCodeCount): string[] {
+  return Array.from({ length: count }, () => {
+    const code = Array.from(
+      randomBytes(recoveryCodeLength),
+      (byte) => recoveryCodeAlphabet[byte & 31],
+    ).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Codes are typed by hand, so case, spaces and dashes do not matter. Only
+// this hash is stored.
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
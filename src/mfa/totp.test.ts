@@ -0,0 +1,88 @@
+import {
+  generateTotpCode,
+  generateTotpSecret,
+  totpUri,
+  matchTotpCode,
+} from './totp';
+
+// The RFC 6238 SHA-1 test secret "12345678901234567890" in base32.
+const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotpCode(rfcSecret, 59 * 1000)).toBe('287082');
+    expect(generateTotpCode(rfcSecret, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotpCode(rfcSecret, 1234567890 * 1000)).toBe('005924');
+    expect(generateTotpCode(rfcSecret, 2000000000 * 1000)).toBe('279037');
+  });
+
+  it('should generate distinct base32 secrets', () => {
+    const first = generateTotpSecret();
+    const second = generateTotpSecret();
+
+    expect(first).toMatch(/^[A-Z2-7]{32}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should build an otpauth URI with the secret and issuer', () => {
+    const uri = new URL(
+      totpUri({
+        secret: rfcSecret,
+        issuer: 'Example App',
+        accountName: 'user@example.com',
+      }),
+    );
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe(
+      '/Example App:user@example.com',
+    );
+    expect(uri.searchParams.get('secret')).toBe(rfcSecret);
+    expect(uri.searchParams.get('issuer')).toBe('Example App');
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const atMs = 1234567890 * 1000;
+    const previous = generateTotpCode(rfcSecret, atMs - 30 * 1000);
+    const older = generateTotpCode(rfcSecret, atMs - 60 * 1000);
+
+    expect(
+      matchTotpCode({ secret: rfcSecret, code: previous, window: 1, atMs }),
+    ).toBe(Math.floor(atMs / 30000) - 1);
+    expect(
+      matchTotpCode({ secret: rfcSecret, code: older, window: 1, atMs }),
+    ).toBeUndefined();
+  });
+
+  it('should refuse a code whose counter was already used', () => {
+    const atMs = 1234567890 * 1000;
+    const code = generateTotpCode(rfcSecret, atMs);
+    const counter = matchTotpCode({
+      secret: rfcSecret,
+      code,
+      window: 1,
+      atMs,
+    });
+
+    const replayed = matchTotpCode({
+      secret: rfcSecret,
+      code,
+      window: 1,
+      lastUsedCounter: counter,
+      atMs,
+    });
+
+    expect(counter).toBeDefined();
+    expect(replayed).toBeUndefined();
+  });
+
+  it('should refuse malformed codes', () => {
+    expect(
+      matchTotpCode({ secret: rfcSecret, code: '12a456', window: 1 }),
+    ).toBeUndefined();
+    expect(
+      matchTotpCode({ secret: rfcSecret, code: '1234567', window: 1 }),
+    ).toBeUndefined();
+  });
+});
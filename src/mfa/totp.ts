@@ -0,0 +1,121 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 with the parameters every authenticator app supports: HMAC-SHA1,
+// six digits and a 30 second step.
+const totpDigits = 6;
+const totpStepSeconds = 30;
+const totpSecretBytes = 20;
+
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of encoded.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = base32Alphabet.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP for one counter value.
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** totpDigits).toString().padStart(totpDigits, '0');
+}
+
+function totpCounter(atMs: number): number {
+  return Math.floor(atMs / 1000 / totpStepSeconds);
+}
+
+// Base32 without padding, as authenticator apps expect it.
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(totpSecretBytes));
+}
+
+// The otpauth:// URI authenticator apps read from a QR code.
+export function totpUri(args: {
+  secret: string;
+  issuer: string;
+  accountName: string;
+}): string {
+  const label = `${encodeURIComponent(args.issuer)}:${encodeURIComponent(args.accountName)}`;
+  const params = new URLSearchParams({
+    secret: args.secret,
+    issuer: args.issuer,
+    algorithm: 'SHA1',
+    digits: String(totpDigits),
+    period: String(totpStepSeconds),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// The code an authenticator app shows at the given time.
+export function generateTotpCode(secret: string, atMs = Date.now()): string {
+  return hotp(base32Decode(secret), totpCounter(atMs));
+}
+
+/**
+ * Accepts codes up to window steps before or after atMs to allow for clock
+ * drift. Returns the counter of the matching code, which callers store as
+ * lastUsedCounter: codes at or before it are refused so a code cannot be
+ * replayed.
+ */
+export function matchTotpCode(args: {
+  secret: string;
+  code: string;
+  window: number;
+  lastUsedCounter?: number;
+  atMs?: number;
+}): number | undefined {
+  if (!/^\d+$/.test(args.code) || args.code.length !== totpDigits) {
+    return undefined;
+  }
+  const key = base32Decode(args.secret);
+  const current = totpCounter(args.atMs ?? Date.now());
+  const code = Buffer.from(args.code);
+  for (
+    let counter = current - args.window;
+    counter <= current + args.window;
+    counter++
+  ) {
+    if (args.lastUsedCounter !== undefined && counter <= args.lastUsedCounter) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(hotp(key, counter)), code)) {
+      return counter;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,103 @@
+// The modules that need Node: the backends, which hash passwords and draw
+// tokens with its crypto module, the file stores, the HTTP handler and the
+// emulator, and the test doubles built on them. The root entry leaves them
+// out so it stays safe to bundle for browsers.
+export {
+  testAuthBackend,
+  type AuthBackendTestOptions,
+} from './backend/core/auth-backend.generic.test';
+export {
+  AuthBackendTesting,
+  type AuthBackendTestingOptions,
+} from './backend/providers/testing/auth-backend.testing';
+export {
+  AuthBackendJwt,
+  type AuthBackendJwtOptions,
+} from './backend/providers/jwt/auth-backend.jwt';
+export {
+  AuthBackendCore,
+  type AuthBackendCoreOptions,
+  type AuthIssuedSecret,
+} from './backend/core/auth-backend.core';
+export {
+  AuthEmailLinkTokens,
+  emailLinkTokenError,
+} from './backend/email-links/auth-email-link-tokens';
+export {
+  AuthPhoneCodes,
+  phoneCodeError,
+} from './backend/phone-codes/auth-phone-codes';
+export {
+  generateTotpCode,
+  generateTotpSecret,
+  matchTotpCode,
+  totpUri,
+} from './mfa/totp';
+export {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  recoveryCodeCount,
+} from './mfa/recovery-codes';
+export type {
+  JwtAlgorithm,
+  JwtSigningKey,
+  JwtPayload,
+  JwtVerificationKey,
+} from './backend/providers/jwt/jwt';
+
+export {
+  testAuthFrontend,
+  type AuthFrontendTestOptions,
+} from './frontend/core/auth-frontend.generic.test';
+export {
+  AuthFrontendTesting,
+  type AuthFrontendTestingOptions,
+} from './frontend/providers/testing/auth-frontend.testing';
+
+export { AuthOidcClient, oidcCompletionError } from './oidc/oidc-client';
+export { codeChallengeS256, generateCodeVerifier } from './oidc/pkce';
+export {
+  FakeOidcProvider,
+  type FakeOidcProviderOptions,
+  type FakeOidcUser,
+} from './oidc/fake-oidc-provider';
+
+export {
+  PasswordHasherScrypt,
+  type PasswordHasherScryptOptions,
+} from './password-hasher/providers/scrypt/password-hasher.scrypt';
+export {
+  PasswordHasherPbkdf2,
+  type PasswordHasherPbkdf2Options,
+} from './password-hasher/providers/pbkdf2/password-hasher.pbkdf2';
+
+export { AuthUserStoreFile } from './backend/user-store/providers/file/auth-user-store.file';
+export { AuthRefreshTokenStoreFile } from './backend/refresh-token-store/providers/file/auth-refresh-token-store.file';
+
+export {
+  createAuthBackendHttpHandler,
+  createAuthBackendRoutes,
+  createAuthHttpHandler,
+  runAuthRoute,
+  type AuthHttpHandlerOptions,
+  type AuthHttpLogger,
+  type AuthHttpHandler,
+  type AuthHttpRoutes,
+  type AuthHttpRouteRequest,
+  type AuthHttpRouteResponse,
+} from './backend/http/auth-backend.http-handler';
+export {
+  AuthFrontendPaired,
+  createAuthRoutesFetch,
+  type AuthFrontendPairedOptions,
+} from './frontend/providers/paired/auth-frontend.paired';
+
+export {
+  AuthEmulator,
+  authEmulatorAdminKeyHeader,
+  authEmulatorAdminRoutes,
+  authEmulatorDefaultPort,
+  type AuthEmulatorBackend,
+  type AuthEmulatorOptions,
+  type AuthEmulatorUser,
+} from './emulator/auth-emulator';
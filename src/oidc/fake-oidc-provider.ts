@@ -0,0 +1,222 @@
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { JwtSigningKey, signJwt } from '../backend/providers/jwt/jwt';
+import { AuthOidcProviderConfig, OidcFetch } from './oidc-client';
+import { codeChallengeS256 } from './pkce';
+import { IClock, systemClock } from '../clock/clock';
+
+// The user who signs in at the fake provider.
+export type FakeOidcUser = {
+  subject: string;
+  email?: string;
+  // Defaults to true when an email is given.
+  emailVerified?: boolean;
+  // Merged over the claims of the issued id_token, to check how a relying
+  // party handles a wrong nonce, audience or expiry. undefined drops a claim.
+  idTokenClaims?: Record<string, unknown>;
+};
+
+export type FakeOidcProviderOptions = {
+  // Also used in the issuer URL. Defaults to 'fake-oidc'.
+  id?: string;
+  // Defaults to 'fake-client'.
+  clientId?: string;
+  // When set, the token endpoint requires it.
+  clientSecret?: string;
+  // Dates codes and id_tokens. Share the relying party's clock when it is a
+  // ManualClock, or its tokens will look expired or not yet valid.
+  clock?: IClock;
+};
+
+type IssuedCode = {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  user: FakeOidcUser;
+  expiresAt: number;
+};
+
+const codeLifetimeMs = 60 * 1000;
+const idTokenLifetimeSeconds = 60 * 60;
+
+type FakeOidcKey = JwtSigningKey & { algorithm: 'RS256' };
+
+function generateSigningKey(index: number): FakeOidcKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  return {
+    kid: `fake-oidc-${index}`,
+    algorithm: 'RS256',
+    privateKey,
+    publicKey,
+  };
+}
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+): { status: number; json(): Promise<unknown> } {
+  return { status, json: async () => body };
+}
+
+/**
+ * An OpenID Connect provider that lives in the test process. authorize stands
+ * in for the user signing in at the provider's page, and fetch answers the
+ * token endpoint and JWKS requests a relying party makes, so the whole
+ * authorization code flow runs without a network.
+ */
+export class FakeOidcProvider {
+  public readonly config: AuthOidcProviderConfig;
+  private keys: FakeOidcKey[] = [generateSigningKey(1)];
+  private codes = new Map<string, IssuedCode>();
+  private readonly clock: IClock;
+
+  constructor(options: FakeOidcProviderOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    const id = options.id ?? 'fake-oidc';
+    const issuer = `https://${id}.oidc.test`;
+    this.config = {
+      id,
+      issuer,
+      clientId: options.clientId ?? 'fake-client',
+      ...(options.clientSecret !== undefined && {
+        clientSecret: options.clientSecret,
+      }),
+      authorizationEndpoint: `${issuer}/authorize`,
+      tokenEndpoint: `${issuer}/token`,
+      jwksUri: `${issuer}/jwks`,
+    };
+  }
+
+  // Returns the redirect the provider would send the browser back with.
+  public authorize(authorizationUrl: string, user: FakeOidcUser): string {
+    const { params, callback } = this.readAuthorizationUrl(authorizationUrl);
+    if (
+      params.get('response_type') !== 'code' ||
+      params.get('client_id') !== this.config.clientId ||
+      !params.get('scope')?.split(' ').includes('openid') ||
+      params.get('code_challenge_method') !== 'S256' ||
+      !params.get('code_challenge')
+    ) {
+      callback.searchParams.set('error', 'invalid_request');
+      return callback.toString();
+    }
+
+    const code = randomBytes(16).toString('base64url');
+    const nonce = params.get('nonce');
+    this.codes.set(code, {
+      redirectUri: params.get('redirect_uri') as string,
+      codeChallenge: params.get('code_challenge') as string,
+      ...(nonce !== null && { nonce }),
+      user,
+      expiresAt: this.clock.now() + codeLifetimeMs,
+    });
+    callback.searchParams.set('code', code);
+    return callback.toString();
+  }
+
+  // The user declining at the provider.
+  public deny(authorizationUrl: string): string {
+    const { callback } = this.readAuthorizationUrl(authorizationUrl);
+    callback.searchParams.set('error', 'access_denied');
+    return callback.toString();
+  }
+
+  // Later id_tokens are signed with a new key. The old one stays in the JWKS.
+  public rotateKeys(): void {
+    this.keys.push(generateSigningKey(this.keys.length + 1));
+  }
+
+  public readonly fetch: OidcFetch = async (url, init) => {
+    const method = init?.method ?? 'GET';
+    if (url === this.config.jwksUri && method === 'GET') {
+      return jsonResponse(200, {
+        keys: this.keys.map((key) => ({
+          ...key.publicKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        })),
+      });
+    }
+    if (url === this.config.tokenEndpoint && method === 'POST') {
+      return this.exchangeCode(new URLSearchParams(init?.body ?? ''));
+    }
+    return jsonResponse(404, { error: 'not_found' });
+  };
+
+  private readAuthorizationUrl(authorizationUrl: string): {
+    params: URLSearchParams;
+    callback: URL;
+  } {
+    const url = new URL(authorizationUrl);
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (
+      `${url.origin}${url.pathname}` !== this.config.authorizationEndpoint ||
+      !redirectUri
+    ) {
+      throw new Error(`Not an authorization URL of ${this.config.issuer}`);
+    }
+    const callback = new URL(redirectUri);
+    const state = url.searchParams.get('state');
+    if (state !== null) {
+      callback.searchParams.set('state', state);
+    }
+    return { params: url.searchParams, callback };
+  }
+
+  private exchangeCode(body: URLSearchParams): {
+    status: number;
+    json(): Promise<unknown>;
+  } {
+    if (
+      body.get('client_id') !== this.config.clientId ||
+      (this.config.clientSecret !== undefined &&
+        body.get('client_secret') !== this.config.clientSecret)
+    ) {
+      return jsonResponse(401, { error: 'invalid_client' });
+    }
+
+    // Codes are single use, like at a real provider.
+    const code = body.get('code') ?? '';
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+    const verifier = body.get('code_verifier');
+    if (
+      body.get('grant_type') !== 'authorization_code' ||
+      !issued ||
+      this.clock.now() > issued.expiresAt ||
+      body.get('redirect_uri') !== issued.redirectUri ||
+      verifier === null ||
+      codeChallengeS256(verifier) !== issued.codeChallenge
+    ) {
+      return jsonResponse(400, { error: 'invalid_grant' });
+    }
+
+    return jsonResponse(200, {
+      access_token: randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: idTokenLifetimeSeconds,
+      id_token: this.issueIdToken(issued),
+    });
+  }
+
+  private issueIdToken(issued: IssuedCode): string {
+    const { user } = issued;
+    const now = Math.floor(this.clock.now() / 1000);
+    const claims: Record<string, unknown> = {
+      iss: this.config.issuer,
+      sub: user.subject,
+      aud: this.config.clientId,
+      iat: now,
+      exp: now + idTokenLifetimeSeconds,
+      ...(issued.nonce !== undefined && { nonce: issued.nonce }),
+      ...(user.email !== undefined && {
+        email: user.email,
+        email_verified: user.emailVerified ?? true,
+      }),
+      ...user.idTokenClaims,
+    };
+    return signJwt(claims, this.keys[this.keys.length - 1]);
+  }
+}
@@ -0,0 +1,19 @@
+// Reads the query of the redirect the provider sent the browser back with.
+// Kept apart from oidc-client so browser code can use it without crypto.
+export function parseOidcCallback(callbackUrl: string): {
+  state?: string;
+  code?: string;
+  error?: string;
+} {
+  let params: URLSearchParams;
+  try {
+    params = new URL(callbackUrl).searchParams;
+  } catch {
+    return {};
+  }
+  return {
+    ...(params.has('state') && { state: params.get('state') as string }),
+    ...(params.has('code') && { code: params.get('code') as string }),
+    ...(params.has('error') && { error: params.get('error') as string }),
+  };
+}
@@ -0,0 +1,246 @@
+import { unwrapResult } from '../utils/result.utils';
+import { FakeOidcProvider, FakeOidcUser } from './fake-oidc-provider';
+import { parseOidcCallback } from './oidc-callback';
+import { AuthOidcClient } from './oidc-client';
+
+const redirectUri = 'https://app.example.com/auth/callback';
+
+function getErrorCode(result: { unwrapOrThrow: () => unknown }): string {
+  const unwrapped = unwrapResult(result as never);
+  if (unwrapped.ok) {
+    throw new Error('Result is not an error');
+  }
+  return (unwrapped.error as { code: string }).code;
+}
+
+describe('AuthOidcClient', () => {
+  let provider: FakeOidcProvider;
+  let client: AuthOidcClient;
+
+  beforeEach(() => {
+    provider = new FakeOidcProvider({ clientSecret: 'client-secret' });
+    client = new AuthOidcClient({
+      providers: [provider.config],
+      fetch: provider.fetch,
+    });
+  });
+
+  function start(linkUid?: string): string {
+    return client
+      .start({ providerId: provider.config.id, redirectUri, linkUid })
+      .unwrapOrThrow().authorizationUrl;
+  }
+
+  async function signIn(user: FakeOidcUser) {
+    const { state, code } = parseOidcCallback(
+      provider.authorize(start(), user),
+    );
+    return client.complete({ state: state ?? '', code: code ?? '' });
+  }
+
+  it('should send the browser to the provider with PKCE, state and nonce', () => {
+    const url = new URL(start());
+
+    expect(`${url.origin}${url.pathname}`).toBe(
+      provider.config.authorizationEndpoint,
+    );
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('client_id')).toBe(provider.config.clientId);
+    expect(url.searchParams.get('redirect_uri')).toBe(redirectUri);
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+  });
+
+  it('should refuse an unknown provider', () => {
+    const result = client.start({ providerId: 'unknown', redirectUri });
+
+    expect(getErrorCode(result)).toBe('provider-not-found');
+  });
+
+  it('should complete a sign-in with the verified identity', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      email: 'oidc@example.com',
+    });
+
+    expect(result.unwrapOrThrow()).toEqual({
+      identity: {
+        providerId: provider.config.id,
+        subject: 'subject-1',
+        email: 'oidc@example.com',
+        emailVerified: true,
+      },
+    });
+  });
+
+  it('should hand back the uid a link was started for', async () => {
+    const { state, code } = parseOidcCallback(
+      provider.authorize(start('user-1'), { subject: 'subject-1' }),
+    );
+
+    const result = await client.complete({ state: state!, code: code! });
+
+    expect(result.unwrapOrThrow().linkUid).toBe('user-1');
+  });
+
+  it('should accept a state only once', async () => {
+    const { state, code } = parseOidcCallback(
+      provider.authorize(start(), { subject: 'subject-1' }),
+    );
+    await client.complete({ state: state!, code: code! });
+
+    const replayed = await client.complete({ state: state!, code: code! });
+
+    expect(getErrorCode(replayed)).toBe('invalid-oidc-state');
+  });
+
+  it('should refuse a state it did not issue', async () => {
+    const result = await client.complete({ state: 'forged', code: 'code' });
+
+    expect(getErrorCode(result)).toBe('invalid-oidc-state');
+  });
+
+  it('should report a code the provider does not accept', async () => {
+    const { state } = parseOidcCallback(
+      provider.authorize(start(), { subject: 'subject-1' }),
+    );
+
+    const result = await client.complete({ state: state!, code: 'wrong' });
+
+    expect(getErrorCode(result)).toBe('provider-error');
+  });
+
+  it('should refuse an id_token with another nonce', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      idTokenClaims: { nonce: 'replayed-nonce' },
+    });
+
+    expect(getErrorCode(result)).toBe('invalid-id-token');
+  });
+
+  it('should refuse an id_token for another audience', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      idTokenClaims: { aud: 'another-client' },
+    });
+
+    expect(getErrorCode(result)).toBe('invalid-id-token');
+  });
+
+  it('should refuse an id_token from another issuer', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      idTokenClaims: { iss: 'https://attacker.example.com' },
+    });
+
+    expect(getErrorCode(result)).toBe('invalid-id-token');
+  });
+
+  it('should refuse an expired id_token', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      idTokenClaims: { exp: Math.floor(Date.now() / 1000) - 3600 },
+    });
+
+    expect(getErrorCode(result)).toBe('invalid-id-token');
+  });
+
+  it('should refuse an id_token signed by another provider', async () => {
+    const impostor = new FakeOidcProvider({
+      id: 'impostor',
+      clientSecret: 'client-secret',
+    });
+    client = new AuthOidcClient({
+      providers: [provider.config],
+      // Tokens come from the impostor, keys from the real provider.
+      fetch: (url, init) =>
+        url === provider.config.jwksUri
+          ? provider.fetch(url, init)
+          : impostor.fetch(
+              url.replace(provider.config.issuer, impostor.config.issuer),
+              init,
+            ),
+    });
+    const authorizationUrl = start().replace(
+      provider.config.issuer,
+      impostor.config.issuer,
+    );
+    const { state, code } = parseOidcCallback(
+      impostor.authorize(authorizationUrl, {
+        subject: 'subject-1',
+        idTokenClaims: { iss: provider.config.issuer },
+      }),
+    );
+
+    const result = await client.complete({ state: state!, code: code! });
+
+    expect(getErrorCode(result)).toBe('invalid-id-token');
+  });
+
+  it('should fetch the JWKS again after the provider rotates its keys', async () => {
+    await signIn({ subject: 'subject-1' });
+    provider.rotateKeys();
+
+    const result = await signIn({ subject: 'subject-1' });
+
+    expect(result.unwrapOrThrow().identity.subject).toBe('subject-1');
+  });
+
+  it('should not trust an unverified email', async () => {
+    const result = await signIn({
+      subject: 'subject-1',
+      email: 'oidc@example.com',
+      emailVerified: false,
+    });
+
+    expect(result.unwrapOrThrow().identity.emailVerified).toBe(false);
+  });
+});
+
+describe('FakeOidcProvider', () => {
+  it('should refuse a code redeemed without the PKCE verifier', async () => {
+    const provider = new FakeOidcProvider();
+    const client = new AuthOidcClient({
+      providers: [provider.config],
+      fetch: provider.fetch,
+    });
+    const { authorizationUrl } = client
+      .start({ providerId: provider.config.id, redirectUri })
+      .unwrapOrThrow();
+    const { code } = parseOidcCallback(
+      provider.authorize(authorizationUrl, { subject: 'subject-1' }),
+    );
+
+    const response = await provider.fetch(provider.config.tokenEndpoint, {
+      method: 'POST',
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: code!,
+        redirect_uri: redirectUri,
+        client_id: provider.config.clientId,
+      }).toString(),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should redirect with an error when the user declines', () => {
+    const provider = new FakeOidcProvider();
+    const client = new AuthOidcClient({
+      providers: [provider.config],
+      fetch: provider.fetch,
+    });
+    const { authorizationUrl, state } = client
+      .start({ providerId: provider.config.id, redirectUri })
+      .unwrapOrThrow();
+
+    expect(parseOidcCallback(provider.deny(authorizationUrl))).toEqual({
+      state,
+      error: 'access_denied',
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import { hashToken } from '../backend/action-tokens/auth-action-tokens';
+import {
+  JwtVerificationKey,
+  parseJwt,
+  verifyJwtSignature,
+} from '../backend/providers/jwt/jwt';
+import { codeChallengeS256, generateCodeVerifier } from './pkce';
+import { IClock, systemClock } from '../clock/clock';
+
+// The subset of fetch used to reach the provider's token endpoint and JWKS.
+export type OidcFetch = (
+  url: string,
+  init?: {
+    method: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+  },
+) => Promise<{ status: number; json(): Promise<unknown> }>;
+
+export type AuthOidcProviderConfig = {
+  // Chosen by the app and used in provider ids and routes, e.g. 'google'.
+  id: string;
+  // Must equal the iss claim of the provider's id_tokens.
+  issuer: string;
+  clientId: string;
+  // Sent to the token endpoint when set (client_secret_post). Public clients
+  // rely on PKCE alone.
+  clientSecret?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  // Defaults to openid, email and profile.
+  scopes?: ReadonlyArray<string>;
+};
+
+// A user as the provider knows them. providerId plus subject is stable, the
+// email is only a hint and may change or be unverified.
+export type OidcIdentity = {
+  providerId: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+};
+
+export type OidcAuthorization = {
+  // Where to send the browser.
+  authorizationUrl: string;
+  state: string;
+  expiresAt: number;
+};
+
+export type OidcCompletionError =
+  | ErrorWithCode<'invalid-oidc-state'>
+  | ErrorWithCode<'oidc-state-expired'>
+  | ErrorWithCode<'provider-error'>
+  | ErrorWithCode<'invalid-id-token'>;
+
+type PendingAuthorization = {
+  providerId: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: number;
+  linkUid?: string;
+};
+
+const authorizationLifetimeMs = 10 * 60 * 1000;
+const defaultScopes = ['openid', 'email', 'profile'];
+// Allowed difference between our clock and the provider's.
+const clockSkewSeconds = 60;
+
+// Maps a completion error onto a caller's own Result, e.g. in a backend that
+// adds errors of its own.
+export function oidcCompletionError(
+  code: OidcCompletionError['code'],
+): Result<never, OidcCompletionError> {
+  switch (code) {
+    case 'invalid-oidc-state':
+      return resultError.withCode('invalid-oidc-state');
+    case 'oidc-state-expired':
+      return resultError.withCode('oidc-state-expired');
+    case 'provider-error':
+      return resultError.withCode('provider-error');
+    case 'invalid-id-token':
+      return resultError.withCode('invalid-id-token');
+  }
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function jwkAlgorithm(jwk: JsonWebKey): 'RS256' | 'ES256' | undefined {
+  if (jwk.alg === 'RS256' || (jwk.alg === undefined && jwk.kty === 'RSA')) {
+    return 'RS256';
+  }
+  if (
+    jwk.alg === 'ES256' ||
+    (jwk.alg === undefined && jwk.kty === 'EC' && jwk.crv === 'P-256')
+  ) {
+    return 'ES256';
+  }
+  return undefined;
+}
+
+/**
+ * Relying party side of the OpenID Connect authorization code flow with PKCE.
+ * start remembers a state, nonce and code verifier for each sign-in, complete
+ * exchanges the code and verifies the id_token against the provider's JWKS.
+ * Like action tokens, only a hash of each state is kept.
+ */
+export class AuthOidcClient {
+  private readonly providers = new Map<string, AuthOidcProviderConfig>();
+  private readonly fetch: OidcFetch;
+  private pending = new Map<string, PendingAuthorization>();
+  // Keys by kid, per provider. Refetched when a token names an unknown kid so
+  // provider key rotation needs no restart.
+  private jwks = new Map<string, Map<string, JwtVerificationKey>>();
+  private readonly clock: IClock;
+
+  constructor(options: {
+    providers: ReadonlyArray<AuthOidcProviderConfig>;
+    fetch?: OidcFetch;
+    // Checks state expiry and id_token times.
+    clock?: IClock;
+  }) {
+    for (const provider of options.providers) {
+      if (this.providers.has(provider.id)) {
+        throw new Error(`OIDC provider "${provider.id}" is configured twice`);
+      }
+      this.providers.set(provider.id, provider);
+    }
+    this.fetch = options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public start(args: {
+    providerId: string;
+    redirectUri: string;
+    // Set when the identity is to be linked to this user rather than signed
+    // in with. complete hands it back.
+    linkUid?: string;
+  }): Result<OidcAuthorization, ErrorWithCode<'provider-not-found'>> {
+    const provider = this.providers.get(args.providerId);
+    if (!provider) {
+      return resultError.withCode('provider-not-found');
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = generateCodeVerifier();
+    const expiresAt = this.clock.now() + authorizationLifetimeMs;
+    this.pending.set(hashToken(state), {
+      providerId: provider.id,
+      redirectUri: args.redirectUri,
+      codeVerifier,
+      nonce,
+      expiresAt,
+      ...(args.linkUid !== undefined && { linkUid: args.linkUid }),
+    });
+
+    const url = new URL(provider.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', args.redirectUri);
+    url.searchParams.set('scope', (provider.scopes ?? defaultScopes).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallengeS256(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return resultSuccess({
+      authorizationUrl: url.toString(),
+      state,
+      expiresAt,
+    });
+  }
+
+  // The state is used up by the first attempt, whether or not it succeeds.
+  public async complete(args: {
+    state: string;
+    code: string;
+  }): Promise<
+    Result<{ identity: OidcIdentity; linkUid?: string }, OidcCompletionError>
+  > {
+    const key = hashToken(args.state);
+    const pending = this.pending.get(key);
+    this.pending.delete(key);
+    if (!pending) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+    if (this.clock.now() > pending.expiresAt) {
+      return resultError.withCode('oidc-state-expired');
+    }
+    const provider = this.providers.get(pending.providerId);
+    if (!provider) {
+      return resultError.withCode('invalid-oidc-state');
+    }
+
+    const idToken = await this.exchangeCode(provider, pending, args.code);
+    if (idToken === undefined) {
+      return resultError.withCode('provider-error');
+    }
+    const identity = await this.verifyIdToken(provider, idToken, pending.nonce);
+    if (!identity) {
+      return resultError.withCode('invalid-id-token');
+    }
+    return resultSuccess({
+      identity,
+      ...(pending.linkUid !== undefined && { linkUid: pending.linkUid }),
+    });
+  }
+
+  private async exchangeCode(
+    provider: AuthOidcProviderConfig,
+    pending: PendingAuthorization,
+    code: string,
+  ): Promise<string | undefined> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: pending.codeVerifier,
+    });
+    if (provider.clientSecret !== undefined) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    try {
+      const response = await this.fetch(provider.tokenEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: body.toString(),
+      });
+      if (response.status !== 200) {
+        return undefined;
+      }
+      const tokens = (await response.json()) as { id_token?: unknown } | null;
+      return typeof tokens?.id_token === 'string' ? tokens.id_token : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async verifyIdToken(
+    provider: AuthOidcProviderConfig,
+    idToken: string,
+    nonce: string,
+  ): Promise<OidcIdentity | undefined> {
+    const parsed = parseJwt(idToken);
+    if (!parsed) {
+      return undefined;
+    }
+    const key = await this.findKey(provider, parsed.header.kid);
+    if (!key || !verifyJwtSignature(parsed, key)) {
+      return undefined;
+    }
+
+    const claims = parsed.payload;
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const nowSeconds = this.clock.now() / 1000;
+    if (
+      claims.iss !== provider.issuer ||
+      !audience.includes(provider.clientId) ||
+      // With several audiences the token must say it was issued to us.
+      (audience.length > 1 && claims.azp !== provider.clientId) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp + clockSkewSeconds < nowSeconds ||
+      typeof claims.iat !== 'number' ||
+      claims.iat - clockSkewSeconds > nowSeconds ||
+      claims.nonce !== nonce ||
+      typeof claims.sub !== 'string' ||
+      claims.sub === ''
+    ) {
+      return undefined;
+    }
+
+    return {
+      providerId: provider.id,
+      subject: claims.sub,
+      ...(typeof claims.email === 'string' && { email: claims.email }),
+      // Some providers send the flag as a string.
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === 'true',
+    };
+  }
+
+  private async findKey(
+    provider: AuthOidcProviderConfig,
+    kid: string,
+  ): Promise<JwtVerificationKey | undefined> {
+    const cached = this.jwks.get(provider.id)?.get(kid);
+    if (cached) {
+      return cached;
+    }
+    const keys = await this.fetchJwks(provider);
+    if (keys) {
+      this.jwks.set(provider.id, keys);
+    }
+    return keys?.get(kid);
+  }
+
+  private async fetchJwks(
+    provider: AuthOidcProviderConfig,
+  ): Promise<Map<string, JwtVerificationKey> | undefined> {
+    let jwks: { keys?: unknown } | null;
+    try {
+      const response = await this.fetch(provider.jwksUri, {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+      });
+      if (response.status !== 200) {
+        return undefined;
+      }
+      jwks = (await response.json()) as { keys?: unknown } | null;
+    } catch {
+      return undefined;
+    }
+    if (!Array.isArray(jwks?.keys)) {
+      return undefined;
+    }
+
+    const keys = new Map<string, JwtVerificationKey>();
+    for (const jwk of jwks.keys as JsonWebKey[]) {
+      const algorithm = jwkAlgorithm(jwk);
+      if (
+        typeof jwk.kid !== 'string' ||
+        !algorithm ||
+        (jwk.use !== undefined && jwk.use !== 'sig')
+      ) {
+        continue;
+      }
+      try {
+        const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+        keys.set(jwk.kid, { kid: jwk.kid, algorithm, publicKey });
+      } catch {
+        // Keys node cannot import are skipped like unsupported algorithms.
+      }
+    }
+    return keys;
+  }
+}
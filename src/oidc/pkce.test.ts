@@ -0,0 +1,17 @@
+import { codeChallengeS256, generateCodeVerifier } from './pkce';
+
+describe('PKCE', () => {
+  it('should match the RFC 7636 S256 example', () => {
+    expect(
+      codeChallengeS256('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'),
+    ).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should generate distinct verifiers of the allowed characters', () => {
+    const first = generateCodeVerifier();
+    const second = generateCodeVerifier();
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first).not.toBe(second);
+  });
+});
@@ -0,0 +1,82 @@
+import { IPasswordHasher } from './password-hasher.interface';
+
+/**
+ * Comprehensive test suite for IPasswordHasher implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testPasswordHasher(passwordHasher: IPasswordHasher): void {
+  describe('IPasswordHasher implementation tests', () => {
+    const password = 'testPassword123';
+
+    describe('hash', () => {
+      it('should return a PHC formatted string', async () => {
+        const hash = await passwordHasher.hash(password);
+
+        expect(hash).toMatch(/^\$[a-z0-9-]+\$[^$]*\$[^$]+\$[^$]+$/);
+      });
+
+      it('should not contain the plaintext password', async () => {
+        const hash = await passwordHasher.hash(password);
+
+        expect(hash).not.toContain(password);
+      });
+
+      it('should salt every hash', async () => {
+        const first = await passwordHasher.hash(password);
+        const second = await passwordHasher.hash(password);
+
+        expect(first).not.toBe(second);
+      });
+    });
+
+    describe('verify', () => {
+      let hash: string;
+
+      beforeEach(async () => {
+        hash = await passwordHasher.hash(password);
+      });
+
+      it('should accept the correct password', async () => {
+        await expect(passwordHasher.verify({ password, hash })).resolves.toBe(
+          true,
+        );
+      });
+
+      it('should reject a wrong password', async () => {
+        await expect(
+          passwordHasher.verify({ password: 'wrongPassword', hash }),
+        ).resolves.toBe(false);
+      });
+
+      it('should reject a malformed hash', async () => {
+        await expect(
+          passwordHasher.verify({ password, hash: 'not-a-hash' }),
+        ).resolves.toBe(false);
+      });
+
+      it('should reject a hash with a modified digest', async () => {
+        const digestStart = hash.lastIndexOf('$') + 1;
+        const tampered =
+          hash.slice(0, digestStart) +
+          (hash[digestStart] === 'A' ? 'B' : 'A') +
+          hash.slice(digestStart + 1);
+
+        await expect(
+          passwordHasher.verify({ password, hash: tampered }),
+        ).resolves.toBe(false);
+      });
+    });
+
+    describe('needsRehash', () => {
+      it('should not require a rehash for a fresh hash', async () => {
+        const hash = await passwordHasher.hash(password);
+
+        expect(passwordHasher.needsRehash(hash)).toBe(false);
+      });
+
+      it('should require a rehash for an unrecognised hash', () => {
+        expect(passwordHasher.needsRehash('plaintext')).toBe(true);
+      });
+    });
+  });
+}
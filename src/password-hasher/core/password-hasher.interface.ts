@@ -0,0 +1,9 @@
+// Hashes are self-describing PHC strings ($<id>$<params>$<salt>$<hash>), so a
+// hasher can verify hashes created under older parameters and tell when they
+// should be upgraded.
+export interface IPasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(args: { password: string; hash: string }): Promise<boolean>;
+  // True when the hash was produced with weaker parameters than the current policy.
+  needsRehash(hash: string): boolean;
+}
@@ -0,0 +1,51 @@
+export type PhcHash = {
+  id: string;
+  params: Record<string, string>;
+  salt: Buffer;
+  hash: Buffer;
+};
+
+// PHC strings use standard base64 without padding.
+function encodeBase64(value: Buffer): string {
+  return value.toString('base64').replace(/=+$/, '');
+}
+
+export function formatPhcHash(phc: PhcHash): string {
+  const params = Object.entries(phc.params)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(',');
+  return `$${phc.id}$${params}$${encodeBase64(phc.salt)}$${encodeBase64(phc.hash)}`;
+}
+
+export function parsePhcHash(value: string): PhcHash | undefined {
+  const parts = value.split('$');
+  if (parts.length !== 5 || parts[0] !== '') {
+    return undefined;
+  }
+
+  const [, id, encodedParams, encodedSalt, encodedHash] = parts;
+  const params: Record<string, string> = {};
+  for (const param of encodedParams.split(',')) {
+    const [name, paramValue] = param.split('=');
+    if (!name || paramValue === undefined) {
+      return undefined;
+    }
+    params[name] = paramValue;
+  }
+
+  const salt = Buffer.from(encodedSalt, 'base64');
+  const hash = Buffer.from(encodedHash, 'base64');
+  if (!id || salt.length === 0 || hash.length === 0) {
+    return undefined;
+  }
+
+  return { id, params, salt, hash };
+}
+
+export function parsePositiveIntParam(
+  phc: PhcHash,
+  name: string,
+): number | undefined {
+  const value = Number(phc.params[name]);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
@@ -0,0 +1,64 @@
+import { testPasswordHasher } from '../../core/password-hasher.generic.test';
+import { PasswordHasherPbkdf2 } from './password-hasher.pbkdf2';
+
+describe('PasswordHasherPbkdf2', () => {
+  testPasswordHasher(new PasswordHasherPbkdf2({ iterations: 10000 }));
+
+  describe('PasswordHasherPbkdf2 specific features', () => {
+    const password = 'testPassword123';
+
+    it('should encode the digest and iterations in the hash', async () => {
+      const hasher = new PasswordHasherPbkdf2({
+        digest: 'sha512',
+        iterations: 1000,
+      });
+
+      const hash = await hasher.hash(password);
+
+      expect(hash.startsWith('$pbkdf2-sha512$i=1000$')).toBe(true);
+    });
+
+    it('should verify hashes created with fewer iterations', async () => {
+      const weakHash = await new PasswordHasherPbkdf2({
+        iterations: 1000,
+      }).hash(password);
+
+      const result = await new PasswordHasherPbkdf2({
+        iterations: 10000,
+      }).verify({ password, hash: weakHash });
+
+      expect(result).toBe(true);
+    });
+
+    it('should require a rehash when the policy has more iterations', async () => {
+      const weakHash = await new PasswordHasherPbkdf2({
+        iterations: 1000,
+      }).hash(password);
+
+      const hasher = new PasswordHasherPbkdf2({ iterations: 10000 });
+
+      expect(hasher.needsRehash(weakHash)).toBe(true);
+    });
+
+    it('should require a rehash when the policy uses a stronger digest', async () => {
+      const weakHash = await new PasswordHasherPbkdf2({
+        iterations: 1000,
+      }).hash(password);
+
+      const hasher = new PasswordHasherPbkdf2({
+        digest: 'sha512',
+        iterations: 1000,
+      });
+
+      expect(hasher.needsRehash(weakHash)).toBe(true);
+    });
+
+    it('should require a rehash for a hash from another algorithm', () => {
+      const hasher = new PasswordHasherPbkdf2({ iterations: 1000 });
+
+      expect(hasher.needsRehash('$scrypt$ln=15,r=8,p=1$c2FsdA$aGFzaA')).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { pbkdf2, randomBytes, timingSafeEqual } from 'crypto';
+import { IPasswordHasher } from '../../core/password-hasher.interface';
+import {
+  formatPhcHash,
+  parsePhcHash,
+  parsePositiveIntParam,
+} from '../../core/phc-string';
+
+export type PasswordHasherPbkdf2Digest = 'sha256' | 'sha512';
+
+export type PasswordHasherPbkdf2Options = {
+  digest?: PasswordHasherPbkdf2Digest;
+  // Defaults to 600000, the OWASP recommendation for PBKDF2-HMAC-SHA256.
+  iterations?: number;
+  keyLength?: number;
+  saltLength?: number;
+};
+
+const digestStrength: Record<PasswordHasherPbkdf2Digest, number> = {
+  sha256: 1,
+  sha512: 2,
+};
+
+function deriveKey(args: {
+  password: string;
+  salt: Buffer;
+  iterations: number;
+  keyLength: number;
+  digest: PasswordHasherPbkdf2Digest;
+}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    pbkdf2(
+      args.password,
+      args.salt,
+      args.iterations,
+      args.keyLength,
+      args.digest,
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)),
+    );
+  });
+}
+
+function parseDigest(id: string): PasswordHasherPbkdf2Digest | undefined {
+  switch (id) {
+    case 'pbkdf2-sha256':
+      return 'sha256';
+    case 'pbkdf2-sha512':
+      return 'sha512';
+    default:
+      return undefined;
+  }
+}
+
+export class PasswordHasherPbkdf2 implements IPasswordHasher {
+  private readonly digest: PasswordHasherPbkdf2Digest;
+  private readonly iterations: number;
+  private readonly keyLength: number;
+  private readonly saltLength: number;
+
+  constructor(options: PasswordHasherPbkdf2Options = {}) {
+    this.digest = options.digest ?? 'sha256';
+    this.iterations = options.iterations ?? 600000;
+    this.keyLength = options.keyLength ?? 32;
+    this.saltLength = options.saltLength ?? 16;
+  }
+
+  public async hash(password: string): Promise<string> {
+    const salt = randomBytes(this.saltLength);
+    const hash = await deriveKey({
+      password,
+      salt,
+      iterations: this.iterations,
+      keyLength: this.keyLength,
+      digest: this.digest,
+    });
+    return formatPhcHash({
+      id: `pbkdf2-${this.digest}`,
+      params: { i: String(this.iterations) },
+      salt,
+      hash,
+    });
+  }
+
+  public async verify(args: {
+    password: string;
+    hash: string;
+  }): Promise<boolean> {
+    const phc = parsePhcHash(args.hash);
+    const digest = phc && parseDigest(phc.id);
+    const iterations = phc && parsePositiveIntParam(phc, 'i');
+    if (!phc || !digest || !iterations) {
+      return false;
+    }
+
+    const derivedKey = await deriveKey({
+      password: args.password,
+      salt: phc.salt,
+      iterations,
+      keyLength: phc.hash.length,
+      digest,
+    });
+    return timingSafeEqual(derivedKey, phc.hash);
+  }
+
+  public needsRehash(hash: string): boolean {
+    const phc = parsePhcHash(hash);
+    const digest = phc && parseDigest(phc.id);
+    if (!phc || !digest) {
+      return true;
+    }
+
+    return (
+      digestStrength[digest] < digestStrength[this.digest] ||
+      (parsePositiveIntParam(phc, 'i') ?? 0) < this.iterations ||
+      phc.hash.length < this.keyLength ||
+      phc.salt.length < this.saltLength
+    );
+  }
+}
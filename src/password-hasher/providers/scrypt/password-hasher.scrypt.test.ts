@@ -0,0 +1,47 @@
+import { testPasswordHasher } from '../../core/password-hasher.generic.test';
+import { PasswordHasherScrypt } from './password-hasher.scrypt';
+
+describe('PasswordHasherScrypt', () => {
+  testPasswordHasher(new PasswordHasherScrypt());
+
+  describe('PasswordHasherScrypt specific features', () => {
+    const password = 'testPassword123';
+
+    it('should encode the cost parameters in the hash', async () => {
+      const hasher = new PasswordHasherScrypt({ logCost: 14, blockSize: 8 });
+
+      const hash = await hasher.hash(password);
+
+      expect(hash.startsWith('$scrypt$ln=14,r=8,p=1$')).toBe(true);
+    });
+
+    it('should verify hashes created with weaker parameters', async () => {
+      const weakHash = await new PasswordHasherScrypt({ logCost: 12 }).hash(
+        password,
+      );
+
+      const result = await new PasswordHasherScrypt().verify({
+        password,
+        hash: weakHash,
+      });
+
+      expect(result).toBe(true);
+    });
+
+    it('should require a rehash when the policy is stronger', async () => {
+      const weakHash = await new PasswordHasherScrypt({ logCost: 12 }).hash(
+        password,
+      );
+
+      expect(new PasswordHasherScrypt().needsRehash(weakHash)).toBe(true);
+    });
+
+    it('should not require a rehash when the hash is stronger', async () => {
+      const strongHash = await new PasswordHasherScrypt({ logCost: 16 }).hash(
+        password,
+      );
+
+      expect(new PasswordHasherScrypt().needsRehash(strongHash)).toBe(false);
+    });
+  });
+});
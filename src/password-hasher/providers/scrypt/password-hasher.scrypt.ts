@@ -0,0 +1,123 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { IPasswordHasher } from '../../core/password-hasher.interface';
+import {
+  formatPhcHash,
+  parsePhcHash,
+  parsePositiveIntParam,
+} from '../../core/phc-string';
+
+export type PasswordHasherScryptOptions = {
+  // log2 of the CPU/memory cost N. Defaults to 15.
+  logCost?: number;
+  blockSize?: number;
+  parallelization?: number;
+  keyLength?: number;
+  saltLength?: number;
+};
+
+const scryptId = 'scrypt';
+
+function deriveKey(args: {
+  password: string;
+  salt: Buffer;
+  keyLength: number;
+  logCost: number;
+  blockSize: number;
+  parallelization: number;
+}): Promise<Buffer> {
+  const cost = 2 ** args.logCost;
+  return new Promise((resolve, reject) => {
+    scrypt(
+      args.password,
+      args.salt,
+      args.keyLength,
+      {
+        N: cost,
+        r: args.blockSize,
+        p: args.parallelization,
+        maxmem: 256 * cost * args.blockSize,
+      },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)),
+    );
+  });
+}
+
+export class PasswordHasherScrypt implements IPasswordHasher {
+  private readonly logCost: number;
+  private readonly blockSize: number;
+  private readonly parallelization: number;
+  private readonly keyLength: number;
+  private readonly saltLength: number;
+
+  constructor(options: PasswordHasherScryptOptions = {}) {
+    this.logCost = options.logCost ?? 15;
+    this.blockSize = options.blockSize ?? 8;
+    this.parallelization = options.parallelization ?? 1;
+    this.keyLength = options.keyLength ?? 32;
+    this.saltLength = options.saltLength ?? 16;
+  }
+
+  public async hash(password: string): Promise<string> {
+    const salt = randomBytes(this.saltLength);
+    const hash = await deriveKey({
+      password,
+      salt,
+      keyLength: this.keyLength,
+      logCost: this.logCost,
+      blockSize: this.blockSize,
+      parallelization: this.parallelization,
+    });
+    return formatPhcHash({
+      id: scryptId,
+      params: {
+        ln: String(this.logCost),
+        r: String(this.blockSize),
+        p: String(this.parallelization),
+      },
+      salt,
+      hash,
+    });
+  }
+
+  public async verify(args: {
+    password: string;
+    hash: string;
+  }): Promise<boolean> {
+    const phc = parsePhcHash(args.hash);
+    if (!phc || phc.id !== scryptId) {
+      return false;
+    }
+
+    const logCost = parsePositiveIntParam(phc, 'ln');
+    const blockSize = parsePositiveIntParam(phc, 'r');
+    const parallelization = parsePositiveIntParam(phc, 'p');
+    if (!logCost || !blockSize || !parallelization) {
+      return false;
+    }
+
+    const derivedKey = await deriveKey({
+      password: args.password,
+      salt: phc.salt,
+      keyLength: phc.hash.length,
+      logCost,
+      blockSize,
+      parallelization,
+    });
+    return timingSafeEqual(derivedKey, phc.hash);
+  }
+
+  public needsRehash(hash: string): boolean {
+    const phc = parsePhcHash(hash);
+    if (!phc || phc.id !== scryptId) {
+      return true;
+    }
+
+    return (
+      (parsePositiveIntParam(phc, 'ln') ?? 0) < this.logCost ||
+      (parsePositiveIntParam(phc, 'r') ?? 0) < this.blockSize ||
+      (parsePositiveIntParam(phc, 'p') ?? 0) < this.parallelization ||
+      phc.hash.length < this.keyLength ||
+      phc.salt.length < this.saltLength
+    );
+  }
+}
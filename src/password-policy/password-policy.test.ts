@@ -0,0 +1,94 @@
+import { unwrapResult } from '../utils/result.utils';
+import { findFailedPasswordRules, weakPasswordError } from './password-policy';
+
+describe('findFailedPasswordRules', () => {
+  it('should only refuse an empty password without a policy', async () => {
+    expect(await findFailedPasswordRules({}, { password: '' })).toEqual([
+      'min-length',
+    ]);
+    expect(await findFailedPasswordRules({}, { password: 'a' })).toEqual([]);
+  });
+
+  it('should report every rule a password fails', async () => {
+    const policy = {
+      minLength: 12,
+      requireLowercase: true,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+    };
+
+    expect(await findFailedPasswordRules(policy, { password: 'abc' })).toEqual([
+      'min-length',
+      'uppercase',
+      'digit',
+      'symbol',
+    ]);
+    expect(
+      await findFailedPasswordRules(policy, { password: 'Correct horse 1' }),
+    ).toEqual([]);
+  });
+
+  it('should count characters rather than bytes', async () => {
+    const policy = { minLength: 4, maxLength: 4 };
+
+    expect(
+      await findFailedPasswordRules(policy, { password: 'ñ😀ü€' }),
+    ).toEqual([]);
+    expect(
+      await findFailedPasswordRules(policy, { password: 'ñ😀ü€x' }),
+    ).toEqual(['max-length']);
+  });
+
+  it('should refuse the email or its username, ignoring case', async () => {
+    const policy = { disallowEmail: true };
+    const email = 'Jane.Doe@example.com';
+
+    expect(
+      await findFailedPasswordRules(policy, {
+        password: 'xJANE.DOE@EXAMPLE.COMx',
+        email,
+      }),
+    ).toEqual(['contains-email']);
+    expect(
+      await findFailedPasswordRules(policy, { password: 'jane.doe123', email }),
+    ).toEqual(['contains-email']);
+    expect(
+      await findFailedPasswordRules(policy, {
+        password: 'ab-password',
+        email: 'ab@example.com',
+      }),
+    ).toEqual([]);
+  });
+
+  it('should refuse passwords on the breached list', async () => {
+    const breachedPasswords = new Set(['password123']);
+
+    expect(
+      await findFailedPasswordRules(
+        { breachedPasswords },
+        { password: 'password123' },
+      ),
+    ).toEqual(['breached']);
+    expect(
+      await findFailedPasswordRules(
+        { breachedPasswords: { has: async () => false } },
+        { password: 'password123' },
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('weakPasswordError', () => {
+  it('should carry the failed rules', () => {
+    const result = unwrapResult(weakPasswordError(['min-length', 'digit']));
+
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({
+        code: 'weak-password',
+        failedRules: ['min-length', 'digit'],
+      }),
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { ErrorWithCode, Result } from '@j2blasco/ts-result';
+import { resultErrorWithDetails } from '../utils/result.utils';
+
+export const passwordRules = [
+  'min-length',
+  'max-length',
+  'lowercase',
+  'uppercase',
+  'digit',
+  'symbol',
+  'contains-email',
+  'breached',
+] as const;
+
+export type PasswordRule = (typeof passwordRules)[number];
+
+export type WeakPasswordError = ErrorWithCode<'weak-password'> & {
+  failedRules: PasswordRule[];
+};
+
+// Passwords known from breaches. A Set of common passwords is one, a client
+// of a breach lookup service another.
+export interface IBreachedPasswordList {
+  has(password: string): boolean | Promise<boolean>;
+}
+
+// Lengths count characters, not bytes. Every rule but minLength is off unless
+// set.
+export type PasswordPolicy = {
+  // Defaults to 1, so only empty passwords are refused.
+  minLength?: number;
+  maxLength?: number;
+  requireLowercase?: boolean;
+  requireUppercase?: boolean;
+  requireDigit?: boolean;
+  // Anything that is neither a letter nor a digit, spaces included.
+  requireSymbol?: boolean;
+  // Refuses passwords that contain the email or the username before its @,
+  // ignoring case. Usernames shorter than 3 characters are not checked.
+  disallowEmail?: boolean;
+  breachedPasswords?: IBreachedPasswordList;
+};
+
+const minUsernameLength = 3;
+
+export function weakPasswordError(
+  failedRules: PasswordRule[],
+): Result<never, WeakPasswordError> {
+  return resultErrorWithDetails('weak-password', { failedRules });
+}
+
+// The rules the password breaks, in the order of passwordRules. Empty when it
+// satisfies the policy.
+export async function findFailedPasswordRules(
+  policy: PasswordPolicy,
+  args: { password: string; email?: string },
+): Promise<PasswordRule[]> {
+  const { password } = args;
+  const length = Array.from(password).length;
+  const failed: PasswordRule[] = [];
+  if (length < (policy.minLength ?? 1)) {
+    failed.push('min-length');
+  }
+  if (policy.maxLength !== undefined && length > policy.maxLength) {
+    failed.push('max-length');
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    failed.push('lowercase');
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    failed.push('uppercase');
+  }
+  if (policy.requireDigit && !/\p{Nd}/u.test(password)) {
+    failed.push('digit');
+  }
+  if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+    failed.push('symbol');
+  }
+  if (
+    policy.disallowEmail &&
+    args.email !== undefined &&
+    containsEmail(password, args.email)
+  ) {
+    failed.push('contains-email');
+  }
+  if (await policy.breachedPasswords?.has(password)) {
+    failed.push('breached');
+  }
+  return failed;
+}
+
+function containsEmail(password: string, email: string): boolean {
+  const lowerPassword = password.toLowerCase();
+  const lowerEmail = email.toLowerCase();
+  const username = lowerEmail.split('@')[0];
+  return (
+    lowerPassword.includes(lowerEmail) ||
+    (username.length >= minUsernameLength && lowerPassword.includes(username))
+  );
+}
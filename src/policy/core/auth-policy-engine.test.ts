@@ -0,0 +1,131 @@
+import { testAuthPolicy } from './auth-policy.generic.test';
+import { AuthPolicy } from './auth-policy.interface';
+import { AuthPolicyEngine, findAuthPolicyProblems } from './auth-policy-engine';
+
+type Permission = 'post:read' | 'post:write' | 'post:delete' | 'user:manage';
+type Role = 'reader' | 'editor' | 'admin';
+
+const policy: AuthPolicy<Permission, Role> = {
+  permissions: ['post:read', 'post:write', 'post:delete', 'user:manage'],
+  roles: {
+    reader: { grants: ['post:read'] },
+    editor: { grants: ['post:write'], inherits: ['reader'] },
+    admin: { grants: ['post:delete', 'user:manage'], inherits: ['editor'] },
+  },
+  ownerGrants: ['post:write', 'post:delete'],
+};
+
+const reader = { uid: 'reader-uid', claims: { roles: ['reader'] } };
+const editor = { uid: 'editor-uid', claims: { roles: 'editor' } };
+const admin = { uid: 'admin-uid', claims: { roles: ['admin'] } };
+
+describe('AuthPolicyEngine', () => {
+  testAuthPolicy(policy, [
+    { subject: reader, permission: 'post:read', allowed: true },
+    { subject: reader, permission: 'post:write', allowed: false },
+    { subject: editor, permission: 'post:read', allowed: true },
+    { subject: editor, permission: 'post:delete', allowed: false },
+    { subject: admin, permission: 'user:manage', allowed: true },
+    {
+      subject: reader,
+      permission: 'post:delete',
+      resource: { ownerUid: reader.uid },
+      allowed: true,
+    },
+    {
+      subject: editor,
+      permission: 'post:delete',
+      resource: { ownerUid: reader.uid },
+      allowed: false,
+    },
+  ]);
+
+  describe('AuthPolicyEngine specific features', () => {
+    const engine = new AuthPolicyEngine(policy);
+
+    it('should explain which inherited role granted the permission', () => {
+      const decision = engine.explain({
+        subject: admin,
+        permission: 'post:read',
+      });
+
+      expect(decision).toEqual({
+        allowed: true,
+        uid: admin.uid,
+        permission: 'post:read',
+        matches: [
+          { rule: 'role', role: 'admin', path: ['admin', 'editor', 'reader'] },
+        ],
+      });
+    });
+
+    it('should list every rule that matched', () => {
+      const decision = engine.explain({
+        subject: admin,
+        permission: 'post:delete',
+        resource: { ownerUid: admin.uid },
+      });
+
+      expect(decision.matches).toEqual([
+        { rule: 'role', role: 'admin', path: ['admin'] },
+        { rule: 'owner' },
+      ]);
+    });
+
+    it('should ignore roles the policy does not define', () => {
+      const decision = engine.explain({
+        subject: { uid: 'uid', claims: { roles: ['superuser', 42] } },
+        permission: 'post:read',
+      });
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it('should read roles from the configured claim', () => {
+      const custom = new AuthPolicyEngine({ ...policy, roleClaim: 'role' });
+
+      const result = custom.authorize({
+        subject: { uid: 'uid', claims: { role: 'reader' } },
+        permission: 'post:read',
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should report undeclared permissions, undefined roles and cycles', () => {
+      const broken = {
+        permissions: ['a'],
+        roles: {
+          first: { grants: ['a', 'b'], inherits: ['second'] },
+          second: { grants: [], inherits: ['first', 'missing'] },
+        },
+        ownerGrants: ['c'],
+      } as AuthPolicy;
+
+      expect(findAuthPolicyProblems(broken)).toEqual([
+        'Role "first" grants undeclared permission "b"',
+        'Role "second" inherits undefined role "missing"',
+        'Owners are granted undeclared permission "c"',
+        'Role "first" inherits itself through first -> second -> first',
+        'Role "second" inherits itself through second -> first -> second',
+      ]);
+    });
+
+    it('should not loop on an inheritance cycle', () => {
+      const cyclic = new AuthPolicyEngine({
+        permissions: ['a'],
+        roles: {
+          first: { grants: [], inherits: ['second'] },
+          second: { grants: [], inherits: ['first'] },
+        },
+      } as AuthPolicy);
+
+      const decision = cyclic.explain({
+        subject: { uid: 'uid', claims: { roles: ['first'] } },
+        permission: 'a',
+      });
+
+      expect(decision.allowed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  ErrorWithCode,
+  Result,
+  resultError,
+  resultSuccess,
+} from '@j2blasco/ts-result';
+import type { VerifiedIdToken } from '../../backend/core/auth-backend.interface';
+import {
+  AuthPolicy,
+  AuthPolicyDecision,
+  AuthPolicyRequest,
+  AuthPolicyRuleMatch,
+  IAuthPolicyEngine,
+} from './auth-policy.interface';
+
+/**
+ * Evaluates an AuthPolicy against the uid and claims of a verified idToken,
+ * so route handlers check a permission instead of inspecting roles.
+ */
+export class AuthPolicyEngine<
+  TPermission extends string = string,
+  TRole extends string = string,
+> implements IAuthPolicyEngine<TPermission>
+{
+  private readonly roleClaim: string;
+
+  constructor(private readonly policy: AuthPolicy<TPermission, TRole>) {
+    this.roleClaim = policy.roleClaim ?? 'roles';
+  }
+
+  public authorize(
+    request: AuthPolicyRequest<TPermission>,
+  ): Result<AuthPolicyDecision<TPermission>, ErrorWithCode<'forbidden'>> {
+    const decision = this.explain(request);
+    return decision.allowed
+      ? resultSuccess(decision)
+      : resultError.withCode('forbidden');
+  }
+
+  public explain(
+    request: AuthPolicyRequest<TPermission>,
+  ): AuthPolicyDecision<TPermission> {
+    const matches: AuthPolicyRuleMatch[] = [];
+    for (const role of this.rolesOf(request.subject)) {
+      const path = this.findGrantPath(role, request.permission, []);
+      if (path) {
+        matches.push({ rule: 'role', role, path });
+      }
+    }
+
+    const ownerUid = request.resource?.ownerUid;
+    if (
+      ownerUid !== undefined &&
+      ownerUid === request.subject.uid &&
+      (this.policy.ownerGrants ?? []).includes(request.permission)
+    ) {
+      matches.push({ rule: 'owner' });
+    }
+
+    return {
+      allowed: matches.length > 0,
+      uid: request.subject.uid,
+      permission: request.permission,
+      matches,
+    };
+  }
+
+  // The role claim may hold one role or several. Roles the policy does not
+  // define grant nothing.
+  private rolesOf(subject: VerifiedIdToken): TRole[] {
+    const claim = subject.claims[this.roleClaim];
+    const names =
+      typeof claim === 'string'
+        ? [claim]
+        : Array.isArray(claim)
+          ? claim.filter((name): name is string => typeof name === 'string')
+          : [];
+    return [...new Set(names)].filter((name): name is TRole =>
+      Object.hasOwn(this.policy.roles, name),
+    );
+  }
+
+  // Depth first through inherited roles. Roles already on the path are
+  // skipped, so an inheritance cycle cannot loop forever.
+  private findGrantPath(
+    role: TRole,
+    permission: TPermission,
+    visited: TRole[],
+  ): TRole[] | undefined {
+    const definition = this.policy.roles[role];
+    if (!definition || visited.includes(role)) {
+      return undefined;
+    }
+    const path = [...visited, role];
+    if (definition.grants.includes(permission)) {
+      return path;
+    }
+    for (const inherited of definition.inherits ?? []) {
+      const found = this.findGrantPath(inherited, permission, path);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Mistakes the type system cannot catch, such as a role inheriting itself
+// through others. An empty list means the policy is consistent.
+export function findAuthPolicyProblems<
+  TPermission extends string,
+  TRole extends string,
+>(policy: AuthPolicy<TPermission, TRole>): string[] {
+  const problems: string[] = [];
+  const roles = Object.keys(policy.roles) as TRole[];
+
+  for (const role of roles) {
+    const { grants, inherits = [] } = policy.roles[role];
+    for (const permission of grants) {
+      if (!policy.permissions.includes(permission)) {
+        problems.push(
+          `Role "${role}" grants undeclared permission "${permission}"`,
+        );
+      }
+    }
+    for (const inherited of inherits) {
+      if (!roles.includes(inherited)) {
+        problems.push(`Role "${role}" inherits undefined role "${inherited}"`);
+      }
+    }
+  }
+
+  for (const permission of policy.ownerGrants ?? []) {
+    if (!policy.permissions.includes(permission)) {
+      problems.push(`Owners are granted undeclared permission "${permission}"`);
+    }
+  }
+
+  for (const role of roles) {
+    const cycle = findInheritanceCycle(policy, role, [role]);
+    if (cycle) {
+      problems.push(
+        `Role "${role}" inherits itself through ${cycle.join(' -> ')}`,
+      );
+    }
+  }
+  return problems;
+}
+
+function findInheritanceCycle<TPermission extends string, TRole extends string>(
+  policy: AuthPolicy<TPermission, TRole>,
+  start: TRole,
+  path: TRole[],
+): TRole[] | undefined {
+  const current = path[path.length - 1];
+  for (const inherited of policy.roles[current]?.inherits ?? []) {
+    if (inherited === start) {
+      return [...path, inherited];
+    }
+    if (!path.includes(inherited)) {
+      const cycle = findInheritanceCycle(policy, start, [...path, inherited]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,105 @@
+import type { VerifiedIdToken } from '../../backend/core/auth-backend.interface';
+import { AuthPolicy, AuthPolicyResource } from './auth-policy.interface';
+import { AuthPolicyEngine, findAuthPolicyProblems } from './auth-policy-engine';
+
+// One expectation about the policy: whether subject gets permission on
+// resource.
+export type AuthPolicyTestCase<TPermission extends string = string> = {
+  subject: VerifiedIdToken;
+  permission: TPermission;
+  resource?: AuthPolicyResource;
+  allowed: boolean;
+};
+
+function getErrorCode(result: { unwrapOrThrow: () => unknown }): string {
+  try {
+    result.unwrapOrThrow();
+  } catch (error) {
+    return (error as { code: string }).code;
+  }
+  throw new Error('Result is not an error');
+}
+
+function describeCase(testCase: AuthPolicyTestCase): string {
+  const roles = JSON.stringify(testCase.subject.claims);
+  const owner = testCase.resource?.ownerUid;
+  const on = owner === undefined ? '' : ` on a resource owned by ${owner}`;
+  return `should ${testCase.allowed ? 'allow' : 'forbid'} ${testCase.permission} for ${testCase.subject.uid} ${roles}${on}`;
+}
+
+/**
+ * Test suite for AuthPolicy definitions.
+ * Run it with the policy of your application and the access you expect, so a
+ * change to the policy that widens or narrows access fails a test.
+ */
+export function testAuthPolicy<
+  TPermission extends string,
+  TRole extends string,
+>(
+  policy: AuthPolicy<TPermission, TRole>,
+  cases: ReadonlyArray<AuthPolicyTestCase<TPermission>>,
+): void {
+  describe('AuthPolicy definition tests', () => {
+    const engine = new AuthPolicyEngine(policy);
+
+    it('should only reference declared permissions and roles, without cycles', () => {
+      expect(findAuthPolicyProblems(policy)).toEqual([]);
+    });
+
+    it('should grant nothing to a subject without roles', () => {
+      const subject = { uid: 'policy-test-no-roles', claims: {} };
+
+      for (const permission of policy.permissions) {
+        const decision = engine.explain({ subject, permission });
+        expect(decision.allowed).toBe(false);
+      }
+    });
+
+    it('should grant every permission of a role to its holders', () => {
+      for (const role of Object.keys(policy.roles) as TRole[]) {
+        const subject = {
+          uid: 'policy-test-role-holder',
+          claims: { [policy.roleClaim ?? 'roles']: [role] },
+        };
+        for (const permission of policy.roles[role].grants) {
+          const decision = engine.explain({ subject, permission });
+          expect(decision.matches).toContainEqual(
+            expect.objectContaining({ rule: 'role', role }),
+          );
+        }
+      }
+    });
+
+    it('should grant owners their permissions on their own resources only', () => {
+      const subject = { uid: 'policy-test-owner', claims: {} };
+
+      for (const permission of policy.ownerGrants ?? []) {
+        const own = engine.explain({
+          subject,
+          permission,
+          resource: { ownerUid: subject.uid },
+        });
+        const other = engine.explain({
+          subject,
+          permission,
+          resource: { ownerUid: 'policy-test-someone-else' },
+        });
+        expect(own.matches).toEqual([{ rule: 'owner' }]);
+        expect(other.allowed).toBe(false);
+      }
+    });
+
+    for (const testCase of cases) {
+      it(describeCase(testCase), () => {
+        const result = engine.authorize(testCase);
+
+        if (testCase.allowed) {
+          expect(result.unwrapOrThrow().matches.length).toBeGreaterThan(0);
+        } else {
+          expect(getErrorCode(result)).toBe('forbidden');
+          expect(engine.explain(testCase).matches).toEqual([]);
+        }
+      });
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import { ErrorWithCode, Result } from '@j2blasco/ts-result';
+import type { VerifiedIdToken } from '../../backend/core/auth-backend.interface';
+
+// Which permissions each role grants, as plain data so it can be reviewed and
+// tested on its own.
+export type AuthPolicy<
+  TPermission extends string = string,
+  TRole extends string = string,
+> = {
+  permissions: ReadonlyArray<TPermission>;
+  roles: {
+    [R in TRole]: {
+      grants: ReadonlyArray<TPermission>;
+      // A role has every permission of the roles it inherits.
+      inherits?: ReadonlyArray<TRole>;
+    };
+  };
+  // Permissions the owner of a resource has on it, whatever their roles.
+  ownerGrants?: ReadonlyArray<TPermission>;
+  // Custom claim holding the subject's role or roles. Defaults to 'roles'.
+  roleClaim?: string;
+};
+
+// The thing being accessed. Only its owner matters to the policy.
+export type AuthPolicyResource = { ownerUid?: string };
+
+export type AuthPolicyRequest<TPermission extends string = string> = {
+  // The authenticated user, as returned by IAuthBackend.verifyIdToken.
+  subject: VerifiedIdToken;
+  permission: TPermission;
+  resource?: AuthPolicyResource;
+};
+
+// A rule that granted the permission. For roles, path runs from the role the
+// subject holds to the role that grants the permission.
+export type AuthPolicyRuleMatch =
+  | { rule: 'role'; role: string; path: string[] }
+  | { rule: 'owner' };
+
+export type AuthPolicyDecision<TPermission extends string = string> = {
+  allowed: boolean;
+  uid: string;
+  permission: TPermission;
+  // Every rule that granted the permission. Empty when it was refused.
+  matches: AuthPolicyRuleMatch[];
+};
+
+export interface IAuthPolicyEngine<TPermission extends string = string> {
+  authorize(
+    request: AuthPolicyRequest<TPermission>,
+  ): Result<AuthPolicyDecision<TPermission>, ErrorWithCode<'forbidden'>>;
+  // Like authorize, but refused requests are answered with a decision too.
+  explain(
+    request: AuthPolicyRequest<TPermission>,
+  ): AuthPolicyDecision<TPermission>;
+}
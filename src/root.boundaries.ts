@@ -2,7 +2,20 @@ import type { Boundaries } from '@j2blasco/ts-boundaries';
 
 const boundaries: Boundaries = {
   name: 'root',
-  internal: [],
+  internal: [
+    'backend-core',
+    'backend-email-links',
+    'backend-http',
+    'backend-phone-codes',
+    'backend-providers',
+    'emulator',
+    'frontend-testing',
+    'mfa',
+    'oidc',
+    'password-hasher-providers',
+    'refresh-token-store-file',
+    'user-store-file',
+  ],
   external: ['rxjs', '@j2blasco/ts-result'],
 };
 
@@ -0,0 +1,19 @@
+import { isE164PhoneNumber } from './phone-number';
+
+describe('isE164PhoneNumber', () => {
+  it('should accept numbers in E.164 format', () => {
+    expect(isE164PhoneNumber('+14155550123')).toBe(true);
+    expect(isE164PhoneNumber('+442071838750')).toBe(true);
+    expect(isE164PhoneNumber('+861012345678901')).toBe(true);
+  });
+
+  it('should refuse numbers in any other format', () => {
+    expect(isE164PhoneNumber('14155550123')).toBe(false);
+    expect(isE164PhoneNumber('+1 415 555 0123')).toBe(false);
+    expect(isE164PhoneNumber('+1-415-555-0123')).toBe(false);
+    expect(isE164PhoneNumber('+04155550123')).toBe(false);
+    expect(isE164PhoneNumber('+1234567890123456')).toBe(false);
+    expect(isE164PhoneNumber('+1')).toBe(false);
+    expect(isE164PhoneNumber('')).toBe(false);
+  });
+});
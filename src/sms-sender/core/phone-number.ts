@@ -0,0 +1,24 @@
+import { AuthSms } from './sms-sender.interface';
+import { IClock, systemClock } from '../../clock/clock';
+
+// A plus, a country code that does not start with 0, and at most 15 digits in
+// all. Spaces, dashes and parentheses are not accepted, so each number has a
+// single spelling and can be looked up as is.
+const e164Pattern = /^\+[1-9]\d{1,14}$/;
+
+export function isE164PhoneNumber(phoneNumber: string): boolean {
+  return e164Pattern.test(phoneNumber);
+}
+
+// English text for an SMS, for senders without wording of their own. The clock
+// should be the one the code's expiry was set with.
+export function renderAuthSms(
+  sms: AuthSms,
+  clock: IClock = systemClock,
+): string {
+  const minutes = Math.max(
+    1,
+    Math.round((sms.expiresAt - clock.now()) / 60000),
+  );
+  return `${sms.code} is your verification code. It expires in ${minutes} minute${minutes === 1 ? '' : 's'}. Do not share it with anyone.`;
+}
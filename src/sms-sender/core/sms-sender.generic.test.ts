@@ -0,0 +1,29 @@
+import { ISmsSender } from './sms-sender.interface';
+
+/**
+ * Comprehensive test suite for ISmsSender implementations.
+ * Run this against any implementation to verify it satisfies the interface contract.
+ */
+export function testSmsSender(smsSender: ISmsSender): void {
+  describe('ISmsSender implementation tests', () => {
+    const to = '+15555550100';
+    const expiresAt = Date.now() + 5 * 60 * 1000;
+
+    it('should send a code', async () => {
+      const result = await smsSender.send({ to, code: '123456', expiresAt });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+
+    it('should send a code for a locale it has no wording for', async () => {
+      const result = await smsSender.send({
+        to,
+        locale: 'xx-YY',
+        code: '123456',
+        expiresAt,
+      });
+
+      expect(() => result.unwrapOrThrow()).not.toThrow();
+    });
+  });
+}
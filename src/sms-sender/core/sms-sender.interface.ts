@@ -0,0 +1,19 @@
+import { ErrorUnknown, Result } from '@j2blasco/ts-result';
+
+// A one-time code that signs the user in with, or links, the phone number it
+// was sent to.
+export type AuthSms = {
+  // E.164, e.g. +14155550123.
+  to: string;
+  // BCP 47 tag such as 'fr' or 'pt-BR'. Senders fall back to their default
+  // wording when it is missing or unsupported.
+  locale?: string;
+  code: string;
+  expiresAt: number;
+};
+
+// Text messages for auth flows. Implementations word the message, e.g. with
+// renderAuthSms, and hand it to an SMS gateway.
+export interface ISmsSender {
+  send(sms: AuthSms): Promise<Result<void, ErrorUnknown>>;
+}
@@ -0,0 +1,54 @@
+import { testSmsSender } from '../../core/sms-sender.generic.test';
+import { InMemorySmsSender } from './sms-sender.memory';
+
+describe('InMemorySmsSender', () => {
+  testSmsSender(new InMemorySmsSender());
+
+  describe('InMemorySmsSender specific features', () => {
+    const expiresAt = Date.now() + 5 * 60 * 1000;
+    let smsSender: InMemorySmsSender;
+
+    beforeEach(() => {
+      smsSender = new InMemorySmsSender();
+    });
+
+    it('should keep sent messages by recipient', async () => {
+      await smsSender.send({ to: '+15555550100', code: '111111', expiresAt });
+      await smsSender.send({ to: '+15555550101', code: '222222', expiresAt });
+      await smsSender.send({ to: '+15555550100', code: '333333', expiresAt });
+
+      expect(smsSender.outbox.length).toBe(3);
+      expect(smsSender.getMessages('+15555550100').length).toBe(2);
+      expect(smsSender.getLastCode('+15555550100')).toBe('333333');
+    });
+
+    it('should render the code into the text', async () => {
+      await smsSender.send({ to: '+15555550100', code: '123456', expiresAt });
+
+      expect(smsSender.getLastMessage('+15555550100')?.text).toBe(
+        '123456 is your verification code. It expires in 5 minutes. Do not share it with anyone.',
+      );
+    });
+
+    it('should use a custom rendering', async () => {
+      smsSender = new InMemorySmsSender({
+        render: (sms) => `Code: ${sms.code}`,
+      });
+
+      await smsSender.send({ to: '+15555550100', code: '123456', expiresAt });
+
+      expect(smsSender.getLastMessage('+15555550100')?.text).toBe(
+        'Code: 123456',
+      );
+    });
+
+    it('should forget sent messages on clear', async () => {
+      await smsSender.send({ to: '+15555550100', code: '123456', expiresAt });
+
+      smsSender.clear();
+
+      expect(smsSender.outbox).toEqual([]);
+      expect(smsSender.getLastCode('+15555550100')).toBeUndefined();
+    });
+  });
+});
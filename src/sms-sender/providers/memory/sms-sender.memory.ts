@@ -0,0 +1,63 @@
+import { ErrorUnknown, Result, resultSuccessVoid } from '@j2blasco/ts-result';
+import { AuthSms, ISmsSender } from '../../core/sms-sender.interface';
+import { renderAuthSms } from '../../core/phone-number';
+import { IClock, systemClock } from '../../../clock/clock';
+
+export type InMemorySmsSenderOptions = {
+  // Defaults to renderAuthSms.
+  render?: (sms: AuthSms) => string;
+  // Dates sent messages. Share the backend's clock so the default text says
+  // how long the code works.
+  clock?: IClock;
+};
+
+export type AuthOutboxSms = AuthSms & {
+  text: string;
+  sentAt: number;
+};
+
+/**
+ * Keeps every SMS in an outbox instead of delivering it, so tests can read the
+ * code a user would have received and type it in.
+ */
+export class InMemorySmsSender implements ISmsSender {
+  private readonly render: (sms: AuthSms) => string;
+  private readonly clock: IClock;
+  private readonly messages: AuthOutboxSms[] = [];
+
+  constructor(options: InMemorySmsSenderOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.render = options.render ?? ((sms) => renderAuthSms(sms, this.clock));
+  }
+
+  public async send(sms: AuthSms): Promise<Result<void, ErrorUnknown>> {
+    this.messages.push({
+      ...sms,
+      text: this.render(sms),
+      sentAt: this.clock.now(),
+    });
+    return resultSuccessVoid();
+  }
+
+  // Oldest first.
+  public get outbox(): ReadonlyArray<AuthOutboxSms> {
+    return this.messages;
+  }
+
+  public getMessages(to: string): AuthOutboxSms[] {
+    return this.messages.filter((sms) => sms.to === to);
+  }
+
+  public getLastMessage(to: string): AuthOutboxSms | undefined {
+    return this.getMessages(to).at(-1);
+  }
+
+  // The code of the last SMS sent to the number.
+  public getLastCode(to: string): string | undefined {
+    return this.getLastMessage(to)?.code;
+  }
+
+  public clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,41 @@
+import { ErrorWithCode, Result, resultError } from '@j2blasco/ts-result';
+
+export type UnwrappedResult<T, E> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+/**
+ * Turns a Result into a discriminated union so callers can branch on the
+ * error without a try/catch around every unwrapOrThrow.
+ */
+export function unwrapResult<T, E>(
+  result: Result<T, E>,
+): UnwrappedResult<T, E> {
+  try {
+    return { ok: true, value: result.unwrapOrThrow() };
+  } catch (error) {
+    return { ok: false, error: error as E };
+  }
+}
+
+/**
+ * resultError.withCode only takes a code. This adds details to the error it
+ * holds, for errors the caller can act on, such as the rules a password
+ * failed.
+ */
+export function resultErrorWithDetails<
+  TCode extends string,
+  TDetails extends object,
+>(
+  code: TCode,
+  details: TDetails,
+): Result<never, ErrorWithCode<TCode> & TDetails> {
+  const result: Result<never, ErrorWithCode<TCode>> = resultError.withCode(
+    code,
+  );
+  const unwrapped = unwrapResult<never, ErrorWithCode<TCode>>(result);
+  if (!unwrapped.ok) {
+    Object.assign(unwrapped.error, details);
+  }
+  return result as Result<never, ErrorWithCode<TCode> & TDetails>;
+}